@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Gauge } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Header } from "@/components/layout/header"
+import { ReliabilityChart } from "@/components/analytics/reliability-chart"
+import type { CalibrationSegment } from "@/lib/confidence-calibration"
+import { format, parseISO } from "date-fns"
+
+interface CalibrationReport {
+  fittedAt: string | null
+  minSamples: number
+  segments: CalibrationSegment[]
+}
+
+function describeSegment(segment: CalibrationSegment): string {
+  if (!segment.mood) return "All moods"
+  const mood = segment.mood.charAt(0).toUpperCase() + segment.mood.slice(1)
+  return segment.sourceMix ? `${mood} · ${segment.sourceMix.split("+").join(", ")}` : mood
+}
+
+export default function AnalyticsPage() {
+  const { status } = useSession()
+  const router = useRouter()
+
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = encodeURIComponent("/analytics")
+      router.replace(`/auth/signin?callbackUrl=${callbackUrl}`)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    const loadCalibration = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch("/api/analytics/calibration", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        setReport(await response.json())
+        setHasError(false)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load calibration:", error)
+        setHasError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadCalibration()
+  }, [status])
+
+  if (status === "loading") {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-sm text-text-muted">Loading...</div>
+      </div>
+    )
+  }
+
+  const selected = report?.segments.find((segment) => segment.key === selectedKey) ?? report?.segments[0] ?? null
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Header />
+
+      <div className="border-b border-border p-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/onboarding">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 md:px-6">
+        <div className="mb-8">
+          <div className="mb-2 flex items-center gap-3">
+            <Gauge className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-semibold">Confidence calibration</h1>
+          </div>
+          <p className="text-base text-text-muted">
+            How often recommendations were rated helpful at each reported confidence level.
+            {report?.fittedAt && ` Last fitted ${format(parseISO(report.fittedAt), "MMMM d, yyyy")}.`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-text-muted">Loading calibration...</div>
+        ) : hasError ? (
+          <Card className="p-6 text-sm text-text-secondary">
+            We couldn&apos;t load the calibration data. Please try again in a moment.
+          </Card>
+        ) : report && selected ? (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {report.segments.map((segment) => (
+                <Button
+                  key={segment.key}
+                  size="sm"
+                  variant={segment.key === selected.key ? "default" : "outline"}
+                  onClick={() => setSelectedKey(segment.key)}
+                >
+                  {describeSegment(segment)}
+                </Button>
+              ))}
+            </div>
+
+            <Card className="p-6">
+              <div className="mb-4 flex items-baseline justify-between">
+                <h2 className="text-lg font-semibold">{describeSegment(selected)}</h2>
+                <span className="text-sm text-text-muted">{selected.sampleSize} ratings</span>
+              </div>
+              <ReliabilityChart bins={selected.bins} />
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="mb-3 text-lg font-semibold">Bins</h2>
+              <ul className="space-y-2 text-sm">
+                {selected.bins.map((bin) => (
+                  <li key={bin.lower} className="flex justify-between">
+                    <span>
+                      Reported {bin.lower}–{bin.upper}%
+                    </span>
+                    <span className="text-text-muted">
+                      {bin.observed}% helpful · {bin.count} {bin.count === 1 ? "rating" : "ratings"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          </div>
+        ) : report ? (
+          <Card className="p-6 text-sm text-text-secondary">
+            Not enough feedback yet. A curve is fitted once at least {report.minSamples} recommendations have been
+            rated; until then confidence is reported uncalibrated.
+          </Card>
+        ) : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  getAccountDeletion,
+  scheduleAccountDeletion,
+  verifyAccountPassword,
+} from "@/lib/account-deletion"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { accountDeletionSchema } from "@/lib/validations/account"
+
+async function getSessionUser() {
+  const session = await getServerSession(authOptions)
+  return session?.user?.id ? { id: session.user.id, email: session.user.email ?? null } : null
+}
+
+// Deletion needs the service role (auth.users and cross-table purge), so there is no anon fallback
+function getAdminClientOrError() {
+  const supabase = tryCreateAdminClient()
+  return supabase
+    ? { supabase, error: null }
+    : {
+        supabase: null,
+        error: NextResponse.json({ error: "Supabase admin credentials are not configured" }, { status: 503 }),
+      }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { supabase, error } = getAdminClientOrError()
+    if (!supabase) {
+      return error
+    }
+
+    const deletion = await getAccountDeletion(supabase, user.id)
+    return NextResponse.json({ deletion, graceDays: ACCOUNT_DELETION_GRACE_DAYS })
+  } catch (error) {
+    console.error("[mindful-ai] Account deletion status error:", error)
+    return NextResponse.json({ error: "Failed to load account deletion status" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Auth tier: this endpoint checks a password, so it gets the brute-force limits
+    const rateLimitResult = await withRateLimit(request, "auth", user.id)
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const { password } = accountDeletionSchema.parse(await request.json())
+
+    if (!user.email || !(await verifyAccountPassword(user.email, password))) {
+      return NextResponse.json({ error: "Password is incorrect" }, { status: 403 })
+    }
+
+    const { supabase, error } = getAdminClientOrError()
+    if (!supabase) {
+      return error
+    }
+
+    const deletion = await scheduleAccountDeletion(supabase, user.id)
+    console.info("[mindful-ai] Account deletion scheduled", { userId: user.id, purgeAfter: deletion.purgeAfter })
+
+    return NextResponse.json({ success: true, deletion, graceDays: ACCOUNT_DELETION_GRACE_DAYS })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid account deletion request",
+          details: error.errors.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+        },
+        { status: 400 },
+      )
+    }
+
+    console.error("[mindful-ai] Account deletion request error:", error)
+    return NextResponse.json({ error: "Failed to schedule account deletion" }, { status: 500 })
+  }
+}
+
+// Undo during the grace period
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { supabase, error } = getAdminClientOrError()
+    if (!supabase) {
+      return error
+    }
+
+    const cancelled = await cancelAccountDeletion(supabase, user.id)
+    if (!cancelled) {
+      return NextResponse.json({ error: "No account deletion is pending" }, { status: 404 })
+    }
+
+    console.info("[mindful-ai] Account deletion cancelled", { userId: user.id })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[mindful-ai] Account deletion cancel error:", error)
+    return NextResponse.json({ error: "Failed to cancel account deletion" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { getServerSession } from "next-auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { executeAgentCommand } from "@/lib/agent-commands"
+import { AppError } from "@/lib/error-handler"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { agentCommandSchema } from "@/lib/validations/agent"
+import type { AgentCommandResponse } from "@/types/agent"
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const command = agentCommandSchema.parse(body)
+
+    const supabaseAdmin = tryCreateAdminClient()
+    const supabase = supabaseAdmin ?? (await createServerClient())
+    const data = await executeAgentCommand(command, { supabase, userId: session.user.id })
+
+    const response: AgentCommandResponse = { success: true, command: command.command, data }
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid command",
+          details: error.errors.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+        },
+        { status: 400 },
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+
+    console.error("[mindful-ai] Failed to execute agent command", error)
+    return NextResponse.json({ error: "Failed to execute command" }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { loadCalibrationModel, MIN_SEGMENT_SAMPLES } from "@/lib/confidence-calibration"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+
+// Reliability curves behind the calibrated `confidence`; the all-moods curve comes first
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const model = await loadCalibrationModel(supabase)
+
+    const segments = Object.values(model.segments).sort(
+      (a, b) =>
+        Number(a.mood !== null) - Number(b.mood !== null) ||
+        Number(a.sourceMix !== null) - Number(b.sourceMix !== null) ||
+        b.sampleSize - a.sampleSize,
+    )
+
+    return NextResponse.json(
+      { fittedAt: model.fittedAt, minSamples: MIN_SEGMENT_SAMPLES, segments },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+        },
+      },
+    )
+  } catch (error) {
+    console.error("[mindful-ai] Calibration analytics error:", error)
+    return NextResponse.json({ error: "Failed to load calibration" }, { status: 500 })
+  }
+}
@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from "next/server"
 import { z, ZodError } from "zod"
 import { withRateLimit } from "@/lib/api-middleware"
 import { inferMoodFromText } from "@/lib/empathy-agent"
+import {
+  describeEmotion,
+  EMOTION_LABELS,
+  normalizeEmotionLabel,
+  type EmotionLabel,
+  type EmotionState,
+} from "@/lib/emotion-model"
+import { completeStructured, getLLMProvider } from "@/lib/llm"
+import { imageAnalysisLLMResponseSchema } from "@/lib/validations/llm"
 
 export const runtime = "nodejs"
 
@@ -10,61 +19,19 @@ const requestSchema = z.object({
 })
 
 interface ImageAnalysis {
-  moodLabel: string
+  moodLabel: EmotionLabel
+  emotion: EmotionState
   confidence: number
   emotions: string[]
   summary: string
+  warnings?: string[]
 }
 
-const allowedMoods = new Set(["anxious", "happy", "sad", "tired", "stressed", "excited"])
-
-const moodAliasMap: Record<string, string> = {
-  nervous: "anxious",
-  worried: "anxious",
-  uneasy: "anxious",
-  overwhelmed: "anxious",
-  tense: "anxious",
-  calm: "happy",
-  relaxed: "happy",
-  neutral: "tired",
-  peaceful: "happy",
-  content: "happy",
-  joyful: "happy",
-  smiling: "happy",
-  delighted: "happy",
-  serene: "happy",
-  gloomy: "sad",
-  melancholic: "sad",
-  blue: "sad",
-  downcast: "sad",
-  exhausted: "tired",
-  sleepy: "tired",
-  drained: "tired",
-  fatigued: "tired",
-  burnedout: "tired",
-  angry: "stressed",
-  frustrated: "stressed",
-  irritated: "stressed",
-  pressured: "stressed",
-  hyped: "excited",
-  energized: "excited",
-  thrilled: "excited",
-  excited: "excited",
-  playful: "excited",
-  bored: "tired",
-}
-
-function normalizeMoodLabel(rawLabel: unknown, context?: string): string {
-  if (typeof rawLabel === "string") {
-    const lowered = rawLabel.toLowerCase().trim()
-    if (allowedMoods.has(lowered)) {
-      return lowered
-    }
-
-    const aliasKey = lowered.replace(/[\s-]/g, "")
-    if (moodAliasMap[aliasKey]) {
-      return moodAliasMap[aliasKey]
-    }
+// Known labels and near-synonyms resolve directly; anything else is read from the summary
+function normalizeMoodLabel(rawLabel: unknown, context?: string): EmotionLabel {
+  const label = normalizeEmotionLabel(rawLabel)
+  if (label) {
+    return label
   }
 
   if (typeof context === "string" && context.trim().length > 0) {
@@ -86,65 +53,37 @@ function normalizeEmotions(emotions: unknown): string[] {
 }
 
 async function analyzeImage(url: string): Promise<ImageAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured")
-  }
+  const warnings: string[] = []
 
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
+  const { data } = await completeStructured({
+    provider: getLLMProvider(),
+    method: "vision",
+    request: {
+      task: "image-analysis",
       temperature: 0.2,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content:
-            "You analyze a user's selfie or mood snapshot. Always output strict JSON with keys: moodLabel (choose exactly from anxious, happy, sad, tired, stressed, excited), confidence (0-100 number), emotions (array of <=5 lowercase descriptors), summary (<= 120 characters, compassionate tone). Focus on emotional cues from facial expression, posture, and lighting. Avoid appearance commentary. If unsure, select tired as the closest calm baseline.",
-        },
-        {
-          role: "user",
-          content: [
-            { type: "text", text: "Assess the emotional tone in this image." },
-            { type: "image_url", image_url: { url } },
-          ],
-        },
-      ],
-    }),
+      system: `You analyze a user's selfie or mood snapshot. Always output strict JSON with keys: moodLabel (choose exactly from ${EMOTION_LABELS.join(", ")}), confidence (0-100 number), emotions (array of <=5 lowercase descriptors), summary (<= 120 characters, compassionate tone). Focus on emotional cues from facial expression, posture, and lighting. Avoid appearance commentary. If unsure, select tired as the closest neutral baseline.`,
+      prompt: "Assess the emotional tone in this image.",
+      imageUrl: url,
+    },
+    schema: imageAnalysisLLMResponseSchema,
+    fallback: {
+      moodLabel: "tired",
+      confidence: 55,
+      emotions: [],
+      summary: "Image captured. We'll consider it alongside your reflections.",
+    },
+    warnings,
   })
 
-  if (!response.ok) {
-    const errorBody = await response.json().catch(() => ({}))
-    throw new Error(errorBody.error?.message || "OpenAI vision analysis failed")
-  }
-
-  const payload = await response.json()
-  let parsed: Partial<ImageAnalysis> = {}
-  try {
-    parsed = JSON.parse(payload.choices?.[0]?.message?.content ?? "{}")
-  } catch {
-    parsed = {}
-  }
-
-  const normalizedLabel = normalizeMoodLabel(parsed.moodLabel, parsed.summary)
-  const normalizedEmotions = normalizeEmotions(parsed.emotions)
-  const summaryText =
-    typeof parsed.summary === "string"
-      ? parsed.summary
-      : "Image captured. We'll consider it alongside your reflections."
+  const moodLabel = normalizeMoodLabel(data.moodLabel, data.summary)
 
   return {
-    moodLabel: normalizedLabel,
-    confidence:
-      typeof parsed.confidence === "number" && !Number.isNaN(parsed.confidence)
-        ? Math.max(0, Math.min(100, parsed.confidence))
-        : 55,
-    emotions: normalizedEmotions,
-    summary: summaryText,
+    moodLabel,
+    emotion: describeEmotion(moodLabel),
+    confidence: data.confidence,
+    emotions: normalizeEmotions(data.emotions),
+    summary: data.summary,
+    warnings: warnings.length ? warnings : undefined,
   }
 }
 
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
 import { z, ZodError } from "zod"
 import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
 import { inferMoodFromText } from "@/lib/empathy-agent"
+import { coordinatesFromScores, describeEmotion, EMOTION_LABELS, type EmotionState } from "@/lib/emotion-model"
+import { completeStructured, getLLMProvider } from "@/lib/llm"
+import { createRedactor, loadRedactionOptions, logRedactions, type RedactionOptions } from "@/lib/pii-redaction"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { textAnalysisLLMResponseSchema, type TextAnalysisLLMResponse } from "@/lib/validations/llm"
 
 export const runtime = "nodejs"
 
@@ -9,109 +17,76 @@ const requestSchema = z.object({
   text: z.string().min(1).max(4000),
 })
 
-interface TextAnalysis {
-  moodLabel: string
-  moodScore: number
-  energyLevel: number
-  emotions: string[]
-  summary: string
-  confidence: number
+interface TextAnalysis extends TextAnalysisLLMResponse {
+  emotion: EmotionState
+  warnings?: string[]
 }
 
-const MOOD_LABELS = ["anxious", "happy", "sad", "tired", "stressed", "excited"] as const
-
-async function classifyText(text: string): Promise<TextAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured")
+function withEmotion(analysis: TextAnalysisLLMResponse): Omit<TextAnalysis, "warnings"> {
+  return {
+    ...analysis,
+    emotion: describeEmotion(analysis.moodLabel, coordinatesFromScores(analysis.moodScore, analysis.energyLevel)),
   }
+}
 
+async function classifyText(text: string, redaction?: RedactionOptions): Promise<TextAnalysis> {
   const trimmed = text.trim()
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
+  const warnings: string[] = []
+  const redactor = createRedactor(redaction)
+  const redactedText = redactor.redact(trimmed)
+  logRedactions("text-analysis", redactor)
+
+  const { data } = await completeStructured({
+    provider: getLLMProvider(),
+    method: "chatJson",
+    request: {
+      task: "text-analysis",
       temperature: 0.2,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content:
-            "You analyze how someone is feeling from a short text reflection. Return JSON with fields: moodLabel (one of anxious, happy, sad, tired, stressed, excited), moodScore (1-10), energyLevel (1-10), emotions (array of up to 5 lowercase descriptors), summary (<=120 characters, empathetic tone), confidence (0-100).",
-        },
-        {
-          role: "user",
-          content: `Reflect on this text and classify the emotional state:\n"""${trimmed}"""`,
-        },
-      ],
-    }),
+      system: `You analyze how someone is feeling from a short text reflection. Return JSON with fields: moodLabel (one of ${EMOTION_LABELS.join(", ")}), moodScore (1-10), energyLevel (1-10), emotions (array of up to 5 lowercase descriptors), summary (<=120 characters, empathetic tone), confidence (0-100).`,
+      prompt: `Reflect on this text and classify the emotional state:\n"""${redactedText}"""`,
+    },
+    schema: textAnalysisLLMResponseSchema,
+    fallback: buildFallback(trimmed),
+    warnings,
   })
 
-  if (!response.ok) {
-    throw new Error("OpenAI text analysis failed")
-  }
-
-  const payload = await response.json()
-  const raw = payload.choices?.[0]?.message?.content ?? "{}"
-
-  let parsed: Partial<TextAnalysis> = {}
-  try {
-    parsed = JSON.parse(raw)
-  } catch {
-    parsed = {}
-  }
-
-  const fallback = inferMoodFromText(trimmed)
-
-  const normalizedLabel = typeof parsed.moodLabel === "string" ? parsed.moodLabel.toLowerCase() : ""
-  const moodLabel = MOOD_LABELS.includes(normalizedLabel as (typeof MOOD_LABELS)[number])
-    ? normalizedLabel
-    : fallback.mood
-
   return {
-    moodLabel,
-    moodScore:
-      typeof parsed.moodScore === "number" && !Number.isNaN(parsed.moodScore) ? parsed.moodScore : fallback.score,
-    energyLevel:
-      typeof parsed.energyLevel === "number" && !Number.isNaN(parsed.energyLevel) ? parsed.energyLevel : 5,
-    emotions: Array.isArray(parsed.emotions) ? parsed.emotions.map((emotion: string) => emotion.toLowerCase()) : fallback.emotions,
-    summary:
-      typeof parsed.summary === "string" && parsed.summary.length > 0
-        ? parsed.summary
-        : "We captured your reflection and will tailor recommendations accordingly.",
-    confidence:
-      typeof parsed.confidence === "number" && !Number.isNaN(parsed.confidence)
-        ? Math.max(40, Math.min(100, Math.round(parsed.confidence)))
-        : 60,
+    ...withEmotion(redactor.rehydrate(data)),
+    confidence: Math.max(40, Math.min(100, Math.round(data.confidence))),
+    warnings: warnings.length ? warnings : undefined,
   }
 }
 
 function buildFallback(text: string): TextAnalysis {
   const trimmed = text.trim()
   if (trimmed.length === 0) {
-    return {
+    return withEmotion({
       moodLabel: "tired",
       moodScore: 5,
       energyLevel: 5,
       emotions: [],
       summary: "You shared a quick update. We'll keep checking in as you add more detail.",
       confidence: 50,
-    }
+    })
   }
 
   const inference = inferMoodFromText(trimmed)
-  return {
+  return withEmotion({
     moodLabel: inference.mood,
     moodScore: inference.score,
     energyLevel: 5,
     emotions: inference.emotions,
     summary: "Captured your note and added it to your check-in history.",
     confidence: 55,
+  })
+}
+
+async function resolveRedaction(): Promise<RedactionOptions | undefined> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return undefined
   }
+  return loadRedactionOptions(tryCreateAdminClient() ?? (await createServerClient()), session.user.id, session.user.name)
 }
 
 export async function POST(request: NextRequest) {
@@ -128,7 +103,7 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      const analysis = await classifyText(text)
+      const analysis = await classifyText(text, await resolveRedaction())
       return NextResponse.json(analysis)
     } catch (error) {
       console.error("[mindful-ai] Primary text analysis failed, using fallback:", error)
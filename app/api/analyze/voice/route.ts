@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
 import { z, ZodError } from "zod"
 import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
 import { inferMoodFromText } from "@/lib/empathy-agent"
+import { coordinatesFromScores, describeEmotion, EMOTION_LABELS, type EmotionState } from "@/lib/emotion-model"
+import { completeStructured, getLLMProvider } from "@/lib/llm"
+import { createRedactor, loadRedactionOptions, logRedactions, type RedactionOptions } from "@/lib/pii-redaction"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { voiceAnalysisLLMResponseSchema, type VoiceAnalysisLLMResponse } from "@/lib/validations/llm"
 import { Buffer } from "node:buffer"
 
 export const runtime = "nodejs"
@@ -10,19 +18,21 @@ const requestSchema = z.object({
   audioUrl: z.string().url(),
 })
 
-interface VoiceAnalysis {
+interface VoiceAnalysis extends VoiceAnalysisLLMResponse {
   transcript: string
-  moodLabel: string
-  moodScore: number
-  energyLevel: number
-  emotions: string[]
-  summary: string
+  emotion: EmotionState
+  warnings?: string[]
 }
 
-async function transcribeAudio(url: string): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured")
+function withEmotion(analysis: VoiceAnalysisLLMResponse): Omit<VoiceAnalysis, "transcript" | "warnings"> {
+  return {
+    ...analysis,
+    emotion: describeEmotion(analysis.moodLabel, coordinatesFromScores(analysis.moodScore, analysis.energyLevel)),
   }
+}
+
+async function transcribeAudio(url: string): Promise<string> {
+  const provider = getLLMProvider()
 
   let audioBuffer: ArrayBuffer
 
@@ -61,100 +71,53 @@ async function transcribeAudio(url: string): Promise<string> {
     }
   }
 
-  const blob = new Blob([audioBuffer], { type: contentType })
-  const file = new File([blob], "voice-note.wav", { type: contentType })
-
-  const formData = new FormData()
-  formData.append("model", "gpt-4o-mini-transcribe")
-  formData.append("file", file)
-
-  const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: formData,
+  return provider.transcribe({
+    audio: new Blob([audioBuffer], { type: contentType }),
+    filename: "voice-note.wav",
   })
-
-  if (!transcriptionResponse.ok) {
-    const errorBody = await transcriptionResponse.json().catch(() => ({}))
-    throw new Error(errorBody.error?.message || "OpenAI transcription failed")
-  }
-
-  const transcriptionData = await transcriptionResponse.json()
-  const transcript = transcriptionData.text
-
-  if (!transcript || typeof transcript !== "string") {
-    throw new Error("Transcription returned no text")
-  }
-
-  return transcript.trim()
 }
 
-async function classifyTranscript(transcript: string): Promise<VoiceAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured")
+async function classifyTranscript(transcript: string, redaction?: RedactionOptions): Promise<VoiceAnalysis> {
+  const inference = inferMoodFromText(transcript)
+  const fallback: VoiceAnalysisLLMResponse = {
+    moodLabel: inference.mood,
+    moodScore: inference.score,
+    energyLevel: 5,
+    emotions: inference.emotions,
+    summary: "Voice note captured and ready for review.",
   }
+  const warnings: string[] = []
+  const redactor = createRedactor(redaction)
+  const redactedTranscript = redactor.redact(transcript)
+  logRedactions("voice-analysis", redactor)
 
-  const classificationResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content:
-            "You analyze a short wellbeing voice note and return JSON with fields: moodLabel (anxious, happy, sad, tired, stressed, excited), moodScore (1-10), energyLevel (1-10), emotions (array of up to 5 lowercase descriptors), summary (<=120 characters, empathetic tone).",
-        },
-        {
-          role: "user",
-          content: `Here is the transcript of the voice check-in:\n"""${transcript}"""`,
-        },
-      ],
-    }),
-  })
-
-  if (!classificationResponse.ok) {
-    const inference = inferMoodFromText(transcript)
-    return {
-      transcript,
-      moodLabel: inference.mood,
-      moodScore: inference.score,
-      energyLevel: 5,
-      emotions: inference.emotions,
-      summary: "Voice note captured and ready for review.",
-    }
-  }
-
-  const payload = await classificationResponse.json()
-  let parsed: Partial<VoiceAnalysis> = {}
   try {
-    parsed = JSON.parse(payload.choices?.[0]?.message?.content ?? "{}")
-  } catch {
-    parsed = {}
+    const { data } = await completeStructured({
+      provider: getLLMProvider(),
+      method: "chatJson",
+      request: {
+        task: "voice-analysis",
+        temperature: 0.2,
+        system: `You analyze a short wellbeing voice note and return JSON with fields: moodLabel (${EMOTION_LABELS.join(", ")}), moodScore (1-10), energyLevel (1-10), emotions (array of up to 5 lowercase descriptors), summary (<=120 characters, empathetic tone).`,
+        prompt: `Here is the transcript of the voice check-in:\n"""${redactedTranscript}"""`,
+      },
+      schema: voiceAnalysisLLMResponseSchema,
+      fallback,
+      warnings,
+    })
+    return { transcript, ...withEmotion(redactor.rehydrate(data)), warnings: warnings.length ? warnings : undefined }
+  } catch (error) {
+    console.error("[mindful-ai] Voice classification failed, using fallback:", error)
+    return { transcript, ...withEmotion(fallback) }
   }
+}
 
-  const fallback = inferMoodFromText(transcript)
-
-  const normalizedLabel =
-    typeof parsed.moodLabel === "string" ? parsed.moodLabel.toLowerCase() : fallback.mood
-
-  return {
-    transcript,
-    moodLabel: normalizedLabel,
-    moodScore:
-      typeof parsed.moodScore === "number" && !Number.isNaN(parsed.moodScore) ? parsed.moodScore : fallback.score,
-    energyLevel:
-      typeof parsed.energyLevel === "number" && !Number.isNaN(parsed.energyLevel) ? parsed.energyLevel : 5,
-    emotions: Array.isArray(parsed.emotions) ? parsed.emotions : fallback.emotions,
-    summary: typeof parsed.summary === "string" ? parsed.summary : "Voice note captured and ready for review.",
+async function resolveRedaction(): Promise<RedactionOptions | undefined> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return undefined
   }
+  return loadRedactionOptions(tryCreateAdminClient() ?? (await createServerClient()), session.user.id, session.user.name)
 }
 
 export async function POST(request: NextRequest) {
@@ -166,7 +129,7 @@ export async function POST(request: NextRequest) {
 
     const body = requestSchema.parse(await request.json())
     const transcript = await transcribeAudio(body.audioUrl)
-    const analysis = await classifyTranscript(transcript)
+    const analysis = await classifyTranscript(transcript, await resolveRedaction())
 
     return NextResponse.json(analysis)
   } catch (error) {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+import { withRateLimit } from "@/lib/api-middleware"
+import {
+  loadAssessmentResults,
+  saveAssessmentResult,
+  scoreAssessment,
+  summarizeAssessmentTrends,
+  symptomRatingsFromAssessments,
+} from "@/lib/assessments"
+import { authOptions } from "@/lib/auth"
+import { assessCrisisRisk, getCrisisSupport, recordCrisisAlert } from "@/lib/crisis-safety"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { assessmentSubmissionSchema } from "@/lib/validations/assessment"
+
+// Per-instrument trends: latest score, change since last time, history and whether it is due again
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const results = await loadAssessmentResults(supabase, session.user.id)
+
+    return NextResponse.json({ success: true, trends: summarizeAssessmentTrends(results) })
+  } catch (error) {
+    console.error("[mindful-ai] Assessment history error:", error)
+    return NextResponse.json({ error: "Unable to fetch assessments" }, { status: 500 })
+  }
+}
+
+// Scores a completed instrument server-side and stores the item answers
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { instrument, answers } = assessmentSubmissionSchema.parse(await request.json())
+    const score = scoreAssessment(instrument, answers)
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const result = await saveAssessmentResult(supabase, session.user.id, answers, score)
+
+    // A positive PHQ-9 item 9 gets the same screening and crisis card as a check-in
+    const crisisAssessment = assessCrisisRisk({
+      suicideTrends: symptomRatingsFromAssessments({ [instrument]: score }).suicideTrends,
+    })
+    if (crisisAssessment.isCrisis) {
+      try {
+        await recordCrisisAlert(supabase, session.user.id, crisisAssessment)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to record crisis alert:", error)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      score,
+      crisis: crisisAssessment.isCrisis
+        ? getCrisisSupport(crisisAssessment, request.headers.get("accept-language"))
+        : undefined,
+    })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid assessment data", details: error.errors }, { status: 400 })
+    }
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: "Invalid assessment data", details: error.message }, { status: 400 })
+    }
+
+    console.error("[mindful-ai] Assessment submission error:", error)
+    return NextResponse.json({ error: "Unable to save assessment" }, { status: 500 })
+  }
+}
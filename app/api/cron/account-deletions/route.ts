@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { del, list } from "@vercel/blob"
+import { purgeDueAccountDeletions, type BlobStore } from "@/lib/account-deletion"
+import { withCronAuth } from "@/lib/api-middleware"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+
+export const runtime = "nodejs"
+
+// Without a Blob token uploads were stored inline as data URLs, so there is nothing to clean up
+function getBlobStore(): BlobStore | null {
+  if (!process.env.BLOB_READ_WRITE_TOKEN) {
+    return null
+  }
+  return {
+    list: (options) => list(options),
+    del: (urls) => del(urls),
+  }
+}
+
+// Invoked daily by an external cron with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const cronAuthResult = withCronAuth(request)
+  if (cronAuthResult) {
+    return cronAuthResult
+  }
+
+  const supabase = tryCreateAdminClient()
+  if (!supabase) {
+    return NextResponse.json({ error: "Supabase admin credentials are not configured" }, { status: 503 })
+  }
+
+  try {
+    const result = await purgeDueAccountDeletions(supabase, getBlobStore())
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("[mindful-ai] Account purge run failed", error)
+    return NextResponse.json({ error: "Failed to purge deleted accounts" }, { status: 500 })
+  }
+}
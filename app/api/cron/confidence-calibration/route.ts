@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { withCronAuth } from "@/lib/api-middleware"
+import { runCalibrationFit } from "@/lib/confidence-calibration"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+
+export const runtime = "nodejs"
+
+// Invoked daily by an external cron with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const cronAuthResult = withCronAuth(request)
+  if (cronAuthResult) {
+    return cronAuthResult
+  }
+
+  const supabase = tryCreateAdminClient()
+  if (!supabase) {
+    return NextResponse.json({ error: "Supabase admin credentials are not configured" }, { status: 503 })
+  }
+
+  try {
+    const result = await runCalibrationFit(supabase)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("[mindful-ai] Confidence calibration run failed", error)
+    return NextResponse.json({ error: "Failed to fit confidence calibration" }, { status: 500 })
+  }
+}
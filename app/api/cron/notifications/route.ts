@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { withCronAuth } from "@/lib/api-middleware"
+import { getDeliveryAdapter } from "@/lib/delivery-adapters"
+import { runScheduledDeliveries } from "@/lib/scheduler"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+
+// Invoked by an external cron (e.g. every 15 minutes) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  const cronAuthResult = withCronAuth(request)
+  if (cronAuthResult) {
+    return cronAuthResult
+  }
+
+  const supabase = tryCreateAdminClient()
+  if (!supabase) {
+    return NextResponse.json({ error: "Supabase admin credentials are not configured" }, { status: 503 })
+  }
+
+  try {
+    const adapter = getDeliveryAdapter()
+    const result = await runScheduledDeliveries(supabase, adapter, {
+      appUrl: process.env.NEXTAUTH_URL ?? request.nextUrl.origin,
+    })
+
+    return NextResponse.json({ success: true, transport: adapter.name, ...result })
+  } catch (error) {
+    console.error("[mindful-ai] Scheduled delivery run failed", error)
+    return NextResponse.json({ error: "Failed to run scheduled deliveries" }, { status: 500 })
+  }
+}
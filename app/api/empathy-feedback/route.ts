@@ -2,13 +2,23 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { describeEmotion, normalizeEmotionLabel, toLegacyMood } from "@/lib/emotion-model";
 import { tryCreateAdminClient } from "@/lib/supabase/admin";
 import { createClient as createServerClient } from "@/lib/supabase/server";
 
 const feedbackSchema = z.object({
   mood: z.string(),
+  emotion: z
+    .object({
+      valence: z.number().min(-1).max(1),
+      arousal: z.number().min(-1).max(1),
+    })
+    .optional(),
   feedback: z.enum(["helpful", "not_helpful"]),
   confidence: z.number().optional(),
+  // Uncalibrated score and input sources of the rated response, used to refit the calibration
+  rawConfidence: z.number().min(0).max(100).optional(),
+  sourceMix: z.string().max(100).optional(),
   timestamp: z.string(),
 });
 
@@ -36,12 +46,21 @@ export async function POST(request: NextRequest) {
 
     const supabase = await getSupabaseClient();
 
+    // detected_mood stays on the legacy labels so existing stats keep grouping the same way
+    const label = normalizeEmotionLabel(validated.mood);
+    const emotion = label ? (validated.emotion ?? describeEmotion(label)) : validated.emotion;
+
     // Store feedback
     const { error } = await supabase.from("empathy_feedback").insert({
       user_id: session.user.id,
-      detected_mood: validated.mood,
+      detected_mood: label ? toLegacyMood(label) : validated.mood,
+      emotion_label: label,
+      valence: emotion?.valence ?? null,
+      arousal: emotion?.arousal ?? null,
       feedback: validated.feedback,
       confidence: validated.confidence,
+      raw_confidence: validated.rawConfidence ?? null,
+      source_mix: validated.sourceMix ?? null,
       created_at: validated.timestamp,
     });
 
@@ -87,7 +106,7 @@ export async function GET() {
 
     const { data, error } = await supabase
       .from("empathy_feedback")
-      .select("detected_mood, feedback, confidence, created_at")
+      .select("detected_mood, emotion_label, valence, arousal, feedback, confidence, created_at")
       .eq("user_id", session.user.id)
       .order("created_at", { ascending: false })
       .limit(100);
@@ -113,6 +132,16 @@ export async function GET() {
         acc[f.detected_mood][feedbackType]++;
         return acc;
       }, {} as Record<string, { helpful: number; not_helpful: number }>),
+      // Rows saved before the extended labels existed fall back to their legacy mood
+      by_emotion: data.reduce((acc, f) => {
+        const key = f.emotion_label ?? f.detected_mood;
+        if (!acc[key]) {
+          acc[key] = { helpful: 0, not_helpful: 0 };
+        }
+        const feedbackType = f.feedback as "helpful" | "not_helpful";
+        acc[key][feedbackType]++;
+        return acc;
+      }, {} as Record<string, { helpful: number; not_helpful: number }>),
     };
 
     return NextResponse.json({
@@ -1,13 +1,31 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
 import {
   generateEmpathyRecommendations,
   detectMoodCategory,
   inferMoodFromText,
   type MoodCategory,
 } from "@/lib/empathy-agent"
+import { normalizeEmotionLabel } from "@/lib/emotion-model"
+import type { MoodSignal } from "@/lib/mood-fusion"
 import { empathyRecommendationSchema } from "@/lib/validations/empathy"
 import { ZodError } from "zod"
 import { withRateLimit } from "@/lib/api-middleware"
+import { loadAssessmentScores, type AssessmentScores } from "@/lib/assessments"
+import { authOptions } from "@/lib/auth"
+import { loadCalibrationModel } from "@/lib/confidence-calibration"
+import { loadContentLibrary } from "@/lib/content-library"
+import { recordCrisisAlert } from "@/lib/crisis-safety"
+import { loadRedactionOptions, type RedactionOptions } from "@/lib/pii-redaction"
+import {
+  empathyDeliveries,
+  loadRecommendationRotation,
+  recordRecommendations,
+  type RecommendationRotation,
+} from "@/lib/recommendation-history"
+import { loadRecommendationPreferences, type RecommendationPreferences } from "@/lib/recommendation-personalization"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,7 +36,6 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    console.log("[mindful-ai] Empathy API received body:", JSON.stringify(body, null, 2))
 
     // Validate input
     const validatedData = empathyRecommendationSchema.parse(body)
@@ -29,6 +46,7 @@ export async function POST(request: NextRequest) {
       emotions,
       energyLevel,
       recentMoods,
+      textInsights,
       voiceInsights,
       imageInsights,
       symptomRatings,
@@ -38,24 +56,10 @@ export async function POST(request: NextRequest) {
       presentingProblem
     } = validatedData
 
-    const normalizedVoiceMood =
-      typeof voiceInsights?.moodLabel === "string" ? voiceInsights.moodLabel.toLowerCase() : undefined
-    const normalizedImageMood =
-      typeof imageInsights?.moodLabel === "string" ? imageInsights.moodLabel.toLowerCase() : undefined
-
-    let detectedMood: string | undefined = typeof mood === "string" ? mood : undefined
     let score: number | undefined = typeof moodScore === "number" ? moodScore : undefined
     let inferredEnergy: number | undefined = typeof energyLevel === "number" ? energyLevel : undefined
     let emotionsList: string[] = Array.isArray(emotions) ? emotions.map((e) => e.toLowerCase()) : []
 
-    if (normalizedVoiceMood && !detectedMood) {
-      detectedMood = normalizedVoiceMood
-    }
-
-    if (normalizedImageMood && !detectedMood) {
-      detectedMood = normalizedImageMood
-    }
-
     if (typeof voiceInsights?.moodScore === "number" && !score) {
       score = voiceInsights.moodScore
     }
@@ -86,32 +90,49 @@ export async function POST(request: NextRequest) {
     }
 
     const combinedContext = contextSegments.join("\n")
-    console.log("[mindful-ai] Combined context:", combinedContext)
-    console.log("[mindful-ai] Detected mood before inference:", detectedMood)
+    console.log("[mindful-ai] Combined context length:", combinedContext.length)
     console.log("[mindful-ai] Emotions list:", emotionsList)
     console.log("[mindful-ai] Score:", score)
 
-    if (!detectedMood) {
-      if (typeof score === "number" && emotionsList.length > 0) {
-        detectedMood = detectMoodCategory(emotionsList, score)
-        console.log("[mindful-ai] Detected mood from emotions+score:", detectedMood)
-      } else if (combinedContext.trim().length > 0) {
-        const inference = inferMoodFromText(combinedContext)
-        detectedMood = inference.mood
-        score = score ?? inference.score
-        if (inference.emotions.length > 0) {
-          emotionsList = Array.from(new Set([...emotionsList, ...inference.emotions]))
-        }
-        console.log("[mindful-ai] Detected mood from text inference:", detectedMood)
+    // Every modality that produced a label is fused in the agent; confidences default to how
+    // reliable each analyzer usually is when the client doesn't send one
+    const signals: MoodSignal[] = []
+    const addSignal = (type: MoodSignal["type"], rawLabel: unknown, confidence: number) => {
+      const label = normalizeEmotionLabel(rawLabel)
+      if (label) {
+        signals.push({ type, label, confidence })
       }
     }
 
-    if (!detectedMood) {
-      console.error("[mindful-ai] Unable to determine mood - all detection methods failed")
-      console.error("[mindful-ai] Payload received:", JSON.stringify(validatedData, null, 2))
-      // Default to "tired" as a neutral mood instead of failing
-      detectedMood = "tired"
-      console.log("[mindful-ai] Defaulting to 'tired' mood")
+    addSignal("self-report", mood, 1)
+    if (textInsights) {
+      addSignal("text", textInsights.moodLabel, (textInsights.confidence ?? 60) / 100)
+    } else if (typeof context === "string" && context.trim().length > 0) {
+      const inference = inferMoodFromText(context)
+      // The lexicon only counts as evidence when it actually matched emotional terms
+      if (inference.emotions.length > 0) {
+        addSignal("text", inference.mood, 0.5)
+        score = score ?? inference.score
+        emotionsList = Array.from(new Set([...emotionsList, ...inference.emotions]))
+      }
+    }
+    if (voiceInsights?.moodLabel) {
+      addSignal("voice", voiceInsights.moodLabel, (voiceInsights.confidence ?? 60) / 100)
+    } else if (voiceInsights?.transcript) {
+      const inference = inferMoodFromText(voiceInsights.transcript)
+      if (inference.emotions.length > 0) {
+        addSignal("voice", inference.mood, 0.4)
+      }
+    }
+    addSignal("image", imageInsights?.moodLabel, (imageInsights?.confidence ?? 50) / 100)
+
+    // Without any labelled signal, fall back to the reported emotion tags and score
+    let detectedMood: MoodCategory = "tired"
+    if (signals.length === 0 && typeof score === "number" && emotionsList.length > 0) {
+      detectedMood = detectMoodCategory(emotionsList, score)
+      console.log("[mindful-ai] Detected mood from emotions+score:", detectedMood)
+    } else if (signals.length === 0) {
+      console.log("[mindful-ai] No mood signals found, defaulting to 'tired'")
     }
 
     if (typeof score !== "number") {
@@ -131,23 +152,63 @@ export async function POST(request: NextRequest) {
 
     const sanitizedContext = combinedContext.length > 0 ? combinedContext.slice(-2000) : uniqueEmotions.join(", ")
 
+    const session = await getServerSession(authOptions)
+    const userId = session?.user?.id
+    let redaction: RedactionOptions | undefined
+    let preferences: RecommendationPreferences | undefined
+    let rotation: RecommendationRotation | undefined
+    let assessments: AssessmentScores | undefined
+    if (userId) {
+      const supabase = tryCreateAdminClient() ?? (await createServerClient())
+      redaction = await loadRedactionOptions(supabase, userId, session?.user?.name)
+      preferences = await loadRecommendationPreferences(supabase, userId)
+      rotation = await loadRecommendationRotation(supabase, userId)
+      assessments = await loadAssessmentScores(supabase, userId)
+    }
+    // Fitted curves are shared across users; without the service role the raw score is returned
+    const admin = tryCreateAdminClient()
+    const calibration = admin ? await loadCalibrationModel(admin) : undefined
+    const content = await loadContentLibrary(admin)
+
     // Generate recommendations
-    const recommendations = await generateEmpathyRecommendations({
-      moodScore: score,
-      detectedMood: detectedMood as MoodCategory,
-      emotions: uniqueEmotions,
-      energyLevel: inferredEnergy,
-      context: sanitizedContext,
-      voiceTranscript: voiceInsights?.transcript,
-      imageMood: imageInsights?.moodLabel,
-      imageConfidence: imageInsights?.confidence,
-      // Pass therapeutic data
-      symptomRatings,
-      therapyHistory,
-      therapeuticRelationshipImportance,
-      patientReadiness,
-      presentingProblem,
-    })
+    const recommendations = await generateEmpathyRecommendations(
+      {
+        moodScore: score,
+        detectedMood,
+        signals,
+        emotions: uniqueEmotions,
+        energyLevel: inferredEnergy,
+        context: sanitizedContext,
+        voiceTranscript: voiceInsights?.transcript,
+        imageMood: imageInsights?.moodLabel,
+        imageConfidence: imageInsights?.confidence,
+        // Pass therapeutic data
+        symptomRatings,
+        assessments,
+        therapyHistory,
+        therapeuticRelationshipImportance,
+        patientReadiness,
+        presentingProblem,
+        locale: request.headers.get("accept-language") ?? undefined,
+      },
+      {
+        redaction,
+        calibration,
+        preferences,
+        content,
+        rotation,
+        onCrisis: async (assessment) => {
+          if (!userId) return
+          const supabase = tryCreateAdminClient() ?? (await createServerClient())
+          await recordCrisisAlert(supabase, userId, assessment)
+        },
+      },
+    )
+
+    if (userId) {
+      const supabase = tryCreateAdminClient() ?? (await createServerClient())
+      await recordRecommendations(supabase, userId, empathyDeliveries(recommendations))
+    }
 
     return NextResponse.json(recommendations)
   } catch (error) {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import {
+  CSV_EXPORTS,
+  buildExportArchive,
+  isCsvExportName,
+  loadUserTables,
+  toCsv,
+  type ExportTables,
+} from "@/lib/data-export"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+
+// GET /api/export downloads the full JSON archive; ?format=csv&table=mood_entries|journal_entries a single CSV
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const adminClient = tryCreateAdminClient()
+    const supabase = adminClient ?? (await createServerClient())
+    const stamp = new Date().toISOString().slice(0, 10)
+    const format = request.nextUrl.searchParams.get("format") ?? "json"
+
+    if (format === "csv") {
+      const table = request.nextUrl.searchParams.get("table")
+      if (!isCsvExportName(table)) {
+        return NextResponse.json(
+          { error: `CSV export is available for: ${Object.keys(CSV_EXPORTS).join(", ")}` },
+          { status: 400 },
+        )
+      }
+
+      const tables = await loadUserTables(supabase, userId, [table])
+      return new NextResponse(toCsv(tables[table] ?? [], CSV_EXPORTS[table]), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="mindful-ai-${table.replace("_", "-")}-${stamp}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      })
+    }
+
+    if (format !== "json") {
+      return NextResponse.json({ error: "Unsupported export format" }, { status: 400 })
+    }
+
+    const tables = (await loadUserTables(supabase, userId)) as ExportTables
+    const archive = buildExportArchive(userId, tables)
+
+    console.info("[mindful-ai] Data export generated", {
+      userId,
+      rows: Object.values(tables).reduce((total, rows) => total + rows.length, 0),
+    })
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="mindful-ai-export-${stamp}.json"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[mindful-ai] Data export error:", error)
+    return NextResponse.json({ error: "Failed to export data" }, { status: 500 })
+  }
+}
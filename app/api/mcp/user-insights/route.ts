@@ -7,6 +7,7 @@ import { createClient as createServerClient } from "@/lib/supabase/server";
 // Import the user insights function from lib
 import {
   generateUserInsights,
+  moodCategoryFromScore,
   UserInsightsInputSchema,
 } from "@/lib/mcp-tools";
 
@@ -49,7 +50,7 @@ export async function POST(request: NextRequest) {
       // Transform database entries to match schema
       body.moodHistory = (moodEntries || []).map((entry) => ({
         date: entry.date || new Date().toISOString().split("T")[0],
-        mood: detectMoodFromScore(entry.mood_score) as "anxious" | "happy" | "sad" | "tired" | "stressed" | "excited",
+        mood: moodCategoryFromScore(entry.mood_score),
         moodScore: entry.mood_score || 5,
         energyLevel: entry.energy_level || 5,
         triggers: entry.triggers || [],
@@ -135,7 +136,7 @@ export async function GET() {
     // Transform and generate insights
     const moodHistory = moodEntries.map((entry) => ({
       date: entry.date || new Date().toISOString().split("T")[0],
-      mood: detectMoodFromScore(entry.mood_score) as "anxious" | "happy" | "sad" | "tired" | "stressed" | "excited",
+      mood: moodCategoryFromScore(entry.mood_score),
       moodScore: entry.mood_score || 5,
       energyLevel: entry.energy_level || 5,
       triggers: entry.triggers || [],
@@ -162,13 +163,3 @@ export async function GET() {
     );
   }
 }
-
-// Helper function to detect mood category from score
-function detectMoodFromScore(score: number): string {
-  if (score >= 8) return "happy";
-  if (score >= 6) return "excited";
-  if (score >= 5) return "tired";
-  if (score >= 3) return "sad";
-  if (score >= 2) return "stressed";
-  return "anxious";
-}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { persistUserInsights } from "@/lib/insight-pipeline"
+import {
+  MAX_IMPORT_ROWS,
+  insertImportedEntries,
+  loadExistingEntries,
+  mapImportRecords,
+  markDuplicates,
+  parseImportContent,
+  suggestColumnMapping,
+  suggestScale,
+  type ImportedMoodEntry,
+} from "@/lib/mood-import"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { moodImportRequestSchema } from "@/lib/validations/mood-import"
+
+const PREVIEW_ROWS = 50
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const payload = moodImportRequestSchema.parse(await request.json())
+
+    let parsed
+    try {
+      parsed = parseImportContent(payload.content, payload.format)
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: parseError instanceof Error ? parseError.message : "Could not read the import file" },
+        { status: 400 },
+      )
+    }
+
+    if (parsed.records.length === 0) {
+      return NextResponse.json({ error: "The file has no rows to import" }, { status: 400 })
+    }
+    if (parsed.records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Imports are limited to ${MAX_IMPORT_ROWS} rows per file` }, { status: 400 })
+    }
+
+    const mapping = payload.mapping ?? suggestColumnMapping(parsed.columns)
+    const moodScale = payload.moodScale ?? suggestScale(parsed.records, mapping.mood)
+    const energyScale = payload.energyScale ?? suggestScale(parsed.records, mapping.energy)
+
+    const supabaseAdmin = tryCreateAdminClient()
+    const supabase = supabaseAdmin ?? (await createServerClient())
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("timezone")
+      .eq("id", session.user.id)
+      .maybeSingle()
+    const timeZone = profile?.timezone ?? null
+
+    const mapped = mapImportRecords(parsed.records, mapping, { moodScale, energyScale, timeZone })
+    const rows = markDuplicates(mapped, await loadExistingEntries(supabase, session.user.id, mapped))
+
+    const importable = rows
+      .filter((row) => row.entry && !row.duplicate)
+      .map((row) => row.entry as ImportedMoodEntry)
+
+    const summary = {
+      source: parsed.source,
+      columns: parsed.columns,
+      mapping,
+      moodScale,
+      energyScale,
+      total: rows.length,
+      valid: importable.length,
+      duplicates: rows.filter((row) => row.duplicate).length,
+      invalid: rows.filter((row) => !row.entry).length,
+    }
+
+    if (payload.dryRun) {
+      return NextResponse.json({ ...summary, rows: rows.slice(0, PREVIEW_ROWS) })
+    }
+
+    const imported = await insertImportedEntries(supabase, session.user.id, importable, timeZone)
+
+    // Same best-effort refresh as a regular check-in so insights reflect the imported history
+    let insightsCreated = 0
+    try {
+      insightsCreated = await persistUserInsights(supabase, session.user.id)
+    } catch (insightError) {
+      console.error("[mindful-ai] mood import insight generation error:", insightError)
+    }
+
+    console.info("[mindful-ai] Mood history imported", { source: parsed.source, imported })
+    return NextResponse.json({ success: true, ...summary, imported, insightsCreated }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid import request",
+          details: error.errors.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    console.error("[mindful-ai] mood import handler error:", error)
+    return NextResponse.json({ error: "Failed to import mood history" }, { status: 500 })
+  }
+}
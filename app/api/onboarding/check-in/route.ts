@@ -4,8 +4,12 @@ import { ZodError } from "zod"
 
 import { authOptions } from "@/lib/auth"
 import { withRateLimit } from "@/lib/api-middleware"
+import { persistUserInsights } from "@/lib/insight-pipeline"
+import { ONBOARDING_QUESTIONNAIRE } from "@/lib/onboarding-questionnaire"
+import { findAnswerErrors, type QuestionAnswer } from "@/lib/questionnaire"
 import { tryCreateAdminClient } from "@/lib/supabase/admin"
 import { createClient as createServerClient } from "@/lib/supabase/server"
+import { getLocalTime } from "@/lib/timezone"
 import { onboardingRequestSchema } from "@/lib/validations/onboarding"
 
 export async function POST(request: NextRequest) {
@@ -22,6 +26,26 @@ export async function POST(request: NextRequest) {
 
     const payload = onboardingRequestSchema.parse(await request.json())
 
+    // Typed answers must fit the question they answer (range, length, follow-ups)
+    const answerErrors = findAnswerErrors(
+      ONBOARDING_QUESTIONNAIRE,
+      (payload.responses ?? [])
+        .filter((item) => item.metadata?.questionnaireId === ONBOARDING_QUESTIONNAIRE.id)
+        .map((item) => ({
+          questionId: item.metadata?.questionId,
+          answer: item.metadata?.answer as QuestionAnswer | undefined,
+        })),
+    )
+    if (answerErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid onboarding payload",
+          details: answerErrors.map((issue) => ({ path: issue.questionId, message: issue.message })),
+        },
+        { status: 400 },
+      )
+    }
+
     const supabaseAdmin = tryCreateAdminClient()
     const supabase = supabaseAdmin ?? (await createServerClient())
 
@@ -34,6 +58,16 @@ export async function POST(request: NextRequest) {
         metadata: item.metadata ?? null,
       })) ?? []
 
+    // The entry belongs to the calendar day on the user's clock when they checked in, not the UTC one
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("timezone")
+      .eq("id", session.user.id)
+      .maybeSingle()
+    const timestamp = payload.moodEntry.timestamp ? new Date(payload.moodEntry.timestamp) : new Date()
+    const checkedInAt = Number.isNaN(timestamp.getTime()) ? new Date() : timestamp
+    const entryDate = getLocalTime(checkedInAt, profile?.timezone).date
+
     const sanitizedEmotions = (payload.moodEntry.emotions ?? []).map((value) => value.trim()).filter(Boolean)
     const sanitizedTriggers = (payload.moodEntry.triggers ?? []).map((value) => value.trim()).filter(Boolean)
     const sanitizedCoping = (payload.moodEntry.coping ?? []).map((value) => value.trim()).filter(Boolean)
@@ -41,8 +75,11 @@ export async function POST(request: NextRequest) {
     const { data, error } = await supabase.rpc("process_onboarding_check_in", {
       p_user_id: session.user.id,
       p_responses: responses.length > 0 ? responses : null,
+      // The RPC returns the existing entry when this submission was already processed
       p_mood_entry: {
         ...payload.moodEntry,
+        date: entryDate,
+        submissionId: payload.submissionId ?? null,
         emotions: sanitizedEmotions,
         triggers: sanitizedTriggers,
         coping: sanitizedCoping,
@@ -64,10 +101,19 @@ export async function POST(request: NextRequest) {
       console.error("[mindful-ai] onboarding profile update error:", profileError)
     }
 
+    // Insights are best-effort: a failed analysis must not fail the check-in itself
+    let insightsCreated = 0
+    try {
+      insightsCreated = await persistUserInsights(supabase, session.user.id)
+    } catch (insightError) {
+      console.error("[mindful-ai] onboarding insight generation error:", insightError)
+    }
+
     return NextResponse.json(
       {
         success: true,
         moodEntryId: data ?? null,
+        insightsCreated,
       },
       { status: 201 },
     )
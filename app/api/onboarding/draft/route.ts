@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+
+import { authOptions } from "@/lib/auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { loadOnboardingDrafts, restoreOnboardingProgress, saveOnboardingDraft } from "@/lib/onboarding-drafts"
+import { ONBOARDING_QUESTIONNAIRE } from "@/lib/onboarding-questionnaire"
+import { findAnswerErrors } from "@/lib/questionnaire"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { onboardingDraftSchema } from "@/lib/validations/onboarding"
+
+// Saved progress through the onboarding questionnaire, for resuming after a refresh
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const drafts = await loadOnboardingDrafts(supabase, session.user.id)
+
+    return NextResponse.json({ success: true, progress: restoreOnboardingProgress(ONBOARDING_QUESTIONNAIRE, drafts) })
+  } catch (error) {
+    console.error("[mindful-ai] Onboarding draft fetch error:", error)
+    return NextResponse.json({ error: "Unable to fetch onboarding progress" }, { status: 500 })
+  }
+}
+
+// Saves one answered step, replacing any earlier answer to it
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const draft = onboardingDraftSchema.parse(await request.json())
+    const questionIndex = ONBOARDING_QUESTIONNAIRE.questions.findIndex(
+      (question) => question.id === draft.metadata.questionId,
+    )
+    const [answerError] = findAnswerErrors(ONBOARDING_QUESTIONNAIRE, [draft.metadata])
+    if (
+      draft.metadata.questionnaireId !== ONBOARDING_QUESTIONNAIRE.id ||
+      questionIndex + 1 !== draft.step ||
+      answerError
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid onboarding draft",
+          details: [
+            {
+              path: draft.metadata.questionId,
+              message: answerError?.message ?? "Draft does not match the onboarding questionnaire",
+            },
+          ],
+        },
+        { status: 400 },
+      )
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    await saveOnboardingDraft(supabase, session.user.id, {
+      step: draft.step,
+      stepTitle: draft.stepTitle,
+      response: draft.response,
+      metadata: draft.metadata,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid onboarding draft",
+          details: error.errors.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      )
+    }
+
+    console.error("[mindful-ai] Onboarding draft save error:", error)
+    return NextResponse.json({ error: "Unable to save onboarding progress" }, { status: 500 })
+  }
+}
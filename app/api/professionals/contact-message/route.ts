@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { withRateLimit } from "@/lib/api-middleware"
+import { completeStructured, getLLMProvider } from "@/lib/llm"
+import { createRedactor, loadRedactionOptions, logRedactions } from "@/lib/pii-redaction"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { contactMessageLLMResponseSchema } from "@/lib/validations/llm"
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,74 +30,53 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      console.error("[mindful-ai] Missing OPENAI_API_KEY")
-      return NextResponse.json(
-        { error: "OpenAI API key not configured" },
-        { status: 500 }
-      )
-    }
-
     const userName = session.user.name || "User"
     const userEmail = session.user.email || ""
 
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const redactor = createRedactor(await loadRedactionOptions(supabase, session.user.id, session.user.name))
+    const promptName = redactor.redact(userName)
+    const promptContext = redactor.redact(typeof userContext === "string" ? userContext : undefined)
+    logRedactions("contact-message", redactor)
+
     const prompt = `You are a compassionate assistant helping a user reach out to a mental health professional.
 
-Generate a professional, warm, and respectful introductory message for ${userName} to send to ${professionalName}, a ${professionalSpecialty}.
+Generate a professional, warm, and respectful introductory message for ${promptName} to send to ${professionalName}, a ${professionalSpecialty}.
 
 The message should:
 - Be concise (3-4 sentences)
 - Express genuine interest in scheduling an initial consultation
 - Briefly mention they're seeking support (without oversharing)
 - Request information about availability and next steps
-- Be written in first person from ${userName}'s perspective
+- Be written in first person from ${promptName}'s perspective
 - Sound natural and authentic, not overly formal
 
-${userContext ? `User context: ${userContext}` : ""}
+${promptContext ? `User context: ${promptContext}` : ""}
 
 Generate only the message text, no subject line or greeting. The message should start directly with the content.`
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are a compassionate mental health communication assistant. Generate warm, professional messages for users reaching out to mental health professionals.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+    const warnings: string[] = []
+    const { data: message } = await completeStructured({
+      provider: getLLMProvider(),
+      method: "chat",
+      request: {
+        task: "contact-message",
+        system:
+          "You are a compassionate mental health communication assistant. Generate warm, professional messages for users reaching out to mental health professionals.",
+        prompt,
         temperature: 0.7,
-        max_tokens: 200,
-      }),
+        maxTokens: 200,
+      },
+      schema: contactMessageLLMResponseSchema,
+      fallback: `I'm reaching out because I'm looking for support and your work as a ${professionalSpecialty} stood out to me. I would like to schedule an initial consultation. Could you let me know your availability and what the next steps would be?`,
+      warnings,
     })
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error("[mindful-ai] OpenAI API error:", errorData)
-      throw new Error("Failed to generate contact message")
-    }
-
-    const data = await response.json()
-    const message = data.choices?.[0]?.message?.content?.trim()
-
-    if (!message) {
-      throw new Error("No message generated")
-    }
-
     return NextResponse.json({
-      message,
+      message: redactor.rehydrate(message),
       userName,
       userEmail,
+      warnings: warnings.length ? warnings : undefined,
     })
   } catch (error) {
     console.error("[mindful-ai] Error generating contact message:", error)
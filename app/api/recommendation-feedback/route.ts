@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { loadRecommendationPreferences } from "@/lib/recommendation-personalization"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { recommendationFeedbackSchema } from "@/lib/validations/empathy"
+
+// Rating an item again replaces the earlier vote
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const validated = recommendationFeedbackSchema.parse(await request.json())
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+
+    const { error } = await supabase.from("recommendation_feedback").upsert(
+      {
+        user_id: session.user.id,
+        item_id: validated.itemId,
+        item_kind: validated.kind,
+        item_title: validated.title,
+        action_type: validated.kind === "exercise" ? (validated.actionType ?? null) : null,
+        detected_mood: validated.mood ?? null,
+        feedback: validated.feedback,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,item_id" },
+    )
+
+    if (error) {
+      console.error("[mindful-ai] Failed to save recommendation feedback:", error)
+      return NextResponse.json({ error: "Failed to save feedback" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid feedback data", details: error.errors }, { status: 400 })
+    }
+
+    console.error("[mindful-ai] Recommendation feedback error:", error)
+    return NextResponse.json({ error: "Unable to save feedback" }, { status: 500 })
+  }
+}
+
+// What personalization currently knows about the user
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const preferences = await loadRecommendationPreferences(supabase, session.user.id)
+
+    return NextResponse.json({ success: true, preferences })
+  } catch (error) {
+    console.error("[mindful-ai] Recommendation preferences error:", error)
+    return NextResponse.json({ error: "Unable to fetch preferences" }, { status: 500 })
+  }
+}
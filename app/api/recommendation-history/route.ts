@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { loadPastRecommendations } from "@/lib/recommendation-history"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+
+// Items delivered to the user, most recently shown first; ?helpful=true keeps only those rated helpful
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const items = await loadPastRecommendations(supabase, session.user.id)
+    const helpfulOnly = request.nextUrl.searchParams.get("helpful") === "true"
+
+    return NextResponse.json({
+      success: true,
+      items: helpfulOnly ? items.filter((item) => item.feedback === "helpful") : items,
+    })
+  } catch (error) {
+    console.error("[mindful-ai] Recommendation history error:", error)
+    return NextResponse.json({ error: "Unable to fetch recommendation history" }, { status: 500 })
+  }
+}
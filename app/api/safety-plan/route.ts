@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { ZodError } from "zod"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { getCrisisSupport } from "@/lib/crisis-safety"
+import { emptySafetyPlan, formatSafetyPlanText, loadSafetyPlan, saveSafetyPlan } from "@/lib/safety-plan"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { safetyPlanSchema } from "@/lib/validations/safety-plan"
+
+// The user's safety plan (null before one is saved) with regional crisis lines; ?format=text downloads it
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const plan = await loadSafetyPlan(supabase, session.user.id)
+    // Crisis lines for the user's region are always shown alongside the plan
+    const support = getCrisisSupport(
+      { isCrisis: false, severity: "none", signals: [] },
+      request.headers.get("accept-language"),
+    )
+
+    if (request.nextUrl.searchParams.get("format") === "text") {
+      return new NextResponse(formatSafetyPlanText(plan ?? emptySafetyPlan(), support), {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="safety-plan.txt"',
+          "Cache-Control": "no-store",
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, plan, support })
+  } catch (error) {
+    console.error("[mindful-ai] Safety plan fetch error:", error)
+    return NextResponse.json({ error: "Unable to fetch safety plan" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const input = safetyPlanSchema.parse(await request.json())
+    const supabase = tryCreateAdminClient() ?? (await createServerClient())
+    const plan = await saveSafetyPlan(supabase, session.user.id, input)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid safety plan data", details: error.errors }, { status: 400 })
+    }
+
+    console.error("[mindful-ai] Safety plan save error:", error)
+    return NextResponse.json({ error: "Unable to save safety plan" }, { status: 500 })
+  }
+}
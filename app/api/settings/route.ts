@@ -4,10 +4,16 @@ import { z, ZodError } from "zod"
 import { authOptions } from "@/lib/auth"
 import { tryCreateAdminClient } from "@/lib/supabase/admin"
 import { createClient as createServerClient } from "@/lib/supabase/server"
+import { isValidTimeZone } from "@/lib/timezone"
 
 const updateSettingsSchema = z
   .object({
-    timezone: z.string().trim().max(120).optional(),
+    timezone: z
+      .string()
+      .trim()
+      .max(120)
+      .refine((value) => value === "" || isValidTimeZone(value), "Timezone must be an IANA time zone name")
+      .optional(),
     preferredLanguage: z.string().trim().max(10).optional(),
     notifyEmail: z.boolean().optional(),
     notifyPush: z.boolean().optional(),
@@ -21,6 +27,7 @@ const updateSettingsSchema = z
       .optional(),
     themePreference: z.enum(["light", "dark", "system"]).optional(),
     soundEnabled: z.boolean().optional(),
+    strictRedaction: z.boolean().optional(),
   })
   .strict()
 
@@ -43,7 +50,7 @@ export async function GET() {
     const { data, error } = await supabase
       .from("profiles")
       .select(
-        "timezone,preferred_language,notify_email,notify_push,notify_sms,daily_reminder,weekly_summary,reminder_time,theme_preference,sound_enabled",
+        "timezone,preferred_language,notify_email,notify_push,notify_sms,daily_reminder,weekly_summary,reminder_time,theme_preference,sound_enabled,strict_redaction",
       )
       .eq("id", session.user.id)
       .maybeSingle()
@@ -65,6 +72,7 @@ export async function GET() {
         reminderTime: data?.reminder_time ?? "09:00",
         themePreference: data?.theme_preference ?? "system",
         soundEnabled: data?.sound_enabled ?? true,
+        strictRedaction: data?.strict_redaction ?? false,
       },
     })
   } catch (error) {
@@ -98,6 +106,7 @@ export async function PATCH(request: NextRequest) {
     if (typeof parsed.reminderTime === "string") updates.reminder_time = parsed.reminderTime
     if (typeof parsed.themePreference === "string") updates.theme_preference = parsed.themePreference
     if (typeof parsed.soundEnabled === "boolean") updates.sound_enabled = parsed.soundEnabled
+    if (typeof parsed.strictRedaction === "boolean") updates.strict_redaction = parsed.strictRedaction
 
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ success: true })
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { withRateLimit } from "@/lib/api-middleware"
+import { authOptions } from "@/lib/auth"
+import { tryCreateAdminClient } from "@/lib/supabase/admin"
+import { createClient as createServerClient } from "@/lib/supabase/server"
+import { getLocalTime } from "@/lib/timezone"
+import { loadWeeklyReport, renderWeeklyReportHtml } from "@/lib/weekly-report"
+
+// Same generator as the weekly e-mail; `?format=html` returns the e-mail body for previewing
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await withRateLimit(request, "general")
+    if (rateLimitResult) {
+      return rateLimitResult
+    }
+
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const adminClient = tryCreateAdminClient()
+    const supabase = adminClient ?? (await createServerClient())
+
+    const { data: profile } = await supabase.from("profiles").select("timezone").eq("id", userId).maybeSingle()
+    const today = getLocalTime(new Date(), profile?.timezone).date
+
+    const report = await loadWeeklyReport(supabase, userId, today)
+
+    if (request.nextUrl.searchParams.get("format") === "html") {
+      return new NextResponse(renderWeeklyReportHtml(report, process.env.NEXTAUTH_URL ?? request.nextUrl.origin), {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      })
+    }
+
+    return NextResponse.json(report, {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    console.error("[mindful-ai] Weekly report error:", error)
+    return NextResponse.json({ error: "Failed to build weekly report" }, { status: 500 })
+  }
+}
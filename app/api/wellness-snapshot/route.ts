@@ -9,9 +9,11 @@ import type { WellnessSnapshot } from "@/types/wellness"
 import {
   DAY_LABELS,
   aggregateEnergyByEntries,
+  bucketHour,
   normalizeCopingEffectiveness,
   normalizeTriggerFrequency,
 } from "@/lib/analytics"
+import { getLocalTime } from "@/lib/timezone"
 
 export async function GET(request: NextRequest) {
   try {
@@ -37,6 +39,7 @@ export async function GET(request: NextRequest) {
       { data: triggerFrequencyData },
       { data: copingStatsData },
       { data: energyStatsData },
+      { data: profileData },
     ] = await Promise.all([
       supabase
         .from("mood_entries")
@@ -69,12 +72,16 @@ export async function GET(request: NextRequest) {
         .from("user_energy_by_hour")
         .select("entry_hour, entry_date, avg_energy")
         .eq("user_id", userId),
+      supabase.from("profiles").select("timezone").eq("id", userId).maybeSingle(),
     ])
 
+    // Entry dates and the energy view are already in the user's time zone; anything computed here must match
+    const { timeZone, date: today } = getLocalTime(new Date(), profileData?.timezone)
+
     const mappedMoodEntries =
       moodEntriesData?.map((entry) => ({
         id: entry.id ?? randomUUID(),
-        date: entry.date ?? new Date().toISOString().slice(0, 10),
+        date: entry.date ?? today,
         mood: entry.mood_score ?? 5,
         energy: entry.energy_level ?? 5,
         emotions: Array.isArray(entry.emotions) ? entry.emotions : [],
@@ -138,12 +145,7 @@ export async function GET(request: NextRequest) {
       const parsedDate = new Date(`${entryDate}T00:00:00Z`)
       if (Number.isNaN(parsedDate.getTime())) return
       const day = DAY_LABELS[parsedDate.getUTCDay()]
-      let representativeHour = 20
-      if (hourValue >= 5 && hourValue <= 11) {
-        representativeHour = 8
-      } else if (hourValue >= 12 && hourValue <= 17) {
-        representativeHour = 14
-      }
+      const representativeHour = bucketHour(hourValue)
 
       const key = `${day}-${representativeHour}`
       const existing = energyBucketAccumulator.get(key) ?? { day, hour: representativeHour, total: 0, count: 0 }
@@ -159,7 +161,7 @@ export async function GET(request: NextRequest) {
     }))
 
     if (energyBuckets.length === 0 && mappedMoodEntries.length > 0) {
-      energyBuckets = aggregateEnergyByEntries(mappedMoodEntries)
+      energyBuckets = aggregateEnergyByEntries(mappedMoodEntries, timeZone)
     }
 
     const mappedGoals =
@@ -192,6 +194,7 @@ export async function GET(request: NextRequest) {
       wellnessGoals: mappedGoals,
       aiInsights: mappedInsights,
       energyBuckets,
+      timeZone,
     }
 
     return NextResponse.json(response, {
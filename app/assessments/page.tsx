@@ -0,0 +1,136 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, ClipboardList } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Header } from "@/components/layout/header"
+import { AssessmentForm, type AssessmentOutcome } from "@/components/assessments/assessment-form"
+import { AssessmentTrends } from "@/components/assessments/assessment-trends"
+import { CrisisSupportCard } from "@/components/check-in/crisis-support-card"
+import {
+  ASSESSMENT_INSTRUMENTS,
+  ASSESSMENT_INSTRUMENT_IDS,
+  isAssessmentInstrument,
+  type AssessmentInstrumentId,
+} from "@/lib/assessments"
+
+function AssessmentsContent() {
+  const { status } = useSession()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const requested = searchParams.get("instrument")
+  const [active, setActive] = useState<AssessmentInstrumentId | null>(
+    isAssessmentInstrument(requested) ? requested : null,
+  )
+  const [outcome, setOutcome] = useState<AssessmentOutcome | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = encodeURIComponent("/assessments")
+      router.replace(`/auth/signin?callbackUrl=${callbackUrl}`)
+    }
+  }, [status, router])
+
+  const handleComplete = (completed: AssessmentOutcome) => {
+    setOutcome(completed)
+    setActive(null)
+    setRefreshKey((key) => key + 1)
+  }
+
+  if (status === "loading") {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-sm text-text-muted">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Header />
+
+      <div className="border-b border-border p-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/onboarding">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 md:px-6">
+        <div className="mb-8">
+          <div className="mb-2 flex items-center gap-3">
+            <ClipboardList className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-semibold">Assessments</h1>
+          </div>
+          <p className="text-base text-text-muted">
+            Short, validated questionnaires for mood, anxiety, stress and loneliness. Retaking them every two weeks
+            shows how things are changing and helps tailor your recommendations. They are not a diagnosis.
+          </p>
+        </div>
+
+        {outcome && (
+          <div className="mb-6 space-y-4">
+            {outcome.crisis && <CrisisSupportCard support={outcome.crisis} />}
+            <Card className="p-6">
+              <p className="text-sm text-text-muted">{ASSESSMENT_INSTRUMENTS[outcome.score.instrument].name} result</p>
+              <p className="text-2xl font-semibold">
+                {outcome.score.total}
+                <span className="text-sm font-normal text-text-muted"> / {outcome.score.maxTotal}</span>
+              </p>
+              <p className="text-sm text-text-secondary">{outcome.score.severityLabel}</p>
+            </Card>
+          </div>
+        )}
+
+        {active ? (
+          <div className="mb-8 space-y-3">
+            <AssessmentForm key={active} instrumentId={active} onComplete={handleComplete} />
+            <Button variant="ghost" size="sm" onClick={() => setActive(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="mb-8 flex flex-wrap gap-2">
+            {ASSESSMENT_INSTRUMENT_IDS.map((id) => (
+              <Button
+                key={id}
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setOutcome(null)
+                  setActive(id)
+                }}
+              >
+                Take {ASSESSMENT_INSTRUMENTS[id].name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <AssessmentTrends refreshKey={refreshKey} />
+      </div>
+    </div>
+  )
+}
+
+export default function AssessmentsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex h-screen items-center justify-center bg-background">
+          <div className="text-sm text-text-muted">Loading...</div>
+        </div>
+      }
+    >
+      <AssessmentsContent />
+    </Suspense>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useSession } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
@@ -11,57 +11,24 @@ import { Button } from "@/components/ui/button"
 import { ProgressSidebar } from "@/components/onboarding/progress-sidebar"
 import { ConversationInterface } from "@/components/onboarding/conversation-interface"
 import { OnboardingResults } from "@/components/onboarding/onboarding-results"
-import { useOnboardingFlow } from "@/hooks/use-onboarding-flow"
+import { useOnboardingFlow, type AnsweredStep } from "@/hooks/use-onboarding-flow"
 import { useToast } from "@/components/ui/use-toast"
 import { getEmptyWellnessSnapshot } from "@/lib/wellness-data"
-import { aggregateEnergyByEntries } from "@/lib/analytics"
+import { aggregateEnergyByEntries, computeStreak } from "@/lib/analytics"
+import { getLocalTime } from "@/lib/timezone"
+import {
+  ONBOARDING_QUESTIONNAIRE,
+  therapeuticDataFromAnswers,
+  type TherapeuticData,
+} from "@/lib/onboarding-questionnaire"
+import type { OnboardingProgress } from "@/lib/onboarding-drafts"
+import type { QuestionnaireAnswers } from "@/lib/questionnaire"
 import type { ConversationMessage, MessageMetadata, MessageType } from "@/types/conversation"
 import type { EmpathyResponse } from "@/lib/empathy-agent"
 import type { AIInsight, MoodEntry, WellnessGoal, WellnessSnapshot } from "@/types/wellness"
 
 const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
 
-const onboardingQuestions = [
-  {
-    question: "What is the main issue or concern that brought you to therapy?",
-    placeholder: "Tell me what brings you here today...",
-  },
-  {
-    question:
-      "Over the past two weeks, how often have you experienced symptoms such as:\n2.1. Anxiety\n2.2. Sadness\n2.3. Stress\n2.4. Loneliness\n2.5. Suicide trends\n\nPlease rate each from 0 (Not at all) to 5 (Nearly every day).",
-    placeholder: "Rate each symptom from 0-5...",
-  },
-  {
-    question:
-      "Have you previously received therapy or mental health treatment? If yes, please specify:\n3.1. Duration\n3.2. Type",
-    placeholder: "Share your therapy history...",
-  },
-  {
-    question:
-      "How important is feeling understood and supported by your therapist to you? (1 = Not important, 5 = Very important)",
-    placeholder: "Rate from 1-5...",
-  },
-  {
-    question:
-      "How ready do you feel to engage actively in therapy and work on your personal challenges? (1 = Not ready, 5 = Fully ready)",
-    placeholder: "Rate your readiness from 1-5...",
-  },
-  {
-    question:
-      "Please briefly describe your current living situation, key relationships, and support systems.",
-    placeholder: "Tell me about your current situation and support network...",
-  },
-]
-
-const stepTitles = [
-  "Presenting Problem",
-  "Current Symptoms",
-  "Therapeutic History",
-  "Relationship Expectations",
-  "Patient Involvement",
-  "Personal Background",
-]
-
 const WINDOW_DAYS = 7
 
 export type TrendData = {
@@ -95,33 +62,8 @@ const buildTrend = (diff: number | null, decimals = 1): TrendData | undefined =>
   }
 }
 
-const computeStreak = (entries: MoodEntry[]) => {
-  if (!entries.length) return 0
-  const uniqueDates = Array.from(
-    new Set(
-      entries
-        .map((entry) => entry.date)
-        .filter((date): date is string => Boolean(date)),
-    ),
-  ).sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
-
-  if (!uniqueDates.length) return 0
-
-  let streak = 1
-  for (let index = 1; index < uniqueDates.length; index++) {
-    const previousDate = new Date(uniqueDates[index - 1])
-    const currentDate = new Date(uniqueDates[index])
-    const diffDays = Math.round((previousDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24))
-    if (diffDays === 1) {
-      streak += 1
-    } else {
-      break
-    }
-  }
-  return streak
-}
-
-const computeEnergyHeatmapData = (entries: MoodEntry[]) => aggregateEnergyByEntries(entries)
+const computeEnergyHeatmapData = (entries: MoodEntry[], timeZone?: string) =>
+  aggregateEnergyByEntries(entries, timeZone)
 
 interface EmpathyRequestPayload {
   context: string
@@ -166,12 +108,7 @@ interface EmpathyRequestPayload {
 const buildEmpathyPayload = (
   conversation: ConversationMessage[],
   latestMetadata?: MessageMetadata,
-  therapeuticData?: {
-    symptomRatings?: { anxiety?: number; sadness?: number; stress?: number; loneliness?: number; suicideTrends?: number }
-    therapyHistory?: { hasPreviousTherapy?: boolean; duration?: string; type?: string }
-    therapeuticRelationshipImportance?: number
-    patientReadiness?: number
-  },
+  therapeuticData?: TherapeuticData,
 ): EmpathyRequestPayload => {
   console.log("[mindful-ai] Building empathy payload from conversation:", conversation.length, "messages")
 
@@ -266,9 +203,6 @@ const buildEmpathyPayload = (
     if (payload.voiceInsights.energyLevel && !payload.energyLevel) {
       payload.energyLevel = payload.voiceInsights.energyLevel
     }
-    if (!payload.mood && payload.voiceInsights.moodLabel) {
-      payload.mood = payload.voiceInsights.moodLabel
-    }
   }
 
   const imageMessage = [...conversation]
@@ -296,10 +230,6 @@ const buildEmpathyPayload = (
     if (payload.imageInsights.summary) {
       payload.context = `${payload.context}\nImage insight: ${payload.imageInsights.summary}`
     }
-
-    if (!payload.mood && payload.imageInsights.moodLabel) {
-      payload.mood = payload.imageInsights.moodLabel
-    }
   }
 
   payload.emotions = Array.from(emotionSet)
@@ -508,124 +438,14 @@ export default function OnboardingPage() {
     [markInsightAsRead],
   )
 
-  // Helper function to extract therapeutic data from responses
-  const extractTherapeuticData = useCallback((responsesByStep: Record<number, ConversationMessage>) => {
-    const therapeuticData: {
-      symptomRatings?: {
-        anxiety?: number
-        sadness?: number
-        stress?: number
-        loneliness?: number
-        suicideTrends?: number
-      }
-      therapyHistory?: {
-        hasPreviousTherapy?: boolean
-        duration?: string
-        type?: string
-      }
-      therapeuticRelationshipImportance?: number
-      patientReadiness?: number
-    } = {}
-
-    // Step 2: Current Symptoms - Parse symptom ratings
-    const symptomsResponse = responsesByStep[1] // Index 1 = Step 2
-    if (symptomsResponse) {
-      // First check if metadata has structured symptom ratings
-      if (symptomsResponse.metadata?.symptomRatings) {
-        therapeuticData.symptomRatings = symptomsResponse.metadata.symptomRatings as {
-          anxiety?: number
-          sadness?: number
-          stress?: number
-          loneliness?: number
-          suicideTrends?: number
-        }
-      } else if (symptomsResponse.content) {
-        // Fallback to parsing from text
-        const content = symptomsResponse.content.toLowerCase()
-        const symptomRatings: {
-          anxiety?: number
-          sadness?: number
-          stress?: number
-          loneliness?: number
-          suicideTrends?: number
-        } = {}
-
-        // Try to extract numeric ratings from text
-        const anxietyMatch = content.match(/anxiety[:\s]+(\d)/)
-        const sadnessMatch = content.match(/sadness[:\s]+(\d)/)
-        const stressMatch = content.match(/stress[:\s]+(\d)/)
-        const lonelinessMatch = content.match(/loneliness[:\s]+(\d)/)
-        const suicideMatch = content.match(/suicide[:\s]+(\d)/)
-
-        if (anxietyMatch) symptomRatings.anxiety = clamp(parseInt(anxietyMatch[1], 10), 0, 5)
-        if (sadnessMatch) symptomRatings.sadness = clamp(parseInt(sadnessMatch[1], 10), 0, 5)
-        if (stressMatch) symptomRatings.stress = clamp(parseInt(stressMatch[1], 10), 0, 5)
-        if (lonelinessMatch) symptomRatings.loneliness = clamp(parseInt(lonelinessMatch[1], 10), 0, 5)
-        if (suicideMatch) symptomRatings.suicideTrends = clamp(parseInt(suicideMatch[1], 10), 0, 5)
-
-        if (Object.keys(symptomRatings).length > 0) {
-          therapeuticData.symptomRatings = symptomRatings
-        }
-      }
-    }
-
-    // Step 3: Therapeutic History
-    const historyResponse = responsesByStep[2] // Index 2 = Step 3
-    if (historyResponse?.content) {
-      const content = historyResponse.content.toLowerCase()
-      const therapyHistory: { hasPreviousTherapy?: boolean; duration?: string; type?: string } = {}
-
-      // Check if user has previous therapy
-      const hasTherapy =
-        content.includes("yes") || content.includes("i have") || content.includes("previously")
-      const noTherapy = content.includes("no") || content.includes("never") || content.includes("haven't")
-
-      if (hasTherapy && !noTherapy) {
-        therapyHistory.hasPreviousTherapy = true
-
-        // Extract duration
-        const durationMatch = content.match(/duration[:\s]+([^.\n]+)/)
-        if (durationMatch) therapyHistory.duration = durationMatch[1].trim()
-
-        // Extract type
-        const typeMatch = content.match(/type[:\s]+([^.\n]+)/)
-        if (typeMatch) therapyHistory.type = typeMatch[1].trim()
-      } else if (noTherapy) {
-        therapyHistory.hasPreviousTherapy = false
-      }
-
-      if (Object.keys(therapyHistory).length > 0) {
-        therapeuticData.therapyHistory = therapyHistory
-      }
-    }
-
-    // Step 4: Therapeutic Relationship Expectations
-    const relationshipResponse = responsesByStep[3] // Index 3 = Step 4
-    if (relationshipResponse?.content) {
-      const match = relationshipResponse.content.match(/(\d)/)
-      if (match) {
-        therapeuticData.therapeuticRelationshipImportance = clamp(parseInt(match[1], 10), 1, 5)
-      }
-    }
-
-    // Step 5: Patient Involvement and Commitment
-    const readinessResponse = responsesByStep[4] // Index 4 = Step 5
-    if (readinessResponse?.content) {
-      const match = readinessResponse.content.match(/(\d)/)
-      if (match) {
-        therapeuticData.patientReadiness = clamp(parseInt(match[1], 10), 1, 5)
-      }
-    }
-
-    return therapeuticData
-  }, [])
-
   const persistCheckIn = useCallback(
     async (
       conversation: ConversationMessage[],
       payload: EmpathyRequestPayload,
       empathy: EmpathyResponse,
       responsesByStep: Record<number, ConversationMessage>,
+      therapeuticData: TherapeuticData,
+      submissionId: string,
       latestUserMessage?: ConversationMessage,
     ) => {
       try {
@@ -634,25 +454,24 @@ export default function OnboardingPage() {
         const photoUrl = latestUserMessage?.metadata?.photoUrl
         const truncatedNote = payload.context.slice(-1000)
 
-        const responses = stepTitles
-          .map((title, index) => {
+        // Steps are numbered by position in the questionnaire, so a skipped branch leaves a gap
+        const responses = ONBOARDING_QUESTIONNAIRE.questions
+          .map((question, index) => {
             const responseMessage = responsesByStep[index]
             if (!responseMessage || !responseMessage.content.trim()) {
               return null
             }
             return {
               step: index + 1,
-              stepTitle: title,
+              stepTitle: question.title,
               response: responseMessage.content,
               metadata: responseMessage.metadata,
             }
           })
           .filter((response): response is NonNullable<typeof response> => Boolean(response))
 
-        // Extract therapeutic data from responses
-        const therapeuticData = extractTherapeuticData(responsesByStep)
-
         const requestBody = {
+          submissionId,
           responses,
           moodEntry: {
             moodScore: clamp(typeof payload.moodScore === "number" ? payload.moodScore : 5, 1, 10),
@@ -664,7 +483,6 @@ export default function OnboardingPage() {
             note: truncatedNote,
             audioUrl,
             photoUrl,
-            date: new Date().toISOString().slice(0, 10),
             timestamp: new Date().toISOString(),
             // Add therapeutic data
             ...therapeuticData,
@@ -692,26 +510,29 @@ export default function OnboardingPage() {
         console.error("[mindful-ai] Failed to persist onboarding data:", error)
       }
     },
-    [loadSnapshot, extractTherapeuticData],
+    [loadSnapshot],
   )
 
   const handleFlowComplete = useCallback(
     async ({
       conversation,
       responsesByStep,
+      answers,
       latestUserMessage,
+      submissionId,
     }: {
       conversation: ConversationMessage[]
       responsesByStep: Record<number, ConversationMessage>
+      answers: QuestionnaireAnswers
       latestUserMessage: ConversationMessage | undefined
+      submissionId: string
     }) => {
       console.log("[mindful-ai] handleFlowComplete: Starting...")
       console.log("[mindful-ai] Conversation:", conversation)
       console.log("[mindful-ai] ResponsesByStep:", responsesByStep)
 
-      // Extract therapeutic data from responses
-      const therapeuticData = extractTherapeuticData(responsesByStep)
-      console.log("[mindful-ai] Therapeutic data extracted:", therapeuticData)
+      const therapeuticData = therapeuticDataFromAnswers(answers)
+      console.log("[mindful-ai] Therapeutic data from answers:", therapeuticData)
 
       const payload = buildEmpathyPayload(conversation, latestUserMessage?.metadata, therapeuticData)
       console.log("[mindful-ai] Empathy payload built:", JSON.stringify(payload, null, 2))
@@ -756,7 +577,15 @@ export default function OnboardingPage() {
         // Try to persist, but don't fail if it errors
         try {
           console.log("[mindful-ai] Persisting check-in data...")
-          await persistCheckIn(conversation, payload, empathy, responsesByStep, latestUserMessage)
+          await persistCheckIn(
+            conversation,
+            payload,
+            empathy,
+            responsesByStep,
+            therapeuticData,
+            submissionId,
+            latestUserMessage,
+          )
           console.log("[mindful-ai] ✅ Data persisted successfully")
         } catch (persistError) {
           console.error("[mindful-ai] ⚠️ Failed to persist data:", persistError)
@@ -780,21 +609,59 @@ export default function OnboardingPage() {
     [persistCheckIn, toast],
   )
 
+  const saveDraft = useCallback(async (step: AnsweredStep) => {
+    const response = await fetch("/api/onboarding/draft", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(step),
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => ({}))
+      throw new Error(errorBody.error || "Failed to save onboarding progress")
+    }
+  }, [])
+
   const {
     flowState,
-    currentStepIndex,
+    currentStepNumber,
     messages,
     steps,
     isProcessing,
     currentQuestion,
     handleUserMessage,
+    restoreProgress,
     resetFlow,
   } = useOnboardingFlow({
-    questions: onboardingQuestions,
-    stepTitles,
+    questionnaire: ONBOARDING_QUESTIONNAIRE,
+    onAnswer: saveDraft,
     onComplete: handleFlowComplete,
   })
 
+  // Resume a questionnaire left unfinished by a refresh or closed tab
+  const restoreAttemptedRef = useRef(false)
+  useEffect(() => {
+    if (status !== "authenticated" || isCheckingOnboarding || isOnboardingCompleted || restoreAttemptedRef.current) {
+      return
+    }
+    restoreAttemptedRef.current = true
+
+    const loadProgress = async () => {
+      try {
+        const response = await fetch("/api/onboarding/draft", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error("Failed to fetch onboarding progress")
+        }
+        const { progress } = (await response.json()) as { progress: OnboardingProgress }
+        restoreProgress(progress)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to restore onboarding progress:", error)
+      }
+    }
+
+    loadProgress()
+  }, [status, isCheckingOnboarding, isOnboardingCompleted, restoreProgress])
+
   const isCompleted = flowState === "completed"
 
   const handleRetakeOnboarding = useCallback(() => {
@@ -845,15 +712,16 @@ export default function OnboardingPage() {
   const checkInsCurrent = currentWindow.length
   const wellbeingScore = hasMoodData ? computeWellbeingScore(currentWindow) : 0
 
-  const streakDays = computeStreak(sortedMoodEntries)
+  // "Today" on the user's profile clock, matching how the snapshot dated their entries
+  const streakDays = computeStreak(sortedMoodEntries, getLocalTime(new Date(), snapshot.timeZone).date)
   const streakDisplay = streakDays > 0 ? `${streakDays} ${streakDays === 1 ? "day" : "days"}` : "No streak yet"
 
   const energyHeatmapData = useMemo(() => {
     if (snapshot.energyBuckets && snapshot.energyBuckets.length > 0) {
       return snapshot.energyBuckets
     }
-    return computeEnergyHeatmapData(sortedMoodEntries)
-  }, [snapshot.energyBuckets, sortedMoodEntries])
+    return computeEnergyHeatmapData(sortedMoodEntries, snapshot.timeZone)
+  }, [snapshot.energyBuckets, snapshot.timeZone, sortedMoodEntries])
 
   const hasEnergyData = energyHeatmapData.length > 0
 
@@ -889,7 +757,7 @@ export default function OnboardingPage() {
       </div>
 
       <div className="flex flex-1 flex-col overflow-hidden md:flex-row">
-        {!showResults && <ProgressSidebar currentStep={currentStepIndex + 1} steps={steps} />}
+        {!showResults && <ProgressSidebar currentStep={currentStepNumber} steps={steps} />}
 
         <div className="flex flex-1 flex-col overflow-hidden">
           <div className="hidden border-b border-border p-4 md:flex">
@@ -941,8 +809,7 @@ export default function OnboardingPage() {
               }
               placeholder={currentQuestion?.placeholder || "Type your response..."}
               isLoading={isProcessing}
-              currentStep={currentStepIndex}
-              showSymptomRating={currentStepIndex === 1 && flowState === "collecting"}
+              question={flowState === "collecting" ? (currentQuestion ?? undefined) : undefined}
             />
           )}
         </div>
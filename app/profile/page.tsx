@@ -2,6 +2,7 @@ import { redirect } from "next/navigation"
 import { getServerSession } from "next-auth"
 import { Header } from "@/components/layout/header"
 import { ProfileForm } from "@/components/profile/profile-form"
+import { SafetyPlanEditor } from "@/components/safety-plan/safety-plan-editor"
 import { authOptions } from "@/lib/auth"
 import { createClient } from "@/lib/supabase/server"
 
@@ -74,6 +75,17 @@ export default async function ProfilePage() {
           </p>
         </div>
         <ProfileForm initialProfile={initialProfile} />
+
+        <section id="safety-plan" className="mt-12 scroll-mt-24">
+          <div className="mb-6">
+            <h2 className="text-2xl font-semibold text-text-primary">Safety plan</h2>
+            <p className="mt-2 text-sm text-text-secondary">
+              A plan to follow, step by step, if things start to feel overwhelming. Fill it in while you feel calm,
+              ideally with someone you trust, and keep a printed copy somewhere easy to find.
+            </p>
+          </div>
+          <SafetyPlanEditor />
+        </section>
       </main>
     </div>
   )
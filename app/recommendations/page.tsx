@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, BookOpen, ExternalLink, History, Lightbulb, MapPin, Music, Quote, type LucideIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Header } from "@/components/layout/header"
+import { ItemFeedback } from "@/components/check-in/item-feedback"
+import type { PastRecommendation } from "@/lib/recommendation-history"
+import type { InterventionType, RecommendationItemKind } from "@/lib/recommendation-personalization"
+import { format, parseISO } from "date-fns"
+
+const kindDetails: Record<RecommendationItemKind, { label: string; icon: LucideIcon }> = {
+  exercise: { label: "Exercise", icon: Lightbulb },
+  quote: { label: "Quote", icon: Quote },
+  song: { label: "Music", icon: Music },
+  book: { label: "Book", icon: BookOpen },
+  place: { label: "Place", icon: MapPin },
+}
+
+function text(payload: Record<string, unknown>, key: string): string | undefined {
+  const value = payload[key]
+  return typeof value === "string" && value.length > 0 ? value : undefined
+}
+
+// The line under the title and an outbound link, from whatever was shown at the time
+function describePayload(item: PastRecommendation): { detail?: string; link?: { href: string; label: string } } {
+  const { payload } = item
+  switch (item.kind) {
+    case "exercise":
+      return { detail: text(payload, "description") }
+    case "quote":
+      return { detail: text(payload, "author") && `— ${text(payload, "author")}` }
+    case "song": {
+      const href = text(payload, "spotifyUrl")
+      return { detail: text(payload, "artist"), link: href ? { href, label: "Listen on Spotify" } : undefined }
+    }
+    case "book": {
+      const href = text(payload, "amazonUrl")
+      return { detail: text(payload, "author"), link: href ? { href, label: "Find the book" } : undefined }
+    }
+    case "place":
+      return { detail: text(payload, "address") ?? text(payload, "reason") }
+  }
+}
+
+export default function PastRecommendationsPage() {
+  const { status } = useSession()
+  const router = useRouter()
+
+  const [items, setItems] = useState<PastRecommendation[]>([])
+  const [helpfulOnly, setHelpfulOnly] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = encodeURIComponent("/recommendations")
+      router.replace(`/auth/signin?callbackUrl=${callbackUrl}`)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch(`/api/recommendation-history${helpfulOnly ? "?helpful=true" : ""}`, {
+          cache: "no-store",
+        })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        const data = await response.json()
+        setItems(data.items ?? [])
+        setHasError(false)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load recommendation history:", error)
+        setHasError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [status, helpfulOnly])
+
+  if (status === "loading") {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-sm text-text-muted">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Header />
+
+      <div className="border-b border-border p-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/onboarding">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 md:px-6">
+        <div className="mb-8">
+          <div className="mb-2 flex items-center gap-3">
+            <History className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-semibold">Past recommendations</h1>
+          </div>
+          <p className="text-base text-text-muted">
+            Everything suggested to you, most recent first. Rate items to shape what comes next.
+          </p>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-2">
+          <Button size="sm" variant={helpfulOnly ? "outline" : "default"} onClick={() => setHelpfulOnly(false)}>
+            All
+          </Button>
+          <Button size="sm" variant={helpfulOnly ? "default" : "outline"} onClick={() => setHelpfulOnly(true)}>
+            What helped
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-text-muted">Loading recommendations...</div>
+        ) : hasError ? (
+          <Card className="p-6 text-sm text-text-secondary">
+            We couldn&apos;t load your past recommendations. Please try again in a moment.
+          </Card>
+        ) : items.length === 0 ? (
+          <Card className="p-6 text-sm text-text-secondary">
+            {helpfulOnly
+              ? "Nothing rated helpful yet. Use the thumbs up on a recommendation to keep it here."
+              : "No recommendations yet. Complete a check-in to get your first suggestions."}
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => {
+              const { label, icon: Icon } = kindDetails[item.kind]
+              const { detail, link } = describePayload(item)
+              const actionType = item.kind === "exercise" ? (text(item.payload, "actionType") as InterventionType) : undefined
+
+              return (
+                <Card key={item.itemId} className="flex gap-4 p-4">
+                  <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10">
+                    <Icon className="h-5 w-5 text-primary" aria-hidden="true" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-text-muted">{label}</p>
+                    <p className="font-medium">{item.kind === "quote" ? `“${item.title}”` : item.title}</p>
+                    {detail && <p className="mt-1 text-sm text-text-secondary">{detail}</p>}
+                    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-text-muted">
+                      <span>
+                        Last suggested {format(parseISO(item.lastDeliveredAt), "MMM d, yyyy")}
+                        {item.timesDelivered > 1 && ` · ${item.timesDelivered} times`}
+                      </span>
+                      {link && (
+                        <a
+                          href={link.href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          {link.label}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                  <ItemFeedback
+                    itemId={item.itemId}
+                    kind={item.kind}
+                    title={item.title}
+                    mood={item.detectedMood ?? undefined}
+                    actionType={actionType}
+                    initialValue={item.feedback}
+                    className="self-start"
+                  />
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Download, Pencil, Phone, Printer, ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Header } from "@/components/layout/header"
+import type { CrisisSupport } from "@/lib/crisis-safety"
+import {
+  SAFETY_PLAN_SECTIONS,
+  isSafetyPlanEmpty,
+  type SafetyPlan,
+  type SafetyPlanContact,
+} from "@/lib/safety-plan"
+
+function ContactEntry({ contact }: { contact: SafetyPlanContact }) {
+  return (
+    <>
+      {contact.name}
+      {contact.phone && (
+        <>
+          {" - "}
+          <a href={`tel:${contact.phone.replace(/\s+/g, "")}`} className="font-medium text-primary underline">
+            {contact.phone}
+          </a>
+        </>
+      )}
+    </>
+  )
+}
+
+// Read-only, print-friendly view of the safety plan; crisis cards link here
+export default function SafetyPlanPage() {
+  const { status } = useSession()
+  const router = useRouter()
+  const [plan, setPlan] = useState<SafetyPlan | null>(null)
+  const [support, setSupport] = useState<CrisisSupport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = encodeURIComponent("/safety-plan")
+      router.replace(`/auth/signin?callbackUrl=${callbackUrl}`)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    const loadPlan = async () => {
+      try {
+        const response = await fetch("/api/safety-plan", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        const data = await response.json()
+        setPlan(data.plan ?? null)
+        setSupport(data.support ?? null)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load safety plan:", error)
+        setHasError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPlan()
+  }, [status])
+
+  if (status === "loading" || (status === "authenticated" && isLoading)) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-sm text-text-muted">Loading...</div>
+      </div>
+    )
+  }
+
+  const isEmpty = isSafetyPlanEmpty(plan)
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <div className="print:hidden">
+        <Header />
+
+        <div className="border-b border-border p-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/onboarding">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 md:px-6 print:max-w-none print:p-0">
+        <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <div className="mb-2 flex items-center gap-3">
+              <ShieldCheck className="h-8 w-8 text-primary print:hidden" />
+              <h1 className="text-3xl font-semibold">My Safety Plan</h1>
+            </div>
+            <p className="text-base text-text-muted print:hidden">
+              Work through these steps in order when things start to feel overwhelming. If you are in immediate
+              danger, call {support?.emergencyNumber ?? "your local emergency number"} now.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2 print:hidden">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/profile#safety-plan">
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href="/api/safety-plan?format=text" download>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+            <Button size="sm" onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {hasError && (
+          <p className="mb-6 text-sm text-destructive print:hidden">
+            We couldn&apos;t load your safety plan. The crisis lines below are always available.
+          </p>
+        )}
+
+        {isEmpty && !hasError && (
+          <Card className="mb-6 p-6 print:hidden">
+            <p className="text-sm text-text-secondary">
+              You haven&apos;t filled in a safety plan yet. It takes about ten minutes and is best done while you
+              feel calm, ideally with someone you trust.
+            </p>
+            <Button asChild size="sm" className="mt-4">
+              <Link href="/profile#safety-plan">Create my safety plan</Link>
+            </Button>
+          </Card>
+        )}
+
+        <ol className="space-y-4">
+          {SAFETY_PLAN_SECTIONS.map((section) => {
+            const entries = plan ? plan[section.id] : []
+            const crisisLines = section.id === "professionalContacts" ? support : null
+            return (
+              <li key={section.id}>
+                <Card className="p-5 print:break-inside-avoid print:border-black print:shadow-none">
+                  <h2 className="text-lg font-semibold text-text-primary">
+                    Step {section.step}: {section.title}
+                  </h2>
+                  <p className="mb-3 text-xs text-text-muted">{section.prompt}</p>
+                  <ul className="list-disc space-y-1 pl-5 text-sm text-text-secondary">
+                    {entries.map((entry, index) => (
+                      <li key={index}>
+                        {typeof entry === "string" ? entry : <ContactEntry contact={entry} />}
+                      </li>
+                    ))}
+                    {crisisLines && (
+                      <>
+                        <li>
+                          Emergency services - <span className="font-medium">{crisisLines.emergencyNumber}</span>
+                        </li>
+                        {crisisLines.resources.map((resource) => (
+                          <li key={resource.name}>
+                            {resource.phone ? (
+                              <ContactEntry contact={{ name: resource.name, phone: resource.phone }} />
+                            ) : (
+                              <>
+                                {resource.name} -{" "}
+                                <a href={resource.url} target="_blank" rel="noopener noreferrer" className="underline">
+                                  {resource.url}
+                                </a>
+                              </>
+                            )}
+                          </li>
+                        ))}
+                      </>
+                    )}
+                    {entries.length === 0 && !crisisLines && <li className="text-text-muted">Not filled in yet</li>}
+                  </ul>
+                </Card>
+              </li>
+            )
+          })}
+        </ol>
+
+        {support?.resources[0]?.phone && (
+          <div className="mt-8 print:hidden">
+            <Button asChild variant="destructive" className="gap-2">
+              <a href={`tel:${support.resources[0].phone.replace(/\s+/g, "")}`}>
+                <Phone className="h-4 w-4" />
+                Call {support.resources[0].name}
+              </a>
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 import { redirect } from "next/navigation"
 import { getServerSession } from "next-auth"
 import { Header } from "@/components/layout/header"
+import { DataExport } from "@/components/settings/data-export"
+import { DeleteAccount } from "@/components/settings/delete-account"
+import { MoodImport } from "@/components/settings/mood-import"
 import { SettingsForm } from "@/components/settings/settings-form"
 import { authOptions } from "@/lib/auth"
 import { createClient } from "@/lib/supabase/server"
@@ -40,6 +43,7 @@ export default async function SettingsPage() {
     reminderTime: "09:00",
     themePreference: "system" as "light" | "dark" | "system",
     soundEnabled: true,
+    strictRedaction: false,
   }
 
   try {
@@ -47,7 +51,7 @@ export default async function SettingsPage() {
     const { data, error } = await supabase
       .from("profiles")
       .select(
-        "timezone,preferred_language,notify_email,notify_push,notify_sms,daily_reminder,weekly_summary,reminder_time,theme_preference,sound_enabled",
+        "timezone,preferred_language,notify_email,notify_push,notify_sms,daily_reminder,weekly_summary,reminder_time,theme_preference,sound_enabled,strict_redaction",
       )
       .eq("id", session.user.id)
       .maybeSingle()
@@ -66,6 +70,7 @@ export default async function SettingsPage() {
         reminderTime: data.reminder_time ?? "09:00",
         themePreference: (data.theme_preference as "light" | "dark" | "system") ?? "system",
         soundEnabled: data.sound_enabled ?? true,
+        strictRedaction: data.strict_redaction ?? false,
       }
     }
   } catch (error) {
@@ -88,6 +93,9 @@ export default async function SettingsPage() {
           </p>
         </div>
         <SettingsForm initialSettings={initialSettings} />
+        <MoodImport />
+        <DataExport />
+        <DeleteAccount />
       </main>
     </div>
   )
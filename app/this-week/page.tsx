@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, CalendarRange, Flame, TrendingDown, TrendingUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Header } from "@/components/layout/header"
+import { formatDelta } from "@/lib/weekly-report"
+import type { WeeklyMetric, WeeklyReport } from "@/types/wellness"
+import { format, parseISO } from "date-fns"
+
+function MetricCard({ label, metric }: { label: string; metric: WeeklyMetric }) {
+  const DeltaIcon = metric.delta !== null && metric.delta < 0 ? TrendingDown : TrendingUp
+
+  return (
+    <Card className="p-6">
+      <p className="text-sm text-text-muted">{label}</p>
+      <p className="mt-2 text-3xl font-semibold">{metric.average === null ? "—" : `${metric.average}/10`}</p>
+      <p className="mt-1 flex items-center gap-1 text-sm text-text-secondary">
+        {metric.delta !== null && metric.delta !== 0 && <DeltaIcon className="h-4 w-4" />}
+        {metric.average === null ? "No check-ins this week" : formatDelta(metric.delta)}
+      </p>
+    </Card>
+  )
+}
+
+export default function ThisWeekPage() {
+  const { status } = useSession()
+  const router = useRouter()
+
+  const [report, setReport] = useState<WeeklyReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const callbackUrl = encodeURIComponent("/this-week")
+      router.replace(`/auth/signin?callbackUrl=${callbackUrl}`)
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    const loadReport = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch("/api/weekly-report", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        setReport(await response.json())
+        setHasError(false)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load weekly report:", error)
+        setHasError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReport()
+  }, [status])
+
+  if (status === "loading") {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="text-sm text-text-muted">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Header />
+
+      <div className="border-b border-border p-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/onboarding">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 md:px-6">
+        <div className="mb-8">
+          <div className="mb-2 flex items-center gap-3">
+            <CalendarRange className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-semibold">This week</h1>
+          </div>
+          {report && (
+            <p className="text-base text-text-muted">
+              {format(parseISO(report.weekStart), "MMMM d")} – {format(parseISO(report.weekEnd), "MMMM d, yyyy")}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-text-muted">Loading your week...</div>
+        ) : hasError ? (
+          <Card className="p-6 text-sm text-text-secondary">
+            We couldn&apos;t load your weekly summary. Please try again in a moment.
+          </Card>
+        ) : report ? (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <MetricCard label="Average mood" metric={report.mood} />
+              <MetricCard label="Average energy" metric={report.energy} />
+              <Card className="p-6">
+                <p className="text-sm text-text-muted">Check-ins</p>
+                <p className="mt-2 text-3xl font-semibold">{report.checkIns}</p>
+                <p className="mt-1 flex items-center gap-1 text-sm text-text-secondary">
+                  <Flame className="h-4 w-4" />
+                  {report.streak > 0
+                    ? `${report.streak} ${report.streak === 1 ? "day" : "days"} streak`
+                    : "No streak yet"}
+                </p>
+              </Card>
+            </div>
+
+            {(report.bestDay || report.worstDay) && (
+              <div className="grid gap-4 md:grid-cols-2">
+                {report.bestDay && (
+                  <Card className="p-6">
+                    <p className="text-sm text-text-muted">Best day</p>
+                    <p className="mt-2 text-xl font-semibold">
+                      {format(parseISO(report.bestDay.date), "EEEE")} · {report.bestDay.mood}/10
+                    </p>
+                  </Card>
+                )}
+                {report.worstDay && (
+                  <Card className="p-6">
+                    <p className="text-sm text-text-muted">Toughest day</p>
+                    <p className="mt-2 text-xl font-semibold">
+                      {format(parseISO(report.worstDay.date), "EEEE")} · {report.worstDay.mood}/10
+                    </p>
+                  </Card>
+                )}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card className="p-6">
+                <h2 className="mb-3 text-lg font-semibold">Top triggers</h2>
+                {report.topTriggers.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {report.topTriggers.map((item) => (
+                      <li key={item.trigger} className="flex justify-between">
+                        <span>{item.trigger}</span>
+                        <span className="text-text-muted">{item.occurrences}×</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-text-muted">No triggers logged yet.</p>
+                )}
+              </Card>
+              <Card className="p-6">
+                <h2 className="mb-3 text-lg font-semibold">What helped most</h2>
+                {report.topCoping.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {report.topCoping.map((item) => (
+                      <li key={item.strategy} className="flex justify-between">
+                        <span>{item.strategy}</span>
+                        <span className="text-text-muted">avg mood {item.averageMood}/10</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-text-muted">No coping strategies logged yet.</p>
+                )}
+              </Card>
+            </div>
+
+            <Card className="p-6">
+              <h2 className="mb-4 text-lg font-semibold">Goal progress</h2>
+              {report.goals.length > 0 ? (
+                <div className="space-y-4">
+                  {report.goals.map((goal) => (
+                    <div key={goal.id ?? goal.goal}>
+                      <div className="mb-1 flex justify-between text-sm">
+                        <span>{goal.goal}</span>
+                        <span className="text-text-muted">
+                          {goal.current}/{goal.target} {goal.unit}
+                        </span>
+                      </div>
+                      <Progress value={goal.progress} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-text-muted">No active goals. Set one from your dashboard.</p>
+              )}
+            </Card>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
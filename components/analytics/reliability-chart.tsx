@@ -0,0 +1,78 @@
+"use client"
+
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts"
+import type { CalibrationBin } from "@/lib/confidence-calibration"
+
+interface ReliabilityChartProps {
+  bins: CalibrationBin[]
+}
+
+// Observed helpful rate against the raw confidence we reported; points on the dashed diagonal are perfectly calibrated
+export function ReliabilityChart({ bins }: ReliabilityChartProps) {
+  const chartData = bins.map((bin) => ({
+    predicted: bin.predicted,
+    observed: bin.observed,
+    ideal: bin.predicted,
+    count: bin.count,
+  }))
+
+  return (
+    <div className="h-[280px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+          <XAxis
+            type="number"
+            dataKey="predicted"
+            stroke="hsl(var(--text-muted))"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            domain={[40, 100]}
+            ticks={[40, 50, 60, 70, 80, 90, 100]}
+            unit="%"
+          />
+          <YAxis
+            stroke="hsl(var(--text-muted))"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+            domain={[0, 100]}
+            ticks={[0, 20, 40, 60, 80, 100]}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+              padding: "8px 12px",
+            }}
+            labelStyle={{ color: "hsl(var(--text-primary))", fontWeight: 600 }}
+            itemStyle={{ color: "hsl(var(--text-secondary))" }}
+            labelFormatter={(value) => `Reported ${value}%`}
+            formatter={(value, name) => [`${value}%`, name]}
+          />
+          <Line
+            type="linear"
+            dataKey="ideal"
+            stroke="hsl(var(--text-muted))"
+            strokeDasharray="4 4"
+            strokeWidth={1}
+            dot={false}
+            activeDot={false}
+            name="Perfect calibration"
+          />
+          <Line
+            type="linear"
+            dataKey="observed"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            dot={{ fill: "hsl(var(--primary))", r: 4 }}
+            activeDot={{ r: 6, fill: "hsl(var(--primary))" }}
+            name="Rated helpful"
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
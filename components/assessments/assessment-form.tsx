@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react"
+import { Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { cn } from "@/lib/utils"
+import {
+  ASSESSMENT_INSTRUMENTS,
+  type AssessmentInstrumentId,
+  type AssessmentResult,
+  type AssessmentScore,
+} from "@/lib/assessments"
+import type { CrisisSupport } from "@/lib/crisis-safety"
+
+export interface AssessmentOutcome {
+  result: AssessmentResult
+  score: AssessmentScore
+  crisis?: CrisisSupport
+}
+
+interface AssessmentFormProps {
+  instrumentId: AssessmentInstrumentId
+  onComplete: (outcome: AssessmentOutcome) => void
+  // e.g. "1 of 4" when several instruments are given in a row
+  progressLabel?: string
+  className?: string
+}
+
+export function AssessmentForm({ instrumentId, onComplete, progressLabel, className }: AssessmentFormProps) {
+  const instrument = ASSESSMENT_INSTRUMENTS[instrumentId]
+  const [answers, setAnswers] = useState<Array<number | null>>(() => instrument.items.map(() => null))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [hasError, setHasError] = useState(false)
+
+  const answeredCount = answers.filter((answer) => answer !== null).length
+  const isComplete = answeredCount === instrument.items.length
+
+  const handleSelect = (index: number, value: number) => {
+    setAnswers((prev) => prev.map((answer, position) => (position === index ? value : answer)))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isComplete || isSubmitting) return
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch("/api/assessments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ instrument: instrumentId, answers }),
+      })
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`)
+      }
+      const data = await response.json()
+      setHasError(false)
+      onComplete({ result: data.result, score: data.score, crisis: data.crisis })
+    } catch (error) {
+      console.error("[mindful-ai] Failed to submit assessment:", error)
+      setHasError(true)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className={cn("border-2 border-primary/20 bg-card p-6", className)}>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between gap-2">
+            <h3 className="text-lg font-semibold text-text-primary">
+              {instrument.title} ({instrument.name})
+            </h3>
+            {progressLabel && <span className="text-xs text-text-muted">{progressLabel}</span>}
+          </div>
+          <p className="text-sm text-text-muted">{instrument.stem}</p>
+        </div>
+
+        <ol className="space-y-5">
+          {instrument.items.map((item, index) => (
+            <li key={item} className="space-y-2">
+              <p id={`${instrumentId}-item-${index}`} className="text-sm font-medium text-text-primary">
+                {index + 1}. {item}
+              </p>
+              <div role="radiogroup" aria-labelledby={`${instrumentId}-item-${index}`} className="flex flex-wrap gap-2">
+                {instrument.options.map((option) => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    size="sm"
+                    role="radio"
+                    aria-checked={answers[index] === option.value}
+                    variant={answers[index] === option.value ? "default" : "outline"}
+                    onClick={() => handleSelect(index, option.value)}
+                    disabled={isSubmitting}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {hasError && (
+          <p className="text-sm text-destructive">We couldn&apos;t save your answers. Please try again.</p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={!isComplete || isSubmitting}>
+          <Send className="mr-2 h-4 w-4" />
+          {isComplete ? "Submit answers" : `Answered ${answeredCount} of ${instrument.items.length}`}
+        </Button>
+        <p className="text-xs text-text-muted">{instrument.name}: {instrument.citation}</p>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  ASSESSMENT_INSTRUMENTS,
+  maxAssessmentTotal,
+  severityLabel,
+  type AssessmentTrend,
+} from "@/lib/assessments"
+
+interface AssessmentTrendsProps {
+  // Bump to refetch, e.g. after an assessment is submitted on the same page
+  refreshKey?: number
+}
+
+// Lower is better on every instrument, so a falling total is shown as an improvement
+function describeChange(change: number | null): string | null {
+  if (change === null) return null
+  if (change === 0) return "No change since last time"
+  return change < 0 ? `Down ${Math.abs(change)} since last time` : `Up ${change} since last time`
+}
+
+export function AssessmentTrends({ refreshKey = 0 }: AssessmentTrendsProps) {
+  const [trends, setTrends] = useState<AssessmentTrend[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    const loadTrends = async () => {
+      try {
+        setIsLoading(true)
+        const response = await fetch("/api/assessments", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        const data = await response.json()
+        setTrends(data.trends ?? [])
+        setHasError(false)
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load assessment trends:", error)
+        setHasError(true)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadTrends()
+  }, [refreshKey])
+
+  if (isLoading) {
+    return <div className="h-[200px] animate-pulse rounded-lg bg-muted" />
+  }
+
+  if (hasError) {
+    return (
+      <div className="flex h-[120px] items-center justify-center rounded-lg border border-dashed border-border text-sm text-text-muted">
+        We couldn&apos;t load your assessment results.
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {trends.map((trend) => {
+        const instrument = ASSESSMENT_INSTRUMENTS[trend.instrument]
+        const maxTotal = maxAssessmentTotal(instrument)
+        const chartData = trend.history.map((point) => ({
+          date: format(parseISO(point.administeredAt), "MMM d"),
+          total: point.total,
+        }))
+        const change = describeChange(trend.change)
+
+        return (
+          <div key={trend.instrument} className="rounded-lg border border-border p-4">
+            <div className="mb-3 flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold text-text-primary">{instrument.title}</p>
+                <p className="text-xs text-text-muted">{instrument.name}</p>
+              </div>
+              {trend.latest ? (
+                <div className="text-right">
+                  <p className="text-lg font-semibold">
+                    {trend.latest.total}
+                    <span className="text-xs font-normal text-text-muted"> / {maxTotal}</span>
+                  </p>
+                  <Badge variant="outline">{severityLabel(trend.instrument, trend.latest.severity)}</Badge>
+                </div>
+              ) : (
+                <Badge variant="outline">Not taken yet</Badge>
+              )}
+            </div>
+
+            {chartData.length > 1 && (
+              <div className="h-[120px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                    <XAxis dataKey="date" stroke="hsl(var(--text-muted))" fontSize={11} tickLine={false} axisLine={false} />
+                    <YAxis
+                      stroke="hsl(var(--text-muted))"
+                      fontSize={11}
+                      tickLine={false}
+                      axisLine={false}
+                      domain={[instrument.bands[0].min, maxTotal]}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "8px",
+                        padding: "8px 12px",
+                      }}
+                      labelStyle={{ color: "hsl(var(--text-primary))", fontWeight: 600 }}
+                      itemStyle={{ color: "hsl(var(--text-secondary))" }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="total"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={{ fill: "hsl(var(--primary))", r: 3 }}
+                      name="Score"
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-text-muted">
+              <span>
+                {change ??
+                  (trend.latest
+                    ? `Taken ${format(parseISO(trend.latest.administeredAt), "MMM d, yyyy")}`
+                    : "Takes about two minutes")}
+              </span>
+              {trend.due ? (
+                <Button asChild size="sm" variant="outline">
+                  <Link href={`/assessments?instrument=${trend.instrument}`}>{trend.latest ? "Due now" : "Take it"}</Link>
+                </Button>
+              ) : (
+                trend.nextDueAt && <span>Next {format(parseISO(trend.nextDueAt), "MMM d")}</span>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
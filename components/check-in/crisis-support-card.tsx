@@ -0,0 +1,65 @@
+"use client"
+
+import Link from "next/link"
+import { LifeBuoy, Phone, ShieldCheck } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import type { CrisisSupport } from "@/lib/crisis-safety"
+
+interface CrisisSupportCardProps {
+  support: CrisisSupport
+}
+
+export function CrisisSupportCard({ support }: CrisisSupportCardProps) {
+  return (
+    <div
+      className="rounded-lg border-2 border-danger/40 bg-danger/5 p-5 shadow-sm"
+      role="alert"
+      aria-label="Crisis support resources"
+    >
+      <div className="flex items-start gap-3">
+        <LifeBuoy className="h-6 w-6 flex-shrink-0 text-danger" aria-hidden="true" />
+        <div className="flex-1 space-y-3">
+          <h3 className="text-lg font-semibold text-danger">You don&apos;t have to face this alone</h3>
+          <p className="text-sm text-text-secondary">
+            If you are in immediate danger, call {support.emergencyNumber} now.
+          </p>
+          <ul className="space-y-3">
+            {support.resources.map((resource) => (
+              <li key={resource.name} className="rounded-lg border border-border bg-background p-3">
+                <p className="text-sm font-semibold text-text-primary">{resource.name}</p>
+                <p className="mb-2 text-xs text-text-secondary">{resource.description}</p>
+                <div className="flex flex-wrap gap-2">
+                  {resource.phone && (
+                    <Button asChild size="sm" className="gap-2">
+                      <a href={`tel:${resource.phone.replace(/\s+/g, "")}`}>
+                        <Phone className="h-4 w-4" />
+                        Call {resource.phone}
+                      </a>
+                    </Button>
+                  )}
+                  {resource.text && (
+                    <Button asChild size="sm" variant="outline">
+                      <a href={`sms:${resource.text}`}>Text {resource.text}</a>
+                    </Button>
+                  )}
+                  <Button asChild size="sm" variant="ghost">
+                    <a href={resource.url} target="_blank" rel="noopener noreferrer">
+                      Visit website
+                    </a>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <Button asChild size="sm" variant="outline" className="gap-2">
+            <Link href="/safety-plan">
+              <ShieldCheck className="h-4 w-4" />
+              Open my safety plan
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
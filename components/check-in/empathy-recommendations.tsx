@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
+import Link from "next/link"
 import {
   Heart,
   Lightbulb,
@@ -13,12 +14,17 @@ import {
   ThumbsDown,
   RotateCcw,
   MoreHorizontal,
+  Shuffle,
+  ShieldCheck,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { useToast } from "@/components/ui/use-toast"
+import { CrisisSupportCard } from "@/components/check-in/crisis-support-card"
+import { ItemFeedback } from "@/components/check-in/item-feedback"
 import type { EmpathyResponse } from "@/lib/empathy-agent"
+import { describeEmotion, normalizeEmotionLabel, type EmotionCoordinates } from "@/lib/emotion-model"
 
 export type EmpathyRecommendation = EmpathyResponse
 
@@ -35,6 +41,13 @@ const moodLabels: Record<string, string> = {
   tired: "Tired",
   stressed: "Stressed",
   excited: "Excited",
+  angry: "Angry",
+  calm: "Calm",
+  content: "Content",
+  hopeful: "Hopeful",
+  lonely: "Lonely",
+  grieving: "Grieving",
+  numb: "Numb",
 }
 
 const moodBadgeClasses: Record<string, string> = {
@@ -44,6 +57,19 @@ const moodBadgeClasses: Record<string, string> = {
   tired: "bg-muted text-text-muted border-muted-foreground/20",
   stressed: "bg-danger/10 text-danger border-danger/40",
   excited: "bg-secondary/10 text-secondary border-secondary/40",
+  angry: "bg-danger/10 text-danger border-danger/40",
+  calm: "bg-success/10 text-success border-success/40",
+  content: "bg-success/10 text-success border-success/40",
+  hopeful: "bg-secondary/10 text-secondary border-secondary/40",
+  lonely: "bg-blue-100 text-blue-700 border-blue-200",
+  grieving: "bg-blue-100 text-blue-700 border-blue-200",
+  numb: "bg-muted text-text-muted border-muted-foreground/20",
+}
+
+function describeCoordinates({ valence, arousal }: EmotionCoordinates): string {
+  const tone = valence >= 0.2 ? "Pleasant" : valence <= -0.2 ? "Unpleasant" : "Mixed"
+  const energy = arousal >= 0.2 ? "high energy" : arousal <= -0.2 ? "low energy" : "steady energy"
+  return `${tone} · ${energy}`
 }
 
 export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: EmpathyRecommendationsProps) {
@@ -56,6 +82,12 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
   const moodKey = recommendation.detectedMood?.toLowerCase()
   const moodLabel = moodLabels[moodKey] ?? recommendation.detectedMood
   const moodBadge = moodBadgeClasses[moodKey] ?? "bg-primary/10 text-primary border-primary/30"
+  // Responses saved before the emotion model existed have no coordinates; derive them from the label
+  const fallbackLabel = normalizeEmotionLabel(recommendation.detectedMood)
+  const emotion = recommendation.emotion ?? (fallbackLabel ? describeEmotion(fallbackLabel) : null)
+  // Older saved responses listed fixed-weight sources without a mood; only fused sources are shown
+  const moodSources = (recommendation.analysisSources ?? []).filter((source) => source.mood)
+  const itemIds = recommendation.itemIds ?? {}
 
   const handleFeedback = async (value: "helpful" | "not_helpful") => {
     setFeedback(value)
@@ -68,8 +100,11 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           mood: recommendation.detectedMood,
+          emotion: emotion ? { valence: emotion.valence, arousal: emotion.arousal } : undefined,
           feedback: value,
           confidence: recommendation.confidence,
+          rawConfidence: recommendation.rawConfidence,
+          sourceMix: recommendation.sourceMix,
           timestamp: new Date().toISOString(),
         }),
       })
@@ -94,6 +129,15 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
     router.push("/journal")
   }
 
+  const handleCrisisAction = () => {
+    const primary = recommendation.crisis?.resources[0]
+    if (!primary) return
+    window.location.href = primary.phone ? `tel:${primary.phone.replace(/\s+/g, "")}` : primary.url
+  }
+
+  // Crisis responses deliberately leave out music, book and place suggestions
+  const { music, book, place } = recommendation
+
   return (
     <div
       className="mx-auto mt-6 w-full max-w-3xl animate-slide-down"
@@ -115,6 +159,14 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
                 >
                   {moodLabel}
                 </span>
+                {emotion && (
+                  <span
+                    className="text-xs text-text-muted"
+                    title={`Valence ${emotion.valence}, arousal ${emotion.arousal}`}
+                  >
+                    {describeCoordinates(emotion)}
+                  </span>
+                )}
               </div>
             </div>
             {onReset && (
@@ -129,10 +181,55 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
 
           <div className="mt-6 space-y-4">
             <p className="text-sm leading-relaxed text-text-secondary">{recommendation.analysisSummary}</p>
+            {moodSources.length > 1 && (
+              <ul className="flex flex-wrap gap-2" aria-label="Signals behind the detected mood">
+                {moodSources.map((source) => (
+                  <li
+                    key={source.type}
+                    className={cn(
+                      "rounded-full border px-3 py-1 text-xs",
+                      source.agrees ? "border-border text-text-secondary" : "border-warning/40 text-warning",
+                    )}
+                    title={`Confidence ${source.confidence}%`}
+                  >
+                    {source.label}: {moodLabels[source.mood] ?? source.mood} · {source.weight}%
+                  </li>
+                ))}
+              </ul>
+            )}
+            {recommendation.disagreement && (
+              <div
+                className="flex items-start gap-2 rounded-lg border border-warning/40 bg-warning/5 p-3 text-sm text-text-secondary"
+                role="note"
+              >
+                <Shuffle className="mt-0.5 h-4 w-4 flex-shrink-0 text-warning" aria-hidden="true" />
+                <p>{recommendation.disagreement.message}</p>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="grid gap-5">
+          {recommendation.crisis && <CrisisSupportCard support={recommendation.crisis} />}
+
+          {recommendation.safetyPlanSuggested && !recommendation.crisis && (
+            <div className="rounded-lg border border-secondary/30 bg-background p-5 shadow-sm">
+              <div className="flex items-start gap-3">
+                <ShieldCheck className="h-6 w-6 flex-shrink-0 text-secondary" aria-hidden="true" />
+                <div className="flex-1">
+                  <h3 className="mb-2 text-lg font-semibold text-secondary">Have a plan ready</h3>
+                  <p className="mb-3 text-sm text-text-secondary">
+                    A safety plan lists your warning signs, what helps, and who to reach out to, so it&apos;s there
+                    when things feel heavy.
+                  </p>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href="/safety-plan">Open my safety plan</Link>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="rounded-lg border border-primary/20 bg-background p-5 shadow-sm transition hover:shadow-md">
             <div className="flex items-start gap-3">
               <Heart className="h-6 w-6 flex-shrink-0 text-primary" aria-hidden="true" />
@@ -149,14 +246,23 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
               <div className="flex-1">
                 <h3 className="mb-2 text-lg font-semibold text-success">{recommendation.recommendation.title}</h3>
                 <p className="mb-3 text-sm text-text-secondary">{recommendation.recommendation.description}</p>
-                <Button
-                  onClick={handleJournaling}
-                  variant="outline"
-                  size="sm"
-                  className="h-10 rounded-lg bg-success/10 text-success transition-colors hover:bg-success/20 focus-visible:ring-2 focus-visible:ring-success focus-visible:ring-offset-2 active:scale-95"
-                >
-                  {recommendation.recommendation.actionLabel}
-                </Button>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <Button
+                    onClick={recommendation.crisis ? handleCrisisAction : handleJournaling}
+                    variant="outline"
+                    size="sm"
+                    className="h-10 rounded-lg bg-success/10 text-success transition-colors hover:bg-success/20 focus-visible:ring-2 focus-visible:ring-success focus-visible:ring-offset-2 active:scale-95"
+                  >
+                    {recommendation.recommendation.actionLabel}
+                  </Button>
+                  <ItemFeedback
+                    itemId={itemIds.exercise}
+                    kind="exercise"
+                    title={recommendation.recommendation.title}
+                    actionType={recommendation.recommendation.actionType}
+                    mood={recommendation.detectedMood}
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -169,139 +275,179 @@ export function EmpathyRecommendations({ recommendation, onDismiss, onReset }: E
               <p className="text-base font-medium italic leading-relaxed text-text-primary">
                 {recommendation.quote.text}
               </p>
-              <footer className="mt-3 text-right text-sm text-text-muted">— {recommendation.quote.author}</footer>
+              <footer className="mt-3 flex items-center justify-end gap-2 text-sm text-text-muted">
+                <span>— {recommendation.quote.author}</span>
+                <ItemFeedback
+                  itemId={itemIds.quote}
+                  kind="quote"
+                  title={recommendation.quote.text}
+                  mood={recommendation.detectedMood}
+                />
+              </footer>
             </blockquote>
           </div>
 
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            <a
-              href={recommendation.music.spotifyUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-label={`Listen to ${recommendation.music.title} by ${recommendation.music.artist} on Spotify`}
-            >
-              <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-purple-500 to-pink-500">
-                <Music className="h-5 w-5 text-white" aria-hidden="true" />
+          {music && book && place && (
+            <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <div className="flex flex-col gap-1">
+                <a
+                  href={music.spotifyUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-label={`Listen to ${music.title} by ${music.artist} on Spotify`}
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-purple-500 to-pink-500">
+                    <Music className="h-5 w-5 text-white" aria-hidden="true" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Listen</p>
+                  <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
+                    {music.title}
+                  </h4>
+                  <p className="mb-1 text-xs text-text-secondary">{music.artist}</p>
+                  <p className="line-clamp-3 text-xs leading-snug text-text-secondary">{music.reason}</p>
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
+                <ItemFeedback
+                  itemId={itemIds.song}
+                  kind="song"
+                  title={`${music.title} by ${music.artist}`}
+                  mood={recommendation.detectedMood}
+                  className="self-end"
+                />
               </div>
-              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Listen</p>
-              <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
-                {recommendation.music.title}
-              </h4>
-              <p className="mb-1 text-xs text-text-secondary">{recommendation.music.artist}</p>
-              <p className="line-clamp-3 text-xs leading-snug text-text-secondary">{recommendation.music.reason}</p>
-              <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-            </a>
 
-            <a
-              href={recommendation.book.amazonUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-label={`Read ${recommendation.book.title} by ${recommendation.book.author} on Amazon`}
-            >
-              <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-cyan-500">
-                <BookOpen className="h-5 w-5 text-white" aria-hidden="true" />
+              <div className="flex flex-col gap-1">
+                <a
+                  href={book.amazonUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-label={`Read ${book.title} by ${book.author} on Amazon`}
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-cyan-500">
+                    <BookOpen className="h-5 w-5 text-white" aria-hidden="true" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Read</p>
+                  <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
+                    {book.title}
+                  </h4>
+                  <p className="mb-1 text-xs text-text-secondary">{book.author}</p>
+                  <p className="line-clamp-3 text-xs leading-snug text-text-secondary">{book.relevance}</p>
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
+                <ItemFeedback
+                  itemId={itemIds.book}
+                  kind="book"
+                  title={`${book.title} by ${book.author}`}
+                  mood={recommendation.detectedMood}
+                  className="self-end"
+                />
               </div>
-              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Read</p>
-              <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
-                {recommendation.book.title}
-              </h4>
-              <p className="mb-1 text-xs text-text-secondary">{recommendation.book.author}</p>
-              <p className="line-clamp-3 text-xs leading-snug text-text-secondary">{recommendation.book.relevance}</p>
-              <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-            </a>
 
-            <a
-              href={
-                recommendation.place.coordinates
-                  ? `https://www.google.com/maps/search/?api=1&query=${recommendation.place.coordinates.lat},${recommendation.place.coordinates.lng}`
-                  : `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
-                      recommendation.place.address || recommendation.place.type
-                    )}`
-              }
-              target="_blank"
-              rel="noopener noreferrer"
-              className="group relative block rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 sm:col-span-2 lg:col-span-1"
-              aria-label={`Find ${recommendation.place.type} on Google Maps`}
-            >
-              <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-green-500 to-emerald-500">
-                <MapPin className="h-5 w-5 text-white" aria-hidden="true" />
-              </div>
-              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Visit</p>
-              <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
-                {recommendation.place.type}
-              </h4>
-              <p className="mb-1 text-xs text-text-secondary">{recommendation.place.reason}</p>
-              <p className="text-xs leading-snug text-text-secondary">{recommendation.place.benefits}</p>
-              {recommendation.place.address && (
-                <p className="mt-2 text-xs text-text-muted">{recommendation.place.address}</p>
-              )}
-              <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-            </a>
-          </div>
 
-          {/* See More Resources Button */}
-          <div className="flex justify-center">
-            <Button
-              onClick={() => setShowMoreResources(!showMoreResources)}
-              variant="outline"
-              size="sm"
-              className="gap-2"
-            >
-              <MoreHorizontal className="h-4 w-4" />
-              {showMoreResources ? "Show Less" : "See More Resources"}
-            </Button>
-          </div>
+              <div className="flex flex-col gap-1 sm:col-span-2 lg:col-span-1">
+                <a
+                  href={
+                    place.coordinates
+                      ? `https://www.google.com/maps/search/?api=1&query=${place.coordinates.lat},${place.coordinates.lng}`
+                      : `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+                          place.address || place.type
+                        )}`
+                  }
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative block rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-label={`Find ${place.type} on Google Maps`}
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-green-500 to-emerald-500">
+                    <MapPin className="h-5 w-5 text-white" aria-hidden="true" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">Visit</p>
+                  <h4 className="mb-1.5 line-clamp-2 text-sm font-semibold text-text-primary">
+                    {place.type}
+                  </h4>
+                  <p className="mb-1 text-xs text-text-secondary">{place.reason}</p>
+                  <p className="text-xs leading-snug text-text-secondary">{place.benefits}</p>
+                  {place.address && (
+                    <p className="mt-2 text-xs text-text-muted">{place.address}</p>
+                  )}
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
+                <ItemFeedback
+                  itemId={itemIds.place}
+                  kind="place"
+                  title={place.type}
+                  mood={recommendation.detectedMood}
+                  className="self-end"
+                />
+              </div>
+            </div>
 
-          {/* Additional Resources (shown when expanded) */}
-          {showMoreResources && (
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 animate-slide-down">
-              <a
-                href={`https://open.spotify.com/search/${encodeURIComponent(moodLabel + " mood music")}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
+            {/* See More Resources Button */}
+            <div className="flex justify-center">
+              <Button
+                onClick={() => setShowMoreResources(!showMoreResources)}
+                variant="outline"
+                size="sm"
+                className="gap-2"
               >
-                <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-purple-500 to-pink-500">
-                  <Music className="h-5 w-5 text-white" />
-                </div>
-                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Music</p>
-                <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Explore {moodLabel} Playlists</h4>
-                <p className="text-xs text-text-secondary">Discover more music tailored to your mood</p>
-                <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-              </a>
+                <MoreHorizontal className="h-4 w-4" />
+                {showMoreResources ? "Show Less" : "See More Resources"}
+              </Button>
+            </div>
 
-              <a
-                href={`https://www.amazon.com/s?k=${encodeURIComponent(moodLabel + " self-help books")}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
-              >
-                <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-cyan-500">
-                  <BookOpen className="h-5 w-5 text-white" />
-                </div>
-                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Books</p>
-                <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Browse {moodLabel} Books</h4>
-                <p className="text-xs text-text-secondary">Find more reading recommendations</p>
-                <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-              </a>
+            {/* Additional Resources (shown when expanded) */}
+            {showMoreResources && (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 animate-slide-down">
+                <a
+                  href={`https://open.spotify.com/search/${encodeURIComponent(moodLabel + " mood music")}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-purple-500 to-pink-500">
+                    <Music className="h-5 w-5 text-white" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Music</p>
+                  <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Explore {moodLabel} Playlists</h4>
+                  <p className="text-xs text-text-secondary">Discover more music tailored to your mood</p>
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
 
-              <a
-                href={`https://www.google.com/maps/search/${encodeURIComponent(recommendation.place.type + " near me")}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
-              >
-                <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-green-500 to-emerald-500">
-                  <MapPin className="h-5 w-5 text-white" />
-                </div>
-                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Places</p>
-                <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Find Similar Places</h4>
-                <p className="text-xs text-text-secondary">Discover more locations nearby</p>
-                <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
-              </a>
-            </div>
+                <a
+                  href={`https://www.amazon.com/s?k=${encodeURIComponent(moodLabel + " self-help books")}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-cyan-500">
+                    <BookOpen className="h-5 w-5 text-white" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Books</p>
+                  <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Browse {moodLabel} Books</h4>
+                  <p className="text-xs text-text-secondary">Find more reading recommendations</p>
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
+
+                <a
+                  href={`https://www.google.com/maps/search/${encodeURIComponent(place.type + " near me")}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="group relative rounded-lg border border-border bg-background p-4 transition hover:border-primary/40 hover:shadow-md"
+                >
+                  <div className="mb-3 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-green-500 to-emerald-500">
+                    <MapPin className="h-5 w-5 text-white" />
+                  </div>
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-text-muted">More Places</p>
+                  <h4 className="mb-1.5 text-sm font-semibold text-text-primary">Find Similar Places</h4>
+                  <p className="text-xs text-text-secondary">Discover more locations nearby</p>
+                  <ChevronRight className="absolute bottom-3 right-3 h-4 w-4 text-text-muted opacity-0 transition-opacity group-hover:opacity-100" />
+                </a>
+              </div>
+            )}
+            </>
           )}
         </div>
 
@@ -0,0 +1,81 @@
+"use client"
+
+import { useState } from "react"
+import { ThumbsDown, ThumbsUp } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { InterventionType, ItemFeedbackValue, RecommendationItemKind } from "@/lib/recommendation-personalization"
+
+interface ItemFeedbackProps {
+  itemId?: string
+  kind: RecommendationItemKind
+  title: string
+  mood?: string
+  actionType?: InterventionType
+  // The vote already on record, e.g. when revisiting past recommendations
+  initialValue?: ItemFeedbackValue | null
+  className?: string
+}
+
+// Thumbs up/down for a single recommended item; future recommendations learn from it
+export function ItemFeedback({ itemId, kind, title, mood, actionType, initialValue, className }: ItemFeedbackProps) {
+  const [value, setValue] = useState<ItemFeedbackValue | null>(initialValue ?? null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Responses saved before items had identities can't be rated
+  if (!itemId) {
+    return null
+  }
+
+  const submit = async (feedback: ItemFeedbackValue) => {
+    const previous = value
+    setValue(feedback)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch("/api/recommendation-feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId, kind, title, actionType, mood, feedback }),
+      })
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`)
+      }
+    } catch (error) {
+      console.error("[mindful-ai] Failed to save item feedback:", error)
+      setValue(previous)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn("flex items-center gap-1", className)} role="group" aria-label={`Rate ${title}`}>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className={cn("h-7 w-7", value === "helpful" && "text-success")}
+        onClick={() => submit("helpful")}
+        disabled={isSaving}
+        aria-pressed={value === "helpful"}
+        aria-label="This helped"
+      >
+        <ThumbsUp className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className={cn("h-7 w-7", value === "not_helpful" && "text-danger")}
+        onClick={() => submit("not_helpful")}
+        disabled={isSaving}
+        aria-pressed={value === "not_helpful"}
+        aria-label="Not for me"
+      >
+        <ThumbsDown className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
@@ -336,7 +336,7 @@ export function QuickMoodAnalyzer({ className }: QuickMoodAnalyzerProps) {
       }
 
       if (textInsights) {
-        payload.mood = textInsights.moodLabel
+        payload.textInsights = { moodLabel: textInsights.moodLabel, confidence: textInsights.confidence }
         payload.moodScore = textInsights.moodScore
         payload.energyLevel = textInsights.energyLevel
       }
@@ -352,9 +352,6 @@ export function QuickMoodAnalyzer({ className }: QuickMoodAnalyzerProps) {
           summary: analysis.summary,
         }
 
-        if (!payload.mood && analysis.moodLabel) {
-          payload.mood = analysis.moodLabel
-        }
         if (!payload.moodScore && typeof analysis.moodScore === "number") {
           payload.moodScore = analysis.moodScore
         }
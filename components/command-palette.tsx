@@ -13,8 +13,12 @@ import {
   Loader2,
   Flame,
   ListChecks,
+  ArrowLeft,
+  ExternalLink,
+  Quote,
 } from "lucide-react"
-import { toast } from "sonner"
+import type { AgentCommandName } from "@/lib/validations/agent"
+import type { AgentCommandResponse, AgentCommandResult, AgentGoal } from "@/types/agent"
 
 interface CommandPaletteProps {
   open: boolean
@@ -25,6 +29,8 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
   const { data: session } = useSession()
   const [loading, setLoading] = useState(false)
   const [search, setSearch] = useState("")
+  const [result, setResult] = useState<AgentCommandResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
   // Keyboard shortcut: Cmd+K / Ctrl+K
   useEffect(() => {
@@ -39,13 +45,22 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
     return () => document.removeEventListener("keydown", down)
   }, [open, onOpenChange])
 
-  async function handleCommand(command: string, args?: Record<string, unknown>) {
+  // Start from the command list every time the palette is reopened
+  useEffect(() => {
+    if (!open) {
+      setResult(null)
+      setError(null)
+    }
+  }, [open])
+
+  async function handleCommand(command: AgentCommandName, args?: Record<string, unknown>) {
     if (!session?.user?.id) {
-      toast.error("Please sign in to use commands")
+      setError("Please sign in to use commands")
       return
     }
 
     setLoading(true)
+    setError(null)
 
     try {
       const response = await fetch("/api/agent/execute", {
@@ -54,36 +69,30 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
         body: JSON.stringify({
           command,
           args: { ...args, text: search },
-          userId: session.user.id,
         }),
       })
 
-      if (!response.ok) {
-        throw new Error("Command execution failed")
-      }
-
-      const result = await response.json()
+      const payload = await response.json().catch(() => null)
 
-      // Show success message
-      if (result.success) {
-        toast.success("Command executed successfully!")
-
-        // Handle different result types
-        if (result.data?.message) {
-          toast.info(result.data.message)
-        }
+      if (!response.ok) {
+        throw new Error(payload?.details?.[0]?.message ?? payload?.error ?? "Command execution failed")
       }
 
-      onOpenChange(false)
+      setResult((payload as AgentCommandResponse).data)
       setSearch("")
     } catch (error) {
       console.error("Command error:", error)
-      toast.error("Failed to execute command. Please try again.")
+      setError(error instanceof Error ? error.message : "Failed to execute command. Please try again.")
     } finally {
       setLoading(false)
     }
   }
 
+  function resetPalette() {
+    setResult(null)
+    setError(null)
+  }
+
   if (!open) return null
 
   return (
@@ -99,6 +108,8 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
         open={open}
         onOpenChange={onOpenChange}
         label="Agent Command Palette"
+        // The input doubles as the command's free text, so it must not hide commands
+        shouldFilter={false}
         className="fixed top-[20%] left-1/2 -translate-x-1/2 w-full max-w-2xl bg-white dark:bg-gray-900 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden z-50"
       >
         <div className="flex items-center border-b border-gray-200 dark:border-gray-700 px-4">
@@ -112,140 +123,171 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
           {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
         </div>
 
-        <Command.List className="max-h-96 overflow-y-auto p-2">
-          <Command.Empty className="py-6 text-center text-sm text-gray-500">
-            No commands found. Try typing something else.
-          </Command.Empty>
+        {error && (
+          <div className="mx-2 mt-2 rounded-lg bg-red-50 px-4 py-2 text-sm text-red-700 dark:bg-red-950 dark:text-red-300">
+            {error}
+          </div>
+        )}
 
-          {loading ? (
-            <div className="flex items-center justify-center py-6">
-              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
-              <span className="ml-2 text-sm text-gray-500">Processing...</span>
-            </div>
-          ) : (
-            <>
-              <Command.Group heading="Goal Management">
-                <Command.Item
-                  onSelect={() => handleCommand("draft_goal")}
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <Target className="h-4 w-4 text-blue-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Create a new goal</span>
-                    <span className="text-xs text-gray-500">
-                      Set a wellness target with AI guidance
-                    </span>
-                  </div>
-                </Command.Item>
-
-                <Command.Item
-                  onSelect={() => handleCommand("track_goals")}
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <TrendingUp className="h-4 w-4 text-green-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Track progress</span>
-                    <span className="text-xs text-gray-500">
-                      View all goals and insights
-                    </span>
-                  </div>
-                </Command.Item>
-
-                <Command.Item
-                  onSelect={() => handleCommand("celebrate_goal")}
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <Flame className="h-4 w-4 text-orange-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Celebrate achievement</span>
-                    <span className="text-xs text-gray-500">
-                      Mark a goal as completed
-                    </span>
-                  </div>
-                </Command.Item>
-              </Command.Group>
-
-              <Command.Separator className="my-2 border-t border-gray-200 dark:border-gray-700" />
-
-              <Command.Group heading="Wellness Resources">
-                <Command.Item
-                  onSelect={() =>
-                    handleCommand("fetch_resources", { resourceType: "music" })
-                  }
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <Music className="h-4 w-4 text-purple-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Find calming music</span>
-                    <span className="text-xs text-gray-500">
-                      Mood-based playlist recommendations
-                    </span>
-                  </div>
-                </Command.Item>
-
-                <Command.Item
-                  onSelect={() =>
-                    handleCommand("fetch_resources", { resourceType: "book" })
-                  }
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <Book className="h-4 w-4 text-amber-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Recommend a book</span>
-                    <span className="text-xs text-gray-500">
-                      Mental wellness reading suggestions
-                    </span>
-                  </div>
-                </Command.Item>
-
-                <Command.Item
-                  onSelect={() =>
-                    handleCommand("fetch_resources", { resourceType: "place" })
-                  }
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <MapPin className="h-4 w-4 text-red-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Find nearby wellness spots</span>
-                    <span className="text-xs text-gray-500">
-                      Parks, cafes, quiet places
-                    </span>
-                  </div>
-                </Command.Item>
-              </Command.Group>
-
-              <Command.Separator className="my-2 border-t border-gray-200 dark:border-gray-700" />
-
-              <Command.Group heading="AI Analysis">
-                <Command.Item
-                  onSelect={() => handleCommand("analyze_mood")}
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <Sparkles className="h-4 w-4 text-cyan-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Analyze my mood</span>
-                    <span className="text-xs text-gray-500">
-                      Get personalized insights from your message
-                    </span>
-                  </div>
-                </Command.Item>
-
-                <Command.Item
-                  onSelect={() => handleCommand("generate_insights")}
-                  className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
-                >
-                  <ListChecks className="h-4 w-4 text-indigo-500" />
-                  <div className="flex flex-col">
-                    <span className="font-medium">Generate insights</span>
-                    <span className="text-xs text-gray-500">
-                      Analyze patterns from your mood history
-                    </span>
-                  </div>
-                </Command.Item>
-              </Command.Group>
-            </>
-          )}
-        </Command.List>
+        {result && !loading ? (
+          <div className="max-h-96 overflow-y-auto p-4">
+            <button
+              type="button"
+              onClick={resetPalette}
+              className="mb-3 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              <ArrowLeft className="h-3 w-3" />
+              Back to commands
+            </button>
+            <CommandResultView result={result} />
+          </div>
+        ) : (
+          <Command.List className="max-h-96 overflow-y-auto p-2">
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                <span className="ml-2 text-sm text-gray-500">Processing...</span>
+              </div>
+            ) : (
+              <>
+                <Command.Group heading="Goal Management">
+                  <Command.Item
+                    onSelect={() => handleCommand("draft_goal")}
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Target className="h-4 w-4 text-blue-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Create a new goal</span>
+                      <span className="text-xs text-gray-500">
+                        Set a wellness target with AI guidance
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() => handleCommand("track_goals")}
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <TrendingUp className="h-4 w-4 text-green-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Track progress</span>
+                      <span className="text-xs text-gray-500">
+                        View all goals and insights
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() => handleCommand("celebrate_goal")}
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Flame className="h-4 w-4 text-orange-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Celebrate achievement</span>
+                      <span className="text-xs text-gray-500">
+                        Mark a goal as completed
+                      </span>
+                    </div>
+                  </Command.Item>
+                </Command.Group>
+
+                <Command.Separator className="my-2 border-t border-gray-200 dark:border-gray-700" />
+
+                <Command.Group heading="Wellness Resources">
+                  <Command.Item
+                    onSelect={() =>
+                      handleCommand("fetch_resources", { resourceType: "music" })
+                    }
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Music className="h-4 w-4 text-purple-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Find calming music</span>
+                      <span className="text-xs text-gray-500">
+                        Mood-based playlist recommendations
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() =>
+                      handleCommand("fetch_resources", { resourceType: "book" })
+                    }
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Book className="h-4 w-4 text-amber-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Recommend a book</span>
+                      <span className="text-xs text-gray-500">
+                        Mental wellness reading suggestions
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() =>
+                      handleCommand("fetch_resources", { resourceType: "quote" })
+                    }
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Quote className="h-4 w-4 text-teal-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Share an uplifting quote</span>
+                      <span className="text-xs text-gray-500">
+                        A few words matched to your mood
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() =>
+                      handleCommand("fetch_resources", { resourceType: "place" })
+                    }
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <MapPin className="h-4 w-4 text-red-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Find nearby wellness spots</span>
+                      <span className="text-xs text-gray-500">
+                        Parks, cafes, quiet places
+                      </span>
+                    </div>
+                  </Command.Item>
+                </Command.Group>
+
+                <Command.Separator className="my-2 border-t border-gray-200 dark:border-gray-700" />
+
+                <Command.Group heading="AI Analysis">
+                  <Command.Item
+                    onSelect={() => handleCommand("analyze_mood")}
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <Sparkles className="h-4 w-4 text-cyan-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Analyze my mood</span>
+                      <span className="text-xs text-gray-500">
+                        Get personalized insights from your message
+                      </span>
+                    </div>
+                  </Command.Item>
+
+                  <Command.Item
+                    onSelect={() => handleCommand("generate_insights")}
+                    className="flex items-center gap-3 px-4 py-2 rounded-lg cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 aria-selected:bg-gray-100 dark:aria-selected:bg-gray-800"
+                  >
+                    <ListChecks className="h-4 w-4 text-indigo-500" />
+                    <div className="flex flex-col">
+                      <span className="font-medium">Generate insights</span>
+                      <span className="text-xs text-gray-500">
+                        Analyze patterns from your mood history
+                      </span>
+                    </div>
+                  </Command.Item>
+                </Command.Group>
+              </>
+            )}
+          </Command.List>
+        )}
 
         <div className="border-t border-gray-200 dark:border-gray-700 px-4 py-2 text-xs text-gray-500 flex items-center justify-between">
           <span>Press Esc to close</span>
@@ -260,3 +302,118 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
     </>
   )
 }
+
+function GoalRow({ goal }: { goal: AgentGoal }) {
+  return (
+    <li className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{goal.goal}</span>
+        <span className="text-xs text-gray-500">
+          {goal.current}/{goal.target} {goal.unit}
+        </span>
+      </div>
+      <div className="h-1.5 w-full rounded-full bg-gray-100 dark:bg-gray-800">
+        <div
+          className="h-1.5 rounded-full bg-blue-500"
+          style={{ width: `${Math.min(100, Math.max(0, goal.progress))}%` }}
+        />
+      </div>
+    </li>
+  )
+}
+
+function CommandResultView({ result }: { result: AgentCommandResult }) {
+  switch (result.kind) {
+    case "goal_created":
+    case "goal_completed":
+      return (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">{result.message}</p>
+          <ul>
+            <GoalRow goal={result.goal} />
+          </ul>
+        </div>
+      )
+
+    case "goal_progress":
+      return (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">{result.message}</p>
+          <ul className="space-y-3">
+            {result.goals.map((goal) => (
+              <GoalRow key={goal.id} goal={goal} />
+            ))}
+          </ul>
+        </div>
+      )
+
+    case "resource":
+      return (
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-gray-500">
+            {result.resourceType} for a {result.mood} moment
+          </p>
+          <p className="text-base font-medium">{result.resource.title}</p>
+          {result.resource.subtitle && <p className="text-sm text-gray-500">{result.resource.subtitle}</p>}
+          {result.resource.description && <p className="text-sm">{result.resource.description}</p>}
+          {result.resource.url && (
+            <a
+              href={result.resource.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline dark:text-blue-400"
+            >
+              Open
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      )
+
+    case "mood_analysis":
+      return (
+        <div className="space-y-2">
+          <p className="text-sm font-medium capitalize">
+            {result.analysis.detectedMood} · {result.analysis.severity} intensity · {result.analysis.confidence}%
+            confidence
+          </p>
+          <p className="text-sm">{result.analysis.analysis}</p>
+          {result.analysis.recommendations.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-sm text-gray-600 dark:text-gray-300">
+              {result.analysis.recommendations.map((recommendation) => (
+                <li key={recommendation}>{recommendation}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )
+
+    case "insights":
+      return (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">
+            Average mood {result.insights.summary.averageMood}/10 · mostly {result.insights.summary.mostCommonMood} ·{" "}
+            {result.insights.summary.improvementTrend}
+          </p>
+          {result.insights.insights.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-sm">
+              {result.insights.insights.map((insight) => (
+                <li key={insight}>{insight}</li>
+              ))}
+            </ul>
+          )}
+          {result.insights.patterns.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Patterns</p>
+              {result.insights.patterns.map((pattern) => (
+                <div key={pattern.description} className="rounded-lg border border-gray-200 p-2 text-sm dark:border-gray-700">
+                  <p>{pattern.description}</p>
+                  <p className="text-xs text-gray-500">{pattern.recommendation}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )
+  }
+}
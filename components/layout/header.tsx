@@ -1,7 +1,7 @@
 "use client"
 
 import Link from "next/link"
-import { Brain, LogOut, Menu, Settings, User, X } from "lucide-react"
+import { Brain, CalendarRange, ClipboardList, Gauge, History, LogOut, Menu, Settings, User, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import {
@@ -68,6 +68,18 @@ export function Header({ onCheckInClick }: HeaderProps = {}) {
             Profile
           </Link>
         </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/recommendations" className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Past recommendations
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/assessments" className="flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Assessments
+          </Link>
+        </DropdownMenuItem>
         <DropdownMenuItem asChild>
           <Link href="/settings" className="flex items-center gap-2">
             <Settings className="h-4 w-4" />
@@ -120,6 +132,12 @@ export function Header({ onCheckInClick }: HeaderProps = {}) {
               <Button asChild variant="ghost" className="hidden md:inline-flex">
                 <Link href="/onboarding">Dashboard</Link>
               </Button>
+              <Button asChild variant="ghost" className="hidden md:inline-flex">
+                <Link href="/this-week">This week</Link>
+              </Button>
+              <Button asChild variant="ghost" className="hidden md:inline-flex">
+                <Link href="/analytics">Analytics</Link>
+              </Button>
               {renderUserMenu()}
             </>
           )}
@@ -184,6 +202,30 @@ export function Header({ onCheckInClick }: HeaderProps = {}) {
                     )}
                   </div>
                 </div>
+                <Button asChild variant="outline" className="w-full justify-start gap-2">
+                  <Link href="/this-week" onClick={() => setMobileMenuOpen(false)}>
+                    <CalendarRange className="h-4 w-4" />
+                    This week
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" className="w-full justify-start gap-2">
+                  <Link href="/analytics" onClick={() => setMobileMenuOpen(false)}>
+                    <Gauge className="h-4 w-4" />
+                    Analytics
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" className="w-full justify-start gap-2">
+                  <Link href="/recommendations" onClick={() => setMobileMenuOpen(false)}>
+                    <History className="h-4 w-4" />
+                    Past recommendations
+                  </Link>
+                </Button>
+                <Button asChild variant="outline" className="w-full justify-start gap-2">
+                  <Link href="/assessments" onClick={() => setMobileMenuOpen(false)}>
+                    <ClipboardList className="h-4 w-4" />
+                    Assessments
+                  </Link>
+                </Button>
                 <Button asChild variant="outline" className="w-full justify-start gap-2">
                   <Link href="/profile" onClick={() => setMobileMenuOpen(false)}>
                     <User className="h-4 w-4" />
@@ -10,15 +10,16 @@ import { Textarea } from "@/components/ui/textarea"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { cn } from "@/lib/utils"
 import type { ConversationMessage, MessageMetadata, MessageType } from "@/types/conversation"
-import { SymptomRatingInput } from "./symptom-rating-input"
+import { formatAnswer, type Question, type QuestionAnswer } from "@/lib/questionnaire"
+import { QuestionInput } from "./question-input"
 
 interface ConversationInterfaceProps {
   messages: ConversationMessage[]
   onSendMessage: (message: string, type?: MessageType, metadata?: MessageMetadata) => void
   placeholder?: string
   isLoading?: boolean
-  currentStep?: number // Current question step (0-indexed)
-  showSymptomRating?: boolean // Whether to show symptom rating input
+  // The question being asked; structured questions replace the text box with their own input
+  question?: Question
 }
 
 export function ConversationInterface({
@@ -26,27 +27,15 @@ export function ConversationInterface({
   onSendMessage,
   placeholder = "Type your response...",
   isLoading = false,
-  currentStep = 0,
-  showSymptomRating = false,
+  question,
 }: ConversationInterfaceProps) {
   const [input, setInput] = useState("")
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
-  const handleSymptomRatingSubmit = (ratings: {
-    anxiety: number
-    sadness: number
-    stress: number
-    loneliness: number
-    suicideTrends: number
-  }) => {
-    // Format the response as text for display
-    const responseText = `Anxiety: ${ratings.anxiety}, Sadness: ${ratings.sadness}, Stress: ${ratings.stress}, Loneliness: ${ratings.loneliness}, Suicide trends: ${ratings.suicideTrends}`
-
-    // Send with metadata containing the structured ratings
-    onSendMessage(responseText, "text", {
-      symptomRatings: ratings,
-    })
+  const handleAnswer = (answer: QuestionAnswer) => {
+    if (!question) return
+    onSendMessage(formatAnswer(question, answer), "text", { answer })
   }
 
   const scrollToBottom = () => {
@@ -167,8 +156,8 @@ export function ConversationInterface({
       </div>
 
       <div className="sticky bottom-0 border-t border-border bg-background p-6">
-        {showSymptomRating && currentStep === 1 ? (
-          <SymptomRatingInput onSubmit={handleSymptomRatingSubmit} isLoading={isLoading} />
+        {question && question.type !== "free-text" ? (
+          <QuestionInput question={question} onAnswer={handleAnswer} disabled={isLoading} />
         ) : (
           <form onSubmit={handleSubmit} className="flex items-end gap-3">
             <Textarea
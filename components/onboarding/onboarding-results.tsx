@@ -39,6 +39,11 @@ const WellbeingScore = dynamicImport(
   { ssr: false },
 )
 
+const AssessmentTrends = dynamicImport(
+  () => import("@/components/assessments/assessment-trends").then((mod) => ({ default: mod.AssessmentTrends })),
+  { ssr: false, loading: () => <div className="h-[200px] animate-pulse rounded-lg bg-muted" /> },
+)
+
 const EnergyHeatmap = dynamicImport(
   () => import("@/components/dashboard/energy-heatmap").then((mod) => ({ default: mod.EnergyHeatmap })),
   { ssr: false, loading: () => <div className="h-[200px] animate-pulse rounded-lg bg-muted" /> },
@@ -224,6 +229,17 @@ export function OnboardingResults({
             </Card>
           </div>
 
+          <Card className="p-6 mb-8">
+            <div className="mb-4 flex items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold">Standardized Assessments</h2>
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/assessments">View all</Link>
+              </Button>
+            </div>
+            <p className="text-sm text-text-secondary mb-4">PHQ-9, GAD-7, PSS-10 and UCLA-3 scores, retaken every two weeks</p>
+            <AssessmentTrends />
+          </Card>
+
           <div className="grid gap-6 lg:grid-cols-2 mb-8">
             <Card className="p-6">
               <h2 className="text-lg font-semibold mb-4">Common Triggers</h2>
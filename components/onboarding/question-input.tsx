@@ -0,0 +1,263 @@
+"use client"
+
+import { useState } from "react"
+import { Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { symptomRatingsFromAssessments, type AssessmentScores } from "@/lib/assessments"
+import {
+  activeFollowUps,
+  validateAnswer,
+  type LikertQuestion,
+  type MultiRatingQuestion,
+  type Question,
+  type QuestionAnswer,
+  type YesNoQuestion,
+} from "@/lib/questionnaire"
+import { SymptomAssessmentInput } from "./symptom-assessment-input"
+
+interface QuestionInputProps {
+  // Free-text questions are answered in the conversation box instead
+  question: Exclude<Question, { type: "free-text" }>
+  onAnswer: (answer: QuestionAnswer) => void
+  disabled?: boolean
+}
+
+interface RatingScaleProps {
+  labelId: string
+  scale: Pick<LikertQuestion, "min" | "max" | "minLabel" | "maxLabel">
+  value: number | undefined
+  onSelect: (value: number) => void
+  disabled?: boolean
+}
+
+function RatingScale({ labelId, scale, value, onSelect, disabled }: RatingScaleProps) {
+  const options = Array.from({ length: scale.max - scale.min + 1 }, (_, index) => scale.min + index)
+
+  return (
+    <div className="space-y-1">
+      <div role="radiogroup" aria-labelledby={labelId} className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            role="radio"
+            aria-checked={value === option}
+            variant={value === option ? "default" : "outline"}
+            className="min-w-10"
+            onClick={() => onSelect(option)}
+            disabled={disabled}
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+      {(scale.minLabel || scale.maxLabel) && (
+        <div className="flex justify-between text-xs text-text-muted">
+          <span>
+            {scale.min} = {scale.minLabel}
+          </span>
+          <span>
+            {scale.max} = {scale.maxLabel}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function LikertInput({
+  question,
+  onAnswer,
+  disabled,
+}: {
+  question: LikertQuestion
+  onAnswer: QuestionInputProps["onAnswer"]
+  disabled?: boolean
+}) {
+  // A single rating is sent as soon as it is picked
+  return (
+    <RatingScale
+      labelId={`${question.id}-prompt`}
+      scale={question}
+      value={undefined}
+      onSelect={(value) => onAnswer({ type: "likert", value })}
+      disabled={disabled}
+    />
+  )
+}
+
+function MultiRatingInput({
+  question,
+  onAnswer,
+  disabled,
+}: {
+  question: MultiRatingQuestion
+  onAnswer: QuestionInputProps["onAnswer"]
+  disabled?: boolean
+}) {
+  const [values, setValues] = useState<Record<string, number>>({})
+  const answer: QuestionAnswer = { type: "multi-rating", values }
+  const isComplete = validateAnswer(question, answer) === null
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault()
+        if (isComplete) onAnswer(answer)
+      }}
+    >
+      {question.items.map((item) => (
+        <div key={item.id} className="space-y-2">
+          <p id={`${question.id}-${item.id}`} className="text-sm font-medium text-text-primary">
+            {item.label}
+          </p>
+          <RatingScale
+            labelId={`${question.id}-${item.id}`}
+            scale={question}
+            value={values[item.id]}
+            onSelect={(value) => setValues((prev) => ({ ...prev, [item.id]: value }))}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+      <Button type="submit" className="w-full" disabled={!isComplete || disabled}>
+        <Send className="mr-2 h-4 w-4" />
+        Submit ratings
+      </Button>
+    </form>
+  )
+}
+
+function YesNoInput({
+  question,
+  onAnswer,
+  disabled,
+}: {
+  question: YesNoQuestion
+  onAnswer: QuestionInputProps["onAnswer"]
+  disabled?: boolean
+}) {
+  const [value, setValue] = useState<boolean>()
+  const [followUps, setFollowUps] = useState<Record<string, string | number>>({})
+  const visibleFollowUps = activeFollowUps(question, value)
+
+  // Without follow-ups to fill in, the choice itself is the answer
+  const handleChoice = (choice: boolean) => {
+    if (activeFollowUps(question, choice).length === 0) {
+      onAnswer({ type: "yes-no", value: choice })
+      return
+    }
+    setValue(choice)
+  }
+
+  if (value === undefined || visibleFollowUps.length === 0) {
+    return (
+      <div role="radiogroup" aria-labelledby={`${question.id}-prompt`} className="flex gap-3">
+        {[true, false].map((choice) => (
+          <Button
+            key={String(choice)}
+            type="button"
+            variant="outline"
+            className="flex-1"
+            role="radio"
+            aria-checked={value === choice}
+            onClick={() => handleChoice(choice)}
+            disabled={disabled}
+          >
+            {choice ? "Yes" : "No"}
+          </Button>
+        ))}
+      </div>
+    )
+  }
+
+  const answer: QuestionAnswer = { type: "yes-no", value, followUps }
+  const error = validateAnswer(question, answer)
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault()
+        if (!error) onAnswer(answer)
+      }}
+    >
+      {visibleFollowUps.map((followUp) => (
+        <div key={followUp.id} className="space-y-2">
+          <label htmlFor={`${question.id}-${followUp.id}`} className="text-sm font-medium text-text-primary">
+            {followUp.prompt}
+            {followUp.required === false && <span className="ml-1 text-text-muted">(optional)</span>}
+          </label>
+          {followUp.type === "likert" ? (
+            <RatingScale
+              labelId={`${question.id}-${followUp.id}`}
+              scale={followUp}
+              value={typeof followUps[followUp.id] === "number" ? (followUps[followUp.id] as number) : undefined}
+              onSelect={(rating) => setFollowUps((prev) => ({ ...prev, [followUp.id]: rating }))}
+              disabled={disabled}
+            />
+          ) : (
+            <Input
+              id={`${question.id}-${followUp.id}`}
+              value={String(followUps[followUp.id] ?? "")}
+              placeholder={followUp.placeholder}
+              maxLength={followUp.maxLength}
+              onChange={(event) => setFollowUps((prev) => ({ ...prev, [followUp.id]: event.target.value }))}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex gap-3">
+        <Button type="button" variant="outline" onClick={() => setValue(undefined)} disabled={disabled}>
+          Back
+        </Button>
+        <Button type="submit" className="flex-1" disabled={Boolean(error) || disabled}>
+          <Send className="mr-2 h-4 w-4" />
+          Continue
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+// Renders the answer widget for a structured question and reports a typed answer
+export function QuestionInput({ question, onAnswer, disabled }: QuestionInputProps) {
+  if (question.type === "assessment") {
+    return (
+      <SymptomAssessmentInput
+        instruments={question.instruments}
+        onSubmit={(scores: AssessmentScores) =>
+          onAnswer({
+            type: "assessment",
+            scores: Object.fromEntries(
+              Object.values(scores).map((score) => [score.instrument, { total: score.total, severity: score.severity }]),
+            ),
+            symptomRatings: symptomRatingsFromAssessments(scores),
+          })
+        }
+      />
+    )
+  }
+
+  return (
+    <Card className="border-2 border-primary/20 bg-card p-6">
+      <div className="space-y-4">
+        <p id={`${question.id}-prompt`} className="text-sm font-medium text-text-primary">
+          {question.prompt}
+        </p>
+        {question.type === "likert" && <LikertInput question={question} onAnswer={onAnswer} disabled={disabled} />}
+        {question.type === "multi-rating" && (
+          <MultiRatingInput key={question.id} question={question} onAnswer={onAnswer} disabled={disabled} />
+        )}
+        {question.type === "yes-no" && (
+          <YesNoInput key={question.id} question={question} onAnswer={onAnswer} disabled={disabled} />
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState } from "react"
+import { AssessmentForm, type AssessmentOutcome } from "@/components/assessments/assessment-form"
+import { ASSESSMENT_INSTRUMENT_IDS, type AssessmentInstrumentId, type AssessmentScores } from "@/lib/assessments"
+
+interface SymptomAssessmentInputProps {
+  // Defaults to the PHQ-9, GAD-7, PSS-10 and UCLA-3
+  instruments?: AssessmentInstrumentId[]
+  // Called once every instrument has been answered and saved
+  onSubmit: (scores: AssessmentScores) => void
+}
+
+// Gives the standardized questionnaires one after another for the Current Symptoms step
+export function SymptomAssessmentInput({
+  instruments = ASSESSMENT_INSTRUMENT_IDS,
+  onSubmit,
+}: SymptomAssessmentInputProps) {
+  const [scores, setScores] = useState<AssessmentScores>({})
+  const position = Object.keys(scores).length
+  const instrumentId = instruments[position]
+
+  const handleComplete = ({ score }: AssessmentOutcome) => {
+    const next = { ...scores, [score.instrument]: score }
+    setScores(next)
+    if (Object.keys(next).length === instruments.length) {
+      onSubmit(next)
+    }
+  }
+
+  if (!instrumentId) {
+    return null
+  }
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto">
+      <AssessmentForm
+        key={instrumentId}
+        instrumentId={instrumentId}
+        onComplete={handleComplete}
+        progressLabel={`${position + 1} of ${instruments.length}`}
+      />
+    </div>
+  )
+}
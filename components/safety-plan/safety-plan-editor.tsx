@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Download, Plus, Printer, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  SAFETY_PLAN_SECTIONS,
+  emptySafetyPlan,
+  type SafetyPlan,
+  type SafetyPlanContact,
+  type SafetyPlanSection,
+} from "@/lib/safety-plan"
+
+interface SectionEditorProps {
+  section: SafetyPlanSection
+  plan: SafetyPlan
+  onChange: (plan: SafetyPlan) => void
+  disabled?: boolean
+}
+
+function TextSectionEditor({ section, plan, onChange, disabled }: SectionEditorProps) {
+  const items = plan[section.id] as string[]
+  const update = (next: string[]) => onChange({ ...plan, [section.id]: next })
+  const edit = (index: number, value: string) =>
+    update(items.map((item, position) => (position === index ? value : item)))
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={item}
+            aria-label={`${section.title} ${index + 1}`}
+            maxLength={500}
+            onChange={(event) => edit(index, event.target.value)}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => update(items.filter((_, position) => position !== index))}
+            disabled={disabled}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => update([...items, ""])} disabled={disabled}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  )
+}
+
+function ContactSectionEditor({ section, plan, onChange, disabled }: SectionEditorProps) {
+  const contacts = plan[section.id] as SafetyPlanContact[]
+  const update = (next: SafetyPlanContact[]) => onChange({ ...plan, [section.id]: next })
+  const edit = (index: number, field: keyof SafetyPlanContact, value: string) =>
+    update(contacts.map((contact, position) => (position === index ? { ...contact, [field]: value } : contact)))
+
+  return (
+    <div className="space-y-2">
+      {contacts.map((contact, index) => (
+        <div key={index} className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            value={contact.name}
+            placeholder="Name or place"
+            aria-label={`${section.title} ${index + 1} name`}
+            maxLength={120}
+            onChange={(event) => edit(index, "name", event.target.value)}
+            disabled={disabled}
+          />
+          <div className="flex gap-2 sm:w-56">
+            <Input
+              value={contact.phone ?? ""}
+              type="tel"
+              placeholder="Phone (optional)"
+              aria-label={`${section.title} ${index + 1} phone`}
+              maxLength={40}
+              onChange={(event) => edit(index, "phone", event.target.value)}
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => update(contacts.filter((_, position) => position !== index))}
+              disabled={disabled}
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => update([...contacts, { name: "", phone: "" }])}
+        disabled={disabled}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  )
+}
+
+// Edits the user's safety plan step by step; shown on the profile page
+export function SafetyPlanEditor() {
+  const { toast } = useToast()
+  const [plan, setPlan] = useState<SafetyPlan>(emptySafetyPlan)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      try {
+        const response = await fetch("/api/safety-plan", { cache: "no-store" })
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`)
+        }
+        const data = await response.json()
+        if (data.plan) {
+          setPlan(data.plan as SafetyPlan)
+        }
+      } catch (error) {
+        console.error("[mindful-ai] Failed to load safety plan:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPlan()
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    try {
+      setIsSaving(true)
+      const response = await fetch("/api/safety-plan", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(plan),
+      })
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload.error || "Unable to save safety plan")
+      }
+      const data = await response.json()
+      setPlan(data.plan as SafetyPlan)
+      toast({
+        title: "Safety plan saved",
+        description: "You can open it any time from a check-in or print a copy to keep with you.",
+      })
+    } catch (error) {
+      console.error("[mindful-ai] safety plan update failed:", error)
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "We couldn't save your safety plan. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const disabled = isLoading || isSaving
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {SAFETY_PLAN_SECTIONS.map((section) => (
+        <fieldset key={section.id} className="space-y-3 rounded-lg border border-border p-4">
+          <legend className="px-1 text-sm font-semibold text-text-primary">
+            Step {section.step}: {section.title}
+          </legend>
+          <p className="text-xs text-text-muted">{section.prompt}</p>
+          {section.kind === "contact" ? (
+            <ContactSectionEditor section={section} plan={plan} onChange={setPlan} disabled={disabled} />
+          ) : (
+            <TextSectionEditor section={section} plan={plan} onChange={setPlan} disabled={disabled} />
+          )}
+        </fieldset>
+      ))}
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
+        <Button asChild variant="ghost" className="w-full sm:w-auto">
+          <Link href="/safety-plan">
+            <Printer className="mr-2 h-4 w-4" />
+            View and print
+          </Link>
+        </Button>
+        <Button asChild variant="outline" className="w-full sm:w-auto">
+          <a href="/api/safety-plan?format=text" download>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </a>
+        </Button>
+        <Button type="submit" disabled={disabled} className="w-full sm:w-auto">
+          {isSaving ? "Saving..." : "Save safety plan"}
+        </Button>
+      </div>
+    </form>
+  )
+}
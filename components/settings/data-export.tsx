@@ -0,0 +1,34 @@
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+const downloads = [
+  { href: "/api/export", label: "Download all data (JSON)" },
+  { href: "/api/export?format=csv&table=mood_entries", label: "Mood entries (CSV)" },
+  { href: "/api/export?format=csv&table=journal_entries", label: "Journal (CSV)" },
+]
+
+export function DataExport() {
+  return (
+    <section className="mt-8 rounded-xl border border-border bg-card/80 p-6 shadow-sm backdrop-blur">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-text-primary">Your data</h3>
+          <p className="text-xs text-text-muted">
+            Download a copy of everything Mindful AI stores about you: check-ins, journal entries, onboarding answers,
+            goals, insights, feedback and messages, plus links to your uploaded photos and recordings.
+          </p>
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row sm:flex-wrap">
+          {downloads.map((item) => (
+            <Button key={item.href} asChild variant="outline" className="w-full sm:w-auto">
+              <a href={item.href} download>
+                <Download className="mr-2 h-4 w-4" />
+                {item.label}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/components/ui/use-toast"
+
+interface PendingDeletion {
+  requestedAt: string
+  purgeAfter: string
+}
+
+export function DeleteAccount() {
+  const { toast } = useToast()
+
+  const [deletion, setDeletion] = useState<PendingDeletion | null>(null)
+  const [graceDays, setGraceDays] = useState(7)
+  const [password, setPassword] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await fetch("/api/account/deletion", { cache: "no-store" })
+        if (!response.ok) return
+        const payload = await response.json()
+        setDeletion(payload.deletion ?? null)
+        if (typeof payload.graceDays === "number") {
+          setGraceDays(payload.graceDays)
+        }
+      } catch (error) {
+        console.error("[mindful-ai] account deletion status failed:", error)
+      }
+    }
+
+    loadStatus()
+  }, [])
+
+  const handleRequest = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    startTransition(async () => {
+      try {
+        const response = await fetch("/api/account/deletion", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ password, confirmation }),
+        })
+        const payload = await response.json().catch(() => ({}))
+
+        if (!response.ok) {
+          throw new Error(payload.details?.[0]?.message || payload.error || "Unable to delete your account")
+        }
+
+        setDeletion(payload.deletion)
+        setPassword("")
+        setConfirmation("")
+        toast({
+          title: "Account deletion scheduled",
+          description: `Your account and data will be permanently deleted in ${graceDays} days. You can undo this until then.`,
+        })
+      } catch (error) {
+        console.error("[mindful-ai] account deletion request failed:", error)
+        toast({
+          title: "Deletion failed",
+          description: error instanceof Error ? error.message : "We couldn't process your request. Please try again.",
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  const handleUndo = () => {
+    startTransition(async () => {
+      try {
+        const response = await fetch("/api/account/deletion", { method: "DELETE" })
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}))
+          throw new Error(payload.error || "Unable to cancel deletion")
+        }
+
+        setDeletion(null)
+        toast({
+          title: "Deletion cancelled",
+          description: "Your account will be kept.",
+        })
+      } catch (error) {
+        console.error("[mindful-ai] account deletion cancel failed:", error)
+        toast({
+          title: "Undo failed",
+          description: error instanceof Error ? error.message : "We couldn't cancel the deletion. Please try again.",
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  return (
+    <section className="mt-8 rounded-xl border border-destructive/40 bg-card/80 p-6 shadow-sm backdrop-blur">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-text-primary">Delete account</h3>
+          <p className="text-xs text-text-muted">
+            Permanently removes your account, check-ins, journal, goals, insights, messages and uploaded files. You have{" "}
+            {graceDays} days to change your mind. Consider downloading your data first.
+          </p>
+        </div>
+
+        {deletion ? (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-text-primary">
+              Your account is scheduled for deletion on{" "}
+              <span className="font-semibold">{format(new Date(deletion.purgeAfter), "MMMM d, yyyy")}</span>.
+            </p>
+            <Button variant="outline" onClick={handleUndo} disabled={isPending} className="w-full sm:w-auto">
+              {isPending ? "Cancelling..." : "Keep my account"}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="deletePassword">Current password</Label>
+                <Input
+                  id="deletePassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deleteConfirmation">Type DELETE to confirm</Label>
+                <Input
+                  id="deleteConfirmation"
+                  value={confirmation}
+                  onChange={(event) => setConfirmation(event.target.value)}
+                />
+              </div>
+            </div>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={isPending || !password || confirmation !== "DELETE"}
+              className="w-full sm:w-auto"
+            >
+              {isPending ? "Scheduling..." : "Delete my account"}
+            </Button>
+          </form>
+        )}
+      </div>
+    </section>
+  )
+}
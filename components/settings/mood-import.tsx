@@ -0,0 +1,264 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/components/ui/use-toast"
+import type { ImportColumnMapping, ImportField, ImportRowResult, ImportScale, ImportSource } from "@/lib/mood-import"
+
+interface ImportPreview {
+  source: ImportSource
+  columns: string[]
+  mapping: ImportColumnMapping
+  moodScale: ImportScale
+  energyScale: ImportScale
+  total: number
+  valid: number
+  duplicates: number
+  invalid: number
+  rows: ImportRowResult[]
+}
+
+interface ImportFile {
+  content: string
+  format: "csv" | "json"
+  name: string
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  date: "Date",
+  time: "Time",
+  mood: "Mood",
+  energy: "Energy",
+  emotions: "Emotions",
+  triggers: "Triggers",
+  coping: "Coping",
+  note: "Note",
+}
+
+const sourceLabels: Record<ImportSource, string> = {
+  daylio: "Daylio export",
+  bearable: "Bearable export",
+  generic: "Spreadsheet",
+}
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+
+export function MoodImport() {
+  const { toast } = useToast()
+
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const requestImport = async (
+    importFile: ImportFile,
+    options: { mapping?: ImportColumnMapping; moodScale?: ImportScale; energyScale?: ImportScale; dryRun: boolean },
+  ) => {
+    const response = await fetch("/api/mood-entries/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: importFile.content, format: importFile.format, ...options }),
+    })
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload.details?.[0]?.message || payload.error || "Unable to read the file")
+    }
+    return payload
+  }
+
+  const runPreview = (importFile: ImportFile, options: Partial<Pick<ImportPreview, "mapping" | "moodScale" | "energyScale">> = {}) => {
+    startTransition(async () => {
+      try {
+        setPreview(await requestImport(importFile, { ...options, dryRun: true }))
+      } catch (error) {
+        console.error("[mindful-ai] mood import preview failed:", error)
+        setPreview(null)
+        toast({
+          title: "Preview failed",
+          description: error instanceof Error ? error.message : "We couldn't read that file.",
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ""
+    if (!selected) return
+
+    const importFile: ImportFile = {
+      content: await selected.text(),
+      format: selected.name.toLowerCase().endsWith(".json") || selected.type === "application/json" ? "json" : "csv",
+      name: selected.name,
+    }
+    setFile(importFile)
+    runPreview(importFile)
+  }
+
+  const handleMappingChange = (field: ImportField) => (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!file || !preview) return
+    const mapping = { ...preview.mapping, [field]: event.target.value || undefined }
+    runPreview(file, { mapping, moodScale: preview.moodScale, energyScale: preview.energyScale })
+  }
+
+  const handleScaleChange = (key: "moodScale" | "energyScale") => (event: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!file || !preview) return
+    runPreview(file, {
+      mapping: preview.mapping,
+      moodScale: preview.moodScale,
+      energyScale: preview.energyScale,
+      [key]: Number(event.target.value) as ImportScale,
+    })
+  }
+
+  const handleImport = () => {
+    if (!file || !preview) return
+
+    startTransition(async () => {
+      try {
+        const result = await requestImport(file, {
+          mapping: preview.mapping,
+          moodScale: preview.moodScale,
+          energyScale: preview.energyScale,
+          dryRun: false,
+        })
+        toast({
+          title: "Import complete",
+          description: `${result.imported} ${result.imported === 1 ? "entry" : "entries"} added to your history.`,
+        })
+        setFile(null)
+        setPreview(null)
+      } catch (error) {
+        console.error("[mindful-ai] mood import failed:", error)
+        toast({
+          title: "Import failed",
+          description: error instanceof Error ? error.message : "We couldn't import your history. Please try again.",
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  return (
+    <section className="mt-8 rounded-xl border border-border bg-card/80 p-6 shadow-sm backdrop-blur">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-text-primary">Import mood history</h3>
+          <p className="text-xs text-text-muted">
+            Bring your history from Daylio, Bearable or a spreadsheet (CSV or JSON). You can check the column mapping
+            and preview every row before anything is saved. Days you already logged are skipped.
+          </p>
+        </div>
+
+        <Button asChild variant="outline" className="w-full sm:w-auto" disabled={isPending}>
+          <label className="cursor-pointer">
+            <Upload className="mr-2 h-4 w-4" />
+            {file ? `Replace ${file.name}` : "Choose a file"}
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="sr-only" onChange={handleFileChange} />
+          </label>
+        </Button>
+
+        {preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              {sourceLabels[preview.source]} · {preview.total} rows: {preview.valid} ready, {preview.duplicates} already
+              logged, {preview.invalid} with problems
+            </p>
+
+            <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+              {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`import-${field}`}>{fieldLabels[field]}</Label>
+                  <select
+                    id={`import-${field}`}
+                    value={preview.mapping[field] ?? ""}
+                    onChange={handleMappingChange(field)}
+                    disabled={isPending}
+                    className={selectClassName}
+                  >
+                    <option value="">Not imported</option>
+                    {preview.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label htmlFor="import-mood-scale">Mood scale</Label>
+                <select
+                  id="import-mood-scale"
+                  value={preview.moodScale}
+                  onChange={handleScaleChange("moodScale")}
+                  disabled={isPending}
+                  className={selectClassName}
+                >
+                  <option value={5}>1–5</option>
+                  <option value={10}>1–10</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="import-energy-scale">Energy scale</Label>
+                <select
+                  id="import-energy-scale"
+                  value={preview.energyScale}
+                  onChange={handleScaleChange("energyScale")}
+                  disabled={isPending}
+                  className={selectClassName}
+                >
+                  <option value={5}>1–5</option>
+                  <option value={10}>1–10</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="max-h-72 overflow-auto rounded-md border border-border">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Mood</th>
+                    <th className="px-3 py-2">Energy</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.row} className="border-t border-border">
+                      <td className="px-3 py-2">{row.row}</td>
+                      <td className="px-3 py-2">{row.entry?.date ?? "—"}</td>
+                      <td className="px-3 py-2">{row.entry?.moodScore ?? "—"}</td>
+                      <td className="px-3 py-2">{row.entry?.energyLevel ?? "—"}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-text-muted">Already logged</span>
+                        ) : (
+                          <span>{row.warnings.length > 0 ? row.warnings.join("; ") : "Ready"}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.total > preview.rows.length && (
+              <p className="text-xs text-text-muted">Showing the first {preview.rows.length} rows.</p>
+            )}
+
+            <Button onClick={handleImport} disabled={isPending || preview.valid === 0} className="w-full sm:w-auto">
+              {isPending ? "Working..." : `Import ${preview.valid} ${preview.valid === 1 ? "entry" : "entries"}`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
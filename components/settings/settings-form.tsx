@@ -21,6 +21,7 @@ interface SettingsFormProps {
     reminderTime: string
     themePreference: "light" | "dark" | "system"
     soundEnabled: boolean
+    strictRedaction: boolean
   }
 }
 
@@ -289,6 +290,31 @@ export function SettingsForm({ initialSettings }: SettingsFormProps) {
         </div>
       </section>
 
+      <section className="rounded-xl border border-border bg-card/80 p-6 shadow-sm backdrop-blur">
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Privacy</h3>
+            <p className="text-xs text-text-muted">
+              Names, e-mails, phone numbers, addresses and dates are replaced with placeholders before your reflections
+              reach our AI provider.
+            </p>
+          </div>
+          <label className="flex items-start gap-3">
+            <Checkbox
+              checked={formState.strictRedaction}
+              onCheckedChange={(checked) => handleCheckboxChange("strictRedaction")(checked === true)}
+            />
+            <div>
+              <p className="text-sm font-medium text-text-primary">Stricter redaction</p>
+              <p className="text-xs text-text-muted">
+                Also hide any capitalized name, street, postcode and partial date. Recommendations may feel a little less
+                personal.
+              </p>
+            </div>
+          </label>
+        </div>
+      </section>
+
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
         <Button type="submit" disabled={isPending} className="w-full sm:w-auto">
           {isPending ? "Saving..." : "Save preferences"}
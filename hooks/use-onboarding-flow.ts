@@ -1,36 +1,54 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 
+import type { OnboardingProgress } from "@/lib/onboarding-drafts"
+import {
+  formatAnswer,
+  nextQuestionIndex,
+  validateAnswer,
+  visibleQuestions,
+  type QuestionAnswer,
+  type Questionnaire,
+  type QuestionnaireAnswers,
+} from "@/lib/questionnaire"
 import type { ConversationMessage, MessageMetadata, MessageType } from "@/types/conversation"
 
 type FlowState = "collecting" | "processing" | "completed"
 
-interface OnboardingQuestion {
-  question: string
-  placeholder: string
+export interface AnsweredStep {
+  step: number
+  stepTitle: string
+  response: string
+  metadata: MessageMetadata
 }
 
 interface UseOnboardingFlowOptions {
-  questions: OnboardingQuestion[]
-  stepTitles: string[]
+  questionnaire: Questionnaire
+  // Called after each accepted answer, e.g. to save it as a draft
+  onAnswer?: (step: AnsweredStep) => Promise<void> | void
   onComplete: (params: {
     conversation: ConversationMessage[]
+    // Keyed by question index; questions skipped by a branch have no entry
     responsesByStep: Record<number, ConversationMessage>
+    answers: QuestionnaireAnswers
     latestUserMessage: ConversationMessage | undefined
+    submissionId: string
   }) => Promise<void> | void
 }
 
 const createMessageId = () => crypto.randomUUID?.() ?? Date.now().toString()
 
-export function useOnboardingFlow({
-  questions,
-  stepTitles,
-  onComplete,
-}: UseOnboardingFlowOptions) {
+const RESUME_MESSAGE = "Welcome back! I kept your earlier answers, so let's pick up where we left off."
+
+export function useOnboardingFlow({ questionnaire, onAnswer, onComplete }: UseOnboardingFlowOptions) {
+  const { questions } = questionnaire
   const [messages, setMessages] = useState<ConversationMessage[]>([])
   const [flowState, setFlowState] = useState<FlowState>("collecting")
   const [currentStepIndex, setCurrentStepIndex] = useState(0)
   const [isProcessing, setIsProcessing] = useState(false)
   const [responsesByStep, setResponsesByStep] = useState<Record<number, ConversationMessage>>({})
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>({})
+  // One id per attempt, so drafts group together and the final submission is idempotent
+  const [submissionId, setSubmissionId] = useState(createMessageId)
 
   const initializedRef = useRef(false)
 
@@ -41,28 +59,31 @@ export function useOnboardingFlow({
     const initialMessage: ConversationMessage = {
       id: createMessageId(),
       role: "assistant",
-      content: questions[0].question,
+      content: questions[0].prompt,
     }
     setMessages([initialMessage])
     initializedRef.current = true
   }, [questions, messages.length])
 
-  const steps = useMemo(
-    () =>
-      stepTitles.map((title, index) => {
-        if (flowState === "completed") {
-          return { id: index + 1, title, status: "completed" as const }
-        }
-        if (index < currentStepIndex) {
-          return { id: index + 1, title, status: "completed" as const }
-        }
-        if (index === currentStepIndex) {
-          return { id: index + 1, title, status: "active" as const }
-        }
-        return { id: index + 1, title, status: "upcoming" as const }
-      }),
-    [currentStepIndex, flowState, stepTitles],
-  )
+  // Steps follow the questions that apply so far, so a branch taken adds its step
+  const steps = useMemo(() => {
+    const currentQuestionId = questions[currentStepIndex]?.id
+    let reachedCurrent = false
+    return visibleQuestions(questionnaire, answers).map((question, index) => {
+      const isCurrent = question.id === currentQuestionId
+      reachedCurrent = reachedCurrent || isCurrent
+      const status =
+        flowState === "completed" || !reachedCurrent
+          ? ("completed" as const)
+          : isCurrent
+            ? ("active" as const)
+            : ("upcoming" as const)
+      return { id: index + 1, title: question.title, status }
+    })
+  }, [answers, currentStepIndex, flowState, questionnaire, questions])
+
+  const activeStepIndex = steps.findIndex((step) => step.status === "active")
+  const currentStepNumber = activeStepIndex === -1 ? steps.length : activeStepIndex + 1
 
   const appendAssistantPrompt = useCallback(
     (prompt: string) => {
@@ -82,39 +103,109 @@ export function useOnboardingFlow({
     setCurrentStepIndex(0)
     setIsProcessing(false)
     setResponsesByStep({})
+    setAnswers({})
+    setSubmissionId(createMessageId())
     initializedRef.current = false
   }, [])
 
+  // Replays progress saved on the server; ignored once the user has started answering here
+  const restoreProgress = useCallback(
+    (progress: OnboardingProgress) => {
+      if (progress.nextIndex === null || !progress.submissionId || Object.keys(responsesByStep).length > 0) {
+        return
+      }
+
+      const restoredMessages: ConversationMessage[] = []
+      const restoredResponses: Record<number, ConversationMessage> = {}
+      for (const { index, draft } of progress.responses) {
+        const userMessage: ConversationMessage = {
+          id: createMessageId(),
+          role: "user",
+          content: draft.response,
+          type: "text",
+          metadata: draft.metadata ?? undefined,
+        }
+        restoredMessages.push(
+          { id: createMessageId(), role: "assistant", content: questions[index].prompt },
+          userMessage,
+        )
+        restoredResponses[index] = userMessage
+      }
+      restoredMessages.push(
+        { id: createMessageId(), role: "assistant", content: RESUME_MESSAGE },
+        { id: createMessageId(), role: "assistant", content: questions[progress.nextIndex].prompt },
+      )
+
+      initializedRef.current = true
+      setMessages(restoredMessages)
+      setResponsesByStep(restoredResponses)
+      setAnswers(progress.answers)
+      setSubmissionId(progress.submissionId)
+      setCurrentStepIndex(progress.nextIndex)
+    },
+    [questions, responsesByStep],
+  )
+
   const handleUserMessage = useCallback(
     async (content: string, type?: MessageType, metadata?: MessageMetadata) => {
       if (flowState === "processing") {
         return
       }
 
+      const question = questions[currentStepIndex]
       const trimmed = content.trim()
-      if (!trimmed) {
+      if (!question || !trimmed) {
+        return
+      }
+
+      // Widgets send a typed answer; text typed into the box answers free-text questions
+      const answer =
+        (metadata?.answer as QuestionAnswer | undefined) ??
+        (question.type === "free-text" ? { type: "free-text" as const, value: trimmed } : undefined)
+      const validationError = validateAnswer(question, answer)
+      if (validationError || !answer) {
+        appendAssistantPrompt(validationError ?? "Please answer this question")
         return
       }
 
       const userMessage: ConversationMessage = {
         id: createMessageId(),
         role: "user",
-        content: trimmed,
+        content: answer.type === "free-text" ? trimmed : formatAnswer(question, answer),
         type,
-        metadata,
+        metadata: {
+          ...metadata,
+          questionnaireId: questionnaire.id,
+          questionnaireVersion: questionnaire.version,
+          questionId: question.id,
+          answer,
+          submissionId,
+        },
       }
+      const nextAnswers = { ...answers, [question.id]: answer }
 
       setMessages((prev) => [...prev, userMessage])
       setResponsesByStep((prev) => ({
         ...prev,
         [currentStepIndex]: userMessage,
       }))
+      setAnswers(nextAnswers)
 
-      const nextStepIndex = currentStepIndex + 1
+      // Saving progress is best-effort and must never hold up the conversation
+      Promise.resolve(
+        onAnswer?.({
+          step: currentStepIndex + 1,
+          stepTitle: question.title,
+          response: userMessage.content,
+          metadata: userMessage.metadata ?? {},
+        }),
+      ).catch((error) => console.error("[mindful-ai] onboarding draft save error:", error))
 
-      if (nextStepIndex < questions.length) {
+      const nextStepIndex = nextQuestionIndex(questionnaire, nextAnswers, currentStepIndex)
+
+      if (nextStepIndex !== null) {
         setCurrentStepIndex(nextStepIndex)
-        appendAssistantPrompt(questions[nextStepIndex].question)
+        appendAssistantPrompt(questions[nextStepIndex].prompt)
         return
       }
 
@@ -140,7 +231,9 @@ export function useOnboardingFlow({
         await onComplete({
           conversation: [...conversationSnapshot],
           responsesByStep: { ...responsesByStep, [currentStepIndex]: userMessage },
+          answers: nextAnswers,
           latestUserMessage: userMessage,
+          submissionId,
         })
         console.log("[mindful-ai] Onboarding completion successful, switching to completed state")
         setFlowState("completed")
@@ -150,16 +243,20 @@ export function useOnboardingFlow({
         setFlowState("completed")
       } finally {
         setIsProcessing(false)
-        setCurrentStepIndex(nextStepIndex)
+        setCurrentStepIndex(questions.length)
       }
     },
     [
+      answers,
       appendAssistantPrompt,
       currentStepIndex,
       flowState,
+      onAnswer,
       onComplete,
+      questionnaire,
       questions,
       responsesByStep,
+      submissionId,
     ],
   )
 
@@ -168,12 +265,15 @@ export function useOnboardingFlow({
   return {
     flowState,
     currentStepIndex,
+    currentStepNumber,
     messages,
     steps,
     isProcessing,
     currentQuestion,
     responsesByStep,
+    answers,
     handleUserMessage,
+    restoreProgress,
     resetFlow,
   }
 }
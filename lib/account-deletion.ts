@@ -0,0 +1,166 @@
+// Account deletion: scheduling with an undo window, then purging uploads and the auth user
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BLOB_DELETE_BATCH_SIZE = 100
+
+export interface AccountDeletion {
+  requestedAt: string
+  purgeAfter: string
+}
+
+export interface PurgeResult {
+  due: number
+  purged: number
+  failed: number
+  blobsDeleted: number
+}
+
+// The subset of @vercel/blob the purge needs, so tests can pass an in-memory store
+export interface BlobStore {
+  list(options: { prefix: string; cursor?: string }): Promise<{
+    blobs: Array<{ url: string }>
+    cursor?: string
+    hasMore: boolean
+  }>
+  del(urls: string[]): Promise<void>
+}
+
+export function computePurgeAfter(now: Date, graceDays: number = ACCOUNT_DELETION_GRACE_DAYS): Date {
+  return new Date(now.getTime() + graceDays * DAY_MS)
+}
+
+/**
+ * Re-authenticates with Supabase Auth using a throwaway anon client, so a
+ * hijacked session alone is not enough to delete an account.
+ */
+export async function verifyAccountPassword(email: string, password: string): Promise<boolean> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!url || !anonKey) {
+    throw new Error("Supabase configuration is missing. Please check your environment variables.")
+  }
+
+  const client = createClient(url, anonKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+  const { data, error } = await client.auth.signInWithPassword({ email, password })
+  return !error && Boolean(data.user)
+}
+
+export async function getAccountDeletion(supabase: SupabaseClient, userId: string): Promise<AccountDeletion | null> {
+  const { data, error } = await supabase
+    .from("account_deletions")
+    .select("requested_at, purge_after")
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? { requestedAt: data.requested_at, purgeAfter: data.purge_after } : null
+}
+
+// Requesting again keeps the original schedule rather than extending it
+export async function scheduleAccountDeletion(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<AccountDeletion> {
+  const existing = await getAccountDeletion(supabase, userId)
+  if (existing) {
+    return existing
+  }
+
+  const { data, error } = await supabase
+    .from("account_deletions")
+    .insert({
+      user_id: userId,
+      requested_at: now.toISOString(),
+      purge_after: computePurgeAfter(now).toISOString(),
+    })
+    .select("requested_at, purge_after")
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return { requestedAt: data.requested_at, purgeAfter: data.purge_after }
+}
+
+export async function cancelAccountDeletion(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("account_deletions").delete().eq("user_id", userId).select("user_id")
+
+  if (error) {
+    throw error
+  }
+
+  return (data ?? []).length > 0
+}
+
+// Uploads are stored as `${userId}/<timestamp>-<name>` by /api/upload. The listing
+// is collected before anything is deleted so pagination never skips a page.
+export async function deleteUserBlobs(userId: string, store: BlobStore): Promise<number> {
+  const urls: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await store.list({ prefix: `${userId}/`, cursor })
+    urls.push(...page.blobs.map((blob) => blob.url))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  for (let index = 0; index < urls.length; index += BLOB_DELETE_BATCH_SIZE) {
+    await store.del(urls.slice(index, index + BLOB_DELETE_BATCH_SIZE))
+  }
+
+  return urls.length
+}
+
+/**
+ * Purges every account whose grace period has ended. Blobs go first: if their
+ * removal fails the request is kept and retried on the next run, whereas
+ * deleting the auth user first would leave files nobody can trace back.
+ */
+export async function purgeDueAccountDeletions(
+  supabase: SupabaseClient,
+  blobStore: BlobStore | null,
+  now: Date = new Date(),
+): Promise<PurgeResult> {
+  const { data, error } = await supabase
+    .from("account_deletions")
+    .select("user_id")
+    .lte("purge_after", now.toISOString())
+
+  if (error) {
+    throw error
+  }
+
+  const due = (data ?? []).map((row) => row.user_id as string)
+  const result: PurgeResult = { due: due.length, purged: 0, failed: 0, blobsDeleted: 0 }
+
+  for (const userId of due) {
+    try {
+      if (blobStore) {
+        result.blobsDeleted += await deleteUserBlobs(userId, blobStore)
+      }
+
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(userId)
+      if (deleteError) {
+        throw deleteError
+      }
+
+      result.purged += 1
+    } catch (purgeError) {
+      console.error("[mindful-ai] Account purge failed", { userId }, purgeError)
+      result.failed += 1
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,309 @@
+// Server-side dispatcher for the command palette (/api/agent/execute)
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AgentCommand } from "./validations/agent"
+import type { AgentCommandResult, AgentGoal, AgentResource, AgentResourceType } from "../types/agent"
+import { normalizeEmotionLabel, toLegacyMood } from "./emotion-model"
+import { NotFoundError, ValidationError } from "./error-handler"
+import { analyzeMood, generateUserInsights, moodCategoryFromScore, type MoodCategoryName } from "./mcp-tools"
+import { recommendResource } from "./resource-recommendations"
+
+const DEFAULT_GOAL_TARGET = 7
+const DEFAULT_GOAL_UNIT = "days"
+
+export interface AgentCommandContext {
+  supabase: SupabaseClient
+  userId: string
+}
+
+interface GoalRow {
+  id: string
+  goal: string
+  target_value: number | string | null
+  current_value: number | string | null
+  unit: string | null
+  progress: number | null
+  is_active: boolean | null
+}
+
+const GOAL_COLUMNS = "id, goal, target_value, current_value, unit, progress, is_active"
+
+function mapGoal(row: GoalRow): AgentGoal {
+  return {
+    id: row.id,
+    goal: row.goal,
+    target: Number(row.target_value ?? 0),
+    current: Number(row.current_value ?? 0),
+    unit: row.unit ?? "",
+    progress: Number(row.progress ?? 0),
+    isActive: row.is_active !== false,
+  }
+}
+
+/**
+ * Turns free text such as "Meditate 10 minutes a day" into a goal draft.
+ * The first number/unit pair becomes the target; otherwise a week-long streak is assumed.
+ */
+export function parseGoalDraft(text: string): { goal: string; targetValue: number; unit: string } {
+  const goal = text.trim().replace(/\s+/g, " ").slice(0, 120)
+  const match = goal.match(/(\d+(?:\.\d+)?)\s*([a-zA-Z]+)?/)
+
+  const parsedTarget = match ? Number(match[1]) : Number.NaN
+  const targetValue = Number.isFinite(parsedTarget) && parsedTarget > 0 ? parsedTarget : DEFAULT_GOAL_TARGET
+  const unit = match?.[2] ? match[2].toLowerCase().slice(0, 32) : DEFAULT_GOAL_UNIT
+
+  return { goal, targetValue, unit }
+}
+
+/**
+ * Picks the goal a celebration refers to: explicit id first, then the best
+ * name match for the typed text, then the active goal closest to completion.
+ */
+export function selectGoalToCelebrate(goals: AgentGoal[], text?: string, goalId?: string): AgentGoal | null {
+  const active = goals.filter((goal) => goal.isActive)
+  if (goalId) {
+    return goals.find((goal) => goal.id === goalId) ?? null
+  }
+  if (active.length === 0) {
+    return null
+  }
+
+  const query = text?.trim().toLowerCase()
+  if (query) {
+    const words = query.split(/\s+/).filter((word) => word.length > 2)
+    const scored = active
+      .map((goal) => {
+        const name = goal.goal.toLowerCase()
+        const score = name.includes(query) ? words.length + 1 : words.filter((word) => name.includes(word)).length
+        return { goal, score }
+      })
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+    if (scored.length > 0) {
+      return scored[0].goal
+    }
+  }
+
+  return [...active].sort((a, b) => b.progress - a.progress)[0]
+}
+
+function toResource(resourceType: AgentResourceType, payload: Record<string, unknown>): AgentResource {
+  const text = (key: string) => (typeof payload[key] === "string" ? (payload[key] as string) : undefined)
+
+  switch (resourceType) {
+    case "music":
+      return {
+        title: text("title") ?? "Calming track",
+        subtitle: text("artist"),
+        description: text("reason"),
+        url: text("spotifyUrl") ?? text("appleMusicUrl"),
+      }
+    case "book":
+      return {
+        title: text("title") ?? "Wellness reading",
+        subtitle: text("author"),
+        description: text("relevance"),
+        url: text("amazonUrl"),
+      }
+    case "place":
+      return {
+        title: text("type") ?? "A quiet place nearby",
+        subtitle: text("address"),
+        description: [text("reason"), text("benefits")].filter(Boolean).join(". "),
+      }
+    case "quote":
+      return {
+        title: text("text") ?? "",
+        subtitle: text("author"),
+      }
+  }
+}
+
+async function loadGoals(context: AgentCommandContext, activeOnly: boolean): Promise<AgentGoal[]> {
+  let query = context.supabase.from("wellness_goals").select(GOAL_COLUMNS).eq("user_id", context.userId)
+  if (activeOnly) {
+    query = query.eq("is_active", true)
+  }
+  const { data, error } = await query.order("created_at", { ascending: true })
+  if (error) {
+    throw error
+  }
+  return ((data ?? []) as GoalRow[]).map(mapGoal)
+}
+
+async function resolveMood(
+  context: AgentCommandContext,
+  explicitMood: MoodCategoryName | undefined,
+  text: string | undefined,
+): Promise<MoodCategoryName> {
+  if (explicitMood) {
+    return explicitMood
+  }
+
+  if (text && text.trim().length >= 3) {
+    const analysis = await analyzeMood({ text })
+    return analysis.detectedMood
+  }
+
+  const { data } = await context.supabase
+    .from("profiles")
+    .select("last_empathy_data")
+    .eq("id", context.userId)
+    .maybeSingle()
+
+  // Saved responses may carry an extended label; the MCP tools only know the legacy six
+  const stored = normalizeEmotionLabel((data?.last_empathy_data as { detectedMood?: string } | null)?.detectedMood)
+  if (stored) {
+    return toLegacyMood(stored)
+  }
+
+  return "tired"
+}
+
+export async function executeAgentCommand(
+  command: AgentCommand,
+  context: AgentCommandContext,
+): Promise<AgentCommandResult> {
+  switch (command.command) {
+    case "draft_goal": {
+      const text = command.args.text ?? ""
+      if (text.length < 3) {
+        throw new ValidationError("Describe the goal in the palette first, e.g. \"Meditate 10 minutes a day\"")
+      }
+
+      const draft = parseGoalDraft(text)
+      const { data, error } = await context.supabase
+        .from("wellness_goals")
+        .insert({
+          user_id: context.userId,
+          goal: draft.goal,
+          target_value: command.args.targetValue ?? draft.targetValue,
+          current_value: 0,
+          unit: command.args.unit ?? draft.unit,
+          progress: 0,
+          is_active: true,
+        })
+        .select(GOAL_COLUMNS)
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      const goal = mapGoal(data as GoalRow)
+      return {
+        kind: "goal_created",
+        message: `New goal created: ${goal.goal} (${goal.target} ${goal.unit})`,
+        goal,
+      }
+    }
+
+    case "track_goals": {
+      const goals = await loadGoals(context, true)
+      const averageProgress = goals.length
+        ? Math.round(goals.reduce((sum, goal) => sum + goal.progress, 0) / goals.length)
+        : 0
+
+      return {
+        kind: "goal_progress",
+        message: goals.length
+          ? `${goals.length} active ${goals.length === 1 ? "goal" : "goals"}, ${averageProgress}% average progress`
+          : "No active goals yet. Create one to start tracking progress.",
+        goals,
+        averageProgress,
+      }
+    }
+
+    case "celebrate_goal": {
+      const goals = await loadGoals(context, false)
+      const target = selectGoalToCelebrate(goals, command.args.text, command.args.goalId)
+      if (!target) {
+        throw new NotFoundError("No active goal to celebrate yet")
+      }
+
+      const { data, error } = await context.supabase
+        .from("wellness_goals")
+        .update({ progress: 100, current_value: target.target, is_active: false })
+        .eq("id", target.id)
+        .eq("user_id", context.userId)
+        .select(GOAL_COLUMNS)
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      const goal = mapGoal(data as GoalRow)
+      return {
+        kind: "goal_completed",
+        message: `Congratulations on completing "${goal.goal}"!`,
+        goal,
+      }
+    }
+
+    case "fetch_resources": {
+      const { resourceType, latitude, longitude } = command.args
+      const mood = await resolveMood(context, command.args.mood, command.args.text)
+
+      const payload = await recommendResource(
+        resourceType,
+        { detectedMood: mood, latitude, longitude },
+        { supabase: context.supabase, userId: context.userId },
+      )
+      const resource = toResource(resourceType, { ...payload })
+      return {
+        kind: "resource",
+        message: resource.subtitle ? `${resource.title} — ${resource.subtitle}` : resource.title,
+        resourceType,
+        mood,
+        resource,
+      }
+    }
+
+    case "analyze_mood": {
+      const analysis = await analyzeMood({
+        text: command.args.text,
+        moodScore: command.args.moodScore,
+        energyLevel: command.args.energyLevel,
+      })
+
+      return {
+        kind: "mood_analysis",
+        message: analysis.analysis,
+        analysis,
+      }
+    }
+
+    case "generate_insights": {
+      const { data, error } = await context.supabase
+        .from("mood_entries")
+        .select("date, mood_score, energy_level, emotions, triggers")
+        .eq("user_id", context.userId)
+        .order("date", { ascending: false })
+        .limit(90)
+
+      if (error) {
+        throw error
+      }
+
+      const insights = await generateUserInsights({
+        userId: context.userId,
+        timeframe: command.args.timeframe,
+        moodHistory: (data ?? []).map((entry) => ({
+          date: entry.date,
+          mood: moodCategoryFromScore(entry.mood_score ?? 5),
+          moodScore: entry.mood_score ?? 5,
+          energyLevel: entry.energy_level ?? 5,
+          triggers: entry.triggers ?? [],
+          emotions: entry.emotions ?? [],
+        })),
+      })
+
+      return {
+        kind: "insights",
+        message: insights.insights[0] ?? "Insights generated from your mood history.",
+        insights,
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import type { EnergyBucket, MoodEntry } from "@/types/wellness"
+import { daysBetween, getLocalTime } from "./timezone"
 
 export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const
 
@@ -44,15 +45,17 @@ export function bucketHour(hourValue: number): number {
   return 20
 }
 
-export function aggregateEnergyByEntries(entries: MoodEntry[]): EnergyBucket[] {
+// Buckets by the weekday and hour on the user's clock; entries without a time of day keep their calendar date
+export function aggregateEnergyByEntries(entries: MoodEntry[], timeZone?: string | null): EnergyBucket[] {
   const accumulator = new Map<string, { day: string; hour: number; total: number; count: number }>()
 
   entries.forEach((entry) => {
     if (typeof entry.energy !== "number") return
     const timestamp = entry.createdAt ? new Date(entry.createdAt) : new Date(entry.date)
     if (Number.isNaN(timestamp.getTime())) return
-    const day = DAY_LABELS[timestamp.getUTCDay()]
-    const hour = bucketHour(timestamp.getUTCHours())
+    const local = getLocalTime(timestamp, entry.createdAt ? timeZone : "UTC")
+    const day = DAY_LABELS[local.weekday]
+    const hour = bucketHour(Number(local.time.slice(0, 2)))
     const key = `${day}-${hour}`
     const current = accumulator.get(key) ?? { day, hour, total: 0, count: 0 }
     current.total += entry.energy
@@ -66,3 +69,32 @@ export function aggregateEnergyByEntries(entries: MoodEntry[]): EnergyBucket[] {
     energy: Number((bucket.total / Math.max(bucket.count, 1)).toFixed(1)),
   }))
 }
+
+/**
+ * Consecutive check-in days counted back from the most recent entry. Entry dates are
+ * already local calendar days; pass `today` (the user's local date) to end a streak
+ * whose last check-in was before yesterday.
+ */
+export function computeStreak(entries: Pick<MoodEntry, "date">[], today?: string): number {
+  if (!entries.length) return 0
+  const uniqueDates = Array.from(
+    new Set(
+      entries
+        .map((entry) => entry.date?.slice(0, 10))
+        .filter((date): date is string => Boolean(date)),
+    ),
+  ).sort((a, b) => b.localeCompare(a))
+
+  if (!uniqueDates.length) return 0
+  if (today && daysBetween(uniqueDates[0], today) > 1) return 0
+
+  let streak = 1
+  for (let index = 1; index < uniqueDates.length; index++) {
+    if (daysBetween(uniqueDates[index], uniqueDates[index - 1]) === 1) {
+      streak += 1
+    } else {
+      break
+    }
+  }
+  return streak
+}
@@ -56,6 +56,22 @@ export async function withRateLimit(
   return null
 }
 
+/**
+ * Guard for cron-invoked routes: requires `Authorization: Bearer $CRON_SECRET`
+ */
+export function withCronAuth(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 503 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
+
 /**
  * Helper to add rate limit headers to successful responses
  */
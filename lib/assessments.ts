@@ -0,0 +1,430 @@
+// Validated self-report instruments (PHQ-9, GAD-7, PSS-10, UCLA-3): item text, official scoring
+// and severity bands, plus the mapping onto the 0-5 symptom ratings the empathy agent reads.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type AssessmentInstrumentId = "phq9" | "gad7" | "pss10" | "ucla3"
+
+export type SymptomKey = "anxiety" | "sadness" | "stress" | "loneliness" | "suicideTrends"
+
+export type SymptomRatings = Partial<Record<SymptomKey, number>>
+
+export interface AssessmentOption {
+  value: number
+  label: string
+}
+
+export interface SeverityBand {
+  severity: string
+  label: string
+  min: number
+  max: number
+  // Where the band sits on the 0-5 symptom rating scale used across check-ins
+  rating: number
+}
+
+export interface AssessmentInstrument {
+  id: AssessmentInstrumentId
+  name: string
+  title: string
+  // Lead-in read before every item, including the recall period
+  stem: string
+  items: string[]
+  options: AssessmentOption[]
+  // 1-based item numbers whose answer is reversed before summing
+  reverseScored: number[]
+  bands: SeverityBand[]
+  symptom: Exclude<SymptomKey, "suicideTrends">
+  citation: string
+}
+
+export interface AssessmentScore {
+  instrument: AssessmentInstrumentId
+  total: number
+  maxTotal: number
+  severity: string
+  severityLabel: string
+  rating: number
+  // Item scores after reverse scoring, in item order
+  itemScores: number[]
+}
+
+export interface AssessmentResult {
+  id: string
+  instrument: AssessmentInstrumentId
+  answers: number[]
+  total: number
+  severity: string
+  administeredAt: string
+}
+
+// The latest current score per instrument, as passed to the empathy agent
+export type AssessmentScores = Partial<Record<AssessmentInstrumentId, AssessmentScore>>
+
+export interface AssessmentTrend {
+  instrument: AssessmentInstrumentId
+  latest: AssessmentResult | null
+  // Change in total since the previous administration
+  change: number | null
+  due: boolean
+  nextDueAt: string | null
+  // Oldest first, for charting
+  history: Array<{ administeredAt: string; total: number; severity: string }>
+}
+
+export const ASSESSMENT_INTERVAL_DAYS = 14
+// Scores older than this no longer describe how someone has been lately
+export const SCORE_MAX_AGE_DAYS = 30
+// PHQ-9 item 9 asks about thoughts of death or self-harm
+export const PHQ9_SELF_HARM_ITEM = 9
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HISTORY_LIMIT = 200
+
+const FREQUENCY_OPTIONS: AssessmentOption[] = [
+  { value: 0, label: "Not at all" },
+  { value: 1, label: "Several days" },
+  { value: 2, label: "More than half the days" },
+  { value: 3, label: "Nearly every day" },
+]
+
+export const ASSESSMENT_INSTRUMENTS: Record<AssessmentInstrumentId, AssessmentInstrument> = {
+  phq9: {
+    id: "phq9",
+    name: "PHQ-9",
+    title: "Depression",
+    stem: "Over the last 2 weeks, how often have you been bothered by any of the following problems?",
+    items: [
+      "Little interest or pleasure in doing things",
+      "Feeling down, depressed, or hopeless",
+      "Trouble falling or staying asleep, or sleeping too much",
+      "Feeling tired or having little energy",
+      "Poor appetite or overeating",
+      "Feeling bad about yourself, or that you are a failure or have let yourself or your family down",
+      "Trouble concentrating on things, such as reading the newspaper or watching television",
+      "Moving or speaking so slowly that other people could have noticed, or the opposite: being so fidgety or restless that you have been moving around a lot more than usual",
+      "Thoughts that you would be better off dead, or of hurting yourself in some way",
+    ],
+    options: FREQUENCY_OPTIONS,
+    reverseScored: [],
+    bands: [
+      { severity: "minimal", label: "Minimal", min: 0, max: 4, rating: 0 },
+      { severity: "mild", label: "Mild", min: 5, max: 9, rating: 2 },
+      { severity: "moderate", label: "Moderate", min: 10, max: 14, rating: 3 },
+      { severity: "moderately_severe", label: "Moderately severe", min: 15, max: 19, rating: 4 },
+      { severity: "severe", label: "Severe", min: 20, max: 27, rating: 5 },
+    ],
+    symptom: "sadness",
+    citation: "Kroenke, Spitzer & Williams (2001)",
+  },
+  gad7: {
+    id: "gad7",
+    name: "GAD-7",
+    title: "Anxiety",
+    stem: "Over the last 2 weeks, how often have you been bothered by the following problems?",
+    items: [
+      "Feeling nervous, anxious, or on edge",
+      "Not being able to stop or control worrying",
+      "Worrying too much about different things",
+      "Trouble relaxing",
+      "Being so restless that it is hard to sit still",
+      "Becoming easily annoyed or irritable",
+      "Feeling afraid, as if something awful might happen",
+    ],
+    options: FREQUENCY_OPTIONS,
+    reverseScored: [],
+    bands: [
+      { severity: "minimal", label: "Minimal", min: 0, max: 4, rating: 0 },
+      { severity: "mild", label: "Mild", min: 5, max: 9, rating: 2 },
+      { severity: "moderate", label: "Moderate", min: 10, max: 14, rating: 3 },
+      { severity: "severe", label: "Severe", min: 15, max: 21, rating: 5 },
+    ],
+    symptom: "anxiety",
+    citation: "Spitzer, Kroenke, Williams & Löwe (2006)",
+  },
+  pss10: {
+    id: "pss10",
+    name: "PSS-10",
+    title: "Stress",
+    stem: "In the last month, how often have you...",
+    items: [
+      "Been upset because of something that happened unexpectedly?",
+      "Felt that you were unable to control the important things in your life?",
+      "Felt nervous and stressed?",
+      "Felt confident about your ability to handle your personal problems?",
+      "Felt that things were going your way?",
+      "Found that you could not cope with all the things that you had to do?",
+      "Been able to control irritations in your life?",
+      "Felt that you were on top of things?",
+      "Been angered because of things that happened that were outside of your control?",
+      "Felt difficulties were piling up so high that you could not overcome them?",
+    ],
+    options: [
+      { value: 0, label: "Never" },
+      { value: 1, label: "Almost never" },
+      { value: 2, label: "Sometimes" },
+      { value: 3, label: "Fairly often" },
+      { value: 4, label: "Very often" },
+    ],
+    reverseScored: [4, 5, 7, 8],
+    bands: [
+      { severity: "low", label: "Low", min: 0, max: 13, rating: 0 },
+      { severity: "moderate", label: "Moderate", min: 14, max: 26, rating: 3 },
+      { severity: "high", label: "High", min: 27, max: 40, rating: 5 },
+    ],
+    symptom: "stress",
+    citation: "Cohen, Kamarck & Mermelstein (1983)",
+  },
+  ucla3: {
+    id: "ucla3",
+    name: "UCLA-3",
+    title: "Loneliness",
+    stem: "How often do you feel...",
+    items: ["That you lack companionship?", "Left out?", "Isolated from others?"],
+    options: [
+      { value: 1, label: "Hardly ever" },
+      { value: 2, label: "Some of the time" },
+      { value: 3, label: "Often" },
+    ],
+    reverseScored: [],
+    bands: [
+      { severity: "not_lonely", label: "Not lonely", min: 3, max: 5, rating: 0 },
+      { severity: "lonely", label: "Lonely", min: 6, max: 9, rating: 3 },
+    ],
+    symptom: "loneliness",
+    citation: "Hughes, Waite, Hawkley & Cacioppo (2004)",
+  },
+}
+
+export const ASSESSMENT_INSTRUMENT_IDS = Object.keys(ASSESSMENT_INSTRUMENTS) as AssessmentInstrumentId[]
+
+// PHQ-9 item 9 answer -> suicideTrends; "more than half the days" reaches the high-severity threshold
+const SELF_HARM_RATINGS = [0, 2, 4, 5]
+
+export function isAssessmentInstrument(value: unknown): value is AssessmentInstrumentId {
+  return typeof value === "string" && value in ASSESSMENT_INSTRUMENTS
+}
+
+function optionRange(instrument: AssessmentInstrument): { min: number; max: number } {
+  const values = instrument.options.map((option) => option.value)
+  return { min: Math.min(...values), max: Math.max(...values) }
+}
+
+export function maxAssessmentTotal(instrument: AssessmentInstrument): number {
+  return optionRange(instrument).max * instrument.items.length
+}
+
+/**
+ * Scores a complete administration. Every item must be answered with one of the
+ * instrument's options; partial administrations are not prorated.
+ */
+export function scoreAssessment(instrumentId: AssessmentInstrumentId, answers: number[]): AssessmentScore {
+  const instrument = ASSESSMENT_INSTRUMENTS[instrumentId]
+  const { min, max } = optionRange(instrument)
+
+  if (answers.length !== instrument.items.length) {
+    throw new RangeError(`${instrument.name} needs ${instrument.items.length} answers, got ${answers.length}`)
+  }
+  answers.forEach((answer, index) => {
+    if (!Number.isInteger(answer) || answer < min || answer > max) {
+      throw new RangeError(`${instrument.name} item ${index + 1} must be between ${min} and ${max}`)
+    }
+  })
+
+  const itemScores = answers.map((answer, index) =>
+    instrument.reverseScored.includes(index + 1) ? min + max - answer : answer,
+  )
+  const total = itemScores.reduce((sum, score) => sum + score, 0)
+  const band = instrument.bands.find((candidate) => total >= candidate.min && total <= candidate.max)
+  if (!band) {
+    throw new RangeError(`${instrument.name} total ${total} is outside its severity bands`)
+  }
+
+  return {
+    instrument: instrumentId,
+    total,
+    maxTotal: maxAssessmentTotal(instrument),
+    severity: band.severity,
+    severityLabel: band.label,
+    rating: band.rating,
+    itemScores,
+  }
+}
+
+export function severityLabel(instrumentId: AssessmentInstrumentId, severity: string): string {
+  return ASSESSMENT_INSTRUMENTS[instrumentId].bands.find((band) => band.severity === severity)?.label ?? severity
+}
+
+export function isAssessmentDue(lastAdministeredAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!lastAdministeredAt) {
+    return true
+  }
+  return now.getTime() - new Date(lastAdministeredAt).getTime() >= ASSESSMENT_INTERVAL_DAYS * DAY_MS
+}
+
+// Results arrive newest first; one trend per instrument, including those never taken
+export function summarizeAssessmentTrends(results: AssessmentResult[], now: Date = new Date()): AssessmentTrend[] {
+  return ASSESSMENT_INSTRUMENT_IDS.map((instrument) => {
+    const own = results
+      .filter((result) => result.instrument === instrument)
+      .sort((a, b) => b.administeredAt.localeCompare(a.administeredAt))
+    const latest = own[0] ?? null
+    const previous = own[1]
+
+    return {
+      instrument,
+      latest,
+      change: latest && previous ? latest.total - previous.total : null,
+      due: isAssessmentDue(latest?.administeredAt, now),
+      nextDueAt: latest
+        ? new Date(new Date(latest.administeredAt).getTime() + ASSESSMENT_INTERVAL_DAYS * DAY_MS).toISOString()
+        : null,
+      history: own
+        .map((result) => ({ administeredAt: result.administeredAt, total: result.total, severity: result.severity }))
+        .reverse(),
+    }
+  })
+}
+
+// Rescored from stored answers, so a change to the bands applies to past administrations too
+export function latestAssessmentScores(results: AssessmentResult[], now: Date = new Date()): AssessmentScores {
+  const scores: AssessmentScores = {}
+  for (const trend of summarizeAssessmentTrends(results, now)) {
+    const latest = trend.latest
+    if (!latest || now.getTime() - new Date(latest.administeredAt).getTime() > SCORE_MAX_AGE_DAYS * DAY_MS) {
+      continue
+    }
+    try {
+      scores[trend.instrument] = scoreAssessment(trend.instrument, latest.answers)
+    } catch (error) {
+      console.error("[mindful-ai] Skipping unscorable assessment:", latest.id, error)
+    }
+  }
+  return scores
+}
+
+export function symptomRatingsFromAssessments(scores: AssessmentScores | undefined): SymptomRatings {
+  const ratings: SymptomRatings = {}
+  if (!scores) {
+    return ratings
+  }
+
+  for (const score of Object.values(scores)) {
+    if (score) {
+      ratings[ASSESSMENT_INSTRUMENTS[score.instrument].symptom] = score.rating
+    }
+  }
+
+  const selfHarm = scores.phq9?.itemScores[PHQ9_SELF_HARM_ITEM - 1]
+  if (typeof selfHarm === "number") {
+    ratings.suicideTrends = SELF_HARM_RATINGS[selfHarm]
+  }
+  return ratings
+}
+
+/**
+ * Standardized scores take the place of ad-hoc ratings for the symptoms they measure.
+ * Suicidal ideation is only ever the check-in's own rating: a stored PHQ-9 item 9 answer
+ * was screened when it was submitted and would otherwise escalate every check-in for a month.
+ */
+export function mergeSymptomRatings(
+  ratings: SymptomRatings | undefined,
+  scores: AssessmentScores | undefined,
+): SymptomRatings | undefined {
+  const standardized = symptomRatingsFromAssessments(scores)
+  delete standardized.suicideTrends
+  if (Object.keys(standardized).length === 0) {
+    return ratings
+  }
+
+  return { ...ratings, ...standardized }
+}
+
+// Prompt lines with totals and bands; item answers (including PHQ-9 item 9) stay out of the prompt
+export function describeAssessmentsForPrompt(scores: AssessmentScores | undefined): string[] {
+  const measures = ASSESSMENT_INSTRUMENT_IDS.flatMap((id) => {
+    const score = scores?.[id]
+    if (!score) {
+      return []
+    }
+    const instrument = ASSESSMENT_INSTRUMENTS[id]
+    return [`${instrument.name} ${score.total}/${score.maxTotal} (${score.severityLabel.toLowerCase()})`]
+  })
+  return measures.length > 0 ? [`Standardized measures: ${measures.join(", ")}`] : []
+}
+
+interface AssessmentRow {
+  id: string
+  instrument: AssessmentInstrumentId
+  answers: number[]
+  total_score: number
+  severity: string
+  administered_at: string
+}
+
+function toAssessmentResult(row: AssessmentRow): AssessmentResult {
+  return {
+    id: row.id,
+    instrument: row.instrument,
+    answers: row.answers,
+    total: row.total_score,
+    severity: row.severity,
+    administeredAt: row.administered_at,
+  }
+}
+
+export async function loadAssessmentResults(supabase: SupabaseClient, userId: string): Promise<AssessmentResult[]> {
+  const { data, error } = await supabase
+    .from("assessment_results")
+    .select("id, instrument, answers, total_score, severity, administered_at")
+    .eq("user_id", userId)
+    .order("administered_at", { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  return ((data ?? []) as AssessmentRow[])
+    .filter((row) => isAssessmentInstrument(row.instrument))
+    .map(toAssessmentResult)
+}
+
+// Used by the empathy route; a failed read means no standardized scores, never a failed check-in
+export async function loadAssessmentScores(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<AssessmentScores | undefined> {
+  try {
+    return latestAssessmentScores(await loadAssessmentResults(supabase, userId), now)
+  } catch (error) {
+    console.error("[mindful-ai] Failed to load assessment results:", error)
+    return undefined
+  }
+}
+
+export async function saveAssessmentResult(
+  supabase: SupabaseClient,
+  userId: string,
+  answers: number[],
+  score: AssessmentScore,
+): Promise<AssessmentResult> {
+  const { data, error } = await supabase
+    .from("assessment_results")
+    .insert({
+      user_id: userId,
+      instrument: score.instrument,
+      answers,
+      total_score: score.total,
+      severity: score.severity,
+    })
+    .select("id, instrument, answers, total_score, severity, administered_at")
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return toAssessmentResult(data as AssessmentRow)
+}
@@ -0,0 +1,325 @@
+// Confidence calibration: fits how often recommendations were actually rated helpful against the
+// heuristic confidence we reported, per detected mood and mix of input sources, and maps new raw
+// scores through the fitted reliability curve.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// Raw scores from calculateConfidence live in 45-95; each bin spans ten points
+export const CALIBRATION_BIN_EDGES = [45, 55, 65, 75, 85, 95] as const
+// A segment needs this much feedback before it is trusted over its parent
+export const MIN_SEGMENT_SAMPLES = 30
+
+// Pseudo-observations pulling each bin toward its parent segment's rate
+const PRIOR_WEIGHT = 10
+const FIT_SAMPLE_LIMIT = 5000
+const CACHE_TTL_MS = 10 * 60 * 1000
+const ANY = "*"
+
+export interface CalibrationSample {
+  // 0-100, the uncalibrated score that was shown alongside the recommendation
+  rawConfidence: number
+  mood: string
+  sourceMix: string | null
+  helpful: boolean
+}
+
+export interface CalibrationBin {
+  lower: number
+  upper: number
+  // Mean raw confidence of the samples in the bin, 0-100
+  predicted: number
+  // Smoothed, monotone helpful rate, 0-100
+  observed: number
+  count: number
+}
+
+export interface CalibrationSegment {
+  key: string
+  // null means the segment covers every mood (or every source mix)
+  mood: string | null
+  sourceMix: string | null
+  sampleSize: number
+  bins: CalibrationBin[]
+}
+
+export interface CalibrationModel {
+  segments: Record<string, CalibrationSegment>
+  fittedAt: string | null
+}
+
+export interface CalibrationQuery {
+  rawConfidence: number
+  mood: string
+  sourceMix: string
+}
+
+export interface CalibrationRunResult {
+  samples: number
+  segments: number
+}
+
+export const EMPTY_CALIBRATION: CalibrationModel = { segments: {}, fittedAt: null }
+
+const clampRaw = (value: number) =>
+  Math.max(CALIBRATION_BIN_EDGES[0], Math.min(CALIBRATION_BIN_EDGES[CALIBRATION_BIN_EDGES.length - 1], value))
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+// Order-independent key for the modalities that fed a response, e.g. "image+self-report+voice"
+export function buildSourceMix(types: readonly string[]): string {
+  return Array.from(new Set(types)).sort().join("+")
+}
+
+export function calibrationSegmentKey(mood?: string | null, sourceMix?: string | null): string {
+  return `${mood ?? ANY}|${sourceMix ?? ANY}`
+}
+
+function binIndex(rawConfidence: number): number {
+  const value = clampRaw(rawConfidence)
+  const index = CALIBRATION_BIN_EDGES.findIndex((edge, i) => i > 0 && value < edge)
+  return index === -1 ? CALIBRATION_BIN_EDGES.length - 2 : index - 1
+}
+
+// Reads a rate (0-1) off a fitted curve, interpolating between bin centres
+function rateAt(bins: CalibrationBin[], rawConfidence: number): number {
+  const first = bins[0]
+  const last = bins[bins.length - 1]
+  if (rawConfidence <= first.predicted) return first.observed / 100
+  if (rawConfidence >= last.predicted) return last.observed / 100
+
+  for (let i = 1; i < bins.length; i++) {
+    const right = bins[i]
+    if (rawConfidence <= right.predicted) {
+      const left = bins[i - 1]
+      const span = right.predicted - left.predicted
+      const t = span === 0 ? 1 : (rawConfidence - left.predicted) / span
+      return (left.observed + t * (right.observed - left.observed)) / 100
+    }
+  }
+  return last.observed / 100
+}
+
+// Pool-adjacent-violators: merges neighbouring bins until the helpful rate never drops as raw
+// confidence rises, so a higher raw score can't map to a lower calibrated one
+function enforceMonotone(rates: number[], weights: number[]): number[] {
+  const blocks: Array<{ rate: number; weight: number; size: number }> = []
+  rates.forEach((rate, i) => {
+    blocks.push({ rate, weight: weights[i], size: 1 })
+    while (blocks.length > 1 && blocks[blocks.length - 2].rate > blocks[blocks.length - 1].rate) {
+      const right = blocks.pop()!
+      const left = blocks.pop()!
+      const weight = left.weight + right.weight
+      blocks.push({ rate: (left.rate * left.weight + right.rate * right.weight) / weight, weight, size: left.size + right.size })
+    }
+  })
+  return blocks.flatMap((block) => Array<number>(block.size).fill(block.rate))
+}
+
+// parentRate gives the prior for a bin; the global segment passes the overall helpful rate
+function fitSegment(
+  samples: CalibrationSample[],
+  parentRate: (rawConfidence: number) => number,
+  mood: string | null,
+  sourceMix: string | null,
+): CalibrationSegment {
+  const buckets = CALIBRATION_BIN_EDGES.slice(1).map(() => ({ sum: 0, helpful: 0, count: 0 }))
+  for (const sample of samples) {
+    const bucket = buckets[binIndex(sample.rawConfidence)]
+    bucket.sum += clampRaw(sample.rawConfidence)
+    bucket.helpful += sample.helpful ? 1 : 0
+    bucket.count += 1
+  }
+
+  const filled = buckets
+    .map((bucket, i) => ({ ...bucket, lower: CALIBRATION_BIN_EDGES[i], upper: CALIBRATION_BIN_EDGES[i + 1] }))
+    .filter((bucket) => bucket.count > 0)
+  const predicted = filled.map((bucket) => bucket.sum / bucket.count)
+  const smoothed = filled.map(
+    (bucket, i) => (bucket.helpful + PRIOR_WEIGHT * parentRate(predicted[i])) / (bucket.count + PRIOR_WEIGHT),
+  )
+  const monotone = enforceMonotone(
+    smoothed,
+    filled.map((bucket) => bucket.count + PRIOR_WEIGHT),
+  )
+
+  return {
+    key: calibrationSegmentKey(mood, sourceMix),
+    mood,
+    sourceMix,
+    sampleSize: samples.length,
+    bins: filled.map((bucket, i) => ({
+      lower: bucket.lower,
+      upper: bucket.upper,
+      predicted: round1(predicted[i]),
+      observed: round1(monotone[i] * 100),
+      count: bucket.count,
+    })),
+  }
+}
+
+function groupBy(samples: CalibrationSample[], keyOf: (sample: CalibrationSample) => string | null) {
+  const groups = new Map<string, CalibrationSample[]>()
+  for (const sample of samples) {
+    const key = keyOf(sample)
+    if (key === null) continue
+    groups.set(key, [...(groups.get(key) ?? []), sample])
+  }
+  return groups
+}
+
+/**
+ * Fits the global curve, then one per mood and one per mood and source mix. Each level is
+ * smoothed toward the level above it, and segments below MIN_SEGMENT_SAMPLES are left out so
+ * lookups fall back to the broader curve.
+ */
+export function fitCalibration(samples: CalibrationSample[], fittedAt: Date = new Date()): CalibrationModel {
+  if (samples.length < MIN_SEGMENT_SAMPLES) {
+    return { segments: {}, fittedAt: fittedAt.toISOString() }
+  }
+
+  const overallRate = samples.filter((sample) => sample.helpful).length / samples.length
+  const global = fitSegment(samples, () => overallRate, null, null)
+  const segments: Record<string, CalibrationSegment> = { [global.key]: global }
+
+  for (const [mood, moodSamples] of groupBy(samples, (sample) => sample.mood)) {
+    if (moodSamples.length < MIN_SEGMENT_SAMPLES) continue
+    const moodSegment = fitSegment(moodSamples, (raw) => rateAt(global.bins, raw), mood, null)
+    segments[moodSegment.key] = moodSegment
+
+    for (const [sourceMix, mixSamples] of groupBy(moodSamples, (sample) => sample.sourceMix)) {
+      if (mixSamples.length < MIN_SEGMENT_SAMPLES) continue
+      const mixSegment = fitSegment(mixSamples, (raw) => rateAt(moodSegment.bins, raw), mood, sourceMix)
+      segments[mixSegment.key] = mixSegment
+    }
+  }
+
+  return { segments, fittedAt: fittedAt.toISOString() }
+}
+
+// The most specific segment with enough feedback, or null when nothing has been fitted yet
+export function findCalibrationSegment(model: CalibrationModel, mood: string, sourceMix: string): CalibrationSegment | null {
+  return (
+    model.segments[calibrationSegmentKey(mood, sourceMix)] ??
+    model.segments[calibrationSegmentKey(mood)] ??
+    model.segments[calibrationSegmentKey()] ??
+    null
+  )
+}
+
+// Returns the raw score unchanged until there is a fitted curve to map it through
+export function applyCalibration(model: CalibrationModel | undefined, query: CalibrationQuery): number {
+  const segment = model ? findCalibrationSegment(model, query.mood, query.sourceMix) : null
+  if (!segment || segment.bins.length === 0) {
+    return query.rawConfidence
+  }
+  return Math.max(1, Math.min(99, Math.round(rateAt(segment.bins, query.rawConfidence) * 100)))
+}
+
+interface FeedbackRow {
+  raw_confidence: number | string | null
+  confidence: number | string | null
+  detected_mood: string
+  emotion_label: string | null
+  source_mix: string | null
+  feedback: "helpful" | "not_helpful"
+}
+
+// Rows saved before calibration existed only have `confidence`, which was still the raw score then
+export function toCalibrationSample(row: FeedbackRow): CalibrationSample | null {
+  const value = row.raw_confidence ?? row.confidence
+  const rawConfidence = Number(value)
+  if (value === null || !Number.isFinite(rawConfidence)) return null
+  return {
+    rawConfidence,
+    mood: row.emotion_label ?? row.detected_mood,
+    sourceMix: row.source_mix,
+    helpful: row.feedback === "helpful",
+  }
+}
+
+// Refits every segment from recent feedback; segments that no longer qualify are removed
+export async function runCalibrationFit(supabase: SupabaseClient, now: Date = new Date()): Promise<CalibrationRunResult> {
+  const { data, error } = await supabase
+    .from("empathy_feedback")
+    .select("raw_confidence, confidence, detected_mood, emotion_label, source_mix, feedback")
+    .order("created_at", { ascending: false })
+    .limit(FIT_SAMPLE_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  const samples = ((data ?? []) as FeedbackRow[])
+    .map(toCalibrationSample)
+    .filter((sample): sample is CalibrationSample => sample !== null)
+  const model = fitCalibration(samples, now)
+  const rows = Object.values(model.segments).map((segment) => ({
+    segment_key: segment.key,
+    detected_mood: segment.mood,
+    source_mix: segment.sourceMix,
+    sample_size: segment.sampleSize,
+    bins: segment.bins,
+    fitted_at: model.fittedAt,
+  }))
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase.from("confidence_calibrations").upsert(rows, { onConflict: "segment_key" })
+    if (upsertError) {
+      throw upsertError
+    }
+  }
+
+  const { error: pruneError } = await supabase.from("confidence_calibrations").delete().lt("fitted_at", model.fittedAt)
+  if (pruneError) {
+    throw pruneError
+  }
+
+  cachedModel = null
+  return { samples: samples.length, segments: rows.length }
+}
+
+interface CalibrationRow {
+  segment_key: string
+  detected_mood: string | null
+  source_mix: string | null
+  sample_size: number
+  bins: CalibrationBin[]
+  fitted_at: string
+}
+
+let cachedModel: { model: CalibrationModel; loadedAt: number } | null = null
+
+// Cached for a few minutes since every empathy request needs it; failures fall back to raw scores
+export async function loadCalibrationModel(supabase: SupabaseClient, now: number = Date.now()): Promise<CalibrationModel> {
+  if (cachedModel && now - cachedModel.loadedAt < CACHE_TTL_MS) {
+    return cachedModel.model
+  }
+
+  const { data, error } = await supabase
+    .from("confidence_calibrations")
+    .select("segment_key, detected_mood, source_mix, sample_size, bins, fitted_at")
+
+  if (error) {
+    console.error("[mindful-ai] Failed to load confidence calibration:", error)
+    return EMPTY_CALIBRATION
+  }
+
+  const rows = (data ?? []) as CalibrationRow[]
+  const model: CalibrationModel = {
+    segments: Object.fromEntries(
+      rows.map((row) => [
+        row.segment_key,
+        {
+          key: row.segment_key,
+          mood: row.detected_mood,
+          sourceMix: row.source_mix,
+          sampleSize: row.sample_size,
+          bins: row.bins,
+        },
+      ]),
+    ),
+    fittedAt: rows.reduce<string | null>((latest, row) => (!latest || row.fitted_at > latest ? row.fitted_at : latest), null),
+  }
+
+  cachedModel = { model, loadedAt: now }
+  return model
+}
@@ -0,0 +1,265 @@
+// Curated recommendation content (interventions, quotes, songs, books, places). The catalogue
+// lives in the content_items table; the bundled seed in ./content-seed is used until the table
+// has rows, or whenever it can't be read.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { CONTENT_SEED } from "./content-seed"
+import { EMOTION_COORDINATES, EMOTION_LABELS, isEmotionLabel, toLegacyMood, type EmotionLabel } from "./emotion-model"
+import type { RecommendationRotation } from "./recommendation-history"
+import {
+  INTERVENTION_TYPES,
+  RECOMMENDATION_ITEM_KINDS,
+  rankCandidates,
+  type InterventionType,
+  type RecommendationItemKind,
+  type RecommendationPreferences,
+} from "./recommendation-personalization"
+
+// Content types share their names with the item kinds used for per-item feedback, so a
+// catalogue id and a feedback item id are the same string
+export type ContentType = RecommendationItemKind
+
+export const DEFAULT_CONTENT_LOCALE = "en"
+
+export interface ExerciseRecommendation {
+  title: string
+  description: string
+  actionLabel: string
+  actionType: InterventionType
+}
+
+export interface QuoteRecommendation {
+  text: string
+  author: string
+}
+
+export interface SongRecommendation {
+  title: string
+  artist: string
+  reason: string
+  spotifyUrl: string
+  appleMusicUrl: string
+}
+
+export interface BookRecommendation {
+  title: string
+  author: string
+  relevance: string
+  amazonUrl: string
+  coverUrl?: string
+}
+
+export interface PlaceRecommendation {
+  type: string
+  reason: string
+  benefits: string
+  address?: string
+  coordinates?: {
+    lat: number
+    lng: number
+  }
+}
+
+export interface ContentLinks {
+  spotify?: string
+  appleMusic?: string
+  amazon?: string
+  cover?: string
+}
+
+export interface ContentItem {
+  // "<type>:<slug>", e.g. "book:feeling-good-the-new-mood-therapy"
+  id: string
+  type: ContentType
+  // Exercise or song or book title, quote text, or place description
+  title: string
+  // Quote, song or book author
+  creator?: string
+  // Exercise description, or why a song, book or place fits
+  summary?: string
+  // Type-specific fields: actionLabel/actionType for exercises, benefits/foursquareCategories for places
+  details?: Record<string, string>
+  moods: EmotionLabel[]
+  evidence?: string
+  locale: string
+  links?: ContentLinks
+  active: boolean
+  // Higher first among items for the same mood
+  priority: number
+}
+
+export interface ContentLibrary {
+  items: ContentItem[]
+  source: "database" | "seed"
+}
+
+export interface ContentSelection {
+  preferences?: RecommendationPreferences
+  rotation?: RecommendationRotation
+  locale?: string
+}
+
+export const SEED_CONTENT_LIBRARY: ContentLibrary = { items: CONTENT_SEED, source: "seed" }
+
+const CACHE_TTL_MS = 5 * 60 * 1000
+// How many neighbouring moods lend their items as alternatives when feedback or rotation rules one out
+const CANDIDATE_MOODS = 4
+function languageOf(locale?: string): string {
+  return (locale ?? DEFAULT_CONTENT_LOCALE).split(/[-_,;]/)[0].trim().toLowerCase() || DEFAULT_CONTENT_LOCALE
+}
+
+/**
+ * Active items of a type for a mood, best first. Extended labels without their own items use
+ * the legacy mood they map to; items in the requested language come before the default locale.
+ */
+export function findContent(library: ContentLibrary, type: ContentType, mood: EmotionLabel, locale?: string): ContentItem[] {
+  const language = languageOf(locale)
+  const usable = library.items.filter(
+    (item) => item.active && item.type === type && [language, DEFAULT_CONTENT_LOCALE].includes(languageOf(item.locale)),
+  )
+
+  let matches = usable.filter((item) => item.moods.includes(mood))
+  if (matches.length === 0) {
+    const legacy = toLegacyMood(mood)
+    matches = usable.filter((item) => item.moods.includes(legacy))
+  }
+
+  const localized = (item: ContentItem) => (languageOf(item.locale) === language ? 1 : 0)
+  return matches.sort((a, b) => localized(b) - localized(a) || b.priority - a.priority)
+}
+
+function neighbouringMoods(mood: EmotionLabel): EmotionLabel[] {
+  const origin = EMOTION_COORDINATES[mood]
+  const distance = (label: EmotionLabel) =>
+    Math.hypot(EMOTION_COORDINATES[label].valence - origin.valence, EMOTION_COORDINATES[label].arousal - origin.arousal)
+  return [...EMOTION_LABELS].sort((a, b) => distance(a) - distance(b)).slice(0, CANDIDATE_MOODS)
+}
+
+/**
+ * The mood's top item of a type, or a neighbouring mood's when the user's feedback or rotation
+ * rules favour it. Types the catalogue has no active items for come from the bundled seed.
+ */
+export function selectContent(
+  library: ContentLibrary,
+  type: ContentType,
+  mood: EmotionLabel,
+  { preferences, rotation, locale }: ContentSelection = {},
+): ContentItem {
+  const moods = preferences || rotation ? neighbouringMoods(mood) : [mood]
+  for (const source of [library, SEED_CONTENT_LIBRARY]) {
+    const seen = new Set<string>()
+    const candidates = moods
+      .flatMap((label) => findContent(source, type, label, locale))
+      .filter((item) => !seen.has(item.id) && seen.add(item.id))
+      .map((item) => ({ item, id: item.id, actionType: type === "exercise" ? toExercise(item).actionType : undefined }))
+    if (candidates.length > 0) {
+      return rankCandidates(candidates, preferences, rotation)[0].item
+    }
+  }
+  throw new Error(`No ${type} content for mood: ${mood}`)
+}
+
+export function toExercise(item: ContentItem): ExerciseRecommendation {
+  const actionType = item.details?.actionType ?? ""
+  return {
+    title: item.title,
+    description: item.summary ?? "",
+    actionLabel: item.details?.actionLabel ?? "Start",
+    actionType: (INTERVENTION_TYPES as readonly string[]).includes(actionType) ? (actionType as InterventionType) : "journal",
+  }
+}
+
+export function toQuote(item: ContentItem): QuoteRecommendation {
+  return { text: item.title, author: item.creator ?? "Unknown" }
+}
+
+export function toSong(item: ContentItem): SongRecommendation {
+  const search = encodeURIComponent(`${item.title} ${item.creator ?? ""}`.trim())
+  return {
+    title: item.title,
+    artist: item.creator ?? "",
+    reason: item.summary ?? "",
+    spotifyUrl: item.links?.spotify ?? `https://open.spotify.com/search/${search}`,
+    appleMusicUrl: item.links?.appleMusic ?? `https://music.apple.com/search?term=${search}`,
+  }
+}
+
+export function toBook(item: ContentItem): BookRecommendation {
+  return {
+    title: item.title,
+    author: item.creator ?? "",
+    relevance: item.summary ?? "",
+    amazonUrl: item.links?.amazon ?? `https://www.amazon.com/s?k=${encodeURIComponent(item.title)}`,
+    coverUrl: item.links?.cover,
+  }
+}
+
+export function toPlace(item: ContentItem): PlaceRecommendation {
+  return { type: item.title, reason: item.summary ?? "", benefits: item.details?.benefits ?? "" }
+}
+
+interface ContentItemRow {
+  id: string
+  type: string
+  title: string
+  creator: string | null
+  summary: string | null
+  details: Record<string, string> | null
+  mood_tags: string[] | null
+  evidence: string | null
+  locale: string | null
+  links: ContentLinks | null
+  active: boolean
+  priority: number | null
+}
+
+// Rows with an unknown type are skipped, and unknown mood tags dropped, rather than failing the load
+export function toContentItem(row: ContentItemRow): ContentItem | null {
+  if (!(RECOMMENDATION_ITEM_KINDS as readonly string[]).includes(row.type)) {
+    return null
+  }
+  return {
+    id: row.id,
+    type: row.type as ContentType,
+    title: row.title,
+    creator: row.creator ?? undefined,
+    summary: row.summary ?? undefined,
+    details: row.details ?? undefined,
+    moods: (row.mood_tags ?? []).filter(isEmotionLabel),
+    evidence: row.evidence ?? undefined,
+    locale: row.locale ?? DEFAULT_CONTENT_LOCALE,
+    links: row.links ?? undefined,
+    active: row.active,
+    priority: row.priority ?? 0,
+  }
+}
+
+let cachedLibrary: { library: ContentLibrary; loadedAt: number } | null = null
+
+// Without a client, on errors, or while the table is empty, the bundled seed is returned
+export async function loadContentLibrary(supabase: SupabaseClient | null, now: number = Date.now()): Promise<ContentLibrary> {
+  if (!supabase) {
+    return SEED_CONTENT_LIBRARY
+  }
+  if (cachedLibrary && now - cachedLibrary.loadedAt < CACHE_TTL_MS) {
+    return cachedLibrary.library
+  }
+
+  const { data, error } = await supabase
+    .from("content_items")
+    .select("id, type, title, creator, summary, details, mood_tags, evidence, locale, links, active, priority")
+    .eq("active", true)
+
+  if (error) {
+    console.error("[mindful-ai] Failed to load content library:", error)
+    return SEED_CONTENT_LIBRARY
+  }
+
+  const items = ((data ?? []) as ContentItemRow[])
+    .map(toContentItem)
+    .filter((item): item is ContentItem => item !== null)
+  const library: ContentLibrary = items.length > 0 ? { items, source: "database" } : SEED_CONTENT_LIBRARY
+
+  cachedLibrary = { library, loadedAt: now }
+  return library
+}
@@ -0,0 +1,333 @@
+// Bundled seed for the content_items catalogue, migrated from the recommendation literals that
+// used to live in the empathy agent and the resource routes. supabase/schema.sql inserts the same rows.
+
+import type { EmotionLabel } from "./emotion-model"
+import { contentItemId } from "./recommendation-personalization"
+import type {
+  BookRecommendation,
+  ContentItem,
+  ExerciseRecommendation,
+  PlaceRecommendation,
+  QuoteRecommendation,
+  SongRecommendation,
+} from "./content-library"
+
+interface SeedMeta {
+  evidence?: string
+  // Items carried over from the agent's literals rank above those carried over from the routes
+  priority?: number
+}
+
+function item(fields: Omit<ContentItem, "id" | "locale" | "active" | "priority">, meta: SeedMeta): ContentItem {
+  return {
+    id: contentItemId(fields.type, fields.title, fields.creator),
+    ...fields,
+    evidence: meta.evidence,
+    locale: "en",
+    active: true,
+    priority: meta.priority ?? 1,
+  }
+}
+
+function exercise(mood: EmotionLabel, { title, description, actionLabel, actionType, ...meta }: ExerciseRecommendation & SeedMeta) {
+  return item({ type: "exercise", title, summary: description, details: { actionLabel, actionType }, moods: [mood] }, meta)
+}
+
+function quote(mood: EmotionLabel, { text, author, ...meta }: QuoteRecommendation & SeedMeta) {
+  return item({ type: "quote", title: text, creator: author, moods: [mood] }, meta)
+}
+
+function song(mood: EmotionLabel, { title, artist, reason, spotifyUrl, appleMusicUrl, ...meta }: SongRecommendation & SeedMeta) {
+  return item(
+    { type: "song", title, creator: artist, summary: reason, moods: [mood], links: { spotify: spotifyUrl, appleMusic: appleMusicUrl } },
+    meta,
+  )
+}
+
+function book(mood: EmotionLabel, { title, author, relevance, amazonUrl, ...meta }: BookRecommendation & SeedMeta) {
+  return item({ type: "book", title, creator: author, summary: relevance, moods: [mood], links: { amazon: amazonUrl } }, meta)
+}
+
+function place(mood: EmotionLabel, foursquareCategories: string, { type, reason, benefits, ...meta }: PlaceRecommendation & SeedMeta) {
+  return item({ type: "place", title: type, summary: reason, details: { benefits, foursquareCategories }, moods: [mood] }, meta)
+}
+
+export const CONTENT_SEED: ContentItem[] = [
+  // Interventions
+  exercise("anxious", {
+    title: "Diaphragmatic Breathing (Evidence-Based Anxiety Reduction)",
+    description:
+      "Practice diaphragmatic breathing: Inhale slowly for 4 counts, hold for 7, exhale for 8. Repeat for 5 minutes. This technique activates the parasympathetic nervous system and has been shown to reduce anxiety symptoms in clinical trials.",
+    actionLabel: "Begin breathing exercise",
+    actionType: "breathing",
+    evidence: "Clinical trials of slow diaphragmatic breathing for anxiety",
+  }),
+  exercise("happy", {
+    title: "Gratitude Practice (Evidence-Based)",
+    description:
+      "Document 3 specific things you're grateful for today. Research shows regular gratitude practice increases overall well-being and life satisfaction.",
+    actionLabel: "Open journal",
+    actionType: "journal",
+    evidence: "Gratitude intervention research on well-being and life satisfaction",
+  }),
+  exercise("sad", {
+    title: "Behavioral Activation (Depression Treatment)",
+    description:
+      "Engage in one small, meaningful activity despite low motivation. Behavioral activation is an evidence-based treatment for depression that helps break the cycle of withdrawal and sadness.",
+    actionLabel: "View suggested activities",
+    actionType: "contact",
+    evidence: "Behavioral activation, an established treatment for depression",
+  }),
+  exercise("tired", {
+    title: "Restorative Break (15 minutes)",
+    description:
+      "Take a 15-minute intentional break: Step outside for fresh air, practice gentle stretching, or simply rest. Brief restorative breaks improve cognitive function and emotional regulation.",
+    actionLabel: "Set timer for break",
+    actionType: "timer",
+    evidence: "Research on brief restorative breaks and attention recovery",
+  }),
+  exercise("stressed", {
+    title: "Progressive Muscle Relaxation (PMR)",
+    description:
+      "Practice PMR: Systematically tense and release each muscle group for 5-7 seconds, progressing from feet to head. This evidence-based technique reduces physiological arousal.",
+    actionLabel: "Begin PMR exercise",
+    actionType: "breathing",
+    evidence: "Progressive muscle relaxation (Jacobson); lowers physiological arousal",
+  }),
+  exercise("excited", {
+    title: "Goal Setting Exercise",
+    description:
+      "Channel this energy into planning toward a personal goal. Write specific action steps. Goal-directed behavior during positive mood states increases achievement.",
+    actionLabel: "Start planning",
+    actionType: "journal",
+    evidence: "Goal-setting research during positive mood states",
+  }),
+  exercise("angry", {
+    title: "Pause and Cool Down (STOP Skill)",
+    description:
+      "Stop, take a step back, observe what you're feeling in your body, then proceed mindfully. A few slow exhales before responding lowers physiological arousal and reduces reactive decisions.",
+    actionLabel: "Start a cool-down breath",
+    actionType: "breathing",
+    evidence: "DBT distress tolerance (STOP skill)",
+  }),
+  exercise("calm", {
+    title: "Anchor the Calm (Mindful Savoring)",
+    description:
+      "Spend two minutes noticing what is helping you feel calm: your surroundings, your breath, your body. Savoring positive states strengthens your ability to return to them.",
+    actionLabel: "Note what helps",
+    actionType: "journal",
+    evidence: "Savoring research from positive psychology",
+  }),
+  exercise("content", {
+    title: "Three Good Things",
+    description:
+      "Write down three things that went well today and why. This exercise has been shown to sustain well-being and build resilience for harder days.",
+    actionLabel: "Open journal",
+    actionType: "journal",
+    evidence: "Three Good Things (Seligman et al., 2005)",
+  }),
+  exercise("hopeful", {
+    title: "Hope Map (Goals and Pathways)",
+    description:
+      "Write one goal you feel hopeful about, two possible pathways toward it, and one obstacle you can plan for. Hope theory research links clear pathways with sustained motivation.",
+    actionLabel: "Start a hope map",
+    actionType: "journal",
+    evidence: "Snyder's hope theory (goals, pathways, agency)",
+  }),
+  exercise("lonely", {
+    title: "One Small Connection",
+    description:
+      "Send a short message to one person you trust, or join a low-pressure group activity this week. Small, regular contact is one of the most effective ways to ease loneliness.",
+    actionLabel: "Reach out to someone",
+    actionType: "contact",
+    evidence: "Social connection interventions for loneliness",
+  }),
+  exercise("grieving", {
+    title: "Make Space for Grief",
+    description:
+      "Set aside ten minutes to write to or about what you've lost. Expressive writing gives grief a place to go and is linked with gradual emotional processing.",
+    actionLabel: "Open journal",
+    actionType: "journal",
+    evidence: "Expressive writing research (Pennebaker)",
+  }),
+  exercise("numb", {
+    title: "Grounding Through the Senses (5-4-3-2-1)",
+    description:
+      "Name five things you see, four you can touch, three you hear, two you smell and one you taste. Sensory grounding gently reconnects you with the present when feelings are muted.",
+    actionLabel: "Start grounding timer",
+    actionType: "timer",
+    evidence: "Sensory grounding from trauma-informed care",
+  }),
+
+  // Quotes
+  quote("anxious", { text: "Between stimulus and response there is a space. In that space is our power to choose our response.", author: "Viktor E. Frankl" }),
+  quote("happy", { text: "Happiness is not by chance, but by choice.", author: "Jim Rohn" }),
+  quote("sad", { text: "The only way out is through.", author: "Robert Frost" }),
+  quote("tired", { text: "Almost everything will work again if you unplug it for a few minutes, including you.", author: "Anne Lamott" }),
+  quote("stressed", { text: "You can't calm the storm, so stop trying. What you can do is calm yourself.", author: "Timber Hawkeye" }),
+  quote("excited", { text: "The only way to do great work is to love what you do.", author: "Steve Jobs" }),
+  quote("angry", { text: "For every minute you remain angry, you give up sixty seconds of peace of mind.", author: "Ralph Waldo Emerson" }),
+  quote("calm", { text: "Within you, there is a stillness and a sanctuary to which you can retreat at any time.", author: "Hermann Hesse" }),
+  quote("content", { text: "Contentment is natural wealth; luxury is artificial poverty.", author: "Socrates" }),
+  quote("hopeful", { text: "Hope is the thing with feathers that perches in the soul.", author: "Emily Dickinson" }),
+  quote("lonely", { text: "We're all just walking each other home.", author: "Ram Dass" }),
+  quote("grieving", { text: "Grief is just love with no place to go.", author: "Jamie Anderson" }),
+  quote("numb", { text: "Feelings are much like waves, we can't stop them from coming but we can choose which one to surf.", author: "Jonatan Mårtensson" }),
+  quote("anxious", {
+    text: "You are braver than you believe, stronger than you seem, and smarter than you think.",
+    author: "A.A. Milne",
+    priority: 0,
+  }),
+  quote("sad", { text: "The wound is the place where the light enters you.", author: "Rumi", priority: 0 }),
+
+  // Songs
+  song("anxious", {
+    title: "Weightless",
+    artist: "Marconi Union",
+    reason: "Clinical studies show this composition can reduce anxiety levels through carefully designed harmonies.",
+    spotifyUrl: "https://open.spotify.com/search/Weightless%20Marconi%20Union",
+    appleMusicUrl: "https://music.apple.com/search?term=Weightless%20Marconi%20Union",
+    evidence: "Mindlab International relaxation study (2011)",
+  }),
+  song("happy", {
+    title: "Here Comes the Sun",
+    artist: "The Beatles",
+    reason: "Uplifting melody that matches and amplifies positive energy.",
+    spotifyUrl: "https://open.spotify.com/search/Here%20Comes%20the%20Sun%20Beatles",
+    appleMusicUrl: "https://music.apple.com/search?term=Here%20Comes%20the%20Sun%20Beatles",
+  }),
+  song("sad", {
+    title: "The Night We Met",
+    artist: "Lord Huron",
+    reason: "Music therapy research suggests validating emotional experiences through music can provide cathartic release.",
+    spotifyUrl: "https://open.spotify.com/search/The%20Night%20We%20Met%20Lord%20Huron",
+    appleMusicUrl: "https://music.apple.com/search?term=The%20Night%20We%20Met%20Lord%20Huron",
+    evidence: "Music therapy research on emotional validation",
+  }),
+  song("tired", {
+    title: "Clair de Lune",
+    artist: "Debussy",
+    reason: "Gentle, restorative classical piece that promotes relaxation.",
+    spotifyUrl: "https://open.spotify.com/search/Clair%20de%20Lune%20Debussy",
+    appleMusicUrl: "https://music.apple.com/search?term=Clair%20de%20Lune%20Debussy",
+  }),
+  song("stressed", {
+    title: "Breathe Me",
+    artist: "Sia",
+    reason: "Emotionally resonant music can facilitate emotional processing and self-compassion.",
+    spotifyUrl: "https://open.spotify.com/search/Breathe%20Me%20Sia",
+    appleMusicUrl: "https://music.apple.com/search?term=Breathe%20Me%20Sia",
+  }),
+  song("excited", {
+    title: "Good Life",
+    artist: "OneRepublic",
+    reason: "Amplifies positive momentum and celebrates living fully.",
+    spotifyUrl: "https://open.spotify.com/search/Good%20Life%20OneRepublic",
+    appleMusicUrl: "https://music.apple.com/search?term=Good%20Life%20OneRepublic",
+  }),
+
+  // Books
+  book("anxious", {
+    title: "The Anxiety and Phobia Workbook",
+    author: "Edmund J. Bourne, PhD",
+    relevance: "Evidence-based CBT and mindfulness techniques for managing anxiety disorders.",
+    amazonUrl: "https://www.amazon.com/s?k=The+Anxiety+and+Phobia+Workbook",
+    evidence: "CBT and mindfulness workbook",
+  }),
+  book("happy", {
+    title: "The Book of Joy",
+    author: "Dalai Lama & Desmond Tutu",
+    relevance: "Deepens appreciation for joy and teaches cultivating lasting happiness.",
+    amazonUrl: "https://www.amazon.com/s?k=The+Book+of+Joy",
+  }),
+  book("sad", {
+    title: "Feeling Good: The New Mood Therapy",
+    author: "David D. Burns, MD",
+    relevance: "Evidence-based cognitive behavioral techniques for managing depression.",
+    amazonUrl: "https://www.amazon.com/s?k=Feeling+Good+David+Burns",
+    evidence: "CBT self-help; bibliotherapy trials for depression",
+  }),
+  book("tired", {
+    title: "Rest",
+    author: "Alex Soojung-Kim Pang",
+    relevance: "The science of productive rest and why downtime is essential.",
+    amazonUrl: "https://www.amazon.com/s?k=Rest+Alex+Soojung-Kim+Pang",
+  }),
+  book("stressed", {
+    title: "The Relaxation and Stress Reduction Workbook",
+    author: "Martha Davis, PhD",
+    relevance: "Comprehensive evidence-based techniques for stress management.",
+    amazonUrl: "https://www.amazon.com/s?k=Relaxation+Stress+Reduction+Workbook",
+    evidence: "CBT and relaxation training workbook",
+  }),
+  book("excited", {
+    title: "Flow",
+    author: "Mihaly Csikszentmihalyi",
+    relevance: "The psychology of optimal experience and peak performance.",
+    amazonUrl: "https://www.amazon.com/s?k=Flow+Csikszentmihalyi",
+  }),
+
+  // Places; foursquareCategories drive the nearby-place lookup
+  place("anxious", "16032", {
+    type: "A quiet natural space (park or botanical garden)",
+    reason: "Nature-based therapy has demonstrated efficacy in reducing cortisol and anxiety symptoms",
+    benefits: "Natural environments support nervous system regulation.",
+    evidence: "Nature exposure and cortisol research",
+  }),
+  place("happy", "13035", {
+    type: "A hilltop viewpoint",
+    reason: "Expansive views amplify positive emotions",
+    benefits: "Wide open spaces enhance feelings of possibility and freedom.",
+  }),
+  place("sad", "13035", {
+    type: "A well-lit communal space (café or library)",
+    reason: "Gentle social exposure combats isolation, a key maintaining factor in depression",
+    benefits: "Low-pressure environment that provides structure and human connection.",
+  }),
+  place("tired", "16032", {
+    type: "A quiet park bench under trees",
+    reason: "Restorative environment with nature sounds",
+    benefits: "Dappled sunlight and bird songs provide sensory restoration.",
+  }),
+  place("stressed", "16021", {
+    type: "A natural water setting (lake, ocean, or stream)",
+    reason: "Blue space exposure has been shown to reduce physiological markers of stress",
+    benefits: "Rhythmic water sounds promote parasympathetic nervous system activation.",
+    evidence: "Blue space research on physiological stress",
+  }),
+  place("excited", "10027", {
+    type: "An inspiring creative space or museum",
+    reason: "Novel environments stimulate dopamine and creative thinking",
+    benefits: "New experiences channel excitement into growth and learning.",
+  }),
+  place("anxious", "16032", {
+    type: "A botanical garden",
+    reason: "Nature exposure reduces cortisol by 21%",
+    benefits: "Green spaces calm the nervous system and promote grounding",
+    priority: 0,
+  }),
+  place("happy", "13035", {
+    type: "A scenic viewpoint",
+    reason: "Expansive views amplify positive emotions",
+    benefits: "Height enhances feelings of possibility and freedom",
+    priority: 0,
+  }),
+  place("sad", "13035", {
+    type: "A cozy café with natural light",
+    reason: "Gentle social exposure and warm atmosphere",
+    benefits: "Soft ambient noise eases loneliness without pressure",
+    priority: 0,
+  }),
+  place("stressed", "16021", {
+    type: "A nearby body of water",
+    reason: "Blue spaces calm the nervous system",
+    benefits: "Water sounds lower blood pressure and reduce tension",
+    priority: 0,
+  }),
+  place("excited", "10027", {
+    type: "An art museum or gallery",
+    reason: "Channel energy into inspiration",
+    benefits: "Visual engagement sustains positive momentum",
+    priority: 0,
+  }),
+]
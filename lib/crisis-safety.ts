@@ -0,0 +1,307 @@
+// Deterministic crisis screening - runs before any LLM call and never depends on OpenAI
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type CrisisSignalSource = "symptoms" | "text" | "voice"
+
+export interface CrisisSignal {
+  source: CrisisSignalSource
+  detail: string
+}
+
+export interface CrisisAssessment {
+  isCrisis: boolean
+  severity: "none" | "elevated" | "high"
+  signals: CrisisSignal[]
+}
+
+export interface CrisisResource {
+  name: string
+  phone?: string
+  text?: string
+  url: string
+  description: string
+}
+
+export interface CrisisSupport {
+  severity: "elevated" | "high"
+  region: string
+  emergencyNumber: string
+  resources: CrisisResource[]
+}
+
+export interface CrisisScreeningInput {
+  suicideTrends?: number
+  texts?: string[]
+  voiceTranscript?: string
+}
+
+// Phrases that describe intent or a plan are treated as high severity
+const HIGH_RISK_PATTERNS: RegExp[] = [
+  /\bkill(?:ing)? myself\b/,
+  /\bend(?:ing)? my (?:own )?life\b/,
+  /\bend it all\b/,
+  /\btake my (?:own )?life\b/,
+  /\bsuicide (?:plan|note)\b/,
+  /\bquitarme la vida\b/,
+  /\bmatarme\b/,
+  /\bsuicidarme\b/,
+]
+
+// Statements of ideation or self-harm. Negations ("not suicidal") are still
+// escalated on purpose: a false positive costs a hotline card, a miss costs far more.
+const RISK_PATTERNS: RegExp[] = [
+  /\bsuicid(?:e|al)\b/,
+  /\b(?:want(?:ed)?|wanna|going) to die\b/,
+  /\bwish i could die\b/,
+  /\bwish i (?:was|were) dead\b/,
+  /\bbetter off dead\b/,
+  /\bbetter off without me\b/,
+  /\bno reason to live\b/,
+  /\bnot worth living\b/,
+  /\bdon'?t want to (?:live|be alive|be here anymore|wake up)\b/,
+  /\bhurt(?:ing)? myself\b/,
+  /\bself[- ]?harm\b/,
+  /\bcut(?:ting)? myself\b/,
+  /\bquiero morir(?:me)?\b/,
+  /\bno quiero vivir\b/,
+]
+
+const SUICIDE_TRENDS_HIGH_THRESHOLD = 3
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ")
+}
+
+function matchPatterns(text: string, patterns: RegExp[]): string[] {
+  const normalized = normalize(text)
+  return patterns.filter((pattern) => pattern.test(normalized)).map((pattern) => pattern.source)
+}
+
+/**
+ * Screens symptom ratings and free text for suicide or self-harm risk.
+ * Signals carry the category of what matched, never the user's words.
+ */
+export function assessCrisisRisk(input: CrisisScreeningInput): CrisisAssessment {
+  const signals: CrisisSignal[] = []
+  let high = false
+
+  if (typeof input.suicideTrends === "number" && input.suicideTrends > 0) {
+    signals.push({ source: "symptoms", detail: `suicidal ideation rated ${input.suicideTrends}/5` })
+    high = high || input.suicideTrends >= SUICIDE_TRENDS_HIGH_THRESHOLD
+  }
+
+  const textSources: Array<{ source: CrisisSignalSource; text: string }> = [
+    ...(input.texts ?? []).map((text) => ({ source: "text" as const, text })),
+    ...(input.voiceTranscript ? [{ source: "voice" as const, text: input.voiceTranscript }] : []),
+  ]
+
+  for (const { source, text } of textSources) {
+    if (!text || text.trim().length === 0) {
+      continue
+    }
+    const highMatches = matchPatterns(text, HIGH_RISK_PATTERNS)
+    const riskMatches = matchPatterns(text, RISK_PATTERNS)
+    if (highMatches.length > 0) {
+      high = true
+      signals.push({ source, detail: "statement of intent to end life" })
+    } else if (riskMatches.length > 0) {
+      signals.push({ source, detail: "risk language about self-harm or dying" })
+    }
+  }
+
+  if (signals.length === 0) {
+    return { isCrisis: false, severity: "none", signals }
+  }
+
+  return { isCrisis: true, severity: high ? "high" : "elevated", signals }
+}
+
+const INTERNATIONAL_RESOURCE: CrisisResource = {
+  name: "Find A Helpline",
+  url: "https://findahelpline.com",
+  description: "Free, confidential crisis lines in your country, available by phone, text or chat.",
+}
+
+const REGIONAL_SUPPORT: Record<string, { emergencyNumber: string; resources: CrisisResource[] }> = {
+  US: {
+    emergencyNumber: "911",
+    resources: [
+      {
+        name: "988 Suicide & Crisis Lifeline",
+        phone: "988",
+        text: "988",
+        url: "https://988lifeline.org",
+        description: "Call or text 988, any time, to reach a trained crisis counselor.",
+      },
+    ],
+  },
+  CA: {
+    emergencyNumber: "911",
+    resources: [
+      {
+        name: "9-8-8 Suicide Crisis Helpline",
+        phone: "988",
+        text: "988",
+        url: "https://988.ca",
+        description: "Call or text 9-8-8 for support in English or French, 24/7.",
+      },
+    ],
+  },
+  GB: {
+    emergencyNumber: "999",
+    resources: [
+      {
+        name: "Samaritans",
+        phone: "116 123",
+        url: "https://www.samaritans.org",
+        description: "Free to call, day or night, from any phone.",
+      },
+      {
+        name: "Shout",
+        text: "85258",
+        url: "https://giveusashout.org",
+        description: "Text SHOUT to 85258 for free, confidential support.",
+      },
+    ],
+  },
+  IE: {
+    emergencyNumber: "112",
+    resources: [
+      {
+        name: "Samaritans Ireland",
+        phone: "116 123",
+        url: "https://www.samaritans.org/ireland",
+        description: "Free to call, day or night.",
+      },
+    ],
+  },
+  AU: {
+    emergencyNumber: "000",
+    resources: [
+      {
+        name: "Lifeline Australia",
+        phone: "13 11 14",
+        url: "https://www.lifeline.org.au",
+        description: "24/7 crisis support and suicide prevention.",
+      },
+    ],
+  },
+  ES: {
+    emergencyNumber: "112",
+    resources: [
+      {
+        name: "Línea 024",
+        phone: "024",
+        url: "https://www.sanidad.gob.es/linea024/home.htm",
+        description: "Atención a la conducta suicida, gratuita y disponible 24 horas.",
+      },
+    ],
+  },
+  MX: {
+    emergencyNumber: "911",
+    resources: [
+      {
+        name: "Línea de la Vida",
+        phone: "800 911 2000",
+        url: "https://www.gob.mx/salud/conadic",
+        description: "Orientación y apoyo emocional gratuito las 24 horas.",
+      },
+    ],
+  },
+  CO: {
+    emergencyNumber: "123",
+    resources: [
+      {
+        name: "Línea 106",
+        phone: "106",
+        url: "https://www.minsalud.gov.co",
+        description: "Línea de escucha y apoyo emocional, gratuita y disponible 24 horas.",
+      },
+      {
+        name: "Línea 192 opción 4",
+        phone: "192",
+        url: "https://www.minsalud.gov.co",
+        description: "Atención en salud mental del Ministerio de Salud.",
+      },
+    ],
+  },
+}
+
+const DEFAULT_REGION = "US"
+
+// Accepts "es-CO", "en_GB", an upper-case region ("AU") or an Accept-Language header.
+// Bare language tags ("es") say nothing about where someone lives, so they are skipped.
+export function resolveCrisisRegion(locale?: string | null): string {
+  if (!locale) {
+    return DEFAULT_REGION
+  }
+
+  for (const candidate of locale.split(",")) {
+    const tag = candidate.split(";")[0].trim().replace("_", "-")
+    const parts = tag.split("-")
+    const region = parts.length > 1 ? parts[parts.length - 1].toUpperCase() : /^[A-Z]{2}$/.test(tag) ? tag : ""
+    if (REGIONAL_SUPPORT[region]) {
+      return region
+    }
+  }
+
+  return "INTL"
+}
+
+export function getCrisisSupport(assessment: CrisisAssessment, locale?: string | null): CrisisSupport {
+  const region = resolveCrisisRegion(locale)
+  const regional = REGIONAL_SUPPORT[region]
+
+  return {
+    severity: assessment.severity === "high" ? "high" : "elevated",
+    region,
+    emergencyNumber: regional?.emergencyNumber ?? "your local emergency number",
+    resources: [...(regional?.resources ?? []), INTERNATIONAL_RESOURCE],
+  }
+}
+
+export function buildCrisisMessage(support: CrisisSupport): string {
+  const primary = support.resources[0]
+  const contact = primary.phone ? `${primary.name} at ${primary.phone}` : primary.name
+
+  if (support.severity === "high") {
+    return `Thank you for telling us how much you're hurting. Your safety matters most right now. If you might act on these thoughts, please call ${support.emergencyNumber} or contact ${contact} now - you don't have to go through this alone.`
+  }
+
+  return `Thank you for sharing something this hard. Thoughts about dying or hurting yourself deserve real support, not just an app. Please consider reaching out to ${contact} today; they are free, confidential and available around the clock.`
+}
+
+/**
+ * Records a crisis alert in ai_insights. One alert per user per day keeps the
+ * Insight Center honest without flooding it when a user retries a check-in.
+ */
+export async function recordCrisisAlert(
+  supabase: SupabaseClient,
+  userId: string,
+  assessment: CrisisAssessment,
+  now: Date = new Date(),
+): Promise<void> {
+  const day = now.toISOString().slice(0, 10)
+  const sources = Array.from(new Set(assessment.signals.map((signal) => signal.source)))
+
+  const { error } = await supabase.from("ai_insights").upsert(
+    {
+      user_id: userId,
+      insight_type: "alert",
+      title: "Safety check-in",
+      description: `On ${day} your check-in showed signs you may be at risk. Crisis support is available any time.`,
+      action: "Review the crisis resources and consider contacting a professional or someone you trust.",
+    },
+    { onConflict: "user_id,description", ignoreDuplicates: true },
+  )
+
+  if (error) {
+    throw error
+  }
+
+  console.warn("[mindful-ai] Crisis alert recorded", { severity: assessment.severity, sources })
+}
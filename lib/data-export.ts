@@ -0,0 +1,163 @@
+// Personal data export: every row a user owns, as a versioned JSON archive plus CSVs
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+// Bump when the archive layout changes so consumers can tell formats apart
+export const EXPORT_VERSION = 1
+
+const PAGE_SIZE = 1000
+
+// Tables owned by a user, the column that links them to the account and the column rows are exported in order of
+export const EXPORT_TABLES = [
+  { table: "profiles", ownerColumn: "id", orderColumn: "created_at" },
+  { table: "onboarding_responses", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "mood_entries", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "journal_entries", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "wellness_goals", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "ai_insights", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "empathy_feedback", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "recommendation_feedback", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "recommendation_history", ownerColumn: "user_id", orderColumn: "delivered_at" },
+  { table: "assessment_results", ownerColumn: "user_id", orderColumn: "administered_at" },
+  { table: "safety_plans", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "professional_messages", ownerColumn: "user_id", orderColumn: "created_at" },
+  { table: "notification_deliveries", ownerColumn: "user_id", orderColumn: "created_at" },
+] as const
+
+export type ExportTableName = (typeof EXPORT_TABLES)[number]["table"]
+export type ExportRow = Record<string, unknown>
+export type ExportTables = Record<ExportTableName, ExportRow[]>
+
+export interface ExportUpload {
+  table: ExportTableName
+  id: string
+  field: string
+  url: string
+}
+
+export interface ExportArchive {
+  version: number
+  exportedAt: string
+  userId: string
+  tables: ExportTables
+  uploads: ExportUpload[]
+}
+
+// Columns that point at files in Vercel Blob storage
+const UPLOAD_FIELDS: Partial<Record<ExportTableName, string[]>> = {
+  profiles: ["avatar_url"],
+  mood_entries: ["audio_url", "photo_url"],
+}
+
+export const CSV_EXPORTS = {
+  mood_entries: [
+    "date",
+    "mood_score",
+    "energy_level",
+    "emotions",
+    "triggers",
+    "coping_strategies",
+    "entry_type",
+    "note",
+    "audio_url",
+    "photo_url",
+    "entry_timestamp",
+    "created_at",
+  ],
+  journal_entries: ["date", "content", "created_at", "updated_at"],
+} as const satisfies Partial<Record<ExportTableName, readonly string[]>>
+
+export type CsvExportName = keyof typeof CSV_EXPORTS
+
+export function isCsvExportName(value: string | null): value is CsvExportName {
+  return value !== null && Object.prototype.hasOwnProperty.call(CSV_EXPORTS, value)
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ""
+  }
+
+  let text = Array.isArray(value) ? value.join("; ") : typeof value === "object" ? JSON.stringify(value) : String(value)
+
+  // Spreadsheet apps execute cells that start with these characters as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: ExportRow[], columns: readonly string[]): string {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((column) => formatCsvCell(row[column])).join(","))]
+  return `${lines.join("\r\n")}\r\n`
+}
+
+export function collectUploads(tables: Partial<ExportTables>): ExportUpload[] {
+  const uploads: ExportUpload[] = []
+
+  for (const [table, fields] of Object.entries(UPLOAD_FIELDS) as Array<[ExportTableName, string[]]>) {
+    for (const row of tables[table] ?? []) {
+      for (const field of fields) {
+        const url = row[field]
+        if (typeof url === "string" && url.trim()) {
+          uploads.push({ table, id: String(row.id ?? ""), field, url })
+        }
+      }
+    }
+  }
+
+  return uploads
+}
+
+export function buildExportArchive(userId: string, tables: ExportTables, exportedAt: Date = new Date()): ExportArchive {
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    userId,
+    tables,
+    uploads: collectUploads(tables),
+  }
+}
+
+async function loadTable(
+  supabase: SupabaseClient,
+  { table, ownerColumn, orderColumn }: (typeof EXPORT_TABLES)[number],
+  userId: string,
+): Promise<ExportRow[]> {
+  const rows: ExportRow[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq(ownerColumn, userId)
+      .order(orderColumn, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows.push(...((data ?? []) as ExportRow[]))
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+/**
+ * Loads every exportable table for one user. A failing table fails the whole
+ * export: a silently partial archive would be worse than an error.
+ */
+export async function loadUserTables(
+  supabase: SupabaseClient,
+  userId: string,
+  tables: readonly ExportTableName[] = EXPORT_TABLES.map((entry) => entry.table),
+): Promise<Partial<ExportTables>> {
+  const selected = EXPORT_TABLES.filter((entry) => tables.includes(entry.table))
+  const results = await Promise.all(
+    selected.map(async (entry) => [entry.table, await loadTable(supabase, entry, userId)] as const),
+  )
+  return Object.fromEntries(results) as Partial<ExportTables>
+}
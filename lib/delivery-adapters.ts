@@ -0,0 +1,56 @@
+// Pluggable transports for scheduled notifications (reminders, weekly summaries)
+
+export type DeliveryChannel = "email" | "push" | "sms"
+export type DeliveryKind = "daily_reminder" | "weekly_summary"
+
+export interface DeliveryMessage {
+  userId: string
+  kind: DeliveryKind
+  channel: DeliveryChannel
+  to: string | null
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface DeliveryAdapter {
+  name: string
+  supports(channel: DeliveryChannel): boolean
+  send(message: DeliveryMessage): Promise<void>
+}
+
+/**
+ * Development transport: writes each message to the server log instead of
+ * sending it. Recipients and bodies are omitted so logs stay free of PII.
+ */
+export function createLogTransport(logger: Pick<Console, "info"> = console): DeliveryAdapter {
+  return {
+    name: "log",
+    supports: () => true,
+    async send(message) {
+      logger.info("[mindful-ai] delivery (log transport)", {
+        userId: message.userId,
+        kind: message.kind,
+        channel: message.channel,
+        subject: message.subject,
+      })
+    },
+  }
+}
+
+const adapterFactories: Record<string, () => DeliveryAdapter> = {
+  log: () => createLogTransport(),
+}
+
+// Lets deployments plug in real providers (e-mail, push, SMS) without touching the scheduler
+export function registerDeliveryAdapter(name: string, factory: () => DeliveryAdapter) {
+  adapterFactories[name] = factory
+}
+
+export function getDeliveryAdapter(name: string = process.env.NOTIFICATION_TRANSPORT || "log"): DeliveryAdapter {
+  const factory = adapterFactories[name]
+  if (!factory) {
+    throw new Error(`Unknown notification transport "${name}"`)
+  }
+  return factory()
+}
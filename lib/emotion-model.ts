@@ -0,0 +1,201 @@
+// Two-dimensional emotion model. Every label sits at a valence (unpleasant -> pleasant) and
+// arousal (low -> high energy) coordinate in [-1, 1]. The six original labels are part of the
+// set, and every extended label maps back to one of them wherever legacy data is stored or read.
+
+export const LEGACY_MOOD_LABELS = ["anxious", "happy", "sad", "tired", "stressed", "excited"] as const
+export const EXTENDED_EMOTION_LABELS = ["angry", "calm", "content", "hopeful", "lonely", "grieving", "numb"] as const
+export const EMOTION_LABELS = [...LEGACY_MOOD_LABELS, ...EXTENDED_EMOTION_LABELS] as const
+
+export type LegacyMoodCategory = (typeof LEGACY_MOOD_LABELS)[number]
+export type ExtendedEmotionLabel = (typeof EXTENDED_EMOTION_LABELS)[number]
+export type EmotionLabel = (typeof EMOTION_LABELS)[number]
+
+export interface EmotionCoordinates {
+  valence: number
+  arousal: number
+}
+
+export interface EmotionState extends EmotionCoordinates {
+  label: EmotionLabel
+  // What older clients, empathy_feedback.detected_mood and the MCP tools understand
+  legacyMood: LegacyMoodCategory
+}
+
+export const EMOTION_COORDINATES: Record<EmotionLabel, EmotionCoordinates> = {
+  anxious: { valence: -0.6, arousal: 0.7 },
+  happy: { valence: 0.8, arousal: 0.3 },
+  sad: { valence: -0.7, arousal: -0.4 },
+  tired: { valence: -0.2, arousal: -0.8 },
+  stressed: { valence: -0.5, arousal: 0.5 },
+  excited: { valence: 0.7, arousal: 0.8 },
+  angry: { valence: -0.7, arousal: 0.8 },
+  calm: { valence: 0.5, arousal: -0.6 },
+  content: { valence: 0.6, arousal: -0.2 },
+  hopeful: { valence: 0.5, arousal: 0.2 },
+  lonely: { valence: -0.6, arousal: -0.2 },
+  grieving: { valence: -0.9, arousal: -0.1 },
+  numb: { valence: -0.3, arousal: -0.7 },
+}
+
+const LEGACY_MOOD_MAP: Record<ExtendedEmotionLabel, LegacyMoodCategory> = {
+  angry: "stressed",
+  calm: "happy",
+  content: "happy",
+  hopeful: "happy",
+  lonely: "sad",
+  grieving: "sad",
+  numb: "sad",
+}
+
+// Near-synonyms models and users reach for, keyed without spaces or hyphens
+const EMOTION_ALIASES: Record<string, EmotionLabel> = {
+  nervous: "anxious",
+  worried: "anxious",
+  uneasy: "anxious",
+  tense: "anxious",
+  scared: "anxious",
+  afraid: "anxious",
+  fearful: "anxious",
+  panicked: "anxious",
+  joyful: "happy",
+  smiling: "happy",
+  delighted: "happy",
+  cheerful: "happy",
+  glad: "happy",
+  grateful: "happy",
+  gloomy: "sad",
+  melancholic: "sad",
+  blue: "sad",
+  downcast: "sad",
+  down: "sad",
+  depressed: "sad",
+  unhappy: "sad",
+  exhausted: "tired",
+  sleepy: "tired",
+  drained: "tired",
+  fatigued: "tired",
+  burnedout: "tired",
+  burntout: "tired",
+  bored: "tired",
+  neutral: "tired",
+  overwhelmed: "stressed",
+  frustrated: "stressed",
+  pressured: "stressed",
+  hyped: "excited",
+  energized: "excited",
+  thrilled: "excited",
+  playful: "excited",
+  enthusiastic: "excited",
+  motivated: "excited",
+  mad: "angry",
+  furious: "angry",
+  irritated: "angry",
+  annoyed: "angry",
+  resentful: "angry",
+  relaxed: "calm",
+  peaceful: "calm",
+  serene: "calm",
+  tranquil: "calm",
+  relieved: "calm",
+  satisfied: "content",
+  fulfilled: "content",
+  optimistic: "hopeful",
+  encouraged: "hopeful",
+  isolated: "lonely",
+  alone: "lonely",
+  lonesome: "lonely",
+  disconnected: "lonely",
+  grief: "grieving",
+  bereaved: "grieving",
+  mourning: "grieving",
+  heartbroken: "grieving",
+  empty: "numb",
+  detached: "numb",
+  flat: "numb",
+  apathetic: "numb",
+}
+
+// Scores this close to the centre carry no usable signal
+const NEUTRAL_RADIUS = 0.3
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value))
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export function isEmotionLabel(value: unknown): value is EmotionLabel {
+  return typeof value === "string" && (EMOTION_LABELS as readonly string[]).includes(value)
+}
+
+export function isExtendedEmotion(label: EmotionLabel): label is ExtendedEmotionLabel {
+  return (EXTENDED_EMOTION_LABELS as readonly string[]).includes(label)
+}
+
+// Returns null for anything that isn't a known label or alias, so callers decide the fallback
+export function normalizeEmotionLabel(value: unknown): EmotionLabel | null {
+  if (typeof value !== "string") {
+    return null
+  }
+  const lowered = value.trim().toLowerCase()
+  if (isEmotionLabel(lowered)) {
+    return lowered
+  }
+  return EMOTION_ALIASES[lowered.replace(/[\s-]/g, "")] ?? null
+}
+
+export function toLegacyMood(label: EmotionLabel): LegacyMoodCategory {
+  return isExtendedEmotion(label) ? LEGACY_MOOD_MAP[label] : label
+}
+
+// Maps 1-10 mood and energy ratings onto the valence/arousal plane
+export function coordinatesFromScores(moodScore: number, energyLevel: number): EmotionCoordinates {
+  return {
+    valence: round2(clampUnit((moodScore - 5.5) / 4.5)),
+    arousal: round2(clampUnit((energyLevel - 5.5) / 4.5)),
+  }
+}
+
+export function emotionFromCoordinates(
+  coordinates: EmotionCoordinates,
+  candidates: readonly EmotionLabel[] = EMOTION_LABELS,
+): EmotionLabel {
+  let best: EmotionLabel = candidates[0] ?? "tired"
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const label of candidates) {
+    const point = EMOTION_COORDINATES[label]
+    const distance = Math.hypot(point.valence - coordinates.valence, point.arousal - coordinates.arousal)
+    if (distance < bestDistance) {
+      best = label
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// Resolves free-form labels, using the ratings only when the label is unknown and the ratings
+// clearly point somewhere; "tired" stays the neutral baseline it has always been
+export function resolveEmotionLabel(value: unknown, moodScore?: number, energyLevel?: number): EmotionLabel {
+  const normalized = normalizeEmotionLabel(value)
+  if (normalized) {
+    return normalized
+  }
+  if (typeof moodScore === "number" && typeof energyLevel === "number") {
+    const coordinates = coordinatesFromScores(moodScore, energyLevel)
+    if (Math.hypot(coordinates.valence, coordinates.arousal) > NEUTRAL_RADIUS) {
+      return emotionFromCoordinates(coordinates)
+    }
+  }
+  return "tired"
+}
+
+// The label anchors the quadrant; observed ratings, when present, place the point within it
+export function describeEmotion(label: EmotionLabel, observed?: EmotionCoordinates): EmotionState {
+  const anchor = EMOTION_COORDINATES[label]
+  const valence = observed ? (anchor.valence + observed.valence) / 2 : anchor.valence
+  const arousal = observed ? (anchor.arousal + observed.arousal) / 2 : anchor.arousal
+
+  return {
+    label,
+    valence: round2(clampUnit(valence)),
+    arousal: round2(clampUnit(arousal)),
+    legacyMood: toLegacyMood(label),
+  }
+}
@@ -1,8 +1,67 @@
-// Therapeutic empathy agent - generates professional mental health recommendations using OpenAI
-
-import { retryFetch } from "./retry"
-
-export type MoodCategory = "anxious" | "happy" | "sad" | "tired" | "stressed" | "excited"
+// Therapeutic empathy agent - generates professional mental health recommendations via the configured LLM provider
+
+import { classifyMoodText } from "../mcp-server/src/tools/mood-analysis"
+import {
+  coordinatesFromScores,
+  describeEmotion,
+  normalizeEmotionLabel,
+  resolveEmotionLabel,
+  toLegacyMood,
+  type EmotionCoordinates,
+  type EmotionLabel,
+  type EmotionState,
+} from "./emotion-model"
+import {
+  fuseMoodSignals,
+  type MoodContribution,
+  type MoodDisagreement,
+  type MoodFusionResult,
+  type MoodSignal,
+} from "./mood-fusion"
+import { applyCalibration, buildSourceMix, type CalibrationModel } from "./confidence-calibration"
+import {
+  contentItemId,
+  describePreferencesForPrompt,
+  isUnhelpfulItem,
+  type RecommendationItemKind,
+  type RecommendationPreferences,
+} from "./recommendation-personalization"
+import {
+  SEED_CONTENT_LIBRARY,
+  selectContent,
+  toBook,
+  toExercise,
+  toPlace,
+  toQuote,
+  toSong,
+  type BookRecommendation,
+  type ContentLibrary,
+  type ExerciseRecommendation,
+  type PlaceRecommendation,
+  type QuoteRecommendation,
+  type SongRecommendation,
+} from "./content-library"
+import { describeRotationForPrompt, isRecentlyRecommended, type RecommendationRotation } from "./recommendation-history"
+import {
+  describeAssessmentsForPrompt,
+  mergeSymptomRatings,
+  symptomRatingsFromAssessments,
+  type AssessmentScores,
+} from "./assessments"
+import { completeStructured, getLLMProvider, type LLMProvider } from "./llm"
+import { createRedactor, logRedactions, type RedactionOptions } from "./pii-redaction"
+import { empathyLLMResponseSchema, type EmpathyLLMResponse } from "./validations/llm"
+import {
+  assessCrisisRisk,
+  buildCrisisMessage,
+  getCrisisSupport,
+  type CrisisAssessment,
+  type CrisisSupport,
+} from "./crisis-safety"
+import { suggestsSafetyPlan } from "./safety-plan"
+
+// The six original moods plus the extended labels; see lib/emotion-model.ts
+export type MoodCategory = EmotionLabel
 
 interface EmpathyInput {
   moodScore: number
@@ -13,6 +72,8 @@ interface EmpathyInput {
   voiceTranscript?: string
   imageMood?: string
   imageConfidence?: number
+  // Per-modality labels to fuse; when absent, detectedMood is treated as the user's own report
+  signals?: MoodSignal[]
   // Therapeutic questionnaire data (PRIMARY)
   symptomRatings?: {
     anxiety?: number
@@ -21,6 +82,8 @@ interface EmpathyInput {
     loneliness?: number
     suicideTrends?: number
   }
+  // Latest PHQ-9/GAD-7/PSS-10/UCLA-3 scores; they replace ad-hoc ratings for the symptoms they measure
+  assessments?: AssessmentScores
   therapyHistory?: {
     hasPreviousTherapy?: boolean
     duration?: string
@@ -29,71 +92,78 @@ interface EmpathyInput {
   therapeuticRelationshipImportance?: number
   patientReadiness?: number
   presentingProblem?: string
+  // BCP 47 tag or Accept-Language header, used to pick crisis hotlines
+  locale?: string
 }
 
-interface AnalysisSource {
-  type: "text" | "symptoms" | "history" | "assessment"
-  label: string
-  weight: number
+interface EmpathyOptions {
+  // Invoked when crisis screening escalates, before the crisis response is returned
+  onCrisis?: (assessment: CrisisAssessment) => Promise<void> | void
+  // Defaults to the provider selected by LLM_PROVIDER
+  llm?: LLMProvider
+  // Personal details in free text are pseudonymized before the prompt is built
+  redaction?: RedactionOptions
+  // Fitted from feedback outcomes; without it the heuristic score is returned as-is
+  calibration?: CalibrationModel
+  // The user's item-level feedback; unhelpful items are down-ranked and helpful intervention types preferred
+  preferences?: RecommendationPreferences
+  // Loaded from content_items; defaults to the bundled seed
+  content?: ContentLibrary
+  // Built from the user's recommendation history; recently delivered items aren't repeated
+  rotation?: RecommendationRotation
 }
 
+// One entry per signal that fed the detected mood, with its actual share of the evidence
+type AnalysisSource = MoodContribution
+
 interface TherapeuticRecommendation {
   empathyMessage: string
-  recommendation: {
-    title: string
-    description: string
-    actionLabel: string
-    actionType: "breathing" | "journal" | "timer" | "contact"
-  }
-  quote: {
-    text: string
-    author: string
-  }
-  music: {
-    title: string
-    artist: string
-    reason: string
-    spotifyUrl: string
-    appleMusicUrl: string
-  }
-  book: {
-    title: string
-    author: string
-    relevance: string
-    amazonUrl: string
-    coverUrl?: string
-  }
-  place: {
-    type: string
-    reason: string
-    benefits: string
-    address?: string
-    coordinates?: {
-      lat: number
-      lng: number
-    }
-  }
+  recommendation: ExerciseRecommendation
+  quote: QuoteRecommendation
+  music: SongRecommendation
+  book: BookRecommendation
+  place: PlaceRecommendation
 }
 
-export interface EmpathyResponse extends TherapeuticRecommendation {
+// Music, book and place are omitted from crisis responses
+export interface EmpathyResponse
+  extends Omit<TherapeuticRecommendation, "music" | "book" | "place">,
+    Partial<Pick<TherapeuticRecommendation, "music" | "book" | "place">> {
   detectedMood: MoodCategory
+  // Valence/arousal placement of detectedMood, with the legacy label for older consumers
+  emotion: EmotionState
+  // Calibrated against how often similar responses were rated helpful
   confidence: number
+  // The heuristic score before calibration, echoed back with feedback so the fit can use it
+  rawConfidence: number
+  sourceMix: string
   analysisSummary: string
   analysisSources: AnalysisSource[]
+  // Set when a meaningful source pointed to a different mood than the one we went with
+  disagreement?: MoodDisagreement
+  // Identity of each recommended item, sent back with per-item feedback
+  itemIds: Partial<Record<RecommendationItemKind, string>>
   warnings?: string[]
+  crisis?: CrisisSupport
+  // Distress is high enough to point the user to their safety plan
+  safetyPlanSuggested?: boolean
 }
 
 // ============================================================================
 // MOOD DETECTION FROM THERAPEUTIC SYMPTOMS (PRIMARY METHOD)
 // ============================================================================
 
-export function detectMoodFromSymptoms(symptomRatings: {
-  anxiety?: number
-  sadness?: number
-  stress?: number
-  loneliness?: number
-  suicideTrends?: number
-}): MoodCategory | null {
+export function detectMoodFromSymptoms(
+  ratings: {
+    anxiety?: number
+    sadness?: number
+    stress?: number
+    loneliness?: number
+    suicideTrends?: number
+  },
+  assessments?: AssessmentScores,
+): MoodCategory | null {
+  const symptomRatings = mergeSymptomRatings(ratings, assessments) ?? {}
   const anxiety = symptomRatings.anxiety || 0
   const sadness = symptomRatings.sadness || 0
   const stress = symptomRatings.stress || 0
@@ -109,32 +179,36 @@ export function detectMoodFromSymptoms(symptomRatings: {
   if (sadness >= 4 || (sadness >= 3 && loneliness >= 3)) return "sad"
   if (stress >= 4) return "stressed"
   if (anxiety >= 3) return "anxious"
+  if (loneliness >= 3) return "lonely"
   if (sadness >= 3) return "sad"
   if (stress >= 3) return "stressed"
-  if (loneliness >= 2 && anxiety <= 2 && sadness <= 2) return "tired"
+  if (loneliness >= 2 && anxiety <= 2 && sadness <= 2) return "lonely"
   if (anxiety >= 2 || stress >= 2 || sadness >= 2) return "stressed"
 
   return "tired" // Neutral/low symptoms
 }
 
-// Fallback mood detection from emotions
-export function detectMoodCategory(emotions: string[], moodScore: number): MoodCategory {
-  const emotionMap: Record<string, MoodCategory> = {
-    worried: "anxious",
-    nervous: "anxious",
-    stressed: "stressed",
-    overwhelmed: "anxious",
-    down: "sad",
-    depressed: "sad",
-    lonely: "sad",
-    exhausted: "tired",
-    drained: "tired",
+function buildSymptomSignal(symptomRatings: EmpathyInput["symptomRatings"]): MoodSignal | null {
+  const label = symptomRatings ? detectMoodFromSymptoms(symptomRatings) : null
+  if (!symptomRatings || !label) {
+    return null
   }
+  // Confidence follows the most severe rating, so mild symptoms don't drown out other sources
+  const peak = Math.max(
+    symptomRatings.anxiety ?? 0,
+    symptomRatings.sadness ?? 0,
+    symptomRatings.stress ?? 0,
+    symptomRatings.loneliness ?? 0,
+  )
+  return { type: "symptoms", label, confidence: Math.max(0.4, peak / 5) }
+}
 
+// Fallback mood detection from emotions
+export function detectMoodCategory(emotions: string[], moodScore: number): MoodCategory {
   for (const emotion of emotions) {
-    const normalized = emotion.toLowerCase()
-    if (emotionMap[normalized]) {
-      return emotionMap[normalized]
+    const label = normalizeEmotionLabel(emotion)
+    if (label) {
+      return label
     }
   }
 
@@ -145,87 +219,49 @@ export function detectMoodCategory(emotions: string[], moodScore: number): MoodC
   return "anxious"
 }
 
-// Infer mood from text (used by voice/text/image analysis)
+// Infer mood from text (used by voice/text/image analysis). Uses the shared lexicon
+// classifier so "not happy" and "goodbye" are read the same way everywhere; the strongest
+// term that names a finer emotion within the winning mood ("lonely" within sad) refines it.
 export function inferMoodFromText(text: string): { mood: MoodCategory; score: number; emotions: string[] } {
-  const normalized = text.toLowerCase()
-
-  const textMoodKeywords: Record<MoodCategory, string[]> = {
-    anxious: ["anxious", "worried", "nervous", "uneasy", "on edge", "overwhelmed", "panic"],
-    happy: ["happy", "grateful", "calm", "content", "peaceful", "good", "smiling"],
-    sad: ["sad", "down", "low", "blue", "lonely", "upset", "heartbroken"],
-    tired: ["tired", "exhausted", "fatigued", "drained", "sleepy", "worn out", "burned out"],
-    stressed: ["stressed", "pressure", "tense", "frustrated", "irritated", "rushed"],
-    excited: ["excited", "energized", "pumped", "thrilled", "motivated", "inspired"],
-  }
-
-  const moodBaseScore: Record<MoodCategory, number> = {
-    anxious: 3,
-    happy: 8,
-    sad: 3,
-    tired: 4,
-    stressed: 4,
-    excited: 8,
-  }
-
-  let bestMood: MoodCategory = "tired"
-  let bestMatches = 0
-  const matchedEmotions = new Set<string>()
-
-  for (const [mood, keywords] of Object.entries(textMoodKeywords)) {
-    let matches = 0
-    for (const keyword of keywords) {
-      if (normalized.includes(keyword)) {
-        matches++
-        matchedEmotions.add(keyword)
-      }
-    }
-    if (matches > bestMatches) {
-      bestMatches = matches
-      bestMood = mood as MoodCategory
-    }
-  }
-
-  let score = moodBaseScore[bestMood]
-
-  // Adjust score based on intensity modifiers
-  if (normalized.includes("very") || normalized.includes("really") || normalized.includes("extremely")) {
-    score += 1
-  }
-  if (normalized.includes("slightly") || normalized.includes("kind of") || normalized.includes("a little")) {
-    score -= 1
-  }
-
-  score = Math.min(10, Math.max(2, score))
-
-  if (matchedEmotions.size === 0) {
-    return {
-      mood: "tired",
-      score: 5,
-      emotions: [],
+  const classification = classifyMoodText(text)
+
+  let mood: MoodCategory = classification.mood
+  let strongest = 0
+  for (const match of classification.matches) {
+    const label = match.negated ? null : normalizeEmotionLabel(match.term)
+    if (label && toLegacyMood(label) === classification.mood && match.weight > strongest) {
+      mood = label
+      strongest = match.weight
     }
   }
 
   return {
-    mood: bestMood,
-    score,
-    emotions: Array.from(matchedEmotions).slice(0, 5),
+    mood,
+    score: classification.moodScore,
+    emotions: classification.emotions.slice(0, 5),
   }
 }
 
-// Ensure valid mood category
-function ensureValidMood(mood: string): MoodCategory {
-  const validMoods: MoodCategory[] = ["anxious", "happy", "sad", "tired", "stressed", "excited"]
-  if (validMoods.includes(mood as MoodCategory)) {
-    return mood as MoodCategory
-  }
-  return "tired"
+// Unknown labels are placed from the mood and energy ratings rather than coerced to "tired"
+function ensureValidMood(mood: string, input: Pick<EmpathyInput, "moodScore" | "energyLevel">): MoodCategory {
+  return resolveEmotionLabel(mood, input.moodScore, input.energyLevel)
+}
+
+// Places the mood using the ratings and, when several sources were fused, their combined position
+function describeInputEmotion(input: EmpathyInput, mood: MoodCategory, fused?: EmotionCoordinates): EmotionState {
+  const ratings = coordinatesFromScores(input.moodScore, input.energyLevel)
+  const observed = fused
+    ? { valence: (ratings.valence + fused.valence) / 2, arousal: (ratings.arousal + fused.arousal) / 2 }
+    : ratings
+  return describeEmotion(mood, observed)
 }
 
 // ============================================================================
 // CONFIDENCE & ANALYSIS
 // ============================================================================
 
-function calculateConfidence(input: EmpathyInput): number {
+// agreement is the share of fused evidence behind the detected mood; conflicting sources lower confidence
+function calculateConfidence(input: EmpathyInput, agreement = 1): number {
   let confidence = 60
 
   if (typeof input.moodScore === "number" && !Number.isNaN(input.moodScore)) {
@@ -254,9 +290,25 @@ function calculateConfidence(input: EmpathyInput): number {
     confidence += 3
   }
 
+  confidence *= 0.7 + 0.3 * agreement
+
   return Math.max(45, Math.min(95, Math.round(confidence)))
 }
 
+function scoreConfidence(
+  input: EmpathyInput,
+  fusion: MoodFusionResult,
+  calibration?: CalibrationModel,
+): Pick<EmpathyResponse, "confidence" | "rawConfidence" | "sourceMix"> {
+  const rawConfidence = calculateConfidence(input, fusion.agreement)
+  const sourceMix = buildSourceMix(fusion.contributions.map((source) => source.type))
+  return {
+    confidence: applyCalibration(calibration, { rawConfidence, mood: fusion.mood, sourceMix }),
+    rawConfidence,
+    sourceMix,
+  }
+}
+
 const moodDescriptors: Record<MoodCategory, string> = {
   anxious: "Assessment indicates elevated anxiety symptoms consistent with anxious presentation.",
   happy: "Client reports positive emotional state and adequate functioning.",
@@ -264,6 +316,13 @@ const moodDescriptors: Record<MoodCategory, string> = {
   tired: "Client reports low energy and possible burnout or fatigue.",
   stressed: "Assessment indicates stress-related symptoms and overwhelm.",
   excited: "Client reports elevated positive mood and high energy.",
+  angry: "Client reports anger or irritability with high activation.",
+  calm: "Client reports a settled, low-arousal positive state.",
+  content: "Client reports contentment and stable functioning.",
+  hopeful: "Client reports hopefulness and positive expectations.",
+  lonely: "Assessment suggests loneliness and a sense of disconnection.",
+  grieving: "Client describes grief following a loss.",
+  numb: "Client describes emotional numbness or flattened affect.",
 }
 
 function buildAnalysisSummary(input: EmpathyInput, mood: MoodCategory): string {
@@ -314,45 +373,23 @@ function buildAnalysisSummary(input: EmpathyInput, mood: MoodCategory): string {
   return parts.join(" ")
 }
 
-function buildAnalysisSources(input: EmpathyInput): AnalysisSource[] {
-  const sources: AnalysisSource[] = []
-
-  if (input.symptomRatings && Object.keys(input.symptomRatings).length > 0) {
-    sources.push({ type: "symptoms", label: "Symptom severity ratings", weight: 0.5 })
-  }
-
-  if (input.presentingProblem) {
-    sources.push({ type: "assessment", label: "Presenting problem", weight: 0.3 })
-  }
-
-  if (input.context) {
-    sources.push({ type: "text", label: "Client narrative", weight: 0.2 })
-  }
-
-  if (input.therapyHistory?.hasPreviousTherapy !== undefined) {
-    sources.push({ type: "history", label: "Treatment history", weight: 0.1 })
-  }
-
-  // Normalize weights to sum to 100
-  const total = sources.reduce((sum, source) => sum + source.weight, 0)
-  return sources.map((source) => ({
-    ...source,
-    weight: Math.round((source.weight / total) * 100),
-  }))
-}
-
 // ============================================================================
-// OPENAI THERAPEUTIC RECOMMENDATION GENERATION
+// LLM THERAPEUTIC RECOMMENDATION GENERATION
 // ============================================================================
 
 async function generatePersonalizedEmpathy(
   input: EmpathyInput,
   warnings?: string[],
-): Promise<TherapeuticRecommendation> {
+  options: Pick<EmpathyOptions, "llm" | "redaction" | "preferences" | "content" | "rotation"> = {},
+): Promise<EmpathyLLMResponse> {
+  const fallback = selectFallbackRecommendation(input.detectedMood, options, input.locale).recommendation
+
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured")
-    }
+    const provider = options.llm ?? getLLMProvider()
+    const redactor = createRedactor(options.redaction)
+    const presentingProblem = redactor.redact(input.presentingProblem)
+    const context = redactor.redact(input.context)
+    const emotion = describeInputEmotion(input, input.detectedMood)
 
     const systemPrompt = `You are a professional mental health AI assistant helping therapists provide initial assessments and recommendations. Generate a compassionate, professional response message (2-3 sentences) and one evidence-based therapeutic recommendation based on the client's presenting concerns and symptom profile. Use 'you' pronouns. Focus on validation, psychoeducation, and therapeutic interventions. Never provide crisis intervention advice - recommend professional help for severe symptoms. Return ONLY valid JSON with this structure:
 {
@@ -367,18 +404,25 @@ async function generatePersonalizedEmpathy(
 
     // Build comprehensive therapeutic context
     let userPrompt = `Client Profile:
-- Presenting Problem: ${input.presentingProblem || "Not specified"}
-- Current Mood: ${input.detectedMood}, Score: ${input.moodScore}/10, Energy: ${input.energyLevel}/10`
+- Presenting Problem: ${presentingProblem || "Not specified"}
+- Current Mood: ${input.detectedMood} (valence ${emotion.valence}, arousal ${emotion.arousal} on a -1 to 1 scale), Score: ${input.moodScore}/10, Energy: ${input.energyLevel}/10`
 
-    // Add symptom ratings if available
+    // Add symptom ratings if available; symptoms with a standardized score are reported as that score
+    for (const line of describeAssessmentsForPrompt(input.assessments)) {
+      userPrompt += `\n- ${line}`
+    }
     if (input.symptomRatings) {
-      const symptoms = []
-      if (input.symptomRatings.anxiety !== undefined) symptoms.push(`Anxiety: ${input.symptomRatings.anxiety}/5`)
-      if (input.symptomRatings.sadness !== undefined) symptoms.push(`Sadness: ${input.symptomRatings.sadness}/5`)
-      if (input.symptomRatings.stress !== undefined) symptoms.push(`Stress: ${input.symptomRatings.stress}/5`)
-      if (input.symptomRatings.loneliness !== undefined) symptoms.push(`Loneliness: ${input.symptomRatings.loneliness}/5`)
-      if (input.symptomRatings.suicideTrends !== undefined && input.symptomRatings.suicideTrends > 0)
-        symptoms.push(`Suicidal Ideation: ${input.symptomRatings.suicideTrends}/5 - ALERT`)
+      const measured = symptomRatingsFromAssessments(input.assessments)
+      const symptoms: string[] = []
+      const addRating = (key: "anxiety" | "sadness" | "stress" | "loneliness", label: string) => {
+        const rating = input.symptomRatings?.[key]
+        if (rating !== undefined && measured[key] === undefined) symptoms.push(`${label}: ${rating}/5`)
+      }
+      addRating("anxiety", "Anxiety")
+      addRating("sadness", "Sadness")
+      addRating("stress", "Stress")
+      addRating("loneliness", "Loneliness")
+      // Suicidal ideation never reaches this prompt: crisis screening short-circuits earlier
 
       if (symptoms.length > 0) {
         userPrompt += `\n- Symptom Severity (past 2 weeks): ${symptoms.join(", ")}`
@@ -388,7 +432,7 @@ async function generatePersonalizedEmpathy(
     // Add therapy history
     if (input.therapyHistory) {
       if (input.therapyHistory.hasPreviousTherapy) {
-        userPrompt += `\n- Previous Therapy: Yes (${input.therapyHistory.duration || "duration unspecified"}, ${input.therapyHistory.type || "type unspecified"})`
+        userPrompt += `\n- Previous Therapy: Yes (${redactor.redact(input.therapyHistory.duration) || "duration unspecified"}, ${redactor.redact(input.therapyHistory.type) || "type unspecified"})`
       } else {
         userPrompt += `\n- Previous Therapy: No`
       }
@@ -403,46 +447,48 @@ async function generatePersonalizedEmpathy(
     }
 
     // Add context notes
-    if (input.context) {
-      userPrompt += `\n- Additional Context: "${input.context}"`
+    if (context) {
+      userPrompt += `\n- Additional Context: "${context}"`
     }
 
-    const response = await retryFetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 300,
-          response_format: { type: "json_object" },
-        }),
+    for (const line of [
+      ...describePreferencesForPrompt(options.preferences),
+      ...describeRotationForPrompt(options.rotation),
+    ]) {
+      userPrompt += `\n- ${line}`
+    }
+    logRedactions("empathy", redactor)
+
+    // Invalid fields are repaired or filled from the mood's fallback recommendation
+    const { data } = await completeStructured({
+      provider,
+      method: "chatJson",
+      request: {
+        task: "empathy",
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.7,
+        maxTokens: 300,
+        retries: 2,
       },
-      { retries: 2 },
-    )
+      schema: empathyLLMResponseSchema,
+      fallback: { empathyMessage: fallback.empathyMessage, recommendation: fallback.recommendation },
+      warnings,
+    })
 
-    if (!response.ok) {
-      throw new Error("OpenAI API request failed")
+    const result = redactor.rehydrate(data)
+    // The model was asked to avoid exercises the user rejected or just saw; if it repeats one anyway, swap it out
+    const exerciseId = contentItemId("exercise", result.recommendation.title)
+    if (isUnhelpfulItem(options.preferences, exerciseId) || isRecentlyRecommended(options.rotation, exerciseId)) {
+      return { ...result, recommendation: fallback.recommendation }
     }
-
-    const data = await response.json()
-    const result = JSON.parse(data.choices[0].message.content)
-
     return result
   } catch (error) {
-    console.error("[empathy-agent] OpenAI generation error:", error)
+    console.error("[empathy-agent] LLM generation error:", error)
     warnings?.push("Generated recommendation using fallback content.")
 
     // Fallback recommendations
-    return getFallbackRecommendation(input.detectedMood)
+    return fallback
   }
 }
 
@@ -450,265 +496,205 @@ async function generatePersonalizedEmpathy(
 // FALLBACK THERAPEUTIC RECOMMENDATIONS
 // ============================================================================
 
-function getFallbackRecommendation(mood: MoodCategory): TherapeuticRecommendation {
-  const fallbacks: Record<MoodCategory, TherapeuticRecommendation> = {
-    anxious: {
-      empathyMessage:
-        "I understand you're experiencing anxiety. This is a common response to stress and uncertainty, and it's important that you're seeking support. Your willingness to engage with these feelings is a positive step toward managing them.",
-      recommendation: {
-        title: "Diaphragmatic Breathing (Evidence-Based Anxiety Reduction)",
-        description:
-          "Practice diaphragmatic breathing: Inhale slowly for 4 counts, hold for 7, exhale for 8. Repeat for 5 minutes. This technique activates the parasympathetic nervous system and has been shown to reduce anxiety symptoms in clinical trials.",
-        actionLabel: "Begin breathing exercise",
-        actionType: "breathing",
-      },
-      quote: {
-        text: "Between stimulus and response there is a space. In that space is our power to choose our response.",
-        author: "Viktor E. Frankl",
-      },
-      music: {
-        title: "Weightless",
-        artist: "Marconi Union",
-        reason: "Clinical studies show this composition can reduce anxiety levels through carefully designed harmonies.",
-        spotifyUrl: "https://open.spotify.com/search/Weightless%20Marconi%20Union",
-        appleMusicUrl: "https://music.apple.com/search?term=Weightless%20Marconi%20Union",
-      },
-      book: {
-        title: "The Anxiety and Phobia Workbook",
-        author: "Edmund J. Bourne, PhD",
-        relevance: "Evidence-based CBT and mindfulness techniques for managing anxiety disorders.",
-        amazonUrl: "https://www.amazon.com/s?k=The+Anxiety+and+Phobia+Workbook",
-      },
-      place: {
-        type: "A quiet natural space (park or botanical garden)",
-        reason: "Nature-based therapy has demonstrated efficacy in reducing cortisol and anxiety symptoms",
-        benefits: "Natural environments support nervous system regulation.",
-      },
-    },
-    sad: {
-      empathyMessage:
-        "I hear that you're experiencing sadness. This is a valid emotional response, and it's important to acknowledge these feelings rather than suppress them. Your engagement in this process demonstrates self-awareness and a willingness to work through difficult emotions.",
-      recommendation: {
-        title: "Behavioral Activation (Depression Treatment)",
-        description:
-          "Engage in one small, meaningful activity despite low motivation. Behavioral activation is an evidence-based treatment for depression that helps break the cycle of withdrawal and sadness.",
-        actionLabel: "View suggested activities",
-        actionType: "contact",
-      },
-      quote: {
-        text: "The only way out is through.",
-        author: "Robert Frost",
-      },
-      music: {
-        title: "The Night We Met",
-        artist: "Lord Huron",
-        reason: "Music therapy research suggests validating emotional experiences through music can provide cathartic release.",
-        spotifyUrl: "https://open.spotify.com/search/The%20Night%20We%20Met%20Lord%20Huron",
-        appleMusicUrl: "https://music.apple.com/search?term=The%20Night%20We%20Met%20Lord%20Huron",
-      },
-      book: {
-        title: "Feeling Good: The New Mood Therapy",
-        author: "David D. Burns, MD",
-        relevance: "Evidence-based cognitive behavioral techniques for managing depression.",
-        amazonUrl: "https://www.amazon.com/s?k=Feeling+Good+David+Burns",
-      },
-      place: {
-        type: "A well-lit communal space (café or library)",
-        reason: "Gentle social exposure combats isolation, a key maintaining factor in depression",
-        benefits: "Low-pressure environment that provides structure and human connection.",
-      },
-    },
-    stressed: {
-      empathyMessage:
-        "You're experiencing stress, which indicates your system is responding to perceived demands. Recognizing this physiological response is an important first step toward implementing effective stress management strategies.",
-      recommendation: {
-        title: "Progressive Muscle Relaxation (PMR)",
-        description:
-          "Practice PMR: Systematically tense and release each muscle group for 5-7 seconds, progressing from feet to head. This evidence-based technique reduces physiological arousal.",
-        actionLabel: "Begin PMR exercise",
-        actionType: "breathing",
-      },
-      quote: {
-        text: "You can't calm the storm, so stop trying. What you can do is calm yourself.",
-        author: "Timber Hawkeye",
-      },
-      music: {
-        title: "Breathe Me",
-        artist: "Sia",
-        reason: "Emotionally resonant music can facilitate emotional processing and self-compassion.",
-        spotifyUrl: "https://open.spotify.com/search/Breathe%20Me%20Sia",
-        appleMusicUrl: "https://music.apple.com/search?term=Breathe%20Me%20Sia",
-      },
-      book: {
-        title: "The Relaxation and Stress Reduction Workbook",
-        author: "Martha Davis, PhD",
-        relevance: "Comprehensive evidence-based techniques for stress management.",
-        amazonUrl: "https://www.amazon.com/s?k=Relaxation+Stress+Reduction+Workbook",
-      },
-      place: {
-        type: "A natural water setting (lake, ocean, or stream)",
-        reason: "Blue space exposure has been shown to reduce physiological markers of stress",
-        benefits: "Rhythmic water sounds promote parasympathetic nervous system activation.",
-      },
-    },
-    tired: {
-      empathyMessage:
-        "I recognize that you're experiencing fatigue. This may indicate physical exhaustion, emotional burnout, or both. It's important to listen to your body's signals and prioritize self-care.",
-      recommendation: {
-        title: "Restorative Break (15 minutes)",
-        description:
-          "Take a 15-minute intentional break: Step outside for fresh air, practice gentle stretching, or simply rest. Brief restorative breaks improve cognitive function and emotional regulation.",
-        actionLabel: "Set timer for break",
-        actionType: "timer",
-      },
-      quote: {
-        text: "Almost everything will work again if you unplug it for a few minutes, including you.",
-        author: "Anne Lamott",
-      },
-      music: {
-        title: "Clair de Lune",
-        artist: "Debussy",
-        reason: "Gentle, restorative classical piece that promotes relaxation.",
-        spotifyUrl: "https://open.spotify.com/search/Clair%20de%20Lune%20Debussy",
-        appleMusicUrl: "https://music.apple.com/search?term=Clair%20de%20Lune%20Debussy",
-      },
-      book: {
-        title: "Rest",
-        author: "Alex Soojung-Kim Pang",
-        relevance: "The science of productive rest and why downtime is essential.",
-        amazonUrl: "https://www.amazon.com/s?k=Rest+Alex+Soojung-Kim+Pang",
-      },
-      place: {
-        type: "A quiet park bench under trees",
-        reason: "Restorative environment with nature sounds",
-        benefits: "Dappled sunlight and bird songs provide sensory restoration.",
-      },
+// Exercises, quotes, music, books and places come from the content catalogue (lib/content-library.ts);
+// the message stays with the agent
+const fallbackMessages: Record<MoodCategory, string> = {
+  anxious:
+    "I understand you're experiencing anxiety. This is a common response to stress and uncertainty, and it's important that you're seeking support. Your willingness to engage with these feelings is a positive step toward managing them.",
+  happy:
+    "I'm glad to hear you're experiencing positive emotions. It's valuable to recognize and appreciate moments of well-being, as this practice can strengthen emotional resilience.",
+  sad:
+    "I hear that you're experiencing sadness. This is a valid emotional response, and it's important to acknowledge these feelings rather than suppress them. Your engagement in this process demonstrates self-awareness and a willingness to work through difficult emotions.",
+  tired:
+    "I recognize that you're experiencing fatigue. This may indicate physical exhaustion, emotional burnout, or both. It's important to listen to your body's signals and prioritize self-care.",
+  stressed:
+    "You're experiencing stress, which indicates your system is responding to perceived demands. Recognizing this physiological response is an important first step toward implementing effective stress management strategies.",
+  excited:
+    "Your positive energy is notable. This elevated mood state can be channeled productively toward meaningful goals and activities.",
+  angry:
+    "It sounds like you're feeling angry. Anger often signals that something important to you has been crossed, and noticing it without acting on it right away is a real skill.",
+  calm:
+    "You sound settled right now. Calm moments are worth noticing, because they show your nervous system what steadiness feels like.",
+  content:
+    "It sounds like things feel steady and good enough right now. Contentment is a quiet but meaningful form of well-being.",
+  hopeful:
+    "There's a sense of hope in what you've shared. Hope is a strength in itself, and giving it a concrete next step helps it last.",
+  lonely:
+    "Feeling lonely is painful, and it's a signal many people share even when it feels isolating. Reaching out here is already a step toward connection.",
+  grieving:
+    "I'm sorry for what you're carrying. Grief reflects how much something or someone mattered, and there is no right timeline for it.",
+  numb:
+    "Feeling numb or flat can be unsettling. It's often the mind's way of protecting itself when things have been too much, and it can shift with gentle care.",
+}
+
+interface FallbackSelection {
+  recommendation: TherapeuticRecommendation
+  itemIds: EmpathyResponse["itemIds"]
+}
+
+// The mood's catalogue items, each swapped for a neighbouring mood's when the user's feedback
+// or recent history favours it
+function selectFallbackRecommendation(
+  mood: MoodCategory,
+  options: Pick<EmpathyOptions, "content" | "preferences" | "rotation">,
+  locale?: string,
+): FallbackSelection {
+  const library = options.content ?? SEED_CONTENT_LIBRARY
+  const selection = { preferences: options.preferences, rotation: options.rotation, locale }
+  const exercise = selectContent(library, "exercise", mood, selection)
+  const quote = selectContent(library, "quote", mood, selection)
+  const song = selectContent(library, "song", mood, selection)
+  const book = selectContent(library, "book", mood, selection)
+  const place = selectContent(library, "place", mood, selection)
+
+  return {
+    recommendation: {
+      empathyMessage: fallbackMessages[mood],
+      recommendation: toExercise(exercise),
+      quote: toQuote(quote),
+      music: toSong(song),
+      book: toBook(book),
+      place: toPlace(place),
     },
-    happy: {
-      empathyMessage:
-        "I'm glad to hear you're experiencing positive emotions. It's valuable to recognize and appreciate moments of well-being, as this practice can strengthen emotional resilience.",
-      recommendation: {
-        title: "Gratitude Practice (Evidence-Based)",
-        description:
-          "Document 3 specific things you're grateful for today. Research shows regular gratitude practice increases overall well-being and life satisfaction.",
-        actionLabel: "Open journal",
-        actionType: "journal",
-      },
-      quote: {
-        text: "Happiness is not by chance, but by choice.",
-        author: "Jim Rohn",
-      },
-      music: {
-        title: "Here Comes the Sun",
-        artist: "The Beatles",
-        reason: "Uplifting melody that matches and amplifies positive energy.",
-        spotifyUrl: "https://open.spotify.com/search/Here%20Comes%20the%20Sun%20Beatles",
-        appleMusicUrl: "https://music.apple.com/search?term=Here%20Comes%20the%20Sun%20Beatles",
-      },
-      book: {
-        title: "The Book of Joy",
-        author: "Dalai Lama & Desmond Tutu",
-        relevance: "Deepens appreciation for joy and teaches cultivating lasting happiness.",
-        amazonUrl: "https://www.amazon.com/s?k=The+Book+of+Joy",
-      },
-      place: {
-        type: "A hilltop viewpoint",
-        reason: "Expansive views amplify positive emotions",
-        benefits: "Wide open spaces enhance feelings of possibility and freedom.",
-      },
+    itemIds: { exercise: exercise.id, quote: quote.id, song: song.id, book: book.id, place: place.id },
+  }
+}
+
+// ============================================================================
+// CRISIS RESPONSE (DETERMINISTIC, NO LLM)
+// ============================================================================
+
+function buildCrisisResponse(
+  input: EmpathyInput,
+  fusion: MoodFusionResult,
+  assessment: CrisisAssessment,
+  calibration?: CalibrationModel,
+): EmpathyResponse {
+  const crisis = getCrisisSupport(assessment, input.locale)
+  const primary = crisis.resources[0]
+
+  return {
+    detectedMood: fusion.mood,
+    emotion: describeInputEmotion(input, fusion.mood, fusion.coordinates),
+    ...scoreConfidence(input, fusion, calibration),
+    analysisSummary:
+      "Your responses mention thoughts of suicide or self-harm, so we're pausing regular suggestions and sharing immediate support options.",
+    analysisSources: fusion.contributions,
+    empathyMessage: buildCrisisMessage(crisis),
+    recommendation: {
+      title: "Reach out for immediate support",
+      description: `Talking to a trained counselor can help right now. ${primary.name}: ${primary.description} If you are in immediate danger, call ${crisis.emergencyNumber}.`,
+      actionLabel: primary.phone ? `Call ${primary.phone}` : "Find a helpline",
+      actionType: "contact",
     },
-    excited: {
-      empathyMessage:
-        "Your positive energy is notable. This elevated mood state can be channeled productively toward meaningful goals and activities.",
-      recommendation: {
-        title: "Goal Setting Exercise",
-        description:
-          "Channel this energy into planning toward a personal goal. Write specific action steps. Goal-directed behavior during positive mood states increases achievement.",
-        actionLabel: "Start planning",
-        actionType: "journal",
-      },
-      quote: {
-        text: "The only way to do great work is to love what you do.",
-        author: "Steve Jobs",
-      },
-      music: {
-        title: "Good Life",
-        artist: "OneRepublic",
-        reason: "Amplifies positive momentum and celebrates living fully.",
-        spotifyUrl: "https://open.spotify.com/search/Good%20Life%20OneRepublic",
-        appleMusicUrl: "https://music.apple.com/search?term=Good%20Life%20OneRepublic",
-      },
-      book: {
-        title: "Flow",
-        author: "Mihaly Csikszentmihalyi",
-        relevance: "The psychology of optimal experience and peak performance.",
-        amazonUrl: "https://www.amazon.com/s?k=Flow+Csikszentmihalyi",
-      },
-      place: {
-        type: "An inspiring creative space or museum",
-        reason: "Novel environments stimulate dopamine and creative thinking",
-        benefits: "New experiences channel excitement into growth and learning.",
-      },
+    quote: {
+      text: "Hope is being able to see that there is light despite all of the darkness.",
+      author: "Desmond Tutu",
     },
+    // Crisis content is fixed, so it is not offered for per-item feedback
+    itemIds: {},
+    crisis,
+    safetyPlanSuggested: true,
   }
-
-  return fallbacks[mood] || fallbacks.tired
 }
 
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
 
-export async function generateEmpathyRecommendations(input: EmpathyInput): Promise<EmpathyResponse> {
-  // PRIORITY 1: Detect mood from symptom ratings (therapeutic questionnaire)
-  let detectedMood: MoodCategory
-
-  if (input.symptomRatings) {
-    const symptomMood = detectMoodFromSymptoms(input.symptomRatings)
-    if (symptomMood) {
-      console.log("[empathy-agent] Mood detected from symptom ratings:", symptomMood)
-      detectedMood = symptomMood
-    } else {
-      detectedMood = ensureValidMood(input.detectedMood)
-      console.log("[empathy-agent] Using fallback mood detection:", detectedMood)
-    }
-  } else {
-    detectedMood = ensureValidMood(input.detectedMood)
-    console.log("[empathy-agent] No symptom ratings, using provided mood:", detectedMood)
-  }
+export async function generateEmpathyRecommendations(
+  input: EmpathyInput,
+  options: EmpathyOptions = {},
+): Promise<EmpathyResponse> {
+  // Symptom ratings (therapeutic questionnaire) join the other modalities with the highest weight
+  const symptomRatings = mergeSymptomRatings(input.symptomRatings, input.assessments)
+  const signals: MoodSignal[] = [...(input.signals ?? [])]
+  const symptomSignal = buildSymptomSignal(symptomRatings)
+  if (symptomSignal) {
+    signals.unshift(symptomSignal)
+  }
+
+  const fusion = fuseMoodSignals(signals, {
+    type: "self-report",
+    label: ensureValidMood(input.detectedMood, input),
+    confidence: 0.6,
+  })
+  const detectedMood = fusion.mood
+  console.log("[empathy-agent] Fused mood:", detectedMood, {
+    sources: fusion.contributions.map((source) => `${source.type}:${source.mood}:${source.weight}`),
+    disagreement: Boolean(fusion.disagreement),
+  })
 
   const normalizedInput: EmpathyInput = {
     ...input,
     detectedMood: detectedMood,
+    symptomRatings,
     context: input.context ? input.context.slice(-600) : undefined,
   }
 
-  const confidence = calculateConfidence(normalizedInput)
+  // Safety screening runs on the full, untruncated text before any LLM call
+  const crisisAssessment = assessCrisisRisk({
+    suicideTrends: symptomRatings?.suicideTrends,
+    texts: [input.context ?? "", input.presentingProblem ?? ""],
+    voiceTranscript: input.voiceTranscript,
+  })
+
+  if (crisisAssessment.isCrisis) {
+    console.warn("[empathy-agent] Crisis screening escalated:", crisisAssessment.severity)
+    try {
+      await options.onCrisis?.(crisisAssessment)
+    } catch (error) {
+      console.error("[empathy-agent] Failed to record crisis alert:", error)
+    }
+    return buildCrisisResponse(normalizedInput, fusion, crisisAssessment, options.calibration)
+  }
+
+  const { confidence, rawConfidence, sourceMix } = scoreConfidence(normalizedInput, fusion, options.calibration)
+  const emotion = describeInputEmotion(normalizedInput, detectedMood, fusion.coordinates)
   const analysisSummary = buildAnalysisSummary(normalizedInput, detectedMood)
-  const analysisSources = buildAnalysisSources(normalizedInput)
+  const analysisSources = fusion.contributions
+  const disagreement = fusion.disagreement
+  // A recent PHQ-9 item 9 answer doesn't escalate the check-in, but is still reason to offer the safety plan
+  const storedSelfHarm = symptomRatingsFromAssessments(input.assessments).suicideTrends ?? 0
+  const safetyPlanSuggested = suggestsSafetyPlan(symptomRatings) || storedSelfHarm > 0 || undefined
   const warnings: string[] = []
 
   try {
     console.log("[empathy-agent] Generating therapeutic recommendation for mood:", detectedMood)
 
-    // Get OpenAI therapeutic recommendation (empathy message + main recommendation)
-    const therapeuticRec = await generatePersonalizedEmpathy(normalizedInput, warnings)
+    // Get LLM therapeutic recommendation (empathy message + main recommendation)
+    const therapeuticRec = await generatePersonalizedEmpathy(normalizedInput, warnings, options)
 
-    // Get fallback resources for quote/music/book/place
-    const fallbackResources = getFallbackRecommendation(detectedMood)
+    // Get catalogue resources for quote/music/book/place
+    const { recommendation: fallbackResources, itemIds } = selectFallbackRecommendation(
+      detectedMood,
+      options,
+      normalizedInput.locale,
+    )
+    // The LLM's exercise only has a catalogue id when it is the catalogue item itself
+    const exerciseId =
+      therapeuticRec.recommendation.title === fallbackResources.recommendation.title
+        ? itemIds.exercise
+        : contentItemId("exercise", therapeuticRec.recommendation.title)
 
     const response: EmpathyResponse = {
       detectedMood,
+      emotion,
       confidence,
+      rawConfidence,
+      sourceMix,
       analysisSummary,
       analysisSources,
+      disagreement,
       empathyMessage: therapeuticRec.empathyMessage,
       recommendation: therapeuticRec.recommendation,
       quote: fallbackResources.quote,
       music: fallbackResources.music,
       book: fallbackResources.book,
       place: fallbackResources.place,
+      itemIds: { ...itemIds, exercise: exerciseId },
       warnings: warnings.length ? warnings : undefined,
+      safetyPlanSuggested,
     }
 
     console.log("[empathy-agent] Successfully generated therapeutic recommendation")
@@ -717,15 +703,21 @@ export async function generateEmpathyRecommendations(input: EmpathyInput): Promi
     console.error("[empathy-agent] Error generating recommendation:", error)
     warnings.push("Displayed saved recommendation because live services were unavailable.")
 
-    const fallback = getFallbackRecommendation(detectedMood)
+    const fallback = selectFallbackRecommendation(detectedMood, options, normalizedInput.locale)
 
     return {
       detectedMood,
+      emotion,
       confidence,
+      rawConfidence,
+      sourceMix,
       analysisSummary,
       analysisSources,
-      ...fallback,
+      disagreement,
+      ...fallback.recommendation,
+      itemIds: fallback.itemIds,
       warnings,
+      safetyPlanSuggested,
     }
   }
 }
@@ -0,0 +1,125 @@
+// Turns insight analysis into persisted ai_insights rows for the Insight Center
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { AIInsightType } from "../types/wellness"
+import { generateUserInsights, moodCategoryFromScore, type UserInsightsOutput } from "./mcp-tools"
+
+// Fewer entries than this produce noise rather than patterns
+export const MIN_ENTRIES_FOR_INSIGHTS = 3
+
+const HISTORY_LIMIT = 90
+const TRIGGER_FREQUENCY_THRESHOLD = 20
+
+const PATTERN_TITLES: Record<string, string> = {
+  temporal: "Weekly rhythm",
+  mood: "Mood pattern",
+  energy: "Energy pattern",
+  trigger: "Recurring trigger",
+}
+
+export interface InsightRow {
+  insight_type: AIInsightType
+  title: string
+  description: string
+  action: string | null
+}
+
+/**
+ * Maps analysis output onto ai_insights rows. Descriptions deliberately avoid
+ * volatile numbers so the (user_id, description) unique index dedupes repeats.
+ */
+export function buildInsightRows(insights: UserInsightsOutput): InsightRow[] {
+  const rows: InsightRow[] = []
+
+  if (insights.summary.improvementTrend === "declining") {
+    rows.push({
+      insight_type: "alert",
+      title: "Mood trending down",
+      description: "Your recent check-ins show a declining mood compared with earlier in the period.",
+      action: "Lean on the coping strategies that helped before, and consider reaching out to someone you trust or a professional.",
+    })
+  }
+
+  for (const pattern of insights.patterns) {
+    rows.push({
+      insight_type: "pattern",
+      title: PATTERN_TITLES[pattern.type] ?? "Pattern spotted",
+      description: pattern.description,
+      action: pattern.recommendation || null,
+    })
+  }
+
+  for (const trigger of insights.triggers) {
+    if (trigger.impact !== "negative" || trigger.frequency < TRIGGER_FREQUENCY_THRESHOLD) {
+      continue
+    }
+    rows.push({
+      insight_type: "recommendation",
+      title: `Plan for "${trigger.trigger}"`,
+      description: `"${trigger.trigger}" keeps showing up on your lower-mood days.`,
+      action: `Prepare one small coping step you can use the next time ${trigger.trigger} comes up.`,
+    })
+  }
+
+  const seen = new Set<string>()
+  return rows.filter((row) => {
+    if (seen.has(row.description)) {
+      return false
+    }
+    seen.add(row.description)
+    return true
+  })
+}
+
+/**
+ * Re-runs insight analysis over the user's recent mood history and inserts any
+ * new insights. Existing rows are left untouched so read/dismissed state sticks.
+ */
+export async function persistUserInsights(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("mood_entries")
+    .select("date, mood_score, energy_level, emotions, triggers")
+    .eq("user_id", userId)
+    .order("date", { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  const entries = data ?? []
+  if (entries.length < MIN_ENTRIES_FOR_INSIGHTS) {
+    return 0
+  }
+
+  const insights = await generateUserInsights({
+    userId,
+    moodHistory: entries.map((entry) => ({
+      date: entry.date,
+      mood: moodCategoryFromScore(entry.mood_score ?? 5),
+      moodScore: entry.mood_score ?? 5,
+      energyLevel: entry.energy_level ?? 5,
+      triggers: entry.triggers ?? [],
+      emotions: entry.emotions ?? [],
+    })),
+  })
+
+  const rows = buildInsightRows(insights)
+  if (rows.length === 0) {
+    return 0
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("ai_insights")
+    .upsert(
+      rows.map((row) => ({ ...row, user_id: userId })),
+      { onConflict: "user_id,description", ignoreDuplicates: true },
+    )
+    .select("id")
+
+  if (insertError) {
+    throw insertError
+  }
+
+  return inserted?.length ?? 0
+}
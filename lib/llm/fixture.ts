@@ -0,0 +1,102 @@
+// Deterministic stand-in for offline development and tests: no network, same input -> same output
+
+import { LLMRequestError } from "./openai"
+import type { ChatRequest, LLMProvider, LLMTask, VisionRequest } from "./types"
+
+export type FixtureResponse = unknown | ((request: ChatRequest) => unknown)
+
+export interface FixtureProviderConfig {
+  responses?: Partial<Record<LLMTask, FixtureResponse>>
+  transcript?: string
+}
+
+export interface FixtureCall {
+  method: "chat" | "chatJson" | "vision" | "transcribe"
+  task?: LLMTask
+}
+
+export const DEFAULT_FIXTURE_TRANSCRIPT = "I've been feeling a bit tired this week, but talking to a friend helped."
+
+// Shaped like the JSON each prompt asks the model for
+export const DEFAULT_FIXTURE_RESPONSES: Record<LLMTask, unknown> = {
+  empathy: {
+    empathyMessage:
+      "Thank you for checking in. It sounds like this week has asked a lot of you, and noticing that is an important first step.",
+    recommendation: {
+      title: "Two-minute grounding pause",
+      description:
+        "Name five things you can see, four you can hear and three you can feel. Grounding shifts attention to the present and eases stress responses.",
+      actionLabel: "Start grounding pause",
+      actionType: "breathing",
+    },
+  },
+  "text-analysis": {
+    moodLabel: "tired",
+    moodScore: 5,
+    energyLevel: 4,
+    emotions: ["tired", "reflective"],
+    summary: "Thanks for sharing - it sounds like you could use some rest.",
+    confidence: 70,
+  },
+  "voice-analysis": {
+    moodLabel: "tired",
+    moodScore: 5,
+    energyLevel: 4,
+    emotions: ["tired", "hopeful"],
+    summary: "You sound worn out, but leaning on a friend is helping.",
+  },
+  "image-analysis": {
+    moodLabel: "tired",
+    confidence: 60,
+    emotions: ["calm", "tired"],
+    summary: "A calm, low-energy moment.",
+  },
+  "contact-message":
+    "I'm reaching out because I'd like support with some stress I've been carrying lately. I'd be grateful to schedule an initial consultation. Could you share your availability and what the next steps would be?",
+}
+
+export function createFixtureProvider(config: FixtureProviderConfig = {}): LLMProvider & { calls: FixtureCall[] } {
+  const calls: FixtureCall[] = []
+
+  const resolve = (request: ChatRequest): unknown => {
+    const response = config.responses?.[request.task] ?? DEFAULT_FIXTURE_RESPONSES[request.task]
+    const value = typeof response === "function" ? response(request) : response
+    // Hand out copies so callers can't mutate the shared fixtures
+    return typeof value === "object" && value !== null ? JSON.parse(JSON.stringify(value)) : value
+  }
+
+  return {
+    name: "fixture",
+    calls,
+
+    async chat(request: ChatRequest) {
+      calls.push({ method: "chat", task: request.task })
+      const value = resolve(request)
+      return typeof value === "string" ? value : JSON.stringify(value)
+    },
+
+    async chatJson(request: ChatRequest) {
+      calls.push({ method: "chatJson", task: request.task })
+      const value = resolve(request)
+      if (typeof value !== "string") {
+        return value
+      }
+      // Mirrors the OpenAI provider so malformed fixtures exercise the same error path
+      try {
+        return JSON.parse(value)
+      } catch {
+        throw new LLMRequestError("Model returned invalid JSON")
+      }
+    },
+
+    async vision(request: VisionRequest) {
+      calls.push({ method: "vision", task: request.task })
+      return resolve(request)
+    },
+
+    async transcribe() {
+      calls.push({ method: "transcribe" })
+      return config.transcript ?? DEFAULT_FIXTURE_TRANSCRIPT
+    },
+  }
+}
@@ -0,0 +1,43 @@
+// Single entry point for LLM access. Pick a provider with LLM_PROVIDER ("openai" by default, or "fixture")
+
+import { createFixtureProvider } from "./fixture"
+import { createOpenAIProvider } from "./openai"
+import type { LLMProvider } from "./types"
+
+export type { ChatRequest, LLMProvider, LLMTask, TranscriptionRequest, VisionRequest } from "./types"
+export { createFixtureProvider, type FixtureProviderConfig } from "./fixture"
+export { LLMRequestError, createOpenAIProvider, type OpenAIProviderConfig } from "./openai"
+export { buildRepairPrompt, completeStructured, type StructuredRequest, type StructuredResult } from "./structured"
+
+const providerFactories: Record<string, () => LLMProvider> = {
+  openai: () => {
+    const apiKey = process.env.OPENAI_API_KEY
+    const baseUrl = process.env.OPENAI_BASE_URL
+    // A custom base URL may point at a self-hosted server that needs no key
+    if (!apiKey && !baseUrl) {
+      throw new Error("OpenAI API key not configured")
+    }
+    return createOpenAIProvider({
+      apiKey,
+      baseUrl,
+      models: {
+        chat: process.env.LLM_CHAT_MODEL,
+        vision: process.env.LLM_VISION_MODEL,
+        transcription: process.env.LLM_TRANSCRIPTION_MODEL,
+      },
+    })
+  },
+  fixture: () => createFixtureProvider(),
+}
+
+export function registerLLMProvider(name: string, factory: () => LLMProvider) {
+  providerFactories[name] = factory
+}
+
+export function getLLMProvider(name: string = process.env.LLM_PROVIDER || "openai"): LLMProvider {
+  const factory = providerFactories[name]
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}"`)
+  }
+  return factory()
+}
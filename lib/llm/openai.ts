@@ -0,0 +1,146 @@
+// OpenAI provider. Also talks to any OpenAI-compatible server (vLLM, Ollama, LM Studio) via baseUrl
+
+import { retry } from "../retry"
+import type { ChatRequest, LLMProvider, TranscriptionRequest, VisionRequest } from "./types"
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1"
+export const DEFAULT_CHAT_MODEL = "gpt-4o-mini"
+export const DEFAULT_TRANSCRIPTION_MODEL = "gpt-4o-mini-transcribe"
+
+export interface OpenAIProviderConfig {
+  apiKey?: string
+  baseUrl?: string
+  models?: {
+    chat?: string
+    vision?: string
+    transcription?: string
+  }
+  fetch?: typeof fetch
+}
+
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+  ) {
+    super(message)
+    this.name = "LLMRequestError"
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMRequestError) {
+    return error.status === 429 || (error.status ?? 0) >= 500
+  }
+  // fetch rejects with a TypeError on network failures
+  return error instanceof TypeError
+}
+
+function parseJsonContent(content: string): unknown {
+  try {
+    return JSON.parse(content)
+  } catch {
+    throw new LLMRequestError("Model returned invalid JSON")
+  }
+}
+
+export function createOpenAIProvider(config: OpenAIProviderConfig = {}): LLMProvider {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/$/, "")
+  const chatModel = config.models?.chat ?? DEFAULT_CHAT_MODEL
+  const visionModel = config.models?.vision ?? chatModel
+  const transcriptionModel = config.models?.transcription ?? DEFAULT_TRANSCRIPTION_MODEL
+  const fetchImpl = config.fetch ?? fetch
+
+  // Self-hosted servers often run without auth, so the header is only sent when a key exists
+  const authHeaders = (): Record<string, string> => (config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+
+  async function request(path: string, init: RequestInit, retries = 0): Promise<Record<string, unknown>> {
+    return retry(
+      async () => {
+        const response = await fetchImpl(`${baseUrl}${path}`, init)
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => ({}))
+          throw new LLMRequestError(
+            errorBody.error?.message || `LLM request to ${path} failed with status ${response.status}`,
+            response.status,
+          )
+        }
+        return response.json()
+      },
+      { retries, shouldRetry: isRetryable },
+    )
+  }
+
+  async function completion(
+    chatRequest: ChatRequest,
+    userContent: string | Array<Record<string, unknown>>,
+    options: { model: string; json: boolean },
+  ): Promise<string> {
+    const payload = await request(
+      "/chat/completions",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({
+          model: chatRequest.model ?? options.model,
+          temperature: chatRequest.temperature,
+          max_tokens: chatRequest.maxTokens,
+          ...(options.json ? { response_format: { type: "json_object" } } : {}),
+          messages: [
+            { role: "system", content: chatRequest.system },
+            { role: "user", content: userContent },
+          ],
+        }),
+      },
+      chatRequest.retries,
+    )
+
+    const choices = payload.choices as Array<{ message?: { content?: unknown } }> | undefined
+    const content = choices?.[0]?.message?.content
+    if (typeof content !== "string" || content.trim().length === 0) {
+      throw new LLMRequestError("Model returned an empty completion")
+    }
+    return content.trim()
+  }
+
+  return {
+    name: "openai",
+
+    chat(chatRequest: ChatRequest) {
+      return completion(chatRequest, chatRequest.prompt, { model: chatModel, json: false })
+    },
+
+    async chatJson(chatRequest: ChatRequest) {
+      return parseJsonContent(await completion(chatRequest, chatRequest.prompt, { model: chatModel, json: true }))
+    },
+
+    async vision(visionRequest: VisionRequest) {
+      const content = await completion(
+        visionRequest,
+        [
+          { type: "text", text: visionRequest.prompt },
+          { type: "image_url", image_url: { url: visionRequest.imageUrl } },
+        ],
+        { model: visionModel, json: true },
+      )
+      return parseJsonContent(content)
+    },
+
+    async transcribe(transcriptionRequest: TranscriptionRequest) {
+      const formData = new FormData()
+      formData.append("model", transcriptionRequest.model ?? transcriptionModel)
+      formData.append("file", transcriptionRequest.audio, transcriptionRequest.filename ?? "voice-note.wav")
+
+      const payload = await request("/audio/transcriptions", {
+        method: "POST",
+        headers: authHeaders(),
+        body: formData,
+      })
+
+      if (typeof payload.text !== "string" || payload.text.trim().length === 0) {
+        throw new LLMRequestError("Transcription returned no text")
+      }
+      return payload.text.trim()
+    },
+  }
+}
@@ -0,0 +1,176 @@
+// Validate -> repair prompt -> fallback loop shared by every LLM call that returns structured output
+
+import type { ZodType, ZodTypeDef } from "zod"
+import { LLMRequestError } from "./openai"
+import type { ChatRequest, LLMProvider, VisionRequest } from "./types"
+
+export interface StructuredRequest<T> {
+  provider: LLMProvider
+  method: "chat" | "chatJson" | "vision"
+  request: ChatRequest | VisionRequest
+  schema: ZodType<T, ZodTypeDef, unknown>
+  // Typed stand-in used field by field when the model can't produce a valid value
+  fallback: T
+  // Receives one user-facing entry whenever the reply needed repairing
+  warnings?: string[]
+}
+
+export interface StructuredResult<T> {
+  data: T
+  // "model": first reply was valid, "repair": valid after the corrective prompt, "fallback": defaults were patched in
+  source: "model" | "repair" | "fallback"
+  repairedFields: string[]
+}
+
+interface OutputProblem {
+  path: Array<string | number>
+  message: string
+}
+
+type Attempt<T> = { ok: true; data: T } | { ok: false; raw: unknown; problems: OutputProblem[] }
+
+function formatPath(path: Array<string | number>): string {
+  return path.map((segment) => String(segment)).join(".")
+}
+
+// Array items are replaced as a whole, so "emotions.3" is reported and patched as "emotions"
+function fieldPath(path: Array<string | number>): Array<string | number> {
+  const firstIndex = path.findIndex((segment) => typeof segment === "number")
+  return firstIndex === -1 ? path : path.slice(0, firstIndex)
+}
+
+function listFields(problems: OutputProblem[]): string[] {
+  return Array.from(new Set(problems.map((problem) => formatPath(fieldPath(problem.path)) || "response")))
+}
+
+function validate<T>(schema: StructuredRequest<T>["schema"], raw: unknown): Attempt<T> {
+  const result = schema.safeParse(raw)
+  if (result.success) {
+    return { ok: true, data: result.data }
+  }
+  return {
+    ok: false,
+    raw,
+    problems: result.error.issues.map((issue) => ({ path: issue.path, message: issue.message })),
+  }
+}
+
+async function attempt<T>(options: StructuredRequest<T>, request: ChatRequest | VisionRequest): Promise<Attempt<T>> {
+  let raw: unknown
+  try {
+    if (options.method === "chat") {
+      raw = await options.provider.chat(request)
+    } else if (options.method === "vision") {
+      raw = await options.provider.vision(request as VisionRequest)
+    } else {
+      raw = await options.provider.chatJson(request)
+    }
+  } catch (error) {
+    // Unparseable or empty replies can be repaired; transport failures are left to the caller
+    if (error instanceof LLMRequestError && error.status === undefined) {
+      return { ok: false, raw: undefined, problems: [{ path: [], message: error.message }] }
+    }
+    throw error
+  }
+
+  return validate(options.schema, raw)
+}
+
+export function buildRepairPrompt(prompt: string, raw: unknown, problems: OutputProblem[]): string {
+  const listed = problems.map((problem) => `- ${formatPath(problem.path) || "response"}: ${problem.message}`).join("\n")
+  const previous = raw === undefined ? "(unreadable)" : typeof raw === "string" ? raw : JSON.stringify(raw)
+
+  return `${prompt}
+
+Your previous reply did not match the required format:
+${listed}
+
+Previous reply:
+${previous}
+
+Reply again with the same content, correcting only the problems listed above.`
+}
+
+function cloneValue<V>(value: V): V {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+function readPath(source: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (current, segment) =>
+      current && typeof current === "object" ? (current as Record<string | number, unknown>)[segment] : undefined,
+    source,
+  )
+}
+
+function patchFromFallback(raw: unknown, fallback: unknown, problems: OutputProblem[]): unknown {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return cloneValue(fallback)
+  }
+
+  const patched = cloneValue(raw) as Record<string | number, unknown>
+  for (const problem of problems) {
+    const path = fieldPath(problem.path)
+    if (path.length === 0) {
+      return cloneValue(fallback)
+    }
+
+    let target: Record<string | number, unknown> = patched
+    for (const segment of path.slice(0, -1)) {
+      const next = target[segment]
+      if (!next || typeof next !== "object") {
+        target[segment] = {}
+      }
+      target = target[segment] as Record<string | number, unknown>
+    }
+    target[path[path.length - 1]] = cloneValue(readPath(fallback, path))
+  }
+  return patched
+}
+
+/**
+ * Asks the provider for structured output and guarantees a schema-valid result.
+ * An invalid reply gets one corrective prompt listing the failing fields; if that
+ * still fails, only the failing fields are swapped for the fallback's values.
+ * Transport errors (network, 4xx/5xx) are rethrown untouched.
+ */
+export async function completeStructured<T>(options: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const first = await attempt(options, options.request)
+  if (first.ok) {
+    return { data: first.data, source: "model", repairedFields: [] }
+  }
+
+  const repairedFields = listFields(first.problems)
+  console.warn("[mindful-ai] LLM output failed validation, requesting repair", {
+    task: options.request.task,
+    fields: repairedFields,
+  })
+
+  let latest = first
+  try {
+    const repaired = await attempt(options, {
+      ...options.request,
+      prompt: buildRepairPrompt(options.request.prompt, first.raw, first.problems),
+    })
+    if (repaired.ok) {
+      options.warnings?.push(`Corrected AI response fields: ${repairedFields.join(", ")}.`)
+      return { data: repaired.data, source: "repair", repairedFields }
+    }
+    // Keep whichever reply is closer to valid so fewer fields fall back
+    if (repaired.raw !== undefined && repaired.problems.length <= first.problems.length) {
+      latest = repaired
+    }
+  } catch (error) {
+    console.error("[mindful-ai] LLM repair request failed:", error)
+  }
+
+  const fallbackFields = listFields(latest.problems)
+  const patched = validate(options.schema, patchFromFallback(latest.raw, options.fallback, latest.problems))
+  if (patched.ok) {
+    options.warnings?.push(`Used default content for AI response fields: ${fallbackFields.join(", ")}.`)
+    return { data: patched.data, source: "fallback", repairedFields: fallbackFields }
+  }
+
+  options.warnings?.push("Used default content because the AI response could not be repaired.")
+  return { data: options.fallback, source: "fallback", repairedFields: ["response"] }
+}
@@ -0,0 +1,35 @@
+// Provider-agnostic request and response shapes for every LLM call in the app
+
+// Which feature is asking; lets the fixture provider answer with a matching payload
+export type LLMTask = "empathy" | "text-analysis" | "voice-analysis" | "image-analysis" | "contact-message"
+
+export interface ChatRequest {
+  task: LLMTask
+  system: string
+  prompt: string
+  temperature?: number
+  maxTokens?: number
+  model?: string
+  // Extra attempts on network errors and 5xx responses
+  retries?: number
+}
+
+export interface VisionRequest extends ChatRequest {
+  imageUrl: string
+}
+
+export interface TranscriptionRequest {
+  audio: Blob
+  filename?: string
+  model?: string
+}
+
+export interface LLMProvider {
+  name: string
+  chat(request: ChatRequest): Promise<string>
+  // JSON mode: the reply is parsed before it is returned; invalid JSON throws
+  chatJson(request: ChatRequest): Promise<unknown>
+  // Image + prompt in JSON mode, parsed like chatJson
+  vision(request: VisionRequest): Promise<unknown>
+  transcribe(request: TranscriptionRequest): Promise<string>
+}
@@ -0,0 +1,142 @@
+// Weighted multimodal mood fusion. Each modality contributes a label with a confidence; labels
+// vote by legacy mood family (so "calm" and "happy" agree), the strongest label within the
+// winning family is kept, and any source that clearly points elsewhere is reported back.
+
+import {
+  EMOTION_COORDINATES,
+  toLegacyMood,
+  type EmotionCoordinates,
+  type EmotionLabel,
+  type LegacyMoodCategory,
+} from "./emotion-model"
+
+export type MoodSourceType = "self-report" | "text" | "voice" | "image" | "symptoms"
+
+export interface MoodSignal {
+  type: MoodSourceType
+  label: EmotionLabel
+  // 0-1, as reported by the analyzer that produced the label
+  confidence: number
+}
+
+export interface MoodContribution {
+  type: MoodSourceType
+  label: string
+  mood: EmotionLabel
+  // 0-100
+  confidence: number
+  // Share of the total evidence, 0-100
+  weight: number
+  agrees: boolean
+}
+
+export interface MoodDisagreement {
+  sources: MoodSourceType[]
+  message: string
+}
+
+export interface MoodFusionResult {
+  mood: EmotionLabel
+  // Share of the evidence behind the winning mood family, 0-1
+  agreement: number
+  coordinates: EmotionCoordinates
+  contributions: MoodContribution[]
+  disagreement?: MoodDisagreement
+}
+
+// How much a fully confident signal of each kind counts. Validated symptom ratings and what the
+// user says about themselves outweigh what we infer from a transcript or a photo.
+export const MODALITY_WEIGHTS: Record<MoodSourceType, number> = {
+  symptoms: 1,
+  "self-report": 0.9,
+  text: 0.7,
+  voice: 0.6,
+  image: 0.4,
+}
+
+const SOURCE_LABELS: Record<MoodSourceType, string> = {
+  symptoms: "Symptom ratings",
+  "self-report": "Your check-in",
+  text: "Written reflection",
+  voice: "Voice note",
+  image: "Photo",
+}
+
+const SOURCE_NOUNS: Record<MoodSourceType, string> = {
+  symptoms: "symptom ratings",
+  "self-report": "check-in",
+  text: "writing",
+  voice: "voice note",
+  image: "photo",
+}
+
+// A dissenting source is only surfaced when it carries at least this share of the evidence
+const DISAGREEMENT_SHARE = 0.2
+
+const clampConfidence = (value: number) => (Number.isFinite(value) ? Math.max(0.05, Math.min(1, value)) : 0.5)
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function describeDisagreement(winner: MoodSignal, dissenters: MoodSignal[]): string {
+  const others = dissenters.map((source) => `your ${SOURCE_NOUNS[source.type]} suggests ${source.label}`).join(" and ")
+  return `Mixed signals: ${others}, while your ${SOURCE_NOUNS[winner.type]} points to ${winner.label}. We leaned on the stronger signal; tell us if that doesn't feel right.`
+}
+
+// fallback stands in as the only signal when no modality produced one
+export function fuseMoodSignals(signals: MoodSignal[], fallback: MoodSignal): MoodFusionResult {
+  const weighted = (signals.length > 0 ? signals : [fallback]).map((signal) => {
+    const confidence = clampConfidence(signal.confidence)
+    return { ...signal, confidence, weight: MODALITY_WEIGHTS[signal.type] * confidence }
+  })
+  const total = weighted.reduce((sum, signal) => sum + signal.weight, 0)
+
+  const familyWeights = new Map<LegacyMoodCategory, number>()
+  for (const signal of weighted) {
+    const family = toLegacyMood(signal.label)
+    familyWeights.set(family, (familyWeights.get(family) ?? 0) + signal.weight)
+  }
+
+  // Ties go to the family named first, which keeps the caller's ordering meaningful
+  let winningFamily = toLegacyMood(weighted[0].label)
+  for (const [family, weight] of familyWeights) {
+    if (weight > (familyWeights.get(winningFamily) ?? 0)) {
+      winningFamily = family
+    }
+  }
+
+  const supporting = weighted.filter((signal) => toLegacyMood(signal.label) === winningFamily)
+  const strongest = supporting.reduce((best, signal) => (signal.weight > best.weight ? signal : best))
+
+  const coordinates = weighted.reduce(
+    (acc, signal) => {
+      const point = EMOTION_COORDINATES[signal.label]
+      return {
+        valence: acc.valence + (point.valence * signal.weight) / total,
+        arousal: acc.arousal + (point.arousal * signal.weight) / total,
+      }
+    },
+    { valence: 0, arousal: 0 },
+  )
+
+  const contributions: MoodContribution[] = weighted.map((signal) => ({
+    type: signal.type,
+    label: SOURCE_LABELS[signal.type],
+    mood: signal.label,
+    confidence: Math.round(signal.confidence * 100),
+    weight: Math.round((signal.weight / total) * 100),
+    agrees: toLegacyMood(signal.label) === winningFamily,
+  }))
+
+  const dissenters = weighted.filter(
+    (signal) => toLegacyMood(signal.label) !== winningFamily && signal.weight / total >= DISAGREEMENT_SHARE,
+  )
+
+  return {
+    mood: strongest.label,
+    agreement: round2((familyWeights.get(winningFamily) ?? 0) / total),
+    coordinates: { valence: round2(coordinates.valence), arousal: round2(coordinates.arousal) },
+    contributions,
+    disagreement: dissenters.length
+      ? { sources: dissenters.map((signal) => signal.type), message: describeDisagreement(strongest, dissenters) }
+      : undefined,
+  }
+}
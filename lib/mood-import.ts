@@ -0,0 +1,420 @@
+// Imports mood history exported from other trackers (Daylio, Bearable) or spreadsheets
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { z } from "zod"
+import { zonedTimeToUtc } from "./timezone"
+import { onboardingMoodEntrySchema } from "./validations/onboarding"
+
+export type ImportFormat = "csv" | "json"
+export type ImportSource = "daylio" | "bearable" | "generic"
+export type ImportField = "date" | "time" | "mood" | "energy" | "emotions" | "triggers" | "coping" | "note"
+export type ImportColumnMapping = Partial<Record<ImportField, string>>
+export type ImportScale = 5 | 10
+export type ImportRecord = Record<string, string>
+
+export type ImportedMoodEntry = z.infer<typeof onboardingMoodEntrySchema> & { date: string }
+
+export interface ImportOptions {
+  moodScale?: ImportScale
+  energyScale?: ImportScale
+  // The user's profile time zone; source apps export wall-clock times in it
+  timeZone?: string | null
+}
+
+export interface ImportRowResult {
+  row: number
+  entry: ImportedMoodEntry | null
+  errors: string[]
+  warnings: string[]
+  duplicate: boolean
+}
+
+export interface ParsedImport {
+  source: ImportSource
+  columns: string[]
+  records: ImportRecord[]
+}
+
+export interface ExistingMoodEntry {
+  date: string
+  entry_timestamp: string | null
+}
+
+export const IMPORT_FIELDS: ImportField[] = ["date", "time", "mood", "energy", "emotions", "triggers", "coping", "note"]
+export const MAX_IMPORT_ROWS = 5000
+
+const DEFAULT_ENERGY = 5
+const INSERT_CHUNK_SIZE = 500
+const EXISTING_PAGE_SIZE = 1000
+
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "full_date", "day", "entry_date", "date formatted"],
+  time: ["time", "time of day", "entry_time"],
+  mood: ["mood", "mood_score", "mood score", "rating"],
+  energy: ["energy", "energy_level", "energy level"],
+  emotions: ["emotions", "feelings", "emotion"],
+  triggers: ["triggers", "trigger", "factors", "activities"],
+  coping: ["coping", "coping_strategies", "coping strategies", "strategies"],
+  note: ["note", "notes", "journal", "comment", "comments"],
+}
+
+// Daylio's five default moods, on a 1-5 scale
+const MOOD_LABELS: Record<string, number> = {
+  awful: 1,
+  bad: 2,
+  meh: 3,
+  good: 4,
+  rad: 5,
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and newlines
+ * inside quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const source = text.replace(/^\uFEFF/, "")
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index]
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0))
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (Array.isArray(value)) return value.map(stringifyValue).join("|")
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+function normalizeColumn(column: string): string {
+  return column.trim().toLowerCase()
+}
+
+export function detectImportSource(columns: string[]): ImportSource {
+  const normalized = new Set(columns.map(normalizeColumn))
+  if (normalized.has("full_date") && normalized.has("mood") && normalized.has("activities")) return "daylio"
+  if (normalized.has("category") && normalized.has("rating/amount")) return "bearable"
+  return "generic"
+}
+
+// Bearable exports one row per tracked item; fold them into one record per check-in
+function pivotBearable(records: ImportRecord[]): ImportRecord[] {
+  const grouped = new Map<string, ImportRecord>()
+  const append = (record: ImportRecord, key: string, value: string) => {
+    if (value) record[key] = record[key] ? `${record[key]}|${value}` : value
+  }
+
+  for (const record of records) {
+    const date = record["date formatted"] ?? record.date ?? ""
+    const time = record["time of day"] ?? ""
+    const key = `${date} ${time}`
+    const target = grouped.get(key) ?? { date, time }
+    grouped.set(key, target)
+
+    const category = (record.category ?? "").trim().toLowerCase()
+    const rating = (record["rating/amount"] ?? "").trim()
+    const detail = (record.detail ?? "").trim()
+
+    if (category === "mood" && rating) target.mood = rating
+    else if (category === "energy" && rating) target.energy = rating
+    else if (category === "symptoms" || category === "symptom") append(target, "emotions", detail)
+    else if (category === "factors" || category === "factor") append(target, "triggers", detail)
+    append(target, "note", (record.notes ?? "").trim())
+  }
+
+  return Array.from(grouped.values())
+}
+
+export function parseImportContent(content: string, format: ImportFormat): ParsedImport {
+  let records: ImportRecord[]
+
+  if (format === "json") {
+    const parsed: unknown = JSON.parse(content)
+    const items = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === "object" && Array.isArray((parsed as { entries?: unknown }).entries)
+        ? (parsed as { entries: unknown[] }).entries
+        : null
+    if (!items) {
+      throw new Error("JSON imports must be an array of entries or an object with an `entries` array")
+    }
+    records = items
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+      .map((item) => Object.fromEntries(Object.entries(item).map(([key, value]) => [key, stringifyValue(value)])))
+  } else {
+    const [header = [], ...rows] = parseCsv(content)
+    const columns = header.map((column) => column.trim())
+    records = rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? "").trim()])))
+  }
+
+  const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record))))
+  const source = detectImportSource(columns)
+
+  if (source === "bearable") {
+    // Keys are matched case-insensitively so exports with title-cased headers still pivot
+    const lowered = records.map((record) =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [normalizeColumn(key), value])),
+    )
+    const pivoted = pivotBearable(lowered)
+    return { source, columns: ["date", "time", "mood", "energy", "emotions", "triggers", "note"], records: pivoted }
+  }
+
+  return { source, columns, records }
+}
+
+export function suggestColumnMapping(columns: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {}
+  for (const field of IMPORT_FIELDS) {
+    const match = columns.find((column) => COLUMN_ALIASES[field].includes(normalizeColumn(column)))
+    if (match) mapping[field] = match
+  }
+  return mapping
+}
+
+// Suggests a 1-5 scale when every numeric value in the column fits in it
+export function suggestScale(records: ImportRecord[], column?: string): ImportScale {
+  if (!column) return 10
+  const values = records
+    .map((record) => record[column]?.trim() ?? "")
+    .filter((value) => value !== "")
+    .map((value) => MOOD_LABELS[value.toLowerCase()] ?? Number(value))
+    .filter((value) => Number.isFinite(value))
+  return values.length > 0 && values.every((value) => value <= 5) ? 5 : 10
+}
+
+function toTenPointScale(value: number, scale: ImportScale): number {
+  return scale === 5 ? Math.round(1 + ((value - 1) * 9) / 4) : Math.round(value)
+}
+
+function parseScore(raw: string | undefined, scale: ImportScale): number | null {
+  const value = raw?.trim()
+  if (!value) return null
+  const numeric = MOOD_LABELS[value.toLowerCase()] ?? Number(value)
+  if (!Number.isFinite(numeric)) return null
+  // Text labels are always on Daylio's five-point scale
+  return toTenPointScale(numeric, MOOD_LABELS[value.toLowerCase()] ? 5 : scale)
+}
+
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(/[|;,]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})/
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/
+
+// Accepts ISO dates (with or without time) and US-style M/D/YYYY from spreadsheets
+export function parseImportDate(raw: string | undefined): string | null {
+  const value = raw?.trim() ?? ""
+  const iso = value.match(ISO_DATE)
+  const slash = value.match(SLASH_DATE)
+  const parts = iso ? [iso[1], iso[2], iso[3]] : slash ? [slash[3], slash[1], slash[2]] : null
+  if (!parts) return null
+
+  const [year, month, day] = parts.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// "20:15", "8:15 pm", "08:15:30" -> "HH:MM"
+export function parseImportTime(raw: string | undefined): string | null {
+  const match = raw?.trim().toLowerCase().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/)
+  if (!match) return null
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (match[3] === "pm" && hours < 12) hours += 12
+  if (match[3] === "am" && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+}
+
+/**
+ * Maps raw records onto check-in fields and validates each one against the
+ * same schema the onboarding flow uses. Row numbers are 1-based data rows.
+ */
+export function mapImportRecords(
+  records: ImportRecord[],
+  mapping: ImportColumnMapping,
+  options: ImportOptions = {},
+): ImportRowResult[] {
+  const moodScale = options.moodScale ?? 10
+  const energyScale = options.energyScale ?? moodScale
+  const read = (record: ImportRecord, field: ImportField) => (mapping[field] ? record[mapping[field]] : undefined)
+
+  return records.map((record, index) => {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const date = parseImportDate(read(record, "date"))
+    if (!date) errors.push("date is missing or not a valid date")
+
+    // Without a time column, ISO timestamps in the date column still carry the time
+    const rawTime = read(record, "time") ?? read(record, "date")?.match(/^\S+[T ](\d{1,2}:\d{2})/)?.[1]
+    const time = parseImportTime(rawTime)
+    if (rawTime?.trim() && !time) warnings.push("time was not recognised and was ignored")
+
+    const moodScore = parseScore(read(record, "mood"), moodScale)
+    if (moodScore === null) errors.push("mood is missing or not a number")
+
+    let energyLevel = parseScore(read(record, "energy"), energyScale)
+    if (energyLevel === null) {
+      energyLevel = DEFAULT_ENERGY
+      warnings.push(`energy missing, defaulted to ${DEFAULT_ENERGY}`)
+    }
+
+    const note = read(record, "note")?.trim()
+    const candidate = {
+      moodScore,
+      energyLevel,
+      emotions: parseList(read(record, "emotions")),
+      triggers: parseList(read(record, "triggers")),
+      coping: parseList(read(record, "coping")),
+      entryType: "text" as const,
+      note: note || undefined,
+      date: date ?? undefined,
+      timestamp: date && time ? zonedTimeToUtc(date, time, options.timeZone) : undefined,
+    }
+
+    let entry: ImportedMoodEntry | null = null
+    if (errors.length === 0) {
+      const parsed = onboardingMoodEntrySchema.safeParse(candidate)
+      if (parsed.success && parsed.data.date) {
+        entry = { ...parsed.data, date: parsed.data.date }
+      } else if (!parsed.success) {
+        errors.push(...parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`))
+      }
+    }
+
+    return { row: index + 1, entry, errors, warnings, duplicate: false }
+  })
+}
+
+/**
+ * Flags rows already present in the file or in the user's history. Rows with
+ * a time match on the exact timestamp; date-only rows match any entry that day.
+ */
+export function markDuplicates(rows: ImportRowResult[], existing: ExistingMoodEntry[]): ImportRowResult[] {
+  const existingDates = new Set(existing.map((item) => item.date))
+  const existingTimestamps = new Set(
+    existing
+      .map((item) => (item.entry_timestamp ? new Date(item.entry_timestamp).toISOString().slice(0, 16) : null))
+      .filter((value): value is string => Boolean(value)),
+  )
+  const seen = new Set<string>()
+
+  return rows.map((row) => {
+    if (!row.entry) return row
+    const key = row.entry.timestamp ? row.entry.timestamp.slice(0, 16) : row.entry.date
+    const duplicate = row.entry.timestamp
+      ? existingTimestamps.has(key) || seen.has(key)
+      : existingDates.has(key) || seen.has(key)
+    seen.add(key)
+    return duplicate ? { ...row, duplicate } : row
+  })
+}
+
+export async function loadExistingEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  rows: ImportRowResult[],
+): Promise<ExistingMoodEntry[]> {
+  const dates = rows.map((row) => row.entry?.date).filter((date): date is string => Boolean(date)).sort()
+  if (dates.length === 0) return []
+
+  // A file spanning years can cover more entries than one response returns, so read the range in pages
+  const existing: ExistingMoodEntry[] = []
+  for (let from = 0; ; from += EXISTING_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("mood_entries")
+      .select("date, entry_timestamp")
+      .eq("user_id", userId)
+      .gte("date", dates[0])
+      .lte("date", dates[dates.length - 1])
+      .order("id", { ascending: true })
+      .range(from, from + EXISTING_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    existing.push(...((data ?? []) as ExistingMoodEntry[]))
+    if (!data || data.length < EXISTING_PAGE_SIZE) {
+      return existing
+    }
+  }
+}
+
+export async function insertImportedEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  entries: ImportedMoodEntry[],
+  timeZone?: string | null,
+): Promise<number> {
+  let inserted = 0
+
+  for (let index = 0; index < entries.length; index += INSERT_CHUNK_SIZE) {
+    const batch = entries.slice(index, index + INSERT_CHUNK_SIZE).map((entry) => ({
+      user_id: userId,
+      date: entry.date,
+      mood_score: entry.moodScore,
+      energy_level: entry.energyLevel,
+      emotions: entry.emotions,
+      triggers: entry.triggers,
+      coping_strategies: entry.coping,
+      entry_type: entry.entryType,
+      note: entry.note ?? null,
+      // Rows without a time are placed at local noon so they stay on their day
+      entry_timestamp: entry.timestamp ?? zonedTimeToUtc(entry.date, "12:00", timeZone),
+    }))
+
+    const { error } = await supabase.from("mood_entries").insert(batch)
+    if (error) {
+      throw error
+    }
+    inserted += batch.length
+  }
+
+  return inserted
+}
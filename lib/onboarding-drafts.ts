@@ -0,0 +1,136 @@
+// Onboarding answers are saved one step at a time as drafts in onboarding_responses, so a refresh
+// or a closed tab resumes the questionnaire instead of starting over.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  nextQuestionIndex,
+  validateAnswer,
+  type QuestionAnswer,
+  type Questionnaire,
+  type QuestionnaireAnswers,
+} from "./questionnaire"
+
+export interface OnboardingDraft {
+  step: number
+  stepTitle: string
+  response: string
+  metadata: Record<string, unknown> | null
+  updatedAt: string
+}
+
+export interface OnboardingProgress {
+  // Shared by every draft of one attempt and sent with the final check-in
+  submissionId: string | null
+  answers: QuestionnaireAnswers
+  // Restored answers in the order they were asked, keyed by question index
+  responses: Array<{ index: number; draft: OnboardingDraft }>
+  // The question to ask next; null when nothing has been answered yet
+  nextIndex: number | null
+}
+
+interface OnboardingResponseRow {
+  step: number
+  step_title: string
+  response: string
+  metadata: Record<string, unknown> | null
+  updated_at: string
+}
+
+const EMPTY_PROGRESS: OnboardingProgress = { submissionId: null, answers: {}, responses: [], nextIndex: null }
+
+/**
+ * Rebuilds questionnaire progress from saved drafts. Only the latest attempt at the current
+ * questionnaire version counts, and answers are replayed through the branching rules so a
+ * stale draft for a question that no longer applies is ignored. When every question has an
+ * answer the last one is asked again, since answering it is what submits the check-in.
+ */
+export function restoreOnboardingProgress(questionnaire: Questionnaire, drafts: OnboardingDraft[]): OnboardingProgress {
+  const current = drafts.filter(
+    (draft) =>
+      draft.metadata?.questionnaireId === questionnaire.id &&
+      draft.metadata.questionnaireVersion === questionnaire.version &&
+      typeof draft.metadata.submissionId === "string",
+  )
+  const latest = current.reduce<OnboardingDraft | undefined>(
+    (found, draft) => (!found || draft.updatedAt > found.updatedAt ? draft : found),
+    undefined,
+  )
+  if (!latest) {
+    return EMPTY_PROGRESS
+  }
+
+  const submissionId = latest.metadata?.submissionId as string
+  const draftsByStep = new Map(
+    current.filter((draft) => draft.metadata?.submissionId === submissionId).map((draft) => [draft.step, draft]),
+  )
+
+  const answers: QuestionnaireAnswers = {}
+  const responses: OnboardingProgress["responses"] = []
+  let index = nextQuestionIndex(questionnaire, answers, -1)
+  while (index !== null) {
+    const question = questionnaire.questions[index]
+    const draft = draftsByStep.get(index + 1)
+    const answer = draft?.metadata?.answer as QuestionAnswer | undefined
+    if (!draft || draft.metadata?.questionId !== question.id || !answer || validateAnswer(question, answer)) {
+      break
+    }
+    answers[question.id] = answer
+    responses.push({ index, draft })
+    index = nextQuestionIndex(questionnaire, answers, index)
+  }
+
+  if (responses.length === 0) {
+    return EMPTY_PROGRESS
+  }
+
+  if (index === null) {
+    const last = responses.pop()!
+    delete answers[questionnaire.questions[last.index].id]
+    index = last.index
+  }
+
+  return { submissionId, answers, responses, nextIndex: index }
+}
+
+export async function loadOnboardingDrafts(supabase: SupabaseClient, userId: string): Promise<OnboardingDraft[]> {
+  const { data, error } = await supabase
+    .from("onboarding_responses")
+    .select("step, step_title, response, metadata, updated_at")
+    .eq("user_id", userId)
+    .order("step", { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return ((data ?? []) as OnboardingResponseRow[]).map((row) => ({
+    step: row.step,
+    stepTitle: row.step_title,
+    response: row.response,
+    metadata: row.metadata,
+    updatedAt: row.updated_at,
+  }))
+}
+
+// One row per (user_id, step): answering a step again replaces its draft
+export async function saveOnboardingDraft(
+  supabase: SupabaseClient,
+  userId: string,
+  draft: Omit<OnboardingDraft, "updatedAt">,
+): Promise<void> {
+  const { error } = await supabase.from("onboarding_responses").upsert(
+    {
+      user_id: userId,
+      step: draft.step,
+      step_title: draft.stepTitle,
+      response: draft.response,
+      metadata: draft.metadata,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,step" },
+  )
+
+  if (error) {
+    throw error
+  }
+}
@@ -0,0 +1,131 @@
+// The onboarding intake, defined declaratively and rendered by useOnboardingFlow, plus the
+// therapeutic data the empathy agent reads from its typed answers.
+
+import { ASSESSMENT_INSTRUMENT_IDS, type SymptomRatings } from "./assessments"
+import type { Questionnaire, QuestionnaireAnswers } from "./questionnaire"
+
+export const ONBOARDING_QUESTIONNAIRE: Questionnaire = {
+  id: "onboarding",
+  version: 2,
+  questions: [
+    {
+      id: "presenting-problem",
+      type: "free-text",
+      title: "Presenting Problem",
+      prompt: "What is the main issue or concern that brought you to therapy?",
+      placeholder: "Tell me what brings you here today...",
+    },
+    {
+      id: "symptoms",
+      type: "assessment",
+      title: "Current Symptoms",
+      prompt:
+        "Next, a few short standard questionnaires about how you have been feeling lately: mood (PHQ-9), anxiety (GAD-7), stress (PSS-10) and loneliness (UCLA-3). Please answer each question below.",
+      instruments: ASSESSMENT_INSTRUMENT_IDS,
+    },
+    {
+      id: "therapy-history",
+      type: "yes-no",
+      title: "Therapeutic History",
+      prompt: "Have you previously received therapy or mental health treatment?",
+      followUps: [
+        {
+          id: "duration",
+          type: "free-text",
+          title: "Duration",
+          prompt: "For how long?",
+          placeholder: "e.g. six months",
+          required: false,
+          maxLength: 200,
+        },
+        {
+          id: "type",
+          type: "free-text",
+          title: "Type",
+          prompt: "What kind of therapy or treatment was it?",
+          placeholder: "e.g. CBT, counselling, medication",
+          required: false,
+          maxLength: 200,
+        },
+      ],
+    },
+    {
+      id: "relationship-importance",
+      type: "likert",
+      title: "Relationship Expectations",
+      prompt: "How important is feeling understood and supported by your therapist to you?",
+      min: 1,
+      max: 5,
+      minLabel: "Not important",
+      maxLabel: "Very important",
+    },
+    {
+      id: "readiness",
+      type: "likert",
+      title: "Patient Involvement",
+      prompt: "How ready do you feel to engage actively in therapy and work on your personal challenges?",
+      min: 1,
+      max: 5,
+      minLabel: "Not ready",
+      maxLabel: "Fully ready",
+    },
+    {
+      id: "readiness-barriers",
+      type: "free-text",
+      title: "Getting Started",
+      prompt: "That's okay. What feels like it's getting in the way right now, and what might make it easier to begin?",
+      placeholder: "Share whatever comes to mind...",
+      when: { questionId: "readiness", max: 2 },
+    },
+    {
+      id: "background",
+      type: "free-text",
+      title: "Personal Background",
+      prompt: "Please briefly describe your current living situation, key relationships, and support systems.",
+      placeholder: "Tell me about your current situation and support network...",
+    },
+  ],
+}
+
+export interface TherapeuticData {
+  symptomRatings?: SymptomRatings
+  therapyHistory?: {
+    hasPreviousTherapy?: boolean
+    duration?: string
+    type?: string
+  }
+  therapeuticRelationshipImportance?: number
+  patientReadiness?: number
+}
+
+export function therapeuticDataFromAnswers(answers: QuestionnaireAnswers): TherapeuticData {
+  const data: TherapeuticData = {}
+
+  const symptoms = answers["symptoms"]
+  if (symptoms?.type === "assessment" && Object.keys(symptoms.symptomRatings).length > 0) {
+    data.symptomRatings = symptoms.symptomRatings
+  }
+
+  const history = answers["therapy-history"]
+  if (history?.type === "yes-no") {
+    const text = (key: string) => {
+      const value = history.followUps?.[key]
+      return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined
+    }
+    data.therapyHistory = history.value
+      ? { hasPreviousTherapy: true, duration: text("duration"), type: text("type") }
+      : { hasPreviousTherapy: false }
+  }
+
+  const importance = answers["relationship-importance"]
+  if (importance?.type === "likert") {
+    data.therapeuticRelationshipImportance = importance.value
+  }
+
+  const readiness = answers["readiness"]
+  if (readiness?.type === "likert") {
+    data.patientReadiness = readiness.value
+  }
+
+  return data
+}
@@ -0,0 +1,261 @@
+// PII redaction: pseudonymizes personal details before user text is sent to an LLM
+// and restores them in the reply. Only category counts are ever logged.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+export type RedactionCategory = "name" | "email" | "phone" | "address" | "date"
+
+// "strict" additionally treats any mid-sentence capitalized word as a name and
+// catches partial dates, bare street names and postal codes
+export type RedactionLevel = "standard" | "strict"
+
+export interface RedactionOptions {
+  level?: RedactionLevel
+  // The user's own name (and any others known up front), always redacted
+  knownNames?: string[]
+}
+
+export type RedactionSummary = Partial<Record<RedactionCategory, number>>
+
+export interface Redactor {
+  redact(text: string): string
+  redact(text: string | undefined): string | undefined
+  // Replaces placeholders in every string inside value, leaving unknown placeholders as they are
+  rehydrate<T>(value: T): T
+  summary(): RedactionSummary
+}
+
+const MONTHS =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)"
+const ORDINAL = "(?:st|nd|rd|th)?"
+const STREET_SUFFIX =
+  "(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent)"
+const RELATIONS =
+  "(?:husband|wife|partner|boyfriend|girlfriend|fianc[eé]e?|son|daughter|mother|mom|mum|father|dad|brother|sister|friend|best friend|boss|manager|therapist|counsel(?:l)?or|doctor|coworker|co-worker|colleague|roommate|flatmate|neighbou?r|ex|kid|child|grandma|grandmother|grandpa|grandfather|aunt|uncle|cousin)"
+const CAPITALIZED_NAME = "[A-Z][a-z'’-]+(?:\\s+[A-Z][a-z'’-]+)?"
+
+interface Detector {
+  category: RedactionCategory
+  pattern: RegExp
+  // Capture group holding the sensitive part; the rest of the match (e.g. "my sister") is kept
+  group?: number
+  strictOnly?: boolean
+}
+
+// Order matters: dates run before phone numbers so "2024-03-05" isn't read as a phone
+const detectors: Detector[] = [
+  { category: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { category: "date", pattern: /\b\d{4}-\d{2}-\d{2}\b/g },
+  { category: "date", pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b/g },
+  { category: "date", pattern: new RegExp(`\\b${MONTHS}\\.?\\s+\\d{1,2}${ORDINAL},?\\s+\\d{4}\\b`, "g") },
+  { category: "date", pattern: new RegExp(`\\b\\d{1,2}${ORDINAL}\\s+(?:of\\s+)?${MONTHS}\\.?,?\\s+\\d{4}\\b`, "g") },
+  { category: "date", pattern: new RegExp(`\\b${MONTHS}\\.?\\s+\\d{1,2}${ORDINAL}\\b`, "g"), strictOnly: true },
+  { category: "date", pattern: new RegExp(`\\b\\d{1,2}${ORDINAL}\\s+(?:of\\s+)?${MONTHS}\\b`, "g"), strictOnly: true },
+  {
+    category: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,5}\\s+(?:[A-Z][a-z]+\\s+){1,3}${STREET_SUFFIX}\\b\\.?(?:,?\\s+(?:Apt|Apartment|Unit|Suite)\\.?\\s*[\\w-]+)?`,
+      "g",
+    ),
+  },
+  { category: "address", pattern: new RegExp(`\\b(?:[A-Z][a-z]+\\s+){1,3}${STREET_SUFFIX}\\b\\.?`, "g"), strictOnly: true },
+  { category: "address", pattern: /\b\d{5}(?:-\d{4})?\b/g, strictOnly: true },
+  { category: "address", pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g, strictOnly: true },
+  {
+    category: "phone",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?!\w)/g,
+  },
+  { category: "phone", pattern: /(?<![\w+])\+?\d{10,13}(?!\w)/g },
+  { category: "name", pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+([A-Z][a-z'’-]+)/g, group: 1 },
+  {
+    category: "name",
+    pattern: new RegExp(`\\b(?:[Mm]y|[Oo]ur|[Hh]is|[Hh]er|[Tt]heir)\\s+${RELATIONS},?\\s+(${CAPITALIZED_NAME})`, "g"),
+    group: 1,
+  },
+  { category: "name", pattern: new RegExp(`\\b(?:named|called|name is)\\s+(${CAPITALIZED_NAME})`, "g"), group: 1 },
+]
+
+// Capitalized words that are not names; only consulted in strict mode
+const COMMON_CAPITALIZED = new Set(
+  [
+    "I",
+    "I'm",
+    "I've",
+    "I'll",
+    "I'd",
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+    "Sunday",
+    "January",
+    "February",
+    "March",
+    "April",
+    "May",
+    "June",
+    "July",
+    "August",
+    "September",
+    "October",
+    "November",
+    "December",
+    "Christmas",
+    "English",
+    "God",
+    "OK",
+  ].map((word) => word.toLowerCase()),
+)
+
+const PLACEHOLDER_PATTERN = /\[(NAME|EMAIL|PHONE|ADDRESS|DATE)_(\d+)\]/g
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, "").length
+}
+
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+  const level = options.level ?? "standard"
+  const byValue = new Map<string, string>()
+  const byPlaceholder = new Map<string, string>()
+  const counters: Record<RedactionCategory, number> = { name: 0, email: 0, phone: 0, address: 0, date: 0 }
+  const names = new Set<string>()
+
+  const used = new Set<string>()
+
+  // The same value always maps to the same placeholder, so the model can still tell people apart
+  const assign = (category: RedactionCategory, value: string): string => {
+    const key = `${category}:${value.toLowerCase()}`
+    const existing = byValue.get(key)
+    if (existing) {
+      return existing
+    }
+    counters[category] += 1
+    const placeholder = `[${category.toUpperCase()}_${counters[category]}]`
+    byValue.set(key, placeholder)
+    byPlaceholder.set(placeholder, value)
+    if (category === "name") {
+      names.add(value)
+    }
+    return placeholder
+  }
+
+  const replaceWith = (category: RedactionCategory, value: string): string => {
+    const placeholder = assign(category, value)
+    used.add(placeholder)
+    return placeholder
+  }
+
+  for (const name of options.knownNames ?? []) {
+    for (const part of name.split(/\s+/)) {
+      if (part.length >= 2) {
+        assign("name", part)
+      }
+    }
+  }
+
+  const applyDetector = (text: string, detector: Detector): string =>
+    text.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+      if (detector.category === "phone" && countDigits(match) < 7) {
+        return match
+      }
+      const captured = detector.group ? groups[detector.group - 1] : undefined
+      if (typeof captured === "string") {
+        return match.replace(captured, replaceWith(detector.category, captured))
+      }
+      return replaceWith(detector.category, match)
+    })
+
+  const redactCapitalizedWords = (text: string): string =>
+    text.replace(/(?<=[^.!?\s]\s+)[A-Z][a-z'’-]+\b/g, (word: string) =>
+      COMMON_CAPITALIZED.has(word.toLowerCase()) ? word : replaceWith("name", word),
+    )
+
+  function redact(text: string): string
+  function redact(text: string | undefined): string | undefined
+  function redact(text: string | undefined): string | undefined {
+    if (!text) {
+      return text
+    }
+
+    let result = text
+    for (const detector of detectors) {
+      if (!detector.strictOnly || level === "strict") {
+        result = applyDetector(result, detector)
+      }
+    }
+    if (level === "strict") {
+      result = redactCapitalizedWords(result)
+    }
+
+    // Names found anywhere (or known up front) are replaced wherever else they appear. Matching is
+    // case-sensitive so a name like "Will" doesn't swallow the verb.
+    for (const name of names) {
+      result = result.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, "g"), () => replaceWith("name", name))
+    }
+    return result
+  }
+
+  const rehydrateString = (text: string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder) => byPlaceholder.get(placeholder) ?? placeholder)
+
+  const rehydrate = <T>(value: T): T => {
+    if (typeof value === "string") {
+      return rehydrateString(value) as T
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => rehydrate(item)) as T
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rehydrate(item)])) as T
+    }
+    return value
+  }
+
+  // Counts distinct values actually replaced; known names that never appeared are not counted
+  const summary = (): RedactionSummary => {
+    const result: RedactionSummary = {}
+    for (const placeholder of used) {
+      const category = placeholder.slice(1, placeholder.lastIndexOf("_")).toLowerCase() as RedactionCategory
+      result[category] = (result[category] ?? 0) + 1
+    }
+    return result
+  }
+
+  return { redact, rehydrate, summary }
+}
+
+export function logRedactions(task: string, redactor: Redactor) {
+  const categories = redactor.summary()
+  if (Object.keys(categories).length > 0) {
+    console.info("[mindful-ai] Redacted personal details before LLM call", { task, categories })
+  }
+}
+
+// Reads the user's redaction preference and name; standard redaction is used when the profile can't be read
+export async function loadRedactionOptions(
+  supabase: SupabaseClient,
+  userId: string,
+  fallbackName?: string | null,
+): Promise<RedactionOptions> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("full_name, strict_redaction")
+    .eq("id", userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[mindful-ai] Failed to load redaction settings:", error)
+  }
+
+  const names = [data?.full_name, fallbackName].filter((name): name is string => typeof name === "string" && name.length > 0)
+  return {
+    level: data?.strict_redaction ? "strict" : "standard",
+    knownNames: names,
+  }
+}
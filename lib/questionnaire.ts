@@ -0,0 +1,289 @@
+// Declarative questionnaires: question definitions with types, branching conditions and
+// validation, answered with typed values instead of free text parsed after the fact.
+
+import {
+  ASSESSMENT_INSTRUMENTS,
+  severityLabel,
+  type AssessmentInstrumentId,
+  type SymptomRatings,
+} from "./assessments"
+
+export type QuestionType = "likert" | "multi-rating" | "yes-no" | "free-text" | "assessment"
+
+export type AnswerPrimitive = string | number | boolean
+
+// Compared against another question's primitive answer (likert, yes/no or free text)
+export interface QuestionCondition {
+  questionId: string
+  equals?: AnswerPrimitive
+  // Inclusive bounds for numeric answers
+  min?: number
+  max?: number
+}
+
+interface QuestionBase {
+  id: string
+  // Step title in the progress sidebar
+  title: string
+  prompt: string
+  placeholder?: string
+  // Defaults to true
+  required?: boolean
+  // Asked only when the condition holds; skipped otherwise
+  when?: QuestionCondition
+}
+
+export interface LikertQuestion extends QuestionBase {
+  type: "likert"
+  min: number
+  max: number
+  minLabel?: string
+  maxLabel?: string
+}
+
+export interface MultiRatingQuestion extends QuestionBase {
+  type: "multi-rating"
+  items: Array<{ id: string; label: string }>
+  min: number
+  max: number
+  minLabel?: string
+  maxLabel?: string
+}
+
+export interface FreeTextQuestion extends QuestionBase {
+  type: "free-text"
+  minLength?: number
+  maxLength?: number
+}
+
+// Asked alongside a yes/no question when its answer matches showWhen (default: yes)
+export type FollowUpQuestion = (FreeTextQuestion | LikertQuestion) & { showWhen?: boolean }
+
+export interface YesNoQuestion extends QuestionBase {
+  type: "yes-no"
+  followUps?: FollowUpQuestion[]
+}
+
+export interface AssessmentQuestion extends QuestionBase {
+  type: "assessment"
+  instruments: AssessmentInstrumentId[]
+}
+
+export type Question = LikertQuestion | MultiRatingQuestion | YesNoQuestion | FreeTextQuestion | AssessmentQuestion
+
+export interface Questionnaire {
+  id: string
+  // Bumped when questions change meaning, and stored with every answer
+  version: number
+  questions: Question[]
+}
+
+export type QuestionAnswer =
+  | { type: "likert"; value: number }
+  | { type: "multi-rating"; values: Record<string, number> }
+  | { type: "yes-no"; value: boolean; followUps?: Record<string, string | number> }
+  | { type: "free-text"; value: string }
+  | {
+      type: "assessment"
+      scores: Partial<Record<AssessmentInstrumentId, { total: number; severity: string }>>
+      symptomRatings: SymptomRatings
+    }
+
+export type QuestionnaireAnswers = Record<string, QuestionAnswer>
+
+const DEFAULT_MAX_TEXT_LENGTH = 2000
+
+export function findQuestion(questionnaire: Questionnaire, questionId: string): Question | undefined {
+  return questionnaire.questions.find((question) => question.id === questionId)
+}
+
+// The value branching conditions compare against; structured answers have none
+export function answerPrimitive(answer: QuestionAnswer | undefined): AnswerPrimitive | undefined {
+  if (answer?.type === "likert" || answer?.type === "yes-no" || answer?.type === "free-text") {
+    return answer.value
+  }
+  return undefined
+}
+
+export function isQuestionVisible(question: Question, answers: QuestionnaireAnswers): boolean {
+  const condition = question.when
+  if (!condition) {
+    return true
+  }
+
+  const value = answerPrimitive(answers[condition.questionId])
+  if (value === undefined) {
+    return false
+  }
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false
+  }
+  if (condition.min !== undefined && !(typeof value === "number" && value >= condition.min)) {
+    return false
+  }
+  if (condition.max !== undefined && !(typeof value === "number" && value <= condition.max)) {
+    return false
+  }
+  return true
+}
+
+export function visibleQuestions(questionnaire: Questionnaire, answers: QuestionnaireAnswers): Question[] {
+  return questionnaire.questions.filter((question) => isQuestionVisible(question, answers))
+}
+
+// Index of the next question to ask after fromIndex, or null once the questionnaire is done
+export function nextQuestionIndex(
+  questionnaire: Questionnaire,
+  answers: QuestionnaireAnswers,
+  fromIndex: number,
+): number | null {
+  for (let index = fromIndex + 1; index < questionnaire.questions.length; index += 1) {
+    if (isQuestionVisible(questionnaire.questions[index], answers)) {
+      return index
+    }
+  }
+  return null
+}
+
+export function activeFollowUps(question: YesNoQuestion, value: boolean | undefined): FollowUpQuestion[] {
+  if (value === undefined) {
+    return []
+  }
+  return (question.followUps ?? []).filter((followUp) => (followUp.showWhen ?? true) === value)
+}
+
+function validateRating(value: unknown, min: number, max: number): string | null {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    return `Choose a value from ${min} to ${max}`
+  }
+  return null
+}
+
+function validateText(question: FreeTextQuestion, value: unknown): string | null {
+  if (typeof value !== "string") {
+    return "Please enter a response"
+  }
+  const trimmed = value.trim()
+  if (trimmed.length < (question.minLength ?? 1)) {
+    return question.minLength ? `Please write at least ${question.minLength} characters` : "Please enter a response"
+  }
+  if (trimmed.length > (question.maxLength ?? DEFAULT_MAX_TEXT_LENGTH)) {
+    return `Please keep it under ${question.maxLength ?? DEFAULT_MAX_TEXT_LENGTH} characters`
+  }
+  return null
+}
+
+function validateFollowUp(followUp: FollowUpQuestion, value: string | number | undefined): string | null {
+  const isBlank = value === undefined || (typeof value === "string" && value.trim().length === 0)
+  if (isBlank) {
+    return followUp.required === false ? null : `${followUp.title}: please answer this question`
+  }
+  const error =
+    followUp.type === "likert" ? validateRating(value, followUp.min, followUp.max) : validateText(followUp, value)
+  return error ? `${followUp.title}: ${error.charAt(0).toLowerCase()}${error.slice(1)}` : null
+}
+
+/**
+ * Checks an answer against its question: the answer type must match, ratings must be whole
+ * numbers in range, and text must fit its length limits. Returns a message for the user, or
+ * null when the answer is acceptable.
+ */
+export function validateAnswer(question: Question, answer: QuestionAnswer | undefined): string | null {
+  if (!answer) {
+    return question.required === false ? null : "Please answer this question"
+  }
+  if (answer.type !== question.type) {
+    return "This answer doesn't match the question"
+  }
+
+  switch (question.type) {
+    case "likert":
+      return validateRating((answer as Extract<QuestionAnswer, { type: "likert" }>).value, question.min, question.max)
+    case "multi-rating": {
+      const { values } = answer as Extract<QuestionAnswer, { type: "multi-rating" }>
+      for (const item of question.items) {
+        if (validateRating(values[item.id], question.min, question.max)) {
+          return `Rate ${item.label} from ${question.min} to ${question.max}`
+        }
+      }
+      return null
+    }
+    case "yes-no": {
+      const { value, followUps = {} } = answer as Extract<QuestionAnswer, { type: "yes-no" }>
+      if (typeof value !== "boolean") {
+        return "Please answer yes or no"
+      }
+      for (const followUp of activeFollowUps(question, value)) {
+        const error = validateFollowUp(followUp, followUps[followUp.id])
+        if (error) {
+          return error
+        }
+      }
+      return null
+    }
+    case "free-text":
+      return validateText(question, (answer as Extract<QuestionAnswer, { type: "free-text" }>).value)
+    case "assessment": {
+      const { scores } = answer as Extract<QuestionAnswer, { type: "assessment" }>
+      const missing = question.instruments.find((instrument) => !scores[instrument])
+      return missing ? `Please complete the ${ASSESSMENT_INSTRUMENTS[missing].name}` : null
+    }
+  }
+}
+
+function formatRating(value: number, max: number): string {
+  return `${value}/${max}`
+}
+
+// The text shown in the conversation and stored as the response
+export function formatAnswer(question: Question, answer: QuestionAnswer): string {
+  switch (answer.type) {
+    case "likert":
+      return question.type === "likert" ? formatRating(answer.value, question.max) : String(answer.value)
+    case "multi-rating":
+      if (question.type !== "multi-rating") {
+        return Object.values(answer.values).join(", ")
+      }
+      return question.items
+        .map((item) => `${item.label}: ${formatRating(answer.values[item.id], question.max)}`)
+        .join(", ")
+    case "yes-no": {
+      const followUps = question.type === "yes-no" ? activeFollowUps(question, answer.value) : []
+      const details = followUps
+        .filter((followUp) => answer.followUps?.[followUp.id] !== undefined && answer.followUps[followUp.id] !== "")
+        .map((followUp) => `${followUp.title}: ${answer.followUps?.[followUp.id]}`)
+      return [answer.value ? "Yes" : "No", ...details].join("\n")
+    }
+    case "free-text":
+      return answer.value.trim()
+    case "assessment":
+      return (Object.keys(answer.scores) as AssessmentInstrumentId[])
+        .map((id) => {
+          const score = answer.scores[id]!
+          return `${ASSESSMENT_INSTRUMENTS[id].name}: ${score.total} (${severityLabel(id, score.severity)})`
+        })
+        .join(", ")
+  }
+}
+
+export interface AnswerError {
+  questionId: string
+  message: string
+}
+
+// Server-side check of submitted answers; entries without a typed answer are left alone
+export function findAnswerErrors(
+  questionnaire: Questionnaire,
+  entries: Array<{ questionId?: string; answer?: QuestionAnswer }>,
+): AnswerError[] {
+  const errors: AnswerError[] = []
+  for (const { questionId, answer } of entries) {
+    if (!questionId || !answer) continue
+    const question = findQuestion(questionnaire, questionId)
+    const message = question ? validateAnswer(question, answer) : "Unknown question"
+    if (message) {
+      errors.push({ questionId, message })
+    }
+  }
+  return errors
+}
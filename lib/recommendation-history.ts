@@ -0,0 +1,255 @@
+// Delivered recommendations per user, and the rotation rules built from them: an item isn't
+// repeated within the repeat window, and exercises vary their intervention type.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { EmpathyResponse } from "./empathy-agent"
+import type { InterventionType, ItemFeedbackValue, RecommendationItemKind } from "./recommendation-personalization"
+
+export const REPEAT_WINDOW_DAYS = 7
+// After this many exercises in a row of one intervention type, other types are preferred
+export const DIVERSITY_RUN = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HISTORY_LIMIT = 100
+const PROMPT_TITLE_LIMIT = 5
+const PAST_DELIVERY_LIMIT = 500
+
+export interface DeliveredRecommendation {
+  itemId: string
+  kind: RecommendationItemKind
+  title: string
+  actionType: InterventionType | null
+  deliveredAt: string
+}
+
+// A recommendation about to be recorded, with the payload shown so it can be revisited
+export interface RecommendationDelivery {
+  itemId: string
+  kind: RecommendationItemKind
+  title: string
+  actionType?: InterventionType
+  detectedMood?: string
+  payload: object
+  // Which code path delivered it, e.g. "empathy" or "music"
+  source: string
+}
+
+export interface RecommendationRotation {
+  // Item id -> 0..1: 1 when delivered just now, fading to 0 at the end of the repeat window
+  recentItems: Record<string, number>
+  // Exercise titles delivered within the window, most recent first
+  recentExercises: string[]
+  overusedActionTypes: InterventionType[]
+}
+
+// One entry per item for the history view, however often it was delivered
+export interface PastRecommendation {
+  itemId: string
+  kind: RecommendationItemKind
+  title: string
+  payload: Record<string, unknown>
+  detectedMood: string | null
+  lastDeliveredAt: string
+  timesDelivered: number
+  // The user's current rating of the item, if any
+  feedback: ItemFeedbackValue | null
+}
+
+export const NO_ROTATION: RecommendationRotation = { recentItems: {}, recentExercises: [], overusedActionTypes: [] }
+
+export function buildRecommendationRotation(
+  history: DeliveredRecommendation[],
+  now: Date = new Date(),
+  windowDays: number = REPEAT_WINDOW_DAYS,
+): RecommendationRotation {
+  const windowMs = windowDays * DAY_MS
+  const newestFirst = [...history].sort((a, b) => b.deliveredAt.localeCompare(a.deliveredAt))
+  const recentItems: Record<string, number> = {}
+  const recentExercises: string[] = []
+
+  for (const delivery of newestFirst) {
+    const age = now.getTime() - new Date(delivery.deliveredAt).getTime()
+    if (age >= windowMs || delivery.itemId in recentItems) continue
+    recentItems[delivery.itemId] = Math.round((1 - Math.max(0, age) / windowMs) * 100) / 100
+    if (delivery.kind === "exercise") recentExercises.push(delivery.title)
+  }
+
+  const lastTypes = newestFirst
+    .filter((delivery) => delivery.kind === "exercise")
+    .slice(0, DIVERSITY_RUN)
+    .map((delivery) => delivery.actionType)
+  const first = lastTypes[0]
+  const overused = first && lastTypes.length === DIVERSITY_RUN && lastTypes.every((type) => type === first) ? [first] : []
+
+  return { recentItems, recentExercises, overusedActionTypes: overused }
+}
+
+export function isRecentlyRecommended(rotation: RecommendationRotation | undefined, itemId: string): boolean {
+  return Boolean(rotation && itemId in rotation.recentItems)
+}
+
+// Prompt lines asking for something new; empty without recent history
+export function describeRotationForPrompt(rotation: RecommendationRotation | undefined): string[] {
+  if (!rotation) {
+    return []
+  }
+
+  const lines: string[] = []
+  if (rotation.recentExercises.length > 0) {
+    lines.push(`Recently suggested, avoid repeating: ${rotation.recentExercises.slice(0, PROMPT_TITLE_LIMIT).join("; ")}`)
+  }
+  if (rotation.overusedActionTypes.length > 0) {
+    lines.push(`Suggest a different intervention type than: ${rotation.overusedActionTypes.join(", ")}`)
+  }
+  return lines
+}
+
+// Crisis responses carry no item ids, so nothing is recorded for them
+export function empathyDeliveries(
+  response: Pick<EmpathyResponse, "detectedMood" | "itemIds" | "recommendation" | "quote" | "music" | "book" | "place">,
+): RecommendationDelivery[] {
+  const { itemIds, detectedMood } = response
+  const deliveries: RecommendationDelivery[] = []
+  const add = (delivery: Omit<RecommendationDelivery, "detectedMood" | "source">) =>
+    deliveries.push({ ...delivery, detectedMood, source: "empathy" })
+
+  if (itemIds.exercise) {
+    add({
+      itemId: itemIds.exercise,
+      kind: "exercise",
+      title: response.recommendation.title,
+      actionType: response.recommendation.actionType,
+      payload: response.recommendation,
+    })
+  }
+  if (itemIds.quote) {
+    add({ itemId: itemIds.quote, kind: "quote", title: response.quote.text, payload: response.quote })
+  }
+  if (itemIds.song && response.music) {
+    add({ itemId: itemIds.song, kind: "song", title: response.music.title, payload: response.music })
+  }
+  if (itemIds.book && response.book) {
+    add({ itemId: itemIds.book, kind: "book", title: response.book.title, payload: response.book })
+  }
+  if (itemIds.place && response.place) {
+    add({ itemId: itemIds.place, kind: "place", title: response.place.type, payload: response.place })
+  }
+  return deliveries
+}
+
+export async function loadRecommendationRotation(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<RecommendationRotation> {
+  const { data, error } = await supabase
+    .from("recommendation_history")
+    .select("item_id, item_kind, item_title, action_type, delivered_at")
+    .eq("user_id", userId)
+    .order("delivered_at", { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  if (error) {
+    console.error("[mindful-ai] Failed to load recommendation history:", error)
+    return NO_ROTATION
+  }
+
+  return buildRecommendationRotation(
+    (data ?? []).map((row) => ({
+      itemId: row.item_id,
+      kind: row.item_kind,
+      title: row.item_title,
+      actionType: row.action_type,
+      deliveredAt: row.delivered_at,
+    })),
+    now,
+  )
+}
+
+// Recording is best-effort: a failed write is logged and never fails the recommendation
+export async function recordRecommendations(
+  supabase: SupabaseClient,
+  userId: string,
+  deliveries: RecommendationDelivery[],
+): Promise<void> {
+  if (deliveries.length === 0) {
+    return
+  }
+
+  const { error } = await supabase.from("recommendation_history").insert(
+    deliveries.map((delivery) => ({
+      user_id: userId,
+      item_id: delivery.itemId,
+      item_kind: delivery.kind,
+      item_title: delivery.title,
+      action_type: delivery.actionType ?? null,
+      detected_mood: delivery.detectedMood ?? null,
+      payload: delivery.payload,
+      source: delivery.source,
+    })),
+  )
+
+  if (error) {
+    console.error("[mindful-ai] Failed to record recommendations:", error)
+  }
+}
+
+interface HistoryRow {
+  item_id: string
+  item_kind: RecommendationItemKind
+  item_title: string
+  payload: Record<string, unknown> | null
+  detected_mood: string | null
+  delivered_at: string
+}
+
+// Rows arrive newest first, so the first row per item carries the payload last shown
+export function summarizePastRecommendations(
+  rows: HistoryRow[],
+  feedback: Record<string, ItemFeedbackValue>,
+): PastRecommendation[] {
+  const byItem = new Map<string, PastRecommendation>()
+  for (const row of rows) {
+    const existing = byItem.get(row.item_id)
+    if (existing) {
+      existing.timesDelivered += 1
+      continue
+    }
+    byItem.set(row.item_id, {
+      itemId: row.item_id,
+      kind: row.item_kind,
+      title: row.item_title,
+      payload: row.payload ?? {},
+      detectedMood: row.detected_mood,
+      lastDeliveredAt: row.delivered_at,
+      timesDelivered: 1,
+      feedback: feedback[row.item_id] ?? null,
+    })
+  }
+  return Array.from(byItem.values())
+}
+
+export async function loadPastRecommendations(supabase: SupabaseClient, userId: string): Promise<PastRecommendation[]> {
+  const { data, error } = await supabase
+    .from("recommendation_history")
+    .select("item_id, item_kind, item_title, payload, detected_mood, delivered_at")
+    .eq("user_id", userId)
+    .order("delivered_at", { ascending: false })
+    .limit(PAST_DELIVERY_LIMIT)
+
+  if (error) {
+    throw error
+  }
+
+  const { data: votes, error: feedbackError } = await supabase
+    .from("recommendation_feedback")
+    .select("item_id, feedback")
+    .eq("user_id", userId)
+
+  if (feedbackError) {
+    throw feedbackError
+  }
+
+  const feedback = Object.fromEntries((votes ?? []).map((vote) => [vote.item_id, vote.feedback]))
+  return summarizePastRecommendations((data ?? []) as HistoryRow[], feedback)
+}
@@ -0,0 +1,190 @@
+// Per-user personalization from item-level feedback: items a user rated unhelpful sink to the
+// bottom of their candidate pool, and intervention types that helped before are preferred.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { RecommendationRotation } from "./recommendation-history"
+
+export const RECOMMENDATION_ITEM_KINDS = ["exercise", "quote", "song", "book", "place"] as const
+export const INTERVENTION_TYPES = ["breathing", "journal", "timer", "contact"] as const
+
+export type RecommendationItemKind = (typeof RECOMMENDATION_ITEM_KINDS)[number]
+export type InterventionType = (typeof INTERVENTION_TYPES)[number]
+export type ItemFeedbackValue = "helpful" | "not_helpful"
+
+export interface ItemFeedbackRecord {
+  itemId: string
+  kind: RecommendationItemKind
+  title: string
+  // Only exercises carry an intervention type
+  actionType: InterventionType | null
+  feedback: ItemFeedbackValue
+  updatedAt: string
+}
+
+export interface RecommendationPreferences {
+  helpfulItems: string[]
+  unhelpfulItems: string[]
+  // Titles of exercises rated unhelpful, so the LLM can be told not to suggest them again
+  unhelpfulExercises: string[]
+  // -1 (never helped) to 1 (always helped); 0 without history
+  interventionScores: Record<InterventionType, number>
+}
+
+export interface RankableItem {
+  id: string
+  actionType?: InterventionType
+}
+
+// Pseudo-ratings added to each intervention type so one vote doesn't swing it fully
+const INTERVENTION_PRIOR = 2
+const UNHELPFUL_PENALTY = 2
+const HELPFUL_BONUS = 0.5
+const INTERVENTION_WEIGHT = 0.5
+// A recently delivered item costs this plus its 0..1 freshness, so the oldest repeat goes first
+const REPEAT_PENALTY = 1
+const DIVERSITY_PENALTY = 0.5
+// Each step away from the first candidate (the mood's own item) costs this much
+const POSITION_PENALTY = 0.1
+const FEEDBACK_LIMIT = 200
+
+export const NEUTRAL_PREFERENCES: RecommendationPreferences = {
+  helpfulItems: [],
+  unhelpfulItems: [],
+  unhelpfulExercises: [],
+  interventionScores: { breathing: 0, journal: 0, timer: 0, contact: 0 },
+}
+
+// Stable identity for a recommended item, e.g. "book:feeling-good-the-new-mood-therapy"
+export function recommendationItemId(kind: RecommendationItemKind, name: string): string {
+  const slug = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/, "")
+  return `${kind}:${slug}`
+}
+
+// Quotes and songs are identified by creator and title together, other kinds by title alone
+export function contentItemId(kind: RecommendationItemKind, title: string, creator?: string): string {
+  return recommendationItemId(kind, (kind === "quote" || kind === "song") && creator ? `${creator} ${title}` : title)
+}
+
+// Only the latest vote per item counts, so a user can change their mind
+export function buildRecommendationPreferences(records: ItemFeedbackRecord[]): RecommendationPreferences {
+  const latest = new Map<string, ItemFeedbackRecord>()
+  for (const record of records) {
+    const existing = latest.get(record.itemId)
+    if (!existing || record.updatedAt > existing.updatedAt) {
+      latest.set(record.itemId, record)
+    }
+  }
+
+  const votes = Array.from(latest.values())
+  const tallies = Object.fromEntries(INTERVENTION_TYPES.map((type) => [type, { helpful: 0, unhelpful: 0 }])) as Record<
+    InterventionType,
+    { helpful: number; unhelpful: number }
+  >
+  for (const vote of votes) {
+    if (vote.kind !== "exercise" || !vote.actionType) continue
+    tallies[vote.actionType][vote.feedback === "helpful" ? "helpful" : "unhelpful"] += 1
+  }
+
+  return {
+    helpfulItems: votes.filter((vote) => vote.feedback === "helpful").map((vote) => vote.itemId),
+    unhelpfulItems: votes.filter((vote) => vote.feedback === "not_helpful").map((vote) => vote.itemId),
+    unhelpfulExercises: votes
+      .filter((vote) => vote.kind === "exercise" && vote.feedback === "not_helpful")
+      .map((vote) => vote.title),
+    interventionScores: Object.fromEntries(
+      INTERVENTION_TYPES.map((type) => {
+        const { helpful, unhelpful } = tallies[type]
+        return [type, Math.round(((helpful - unhelpful) / (helpful + unhelpful + INTERVENTION_PRIOR)) * 100) / 100]
+      }),
+    ) as Record<InterventionType, number>,
+  }
+}
+
+export function isUnhelpfulItem(preferences: RecommendationPreferences | undefined, itemId: string): boolean {
+  return Boolean(preferences?.unhelpfulItems.includes(itemId))
+}
+
+/**
+ * Orders candidates by how well they fit the user's history. Candidates arrive in relevance
+ * order (the mood's own item first), and without any feedback or rotation that order is kept.
+ */
+export function rankCandidates<T extends RankableItem>(
+  candidates: T[],
+  preferences: RecommendationPreferences | undefined,
+  rotation?: RecommendationRotation,
+): T[] {
+  if (!preferences && !rotation) {
+    return candidates
+  }
+
+  const feedback = preferences ?? NEUTRAL_PREFERENCES
+  const scored = candidates.map((candidate, index) => {
+    let score = -index * POSITION_PENALTY
+    if (feedback.unhelpfulItems.includes(candidate.id)) score -= UNHELPFUL_PENALTY
+    if (feedback.helpfulItems.includes(candidate.id)) score += HELPFUL_BONUS
+    if (candidate.actionType) score += feedback.interventionScores[candidate.actionType] * INTERVENTION_WEIGHT
+
+    const freshness = rotation?.recentItems[candidate.id]
+    if (freshness !== undefined) score -= REPEAT_PENALTY + freshness
+    if (candidate.actionType && rotation?.overusedActionTypes.includes(candidate.actionType)) score -= DIVERSITY_PENALTY
+    return { candidate, score, index }
+  })
+
+  return scored.sort((a, b) => b.score - a.score || a.index - b.index).map(({ candidate }) => candidate)
+}
+
+// Prompt lines describing what has and hasn't worked; empty when there is nothing to say
+export function describePreferencesForPrompt(preferences: RecommendationPreferences | undefined): string[] {
+  if (!preferences) {
+    return []
+  }
+
+  const lines: string[] = []
+  const preferred = INTERVENTION_TYPES.filter((type) => preferences.interventionScores[type] > 0)
+  const avoided = INTERVENTION_TYPES.filter((type) => preferences.interventionScores[type] < 0)
+  if (preferred.length > 0) {
+    lines.push(`Intervention types that helped before: ${preferred.join(", ")}`)
+  }
+  if (avoided.length > 0) {
+    lines.push(`Intervention types rated unhelpful: ${avoided.join(", ")}`)
+  }
+  if (preferences.unhelpfulExercises.length > 0) {
+    lines.push(`Do not suggest again: ${preferences.unhelpfulExercises.slice(0, 5).join("; ")}`)
+  }
+  return lines
+}
+
+export async function loadRecommendationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<RecommendationPreferences> {
+  const { data, error } = await supabase
+    .from("recommendation_feedback")
+    .select("item_id, item_kind, item_title, action_type, feedback, updated_at")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .limit(FEEDBACK_LIMIT)
+
+  if (error) {
+    console.error("[mindful-ai] Failed to load recommendation feedback:", error)
+    return NEUTRAL_PREFERENCES
+  }
+
+  return buildRecommendationPreferences(
+    (data ?? []).map((row) => ({
+      itemId: row.item_id,
+      kind: row.item_kind,
+      title: row.item_title,
+      actionType: row.action_type,
+      feedback: row.feedback,
+      updatedAt: row.updated_at,
+    })),
+  )
+}
@@ -0,0 +1,337 @@
+// Single music, book, quote and place recommendations: the *-recommendation routes and the command
+// palette both go through recommendResource, so both get rotation and are recorded in the history.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  loadContentLibrary,
+  selectContent,
+  toBook,
+  toPlace,
+  toQuote,
+  toSong,
+  type BookRecommendation,
+  type PlaceRecommendation,
+  type QuoteRecommendation,
+  type SongRecommendation,
+} from "./content-library"
+import { normalizeEmotionLabel, toLegacyMood, type EmotionLabel } from "./emotion-model"
+import {
+  isRecentlyRecommended,
+  loadRecommendationRotation,
+  recordRecommendations,
+  type RecommendationDelivery,
+  type RecommendationRotation,
+} from "./recommendation-history"
+import { contentItemId } from "./recommendation-personalization"
+
+export interface ResourceRecommendations {
+  music: SongRecommendation
+  book: BookRecommendation
+  quote: QuoteRecommendation
+  place: PlaceRecommendation
+}
+
+export type ResourceType = keyof ResourceRecommendations
+
+export interface ResourceRequest {
+  detectedMood?: string
+  latitude?: number
+  longitude?: number
+}
+
+export interface ResourceContext {
+  // Reads the content catalogue; with a user id it also reads and records their history
+  supabase: SupabaseClient | null
+  userId?: string | null
+}
+
+interface ResourceLookup {
+  label: EmotionLabel
+  // Spotify features, book subjects and quote tags are keyed by the legacy moods
+  legacyMood: string
+  rotation?: RecommendationRotation
+  request: ResourceRequest
+  supabase: SupabaseClient | null
+}
+
+interface SpotifyTrack {
+  name: string
+  artists: Array<{ name: string }>
+  external_urls: { spotify: string }
+}
+
+interface OpenLibraryDoc {
+  cover_i?: number
+  author_name?: string[]
+  ratings_average?: number
+  title: string
+}
+
+interface QuotableQuote {
+  content: string
+  author: string
+}
+
+interface FoursquarePlace {
+  name?: string
+  location?: {
+    formatted_address?: string
+    lat?: number
+    lng?: number
+  }
+}
+
+const MOOD_FEATURES: Record<string, { valence: number; energy: number; tempo: { min: number; max: number } }> = {
+  anxious: { valence: 0.3, energy: 0.35, tempo: { min: 60, max: 80 } },
+  happy: { valence: 0.85, energy: 0.75, tempo: { min: 120, max: 140 } },
+  sad: { valence: 0.2, energy: 0.3, tempo: { min: 50, max: 75 } },
+  tired: { valence: 0.45, energy: 0.2, tempo: { min: 60, max: 90 } },
+  stressed: { valence: 0.4, energy: 0.4, tempo: { min: 70, max: 100 } },
+  excited: { valence: 0.9, energy: 0.85, tempo: { min: 130, max: 160 } },
+}
+
+const MOOD_SUBJECTS: Record<string, string[]> = {
+  anxious: ["anxiety", "mindfulness", "cognitive behavioral therapy"],
+  happy: ["joy", "gratitude", "positive psychology"],
+  sad: ["depression", "resilience", "healing"],
+  tired: ["rest", "sleep", "burnout recovery"],
+  stressed: ["stress relief", "meditation", "mental health"],
+  excited: ["motivation", "creativity", "personal growth"],
+}
+
+const MOOD_TAGS: Record<string, string> = {
+  anxious: "courage|wisdom|peace",
+  happy: "happiness|success|life",
+  sad: "adversity|healing|hope",
+  tired: "self|rest|patience",
+  stressed: "wisdom|peace|perseverance",
+  excited: "inspirational|success|opportunity",
+}
+
+async function findSong({ label, legacyMood, rotation, supabase }: ResourceLookup): Promise<SongRecommendation> {
+  const features = MOOD_FEATURES[legacyMood] || MOOD_FEATURES.anxious
+
+  try {
+    const tokenResponse = await fetch("https://accounts.spotify.com/api/token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${Buffer.from(`${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`).toString("base64")}`,
+      },
+      body: "grant_type=client_credentials",
+    })
+
+    if (!tokenResponse.ok) {
+      throw new Error("Failed to get Spotify token")
+    }
+
+    const { access_token } = await tokenResponse.json()
+
+    const recommendationsUrl = `https://api.spotify.com/v1/recommendations?limit=5&seed_genres=ambient,classical,acoustic&target_valence=${features.valence}&target_energy=${features.energy}&min_tempo=${features.tempo.min}&max_tempo=${features.tempo.max}`
+
+    const musicResponse = await fetch(recommendationsUrl, {
+      headers: { Authorization: `Bearer ${access_token}` },
+    })
+
+    if (!musicResponse.ok) {
+      throw new Error("Failed to get music recommendations")
+    }
+
+    const data = (await musicResponse.json()) as { tracks?: SpotifyTrack[] }
+    const tracks = data.tracks ?? []
+    const isFresh = (candidate: SpotifyTrack) =>
+      !isRecentlyRecommended(rotation, contentItemId("song", candidate.name, candidate.artists[0]?.name))
+    const track = tracks.find(isFresh) ?? tracks[0]
+
+    if (!track) {
+      throw new Error("No tracks found")
+    }
+
+    return {
+      title: track.name,
+      artist: track.artists[0].name,
+      reason: `Selected for its ${features.valence > 0.6 ? "uplifting" : "calming"} qualities to match your mood`,
+      spotifyUrl: track.external_urls.spotify,
+      appleMusicUrl: `https://music.apple.com/search?term=${encodeURIComponent(`${track.name} ${track.artists[0].name}`)}`,
+    }
+  } catch (error) {
+    console.error("[v0] Music recommendation error:", error)
+
+    const library = await loadContentLibrary(supabase)
+    return toSong(selectContent(library, "song", label, { rotation }))
+  }
+}
+
+async function findBook({ label, legacyMood, rotation, supabase }: ResourceLookup): Promise<BookRecommendation> {
+  try {
+    const subjects = MOOD_SUBJECTS[legacyMood] || MOOD_SUBJECTS.anxious
+    const randomSubject = subjects[Math.floor(Math.random() * subjects.length)]
+
+    const response = await fetch(
+      `https://openlibrary.org/search.json?subject=${encodeURIComponent(randomSubject)}&limit=20&sort=rating`,
+      { next: { revalidate: 3600 } },
+    )
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch books")
+    }
+
+    const data = (await response.json()) as { docs: OpenLibraryDoc[] }
+
+    // Quality books with covers and good ratings
+    const qualityBooks = data.docs.filter(
+      (book) =>
+        Boolean(book.cover_i && book.author_name?.length && book.ratings_average && book.ratings_average >= 3.8) &&
+        !isRecentlyRecommended(rotation, contentItemId("book", book.title)),
+    )
+
+    if (qualityBooks.length === 0) {
+      throw new Error("No quality books found")
+    }
+
+    const book = qualityBooks[Math.floor(Math.random() * Math.min(5, qualityBooks.length))]
+
+    return {
+      title: book.title,
+      author: book.author_name![0],
+      relevance: `Recommended for ${randomSubject} - rated ${book.ratings_average!.toFixed(1)}/5`,
+      amazonUrl: `https://www.amazon.com/s?k=${encodeURIComponent(book.title)}`,
+      coverUrl: `https://covers.openlibrary.org/b/id/${book.cover_i}-M.jpg`,
+    }
+  } catch (error) {
+    console.error("[v0] Book recommendation error:", error)
+
+    const library = await loadContentLibrary(supabase)
+    return toBook(selectContent(library, "book", label, { rotation }))
+  }
+}
+
+async function findQuote({ label, legacyMood, rotation, supabase }: ResourceLookup): Promise<QuoteRecommendation> {
+  try {
+    const tags = MOOD_TAGS[legacyMood] || MOOD_TAGS.anxious
+
+    const response = await fetch(`https://api.quotable.io/quotes/random?tags=${tags}&maxLength=150&limit=5`, {
+      next: { revalidate: 3600 },
+    })
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch quote")
+    }
+
+    const data = (await response.json()) as QuotableQuote[]
+    const isFresh = (candidate: QuotableQuote) =>
+      !isRecentlyRecommended(rotation, contentItemId("quote", candidate.content, candidate.author))
+    const quote = data.find(isFresh) ?? data[0]
+
+    if (!quote) {
+      throw new Error("No quote found")
+    }
+
+    return { text: quote.content, author: quote.author }
+  } catch (error) {
+    console.error("[v0] Quote recommendation error:", error)
+
+    const library = await loadContentLibrary(supabase)
+    return toQuote(selectContent(library, "quote", label, { rotation }))
+  }
+}
+
+async function findPlace({ label, rotation, request, supabase }: ResourceLookup): Promise<PlaceRecommendation> {
+  const library = await loadContentLibrary(supabase)
+  const placeItem = selectContent(library, "place", label, { rotation })
+  const placeData = toPlace(placeItem)
+  const categories = placeItem.details?.foursquareCategories
+  const { latitude, longitude } = request
+
+  try {
+    // With coordinates, look for a real place of the catalogue item's kind nearby
+    if (latitude && longitude && categories && process.env.FOURSQUARE_API_KEY) {
+      const response = await fetch(
+        `https://api.foursquare.com/v3/places/search?categories=${categories}&ll=${latitude},${longitude}&radius=5000&limit=5&sort=POPULARITY`,
+        {
+          headers: {
+            Authorization: process.env.FOURSQUARE_API_KEY,
+            Accept: "application/json",
+          },
+        },
+      )
+
+      if (response.ok) {
+        const data = (await response.json()) as { results?: FoursquarePlace[] }
+        if (data.results && data.results.length > 0) {
+          const isFresh = (candidate: FoursquarePlace) =>
+            !candidate.name || !isRecentlyRecommended(rotation, contentItemId("place", candidate.name))
+          const place = data.results.find(isFresh) ?? data.results[0]
+          return {
+            type: place.name || placeData.type,
+            reason: placeData.reason,
+            benefits: placeData.benefits,
+            address: place.location?.formatted_address,
+            coordinates:
+              place.location?.lat && place.location?.lng
+                ? { lat: place.location.lat, lng: place.location.lng }
+                : undefined,
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error("[v0] Place recommendation error:", error)
+  }
+
+  return placeData
+}
+
+const FINDERS: { [Type in ResourceType]: (lookup: ResourceLookup) => Promise<ResourceRecommendations[Type]> } = {
+  music: findSong,
+  book: findBook,
+  quote: findQuote,
+  place: findPlace,
+}
+
+function toDelivery<Type extends ResourceType>(
+  type: Type,
+  resource: ResourceRecommendations[Type],
+  detectedMood: EmotionLabel | null,
+): RecommendationDelivery {
+  const base = { detectedMood: detectedMood ?? undefined, payload: resource, source: type }
+  switch (type) {
+    case "music": {
+      const song = resource as SongRecommendation
+      return { ...base, itemId: contentItemId("song", song.title, song.artist), kind: "song", title: song.title }
+    }
+    case "book": {
+      const book = resource as BookRecommendation
+      return { ...base, itemId: contentItemId("book", book.title), kind: "book", title: book.title }
+    }
+    case "quote": {
+      const quote = resource as QuoteRecommendation
+      return { ...base, itemId: contentItemId("quote", quote.text, quote.author), kind: "quote", title: quote.text }
+    }
+    default: {
+      const place = resource as PlaceRecommendation
+      return { ...base, itemId: contentItemId("place", place.type), kind: "place", title: place.type }
+    }
+  }
+}
+
+/**
+ * Picks one resource for the detected mood, passing over items delivered to the user within the
+ * repeat window, and records what was picked. Without a user id neither step applies.
+ */
+export async function recommendResource<Type extends ResourceType>(
+  type: Type,
+  request: ResourceRequest,
+  { supabase, userId }: ResourceContext,
+): Promise<ResourceRecommendations[Type]> {
+  const detectedLabel = normalizeEmotionLabel(request.detectedMood)
+  const label = detectedLabel ?? "anxious"
+  const rotation = supabase && userId ? await loadRecommendationRotation(supabase, userId) : undefined
+
+  const resource = await FINDERS[type]({ label, legacyMood: toLegacyMood(label), rotation, request, supabase })
+
+  if (supabase && userId) {
+    await recordRecommendations(supabase, userId, [toDelivery(type, resource, detectedLabel)])
+  }
+  return resource
+}
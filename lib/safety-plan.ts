@@ -0,0 +1,246 @@
+// Stanley-Brown safety plan: the steps someone works through, in order, when a crisis builds.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { SymptomRatings } from "./assessments"
+import type { CrisisSupport } from "./crisis-safety"
+
+export interface SafetyPlanContact {
+  name: string
+  phone?: string
+}
+
+export interface SafetyPlan {
+  warningSigns: string[]
+  copingStrategies: string[]
+  distractions: SafetyPlanContact[]
+  supportContacts: SafetyPlanContact[]
+  professionalContacts: SafetyPlanContact[]
+  environmentSafety: string[]
+  reasonsForLiving: string[]
+  updatedAt?: string
+}
+
+export type SafetyPlanSectionId = Exclude<keyof SafetyPlan, "updatedAt">
+
+export interface SafetyPlanSection {
+  id: SafetyPlanSectionId
+  step: number
+  title: string
+  prompt: string
+  // Contact sections list people or places with an optional phone number
+  kind: "text" | "contact"
+}
+
+export const SAFETY_PLAN_SECTIONS: SafetyPlanSection[] = [
+  {
+    id: "warningSigns",
+    step: 1,
+    title: "Warning signs",
+    prompt: "Thoughts, images, moods, situations or behaviours that tell you a crisis may be developing.",
+    kind: "text",
+  },
+  {
+    id: "copingStrategies",
+    step: 2,
+    title: "Internal coping strategies",
+    prompt: "Things you can do on your own to take your mind off problems, without contacting anyone.",
+    kind: "text",
+  },
+  {
+    id: "distractions",
+    step: 3,
+    title: "People and places for distraction",
+    prompt: "People and social settings that help take your mind off things.",
+    kind: "contact",
+  },
+  {
+    id: "supportContacts",
+    step: 4,
+    title: "People I can ask for help",
+    prompt: "People you can reach out to when you need support.",
+    kind: "contact",
+  },
+  {
+    id: "professionalContacts",
+    step: 5,
+    title: "Professionals and crisis lines",
+    prompt: "Clinicians, services and crisis lines you can contact during a crisis.",
+    kind: "contact",
+  },
+  {
+    id: "environmentSafety",
+    step: 6,
+    title: "Making the environment safe",
+    prompt: "Steps to keep yourself away from anything you could use to hurt yourself.",
+    kind: "text",
+  },
+  {
+    id: "reasonsForLiving",
+    step: 7,
+    title: "Reasons for living",
+    prompt: "The things most important to you and worth living for.",
+    kind: "text",
+  },
+]
+
+// Per-symptom rating (0-5) that counts as elevated distress
+export const ELEVATED_DISTRESS_RATING = 4
+
+interface SafetyPlanRow {
+  warning_signs: string[] | null
+  coping_strategies: string[] | null
+  distractions: SafetyPlanContact[] | null
+  support_contacts: SafetyPlanContact[] | null
+  professional_contacts: SafetyPlanContact[] | null
+  environment_safety: string[] | null
+  reasons_for_living: string[] | null
+  updated_at: string | null
+}
+
+const SAFETY_PLAN_COLUMNS =
+  "warning_signs, coping_strategies, distractions, support_contacts, professional_contacts, environment_safety, reasons_for_living, updated_at"
+
+export function emptySafetyPlan(): SafetyPlan {
+  return {
+    warningSigns: [],
+    copingStrategies: [],
+    distractions: [],
+    supportContacts: [],
+    professionalContacts: [],
+    environmentSafety: [],
+    reasonsForLiving: [],
+  }
+}
+
+function cleanItems(items: string[]): string[] {
+  return items.map((item) => item.trim()).filter(Boolean)
+}
+
+function cleanContacts(contacts: SafetyPlanContact[]): SafetyPlanContact[] {
+  return contacts.flatMap((contact) => {
+    const name = contact.name.trim()
+    const phone = contact.phone?.trim()
+    return name ? [phone ? { name, phone } : { name }] : []
+  })
+}
+
+// Drops blank entries left over from the editor
+export function normalizeSafetyPlan(plan: SafetyPlan): SafetyPlan {
+  return {
+    warningSigns: cleanItems(plan.warningSigns),
+    copingStrategies: cleanItems(plan.copingStrategies),
+    distractions: cleanContacts(plan.distractions),
+    supportContacts: cleanContacts(plan.supportContacts),
+    professionalContacts: cleanContacts(plan.professionalContacts),
+    environmentSafety: cleanItems(plan.environmentSafety),
+    reasonsForLiving: cleanItems(plan.reasonsForLiving),
+    ...(plan.updatedAt ? { updatedAt: plan.updatedAt } : {}),
+  }
+}
+
+export function isSafetyPlanEmpty(plan: SafetyPlan | null | undefined): boolean {
+  return !plan || SAFETY_PLAN_SECTIONS.every((section) => plan[section.id].length === 0)
+}
+
+// Any suicidal ideation, or one symptom at the top of its scale, is reason to offer a safety plan
+export function suggestsSafetyPlan(ratings: SymptomRatings | undefined): boolean {
+  if (!ratings) {
+    return false
+  }
+  if ((ratings.suicideTrends ?? 0) > 0) {
+    return true
+  }
+  return [ratings.anxiety, ratings.sadness, ratings.stress, ratings.loneliness].some(
+    (rating) => (rating ?? 0) >= ELEVATED_DISTRESS_RATING,
+  )
+}
+
+function formatContact(contact: SafetyPlanContact): string {
+  return contact.phone ? `${contact.name} - ${contact.phone}` : contact.name
+}
+
+/**
+ * Plain-text copy of the plan for downloading or printing. Crisis lines for the user's region
+ * are appended to step 5 so the exported plan is useful even before it has been filled in.
+ */
+export function formatSafetyPlanText(plan: SafetyPlan, support?: CrisisSupport): string {
+  const lines = ["MY SAFETY PLAN", ""]
+
+  for (const section of SAFETY_PLAN_SECTIONS) {
+    lines.push(`Step ${section.step}: ${section.title}`)
+    const entries =
+      section.kind === "contact"
+        ? (plan[section.id] as SafetyPlanContact[]).map(formatContact)
+        : [...(plan[section.id] as string[])]
+    if (section.id === "professionalContacts" && support) {
+      entries.push(
+        `Emergency services - ${support.emergencyNumber}`,
+        ...support.resources.map((resource) =>
+          resource.phone ? `${resource.name} - ${resource.phone}` : `${resource.name} - ${resource.url}`,
+        ),
+      )
+    }
+    lines.push(...(entries.length > 0 ? entries.map((entry) => `- ${entry}`) : ["- (not filled in yet)"]), "")
+  }
+
+  if (plan.updatedAt) {
+    lines.push(`Last updated ${plan.updatedAt.slice(0, 10)}`)
+  }
+
+  return lines.join("\n").trimEnd() + "\n"
+}
+
+function toSafetyPlan(row: SafetyPlanRow): SafetyPlan {
+  return {
+    warningSigns: row.warning_signs ?? [],
+    copingStrategies: row.coping_strategies ?? [],
+    distractions: row.distractions ?? [],
+    supportContacts: row.support_contacts ?? [],
+    professionalContacts: row.professional_contacts ?? [],
+    environmentSafety: row.environment_safety ?? [],
+    reasonsForLiving: row.reasons_for_living ?? [],
+    ...(row.updated_at ? { updatedAt: row.updated_at } : {}),
+  }
+}
+
+export async function loadSafetyPlan(supabase: SupabaseClient, userId: string): Promise<SafetyPlan | null> {
+  const { data, error } = await supabase
+    .from("safety_plans")
+    .select(SAFETY_PLAN_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? toSafetyPlan(data as SafetyPlanRow) : null
+}
+
+export async function saveSafetyPlan(supabase: SupabaseClient, userId: string, plan: SafetyPlan): Promise<SafetyPlan> {
+  const normalized = normalizeSafetyPlan(plan)
+  const { data, error } = await supabase
+    .from("safety_plans")
+    .upsert(
+      {
+        user_id: userId,
+        warning_signs: normalized.warningSigns,
+        coping_strategies: normalized.copingStrategies,
+        distractions: normalized.distractions,
+        support_contacts: normalized.supportContacts,
+        professional_contacts: normalized.professionalContacts,
+        environment_safety: normalized.environmentSafety,
+        reasons_for_living: normalized.reasonsForLiving,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    )
+    .select(SAFETY_PLAN_COLUMNS)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return toSafetyPlan(data as SafetyPlanRow)
+}
@@ -0,0 +1,277 @@
+// Computes who is due for a daily reminder or weekly summary and delivers each exactly once
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { WeeklyReport } from "../types/wellness"
+import type { DeliveryAdapter, DeliveryChannel, DeliveryKind, DeliveryMessage } from "./delivery-adapters"
+import { getLocalTime } from "./timezone"
+import { loadWeeklyReport, renderWeeklyReportHtml, renderWeeklyReportText, shiftDate } from "./weekly-report"
+
+export { getLocalTime, type LocalTime } from "./timezone"
+
+export const DEFAULT_REMINDER_TIME = "09:00"
+// Weekly summaries go out on Monday, at the user's reminder time
+export const WEEKLY_SUMMARY_WEEKDAY = 1
+
+const PROFILE_PAGE_SIZE = 1000
+const QUERY_CHUNK_SIZE = 200
+
+export interface SchedulerProfile {
+  id: string
+  email: string | null
+  timezone: string | null
+  daily_reminder: boolean | null
+  weekly_summary: boolean | null
+  reminder_time: string | null
+  notify_email: boolean | null
+  notify_push: boolean | null
+  notify_sms: boolean | null
+}
+
+export interface DueDelivery {
+  userId: string
+  email: string | null
+  kind: DeliveryKind
+  channel: DeliveryChannel
+  periodKey: string
+  localDate: string
+  timeZone: string
+}
+
+export interface SchedulerRunResult {
+  due: number
+  sent: number
+  skipped: number
+  failed: number
+}
+
+function normalizeReminderTime(value: string | null): string {
+  return value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value) ? value : DEFAULT_REMINDER_TIME
+}
+
+function enabledChannels(profile: SchedulerProfile): DeliveryChannel[] {
+  const channels: DeliveryChannel[] = []
+  if (profile.notify_email !== false) channels.push("email")
+  if (profile.notify_push) channels.push("push")
+  if (profile.notify_sms) channels.push("sms")
+  return channels
+}
+
+/**
+ * Pure due-ness check. A delivery becomes due once the user's local clock has
+ * passed their reminder time; the period key (local date) makes it idempotent.
+ */
+export function computeDueDeliveries(profiles: SchedulerProfile[], now: Date): DueDelivery[] {
+  const due: DueDelivery[] = []
+
+  for (const profile of profiles) {
+    const channels = enabledChannels(profile)
+    if (channels.length === 0) {
+      continue
+    }
+
+    const local = getLocalTime(now, profile.timezone)
+    if (local.time < normalizeReminderTime(profile.reminder_time)) {
+      continue
+    }
+
+    const kinds: DeliveryKind[] = []
+    if (profile.daily_reminder !== false) {
+      kinds.push("daily_reminder")
+    }
+    if (profile.weekly_summary !== false && local.weekday === WEEKLY_SUMMARY_WEEKDAY) {
+      kinds.push("weekly_summary")
+    }
+
+    for (const kind of kinds) {
+      for (const channel of channels) {
+        due.push({
+          userId: profile.id,
+          email: profile.email,
+          kind,
+          channel,
+          periodKey: local.date,
+          localDate: local.date,
+          timeZone: local.timeZone,
+        })
+      }
+    }
+  }
+
+  return due
+}
+
+export function buildDeliveryMessage(delivery: DueDelivery, appUrl: string, report?: WeeklyReport): DeliveryMessage {
+  const base = appUrl.replace(/\/$/, "")
+
+  if (delivery.kind === "weekly_summary") {
+    return {
+      userId: delivery.userId,
+      kind: delivery.kind,
+      channel: delivery.channel,
+      to: delivery.channel === "email" ? delivery.email : null,
+      subject: "Your weekly wellness summary",
+      text: report
+        ? renderWeeklyReportText(report, appUrl)
+        : `Your week in review is ready. See your mood trends, triggers and goal progress: ${base}/this-week`,
+      html: report && delivery.channel === "email" ? renderWeeklyReportHtml(report, appUrl) : undefined,
+    }
+  }
+
+  return {
+    userId: delivery.userId,
+    kind: delivery.kind,
+    channel: delivery.channel,
+    to: delivery.channel === "email" ? delivery.email : null,
+    subject: "Time for your daily check-in",
+    text: `Take a minute to check in with yourself today: ${base}/onboarding`,
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size))
+  }
+  return chunks
+}
+
+async function loadSchedulableProfiles(supabase: SupabaseClient): Promise<SchedulerProfile[]> {
+  const profiles: SchedulerProfile[] = []
+
+  for (let from = 0; ; from += PROFILE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select(
+        "id, email, timezone, daily_reminder, weekly_summary, reminder_time, notify_email, notify_push, notify_sms",
+      )
+      .or("daily_reminder.eq.true,weekly_summary.eq.true")
+      .order("id", { ascending: true })
+      .range(from, from + PROFILE_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    profiles.push(...((data ?? []) as SchedulerProfile[]))
+    if (!data || data.length < PROFILE_PAGE_SIZE) {
+      return profiles
+    }
+  }
+}
+
+// Users who already checked in on their local "today" don't need a nudge
+async function loadCheckedInToday(supabase: SupabaseClient, reminders: DueDelivery[]): Promise<Set<string>> {
+  const checkedIn = new Set<string>()
+  if (reminders.length === 0) {
+    return checkedIn
+  }
+
+  const earliestDate = reminders.reduce((min, item) => (item.localDate < min ? item.localDate : min), reminders[0].localDate)
+  const userIds = Array.from(new Set(reminders.map((item) => item.userId)))
+
+  for (const ids of chunk(userIds, QUERY_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from("mood_entries")
+      .select("user_id, date")
+      .in("user_id", ids)
+      .gte("date", earliestDate)
+
+    if (error) {
+      throw error
+    }
+
+    for (const row of data ?? []) {
+      checkedIn.add(`${row.user_id}:${row.date}`)
+    }
+  }
+
+  return checkedIn
+}
+
+export async function runScheduledDeliveries(
+  supabase: SupabaseClient,
+  adapter: DeliveryAdapter,
+  options: { appUrl: string; now?: Date },
+): Promise<SchedulerRunResult> {
+  const now = options.now ?? new Date()
+  const profiles = await loadSchedulableProfiles(supabase)
+  const due = computeDueDeliveries(profiles, now)
+  const result: SchedulerRunResult = { due: due.length, sent: 0, skipped: 0, failed: 0 }
+
+  const checkedIn = await loadCheckedInToday(
+    supabase,
+    due.filter((item) => item.kind === "daily_reminder"),
+  )
+
+  const deliverable = due.filter((item) => {
+    const alreadyCheckedIn = item.kind === "daily_reminder" && checkedIn.has(`${item.userId}:${item.localDate}`)
+    return !alreadyCheckedIn && adapter.supports(item.channel)
+  })
+  result.skipped += due.length - deliverable.length
+
+  // One report per user, shared by all of their channels. The summary goes out on
+  // Monday and covers the seven local days that ended yesterday.
+  const reports = new Map<string, Promise<WeeklyReport>>()
+  const reportFor = (item: DueDelivery) => {
+    const key = `${item.userId}:${item.localDate}`
+    let report = reports.get(key)
+    if (!report) {
+      report = loadWeeklyReport(supabase, item.userId, shiftDate(item.localDate, -1))
+      reports.set(key, report)
+    }
+    return report
+  }
+
+  for (const batch of chunk(deliverable, QUERY_CHUNK_SIZE)) {
+    // Claim first: rows that already exist are ignored, so only new claims come back
+    const { data: claimed, error } = await supabase
+      .from("notification_deliveries")
+      .upsert(
+        batch.map((item) => ({
+          user_id: item.userId,
+          kind: item.kind,
+          channel: item.channel,
+          period_key: item.periodKey,
+          status: "pending",
+          transport: adapter.name,
+        })),
+        { onConflict: "user_id,kind,channel,period_key", ignoreDuplicates: true },
+      )
+      .select("id, user_id, kind, channel, period_key")
+
+    if (error) {
+      throw error
+    }
+
+    const claimedByKey = new Map(
+      (claimed ?? []).map((row) => [`${row.user_id}:${row.kind}:${row.channel}:${row.period_key}`, row.id as string]),
+    )
+    result.skipped += batch.length - claimedByKey.size
+
+    for (const item of batch) {
+      const deliveryId = claimedByKey.get(`${item.userId}:${item.kind}:${item.channel}:${item.periodKey}`)
+      if (!deliveryId) {
+        continue
+      }
+
+      try {
+        const report = item.kind === "weekly_summary" ? await reportFor(item) : undefined
+        await adapter.send(buildDeliveryMessage(item, options.appUrl, report))
+        await supabase
+          .from("notification_deliveries")
+          .update({ status: "sent", sent_at: new Date().toISOString() })
+          .eq("id", deliveryId)
+        result.sent += 1
+      } catch (sendError) {
+        console.error("[mindful-ai] Scheduled delivery failed", { kind: item.kind, channel: item.channel }, sendError)
+        await supabase
+          .from("notification_deliveries")
+          .update({ status: "failed", error: sendError instanceof Error ? sendError.message : String(sendError) })
+          .eq("id", deliveryId)
+        result.failed += 1
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,75 @@
+// Wall-clock date and time in a user's profile time zone, for anything bucketed by local day or hour
+
+export interface LocalTime {
+  timeZone: string
+  date: string
+  time: string
+  weekday: number
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Reads the wall-clock date and time for a user. Unknown or empty time zones
+ * fall back to UTC rather than dropping the user's data.
+ */
+export function getLocalTime(now: Date, timeZone?: string | null): LocalTime {
+  const zone = timeZone?.trim() || "UTC"
+  let formatter: Intl.DateTimeFormat
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    })
+  } catch {
+    return getLocalTime(now, "UTC")
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(now).map((part) => [part.type, part.value]))
+
+  return {
+    timeZone: zone,
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  }
+}
+
+/**
+ * Turns a wall-clock date and HH:MM time in a time zone into a UTC ISO timestamp. The zone's offset is
+ * read at the first guess and re-read at the result, so times on the far side of a DST change land right.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone?: string | null): string {
+  const wallClock = Date.parse(`${date}T${time}:00.000Z`)
+  const offsetAt = (instant: number) => {
+    const local = getLocalTime(new Date(instant), timeZone)
+    return Date.parse(`${local.date}T${local.time}:00.000Z`) - instant
+  }
+
+  let instant = wallClock - offsetAt(wallClock)
+  const correctedOffset = offsetAt(instant)
+  if (wallClock - correctedOffset !== instant) {
+    instant = wallClock - correctedOffset
+  }
+  return new Date(instant).toISOString()
+}
+
+// Whole calendar days between two YYYY-MM-DD dates; DST can't skew it since both are read as UTC midnight
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000))
+}
@@ -0,0 +1,10 @@
+import { z } from "zod"
+
+export const accountDeletionSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  confirmation: z.literal("DELETE", {
+    errorMap: () => ({ message: 'Type "DELETE" to confirm' }),
+  }),
+})
+
+export type AccountDeletionInput = z.infer<typeof accountDeletionSchema>
@@ -0,0 +1,61 @@
+import { z } from "zod"
+
+const moodSchema = z.enum(["anxious", "happy", "sad", "tired", "stressed", "excited"])
+
+const commandText = z.string().trim().max(2000).optional()
+
+export const agentCommandSchema = z.discriminatedUnion("command", [
+  z.object({
+    command: z.literal("draft_goal"),
+    args: z
+      .object({
+        text: commandText,
+        targetValue: z.number().positive().optional(),
+        unit: z.string().trim().min(1).max(32).optional(),
+      })
+      .default({}),
+  }),
+  z.object({
+    command: z.literal("track_goals"),
+    args: z.object({ text: commandText }).default({}),
+  }),
+  z.object({
+    command: z.literal("celebrate_goal"),
+    args: z
+      .object({
+        text: commandText,
+        goalId: z.string().uuid().optional(),
+      })
+      .default({}),
+  }),
+  z.object({
+    command: z.literal("fetch_resources"),
+    args: z.object({
+      text: commandText,
+      resourceType: z.enum(["music", "book", "place", "quote"]),
+      mood: moodSchema.optional(),
+      latitude: z.number().min(-90).max(90).optional(),
+      longitude: z.number().min(-180).max(180).optional(),
+    }),
+  }),
+  z.object({
+    command: z.literal("analyze_mood"),
+    args: z.object({
+      text: z.string().trim().min(3, "Type a few words about how you feel first").max(2000),
+      moodScore: z.number().min(1).max(10).optional(),
+      energyLevel: z.number().min(1).max(10).optional(),
+    }),
+  }),
+  z.object({
+    command: z.literal("generate_insights"),
+    args: z
+      .object({
+        text: commandText,
+        timeframe: z.enum(["week", "month", "quarter", "year"]).optional(),
+      })
+      .default({}),
+  }),
+])
+
+export type AgentCommand = z.infer<typeof agentCommandSchema>
+export type AgentCommandName = AgentCommand["command"]
@@ -0,0 +1,9 @@
+import { z } from "zod"
+
+// Answer ranges and counts depend on the instrument, so scoreAssessment checks them
+export const assessmentSubmissionSchema = z.object({
+  instrument: z.enum(["phq9", "gad7", "pss10", "ucla3"]),
+  answers: z.array(z.number().int()).min(1).max(20),
+})
+
+export type AssessmentSubmissionInput = z.infer<typeof assessmentSubmissionSchema>
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { INTERVENTION_TYPES, RECOMMENDATION_ITEM_KINDS } from '../recommendation-personalization'
 
 export const empathyRecommendationSchema = z.object({
   mood: z.string().min(1).max(50).optional(),
@@ -8,10 +9,17 @@ export const empathyRecommendationSchema = z.object({
   energyLevel: z.number().min(1).max(10).optional(),
   triggers: z.array(z.string().max(100)).max(20).optional(),
   recentMoods: z.array(z.number().min(1).max(10)).max(30).optional(),
+  textInsights: z
+    .object({
+      moodLabel: z.string().max(50),
+      confidence: z.number().min(0).max(100).optional(),
+    })
+    .optional(),
   voiceInsights: z
     .object({
       transcript: z.string().max(2000),
       moodLabel: z.string().max(50).optional(),
+      confidence: z.number().min(0).max(100).optional(),
       moodScore: z.number().min(1).max(10).optional(),
       energyLevel: z.number().min(1).max(10).optional(),
       emotions: z.array(z.string().max(50)).max(10).optional(),
@@ -49,3 +57,19 @@ export const empathyRecommendationSchema = z.object({
 })
 
 export type EmpathyRecommendationInput = z.infer<typeof empathyRecommendationSchema>
+
+export const recommendationFeedbackSchema = z
+  .object({
+    itemId: z.string().min(1).max(200),
+    kind: z.enum(RECOMMENDATION_ITEM_KINDS),
+    title: z.string().min(1).max(300),
+    actionType: z.enum(INTERVENTION_TYPES).optional(),
+    mood: z.string().max(50).optional(),
+    feedback: z.enum(['helpful', 'not_helpful']),
+  })
+  .refine((value) => value.itemId.startsWith(`${value.kind}:`), {
+    message: 'itemId must belong to the given kind',
+    path: ['itemId'],
+  })
+
+export type RecommendationFeedbackInput = z.infer<typeof recommendationFeedbackSchema>
@@ -0,0 +1,68 @@
+import { z } from "zod"
+import { EMOTION_LABELS } from "../emotion-model"
+
+// Shapes the models are asked to return. Anything that fails these goes through
+// the repair loop in lib/llm/structured.ts before reaching a route or component.
+
+const moodLabel = z
+  .string()
+  .trim()
+  .transform((value) => value.toLowerCase())
+  .pipe(z.enum(EMOTION_LABELS))
+
+const scoreOutOfTen = z.number().min(1).max(10)
+
+const emotions = z
+  .array(z.string().trim().min(1).max(50))
+  .max(10)
+  .transform((values) => Array.from(new Set(values.map((value) => value.toLowerCase()))).slice(0, 5))
+
+const summary = z.string().trim().min(1).max(300)
+
+export const empathyLLMResponseSchema = z.object({
+  empathyMessage: z.string().trim().min(1).max(1000),
+  recommendation: z.object({
+    title: z.string().trim().min(1).max(120),
+    description: z.string().trim().min(1).max(1000),
+    actionLabel: z.string().trim().min(1).max(60),
+    actionType: z.enum(["breathing", "journal", "timer", "contact"]),
+  }),
+})
+
+export const textAnalysisLLMResponseSchema = z.object({
+  moodLabel,
+  moodScore: scoreOutOfTen,
+  energyLevel: scoreOutOfTen,
+  emotions,
+  summary,
+  confidence: z.number().min(0).max(100),
+})
+
+export const voiceAnalysisLLMResponseSchema = z.object({
+  moodLabel,
+  moodScore: scoreOutOfTen,
+  energyLevel: scoreOutOfTen,
+  emotions,
+  summary,
+})
+
+// Vision models often answer with near-synonyms ("relaxed", "nervous"); the image
+// route resolves those through the emotion model, so any non-empty label is accepted here
+export const imageAnalysisLLMResponseSchema = z.object({
+  moodLabel: z.string().trim().min(1).max(50),
+  confidence: z.number().min(0).max(100),
+  emotions,
+  summary,
+})
+
+export const contactMessageLLMResponseSchema = z
+  .string()
+  .trim()
+  .min(40, "Message is too short")
+  .max(1200, "Message is too long")
+  .refine((value) => !/^(subject|dear)\b/i.test(value), "Message must start directly with the content")
+
+export type EmpathyLLMResponse = z.infer<typeof empathyLLMResponseSchema>
+export type TextAnalysisLLMResponse = z.infer<typeof textAnalysisLLMResponseSchema>
+export type VoiceAnalysisLLMResponse = z.infer<typeof voiceAnalysisLLMResponseSchema>
+export type ImageAnalysisLLMResponse = z.infer<typeof imageAnalysisLLMResponseSchema>
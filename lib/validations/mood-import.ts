@@ -0,0 +1,27 @@
+import { z } from "zod"
+
+const columnName = z.string().trim().min(1).max(100).optional()
+const scale = z.union([z.literal(5), z.literal(10)]).optional()
+
+export const moodImportRequestSchema = z.object({
+  content: z.string().min(1, "File is empty").max(5_000_000, "File is too large (max 5 MB)"),
+  format: z.enum(["csv", "json"]),
+  mapping: z
+    .object({
+      date: columnName,
+      time: columnName,
+      mood: columnName,
+      energy: columnName,
+      emotions: columnName,
+      triggers: columnName,
+      coping: columnName,
+      note: columnName,
+    })
+    .optional(),
+  moodScale: scale,
+  energyScale: scale,
+  // Preview by default; only an explicit `dryRun: false` writes entries
+  dryRun: z.boolean().default(true),
+})
+
+export type MoodImportRequest = z.infer<typeof moodImportRequestSchema>
@@ -1,5 +1,30 @@
 import { z } from "zod"
 
+const symptomRatingsSchema = z.object({
+  anxiety: z.number().min(0).max(5).optional(),
+  sadness: z.number().min(0).max(5).optional(),
+  stress: z.number().min(0).max(5).optional(),
+  loneliness: z.number().min(0).max(5).optional(),
+  suicideTrends: z.number().min(0).max(5).optional(),
+})
+
+// Typed answers from lib/questionnaire.ts; ranges are checked against the question definition
+export const questionAnswerSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("likert"), value: z.number().int() }),
+  z.object({ type: z.literal("multi-rating"), values: z.record(z.number().int()) }),
+  z.object({
+    type: z.literal("yes-no"),
+    value: z.boolean(),
+    followUps: z.record(z.union([z.string().max(2000), z.number()])).optional(),
+  }),
+  z.object({ type: z.literal("free-text"), value: z.string().max(5000) }),
+  z.object({
+    type: z.literal("assessment"),
+    scores: z.record(z.object({ total: z.number().int().min(0), severity: z.string() })),
+    symptomRatings: symptomRatingsSchema,
+  }),
+])
+
 export const onboardingMetadataSchema = z
   .object({
     emoji: z.string().optional(),
@@ -10,15 +35,7 @@ export const onboardingMetadataSchema = z
     photoUrl: z.string().url().optional(),
     energy: z.number().optional(),
     // New fields for therapeutic questionnaire
-    symptomRatings: z
-      .object({
-        anxiety: z.number().min(0).max(5).optional(),
-        sadness: z.number().min(0).max(5).optional(),
-        stress: z.number().min(0).max(5).optional(),
-        loneliness: z.number().min(0).max(5).optional(),
-        suicideTrends: z.number().min(0).max(5).optional(),
-      })
-      .optional(),
+    symptomRatings: symptomRatingsSchema.optional(),
     therapyHistory: z
       .object({
         hasPreviousTherapy: z.boolean().optional(),
@@ -27,6 +44,13 @@ export const onboardingMetadataSchema = z
       })
       .optional(),
     likertScore: z.number().min(1).max(5).optional(), // For questions 4 & 5
+    // Which questionnaire question this answers, and the typed answer
+    questionnaireId: z.string().optional(),
+    questionnaireVersion: z.number().int().optional(),
+    questionId: z.string().optional(),
+    answer: questionAnswerSchema.optional(),
+    // Groups the drafts of one attempt at the questionnaire
+    submissionId: z.string().trim().min(1).max(100).optional(),
   })
   .catchall(z.unknown())
 
@@ -37,6 +61,17 @@ export const onboardingResponseSchema = z.object({
   metadata: onboardingMetadataSchema.optional(),
 })
 
+// A single answered step saved while the questionnaire is still in progress
+export const onboardingDraftSchema = onboardingResponseSchema.extend({
+  metadata: onboardingMetadataSchema.extend({
+    questionnaireId: z.string(),
+    questionnaireVersion: z.number().int(),
+    questionId: z.string(),
+    answer: questionAnswerSchema,
+    submissionId: z.string().trim().min(1).max(100),
+  }),
+})
+
 export const onboardingMoodEntrySchema = z.object({
   moodScore: z.number().min(1).max(10),
   energyLevel: z.number().min(1).max(10),
@@ -50,15 +85,7 @@ export const onboardingMoodEntrySchema = z.object({
   date: z.string().optional(),
   timestamp: z.string().optional(),
   // New therapeutic data fields
-  symptomRatings: z
-    .object({
-      anxiety: z.number().min(0).max(5).optional(),
-      sadness: z.number().min(0).max(5).optional(),
-      stress: z.number().min(0).max(5).optional(),
-      loneliness: z.number().min(0).max(5).optional(),
-      suicideTrends: z.number().min(0).max(5).optional(),
-    })
-    .optional(),
+  symptomRatings: symptomRatingsSchema.optional(),
   therapyHistory: z
     .object({
       hasPreviousTherapy: z.boolean().optional(),
@@ -79,6 +106,8 @@ export const onboardingSummarySchema = z
   .optional()
 
 export const onboardingRequestSchema = z.object({
+  // Repeating a submission with the same id returns the mood entry it already created
+  submissionId: z.string().trim().min(1).max(100).optional(),
   responses: z.array(onboardingResponseSchema).optional(),
   moodEntry: onboardingMoodEntrySchema,
   summary: onboardingSummarySchema,
@@ -0,0 +1,25 @@
+import { z } from "zod"
+
+const planItems = z.array(z.string().trim().max(500)).max(20)
+
+const planContacts = z
+  .array(
+    z.object({
+      name: z.string().trim().max(120),
+      phone: z.string().trim().max(40).optional(),
+    }),
+  )
+  .max(20)
+
+// Blank entries are allowed here and dropped by normalizeSafetyPlan before saving
+export const safetyPlanSchema = z.object({
+  warningSigns: planItems.default([]),
+  copingStrategies: planItems.default([]),
+  distractions: planContacts.default([]),
+  supportContacts: planContacts.default([]),
+  professionalContacts: planContacts.default([]),
+  environmentSafety: planItems.default([]),
+  reasonsForLiving: planItems.default([]),
+})
+
+export type SafetyPlanInput = z.infer<typeof safetyPlanSchema>
@@ -0,0 +1,294 @@
+// Week-over-week wellness summary shared by the weekly e-mail and the "This week" page
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { MoodEntry, WeeklyDay, WeeklyMetric, WeeklyReport, WellnessGoal } from "../types/wellness"
+import { DAY_LABELS, computeStreak, normalizeCopingEffectiveness, normalizeTriggerFrequency } from "./analytics"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HISTORY_LIMIT = 60
+const TOP_ITEMS = 3
+
+export interface ReportWeek {
+  start: string
+  end: string
+  previousStart: string
+  previousEnd: string
+}
+
+export interface WeeklyReportInput {
+  entries: MoodEntry[]
+  // Rows from user_trigger_frequency / user_coping_effectiveness; derived from entries when empty
+  triggerFrequency?: Record<string, number>
+  copingEffectiveness?: Record<string, number>
+  goals: WellnessGoal[]
+  weekEnd: string
+}
+
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// The report week is the seven days ending on (and including) `weekEnd`
+export function getReportWeek(weekEnd: string): ReportWeek {
+  return {
+    start: shiftDate(weekEnd, -6),
+    end: weekEnd,
+    previousStart: shiftDate(weekEnd, -13),
+    previousEnd: shiftDate(weekEnd, -7),
+  }
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1))
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+function buildMetric(current: number[], previous: number[]): WeeklyMetric {
+  const currentAverage = average(current)
+  const previousAverage = average(previous)
+  return {
+    average: currentAverage,
+    previousAverage,
+    delta: currentAverage !== null && previousAverage !== null ? round(currentAverage - previousAverage) : null,
+  }
+}
+
+function rankDays(entries: MoodEntry[]): WeeklyDay[] {
+  const byDate = new Map<string, number[]>()
+  entries.forEach((entry) => {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry.mood])
+  })
+
+  return Array.from(byDate.entries())
+    .map(([date, moods]) => ({
+      date,
+      weekday: DAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+      mood: average(moods) ?? 0,
+    }))
+    .sort((a, b) => b.mood - a.mood || a.date.localeCompare(b.date))
+}
+
+function topEntries(record: Record<string, number>): Array<[string, number]> {
+  return Object.entries(record)
+    .filter(([, value]) => Number.isFinite(value) && value > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_ITEMS)
+}
+
+/**
+ * Pure report builder. Entries may span more than two weeks; anything after
+ * `weekEnd` is ignored so a report can be regenerated for a past week.
+ */
+export function buildWeeklyReport(input: WeeklyReportInput): WeeklyReport {
+  const week = getReportWeek(input.weekEnd)
+  const inRange = (entry: MoodEntry, start: string, end: string) => entry.date >= start && entry.date <= end
+
+  const currentEntries = input.entries.filter((entry) => inRange(entry, week.start, week.end))
+  const previousEntries = input.entries.filter((entry) => inRange(entry, week.previousStart, week.previousEnd))
+
+  const rankedDays = rankDays(currentEntries)
+  const bestDay = rankedDays[0] ?? null
+  const worstDay = rankedDays.length > 1 ? rankedDays[rankedDays.length - 1] : null
+
+  const triggerFrequency =
+    input.triggerFrequency && Object.keys(input.triggerFrequency).length
+      ? input.triggerFrequency
+      : normalizeTriggerFrequency(input.entries)
+  const copingEffectiveness =
+    input.copingEffectiveness && Object.keys(input.copingEffectiveness).length
+      ? input.copingEffectiveness
+      : normalizeCopingEffectiveness(input.entries)
+
+  return {
+    weekStart: week.start,
+    weekEnd: week.end,
+    checkIns: currentEntries.length,
+    mood: buildMetric(
+      currentEntries.map((entry) => entry.mood),
+      previousEntries.map((entry) => entry.mood),
+    ),
+    energy: buildMetric(
+      currentEntries.map((entry) => entry.energy),
+      previousEntries.map((entry) => entry.energy),
+    ),
+    bestDay,
+    worstDay,
+    topTriggers: topEntries(triggerFrequency).map(([trigger, occurrences]) => ({ trigger, occurrences })),
+    topCoping: topEntries(copingEffectiveness).map(([strategy, averageMood]) => ({ strategy, averageMood })),
+    goals: input.goals,
+    // Counted as of the last day of the report week, so a streak that lapsed before it ended reads 0
+    streak: computeStreak(input.entries.filter((entry) => entry.date <= week.end), week.end),
+  }
+}
+
+export function formatDelta(delta: number | null): string {
+  if (delta === null) return "no comparison yet"
+  if (delta === 0) return "same as last week"
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(1)} vs last week`
+}
+
+function formatMetric(label: string, metric: WeeklyMetric): string {
+  return metric.average === null ? `${label}: no check-ins` : `${label}: ${metric.average}/10 (${formatDelta(metric.delta)})`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+export function renderWeeklyReportText(report: WeeklyReport, appUrl: string): string {
+  const base = appUrl.replace(/\/$/, "")
+  const lines = [
+    `Your week in review (${report.weekStart} to ${report.weekEnd})`,
+    `Check-ins: ${report.checkIns} · Streak: ${report.streak} ${report.streak === 1 ? "day" : "days"}`,
+    formatMetric("Mood", report.mood),
+    formatMetric("Energy", report.energy),
+  ]
+
+  if (report.bestDay) lines.push(`Best day: ${report.bestDay.weekday} (${report.bestDay.mood}/10)`)
+  if (report.worstDay) lines.push(`Toughest day: ${report.worstDay.weekday} (${report.worstDay.mood}/10)`)
+  if (report.topTriggers.length) {
+    lines.push(`Top triggers: ${report.topTriggers.map((item) => item.trigger).join(", ")}`)
+  }
+  if (report.topCoping.length) {
+    lines.push(`What helped most: ${report.topCoping.map((item) => item.strategy).join(", ")}`)
+  }
+  report.goals.forEach((goal) => {
+    lines.push(`Goal "${goal.goal}": ${goal.current}/${goal.target} ${goal.unit} (${goal.progress}%)`)
+  })
+  lines.push("", `See the full summary: ${base}/this-week`)
+
+  return lines.join("\n")
+}
+
+/**
+ * E-mail body. Inline styles only, since most mail clients strip <style> blocks;
+ * every user-provided string (triggers, strategies, goals) is escaped.
+ */
+export function renderWeeklyReportHtml(report: WeeklyReport, appUrl: string): string {
+  const base = escapeHtml(appUrl.replace(/\/$/, ""))
+  const row = (label: string, value: string) =>
+    `<tr><td style="padding:4px 12px 4px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`
+  const list = (items: string[]) =>
+    `<ul style="margin:4px 0 16px;padding-left:20px">${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+
+  const metricValue = (metric: WeeklyMetric) =>
+    metric.average === null ? "No check-ins" : `${metric.average}/10 (${formatDelta(metric.delta)})`
+
+  const sections = [
+    `<h1 style="font-size:20px;margin:0 0 4px">Your week in review</h1>`,
+    `<p style="margin:0 0 16px;color:#6b7280">${escapeHtml(report.weekStart)} to ${escapeHtml(report.weekEnd)}</p>`,
+    `<table style="border-collapse:collapse;margin-bottom:16px">`,
+    row("Check-ins", String(report.checkIns)),
+    row("Streak", `${report.streak} ${report.streak === 1 ? "day" : "days"}`),
+    row("Average mood", metricValue(report.mood)),
+    row("Average energy", metricValue(report.energy)),
+    report.bestDay ? row("Best day", `${report.bestDay.weekday} (${report.bestDay.mood}/10)`) : "",
+    report.worstDay ? row("Toughest day", `${report.worstDay.weekday} (${report.worstDay.mood}/10)`) : "",
+    `</table>`,
+  ]
+
+  if (report.topTriggers.length) {
+    sections.push(
+      `<h2 style="font-size:16px;margin:0">Top triggers</h2>`,
+      list(report.topTriggers.map((item) => `${item.trigger} (${item.occurrences}×)`)),
+    )
+  }
+  if (report.topCoping.length) {
+    sections.push(
+      `<h2 style="font-size:16px;margin:0">What helped most</h2>`,
+      list(report.topCoping.map((item) => `${item.strategy} (avg mood ${item.averageMood}/10)`)),
+    )
+  }
+  if (report.goals.length) {
+    sections.push(
+      `<h2 style="font-size:16px;margin:0">Goal progress</h2>`,
+      list(report.goals.map((goal) => `${goal.goal}: ${goal.current}/${goal.target} ${goal.unit} (${goal.progress}%)`)),
+    )
+  }
+
+  sections.push(
+    `<p style="margin:16px 0 0"><a href="${base}/this-week" style="color:#4f46e5">See your full weekly summary</a></p>`,
+  )
+
+  return `<div style="font-family:system-ui,-apple-system,sans-serif;color:#111827;max-width:560px">${sections.join("")}</div>`
+}
+
+/**
+ * Loads everything the report needs for one user. Mirrors /api/wellness-snapshot:
+ * analytics views are preferred and the loaded entries are the fallback.
+ */
+export async function loadWeeklyReport(
+  supabase: SupabaseClient,
+  userId: string,
+  weekEnd: string,
+): Promise<WeeklyReport> {
+  const [entriesResult, goalsResult, triggerResult, copingResult] = await Promise.all([
+    supabase
+      .from("mood_entries")
+      .select("id, date, mood_score, energy_level, emotions, triggers, coping_strategies, entry_type")
+      .eq("user_id", userId)
+      .lte("date", weekEnd)
+      .order("date", { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from("wellness_goals")
+      .select("id, goal, target_value, current_value, unit, progress")
+      .eq("user_id", userId)
+      .eq("is_active", true),
+    supabase.from("user_trigger_frequency").select("trigger, occurrences").eq("user_id", userId),
+    supabase.from("user_coping_effectiveness").select("strategy, average_mood").eq("user_id", userId),
+  ])
+
+  if (entriesResult.error) {
+    throw entriesResult.error
+  }
+
+  const entries: MoodEntry[] = (entriesResult.data ?? []).map((entry) => ({
+    id: entry.id,
+    date: entry.date,
+    mood: entry.mood_score ?? 5,
+    energy: entry.energy_level ?? 5,
+    emotions: Array.isArray(entry.emotions) ? entry.emotions : [],
+    triggers: Array.isArray(entry.triggers) ? entry.triggers : [],
+    coping: Array.isArray(entry.coping_strategies) ? entry.coping_strategies : [],
+    type:
+      entry.entry_type === "voice" || entry.entry_type === "emoji" || entry.entry_type === "photo"
+        ? entry.entry_type
+        : "text",
+  }))
+
+  const goals: WellnessGoal[] = (goalsResult.data ?? []).map((goal) => ({
+    id: goal.id,
+    goal: goal.goal,
+    target: Number(goal.target_value ?? 0),
+    current: Number(goal.current_value ?? 0),
+    unit: goal.unit ?? "",
+    progress: Number(goal.progress ?? 0),
+  }))
+
+  const triggerFrequency: Record<string, number> = {}
+  for (const row of triggerResult.data ?? []) {
+    if (typeof row.trigger === "string") {
+      triggerFrequency[row.trigger] = Number(row.occurrences ?? 0)
+    }
+  }
+
+  const copingEffectiveness: Record<string, number> = {}
+  for (const row of copingResult.data ?? []) {
+    const value = Number(row.average_mood ?? 0)
+    if (typeof row.strategy === "string" && !Number.isNaN(value)) {
+      copingEffectiveness[row.strategy] = value
+    }
+  }
+
+  return buildWeeklyReport({ entries, triggerFrequency, copingEffectiveness, goals, weekEnd })
+}
@@ -16,6 +16,8 @@ export const MoodAnalysisOutputSchema = z.object({
   detectedMood: z.enum(["anxious", "happy", "sad", "tired", "stressed", "excited"]),
   confidence: z.number().min(0).max(100),
   emotions: z.array(z.string()),
+  // Lexicon score per mood, so callers can see how close the runner-up was
+  moodScores: z.record(z.enum(["anxious", "happy", "sad", "tired", "stressed", "excited"]), z.number()),
   triggers: z.array(z.string()),
   severity: z.enum(["low", "moderate", "high"]),
   analysis: z.string(),
@@ -24,51 +26,220 @@ export const MoodAnalysisOutputSchema = z.object({
 
 export type MoodAnalysisOutput = z.infer<typeof MoodAnalysisOutputSchema>;
 
-// Mood detection keywords
-const moodKeywords = {
-  anxious: ["anxious", "worried", "nervous", "uneasy", "panic", "overwhelmed", "scared", "afraid"],
-  happy: ["happy", "grateful", "calm", "content", "peaceful", "joyful", "good", "great"],
-  sad: ["sad", "down", "depressed", "lonely", "upset", "heartbroken", "miserable", "hopeless"],
-  tired: ["tired", "exhausted", "fatigued", "drained", "sleepy", "worn out", "burned out"],
-  stressed: ["stressed", "pressure", "tense", "frustrated", "irritated", "rushed", "overwhelmed"],
-  excited: ["excited", "energized", "pumped", "thrilled", "motivated", "inspired", "enthusiastic"],
-} as const;
+// ============================================================================
+// LEXICON CLASSIFIER
+// Shared by analyze_mood, the web app's analyzeMood and inferMoodFromText.
+// ============================================================================
 
-/**
- * Analyzes text to detect mood and emotional state
- */
-export async function analyzeMood(input: MoodAnalysisInput): Promise<MoodAnalysisOutput> {
-  const text = input.text.toLowerCase();
-
-  // Detect mood from keywords
-  let bestMood: keyof typeof moodKeywords = "tired";
-  let maxMatches = 0;
-  const detectedEmotions = new Set<string>(input.emotions || []);
-
-  for (const [mood, keywords] of Object.entries(moodKeywords)) {
-    let matches = 0;
-    for (const keyword of keywords) {
-      if (text.includes(keyword)) {
-        matches++;
-        detectedEmotions.add(keyword);
+export type MoodLabel = MoodAnalysisOutput["detectedMood"];
+
+export const MOOD_LABELS: MoodLabel[] = ["anxious", "happy", "sad", "tired", "stressed", "excited"];
+
+// Term weights per mood; multi-word terms are matched on token boundaries like single words
+export const MOOD_LEXICON: Record<MoodLabel, Record<string, number>> = {
+  anxious: {
+    anxious: 1, anxiety: 1, worried: 1, worry: 1, worrying: 1, nervous: 1, uneasy: 1, panic: 1.5, panicking: 1.5,
+    panicked: 1.5, scared: 1, afraid: 1, fearful: 1, terrified: 1.5, "on edge": 1, restless: 0.75, jittery: 0.75,
+    dread: 1.25, overthinking: 0.75,
+  },
+  happy: {
+    happy: 1, grateful: 1, thankful: 1, calm: 0.75, content: 0.75, peaceful: 0.75, joyful: 1.25, joy: 1, good: 0.5,
+    great: 0.75, glad: 0.75, relaxed: 0.75, cheerful: 1, smiling: 0.75, wonderful: 1, fine: 0.25, okay: 0.25,
+    hopeful: 0.75, proud: 0.75, loved: 0.75,
+  },
+  sad: {
+    sad: 1, down: 0.75, low: 0.5, blue: 0.5, depressed: 1.5, lonely: 1, alone: 0.5, upset: 0.75, heartbroken: 1.5,
+    miserable: 1.25, hopeless: 1.5, crying: 1, cried: 1, tearful: 1, empty: 1, numb: 0.75, grieving: 1.25,
+    unhappy: 1, gloomy: 1, disappointed: 0.75,
+  },
+  tired: {
+    tired: 1, exhausted: 1.5, fatigued: 1.25, drained: 1.25, sleepy: 1, "worn out": 1.25, "burned out": 1.5,
+    "burnt out": 1.5, burnout: 1.5, weary: 1, lethargic: 1, sluggish: 0.75, "run down": 1,
+  },
+  stressed: {
+    stressed: 1, stress: 1, stressful: 1, pressure: 0.75, pressured: 1, tense: 1, frustrated: 1, frustrating: 0.75,
+    irritated: 1, annoyed: 0.75, angry: 1, rushed: 0.75, overwhelmed: 1.25, swamped: 1, "fed up": 1, deadline: 0.5,
+    deadlines: 0.5,
+  },
+  excited: {
+    excited: 1, exciting: 0.75, energized: 1, energetic: 1, pumped: 1, thrilled: 1.5, motivated: 1, inspired: 1,
+    enthusiastic: 1, eager: 0.75, "can't wait": 1.25, ecstatic: 1.5, hyped: 1,
+  },
+};
+
+const NEGATORS = new Set([
+  "not", "no", "never", "nothing", "without", "hardly", "barely", "nor", "neither", "cannot",
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "won't", "wouldn't", "can't", "couldn't",
+  "shouldn't", "haven't", "hasn't", "hadn't", "ain't", "dont", "isnt", "wasnt", "cant", "didnt",
+]);
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, so: 1.4, extremely: 2, incredibly: 2, super: 1.5, totally: 1.5, completely: 1.75,
+  deeply: 1.5, utterly: 2, too: 1.3, absolutely: 1.75, "so much": 1.5,
+};
+const DIMINISHERS: Record<string, number> = {
+  slightly: 0.5, somewhat: 0.6, mildly: 0.5, "a little": 0.5, "a bit": 0.5, "kind of": 0.6, "sort of": 0.6,
+  "kinda": 0.6, fairly: 0.8, pretty: 0.9,
+};
+// Tokens that end a negation or modifier's reach
+const SCOPE_BREAKERS = new Set([".", ",", ";", ":", "!", "?", "but", "although", "though", "however", "yet"]);
+const NEGATION_SCOPE = 3;
+const MODIFIER_SCOPE = 2;
+
+// "not happy" reads as low mood; a negated negative ("not anxious") simply doesn't count
+const NEGATED_MOOD: Partial<Record<MoodLabel, MoodLabel>> = { happy: "sad", excited: "tired" };
+const NEGATED_WEIGHT = 0.75;
+
+const BASE_MOOD_SCORE: Record<MoodLabel, number> = { anxious: 3, happy: 8, sad: 3, tired: 4, stressed: 4, excited: 8 };
+
+interface LexiconEntry {
+  mood: MoodLabel;
+  weight: number;
+}
+
+const termIndex = new Map<string, LexiconEntry>();
+for (const mood of MOOD_LABELS) {
+  for (const [term, weight] of Object.entries(MOOD_LEXICON[mood])) {
+    termIndex.set(term, { mood, weight });
+  }
+}
+const MAX_PHRASE_LENGTH = 3;
+
+export interface MoodTermMatch {
+  term: string;
+  // The mood the match counted towards (after negation)
+  mood: MoodLabel;
+  weight: number;
+  negated: boolean;
+}
+
+export interface MoodClassification {
+  mood: MoodLabel;
+  // 1-10, derived from the winning mood and how intensely it was expressed
+  moodScore: number;
+  scores: Record<MoodLabel, number>;
+  // Non-negated terms, in order of appearance
+  emotions: string[];
+  matches: MoodTermMatch[];
+}
+
+export function tokenizeMoodText(text: string): string[] {
+  return text.toLowerCase().replace(/[\u2018\u2019]/g, "'").match(/[a-z]+(?:'[a-z]+)?|[.,;:!?]/g) ?? [];
+}
+
+// Longest phrase starting at index found in dictionary, as [phrase, tokenCount]
+function matchPhrase(tokens: string[], index: number, dictionary: { has(key: string): boolean }): [string, number] | null {
+  for (let length = Math.min(MAX_PHRASE_LENGTH, tokens.length - index); length >= 1; length--) {
+    const phrase = tokens.slice(index, index + length).join(" ");
+    if (dictionary.has(phrase)) {
+      return [phrase, length];
+    }
+  }
+  return null;
+}
+
+const modifierKeys = new Set([...Object.keys(INTENSIFIERS), ...Object.keys(DIMINISHERS)]);
+
+export function classifyMoodText(text: string): MoodClassification {
+  const tokens = tokenizeMoodText(text);
+  const scores = Object.fromEntries(MOOD_LABELS.map((mood) => [mood, 0])) as Record<MoodLabel, number>;
+  const matches: MoodTermMatch[] = [];
+  const intensities: Record<MoodLabel, number[]> = { anxious: [], happy: [], sad: [], tired: [], stressed: [], excited: [] };
+
+  let negationLeft = 0;
+  let modifier = 1;
+  let modifierLeft = 0;
+
+  for (let index = 0; index < tokens.length; ) {
+    const token = tokens[index];
+
+    if (SCOPE_BREAKERS.has(token)) {
+      negationLeft = 0;
+      modifierLeft = 0;
+      index += 1;
+      continue;
+    }
+
+    const term = matchPhrase(tokens, index, termIndex);
+    const entry = term ? termIndex.get(term[0]) : undefined;
+    if (term && entry) {
+      const [phrase, length] = term;
+      const intensity = modifierLeft > 0 ? modifier : 1;
+      const negated = negationLeft > 0;
+      const mood = negated ? NEGATED_MOOD[entry.mood] : entry.mood;
+
+      if (mood) {
+        const weight = entry.weight * intensity * (negated ? NEGATED_WEIGHT : 1);
+        scores[mood] += weight;
+        intensities[mood].push(intensity);
+        matches.push({ term: phrase, mood, weight, negated });
       }
+      modifierLeft = 0;
+      index += length;
+      continue;
     }
-    if (matches > maxMatches) {
-      maxMatches = matches;
-      bestMood = mood as keyof typeof moodKeywords;
+
+    const modifierPhrase = matchPhrase(tokens, index, modifierKeys);
+    if (modifierPhrase) {
+      const [phrase, length] = modifierPhrase;
+      modifier = INTENSIFIERS[phrase] ?? DIMINISHERS[phrase];
+      modifierLeft = MODIFIER_SCOPE;
+      index += length;
+      continue;
+    }
+
+    if (NEGATORS.has(token) || token.endsWith("n't")) {
+      negationLeft = NEGATION_SCOPE;
+    } else {
+      negationLeft = Math.max(0, negationLeft - 1);
     }
+    modifierLeft = Math.max(0, modifierLeft - 1);
+    index += 1;
   }
 
+  let mood: MoodLabel = "tired";
+  let best = 0;
+  for (const label of MOOD_LABELS) {
+    if (scores[label] > best) {
+      best = scores[label];
+      mood = label;
+    }
+  }
+
+  if (best === 0) {
+    return { mood: "tired", moodScore: 5, scores, emotions: [], matches };
+  }
+
+  // Stronger expression pushes the score further from neutral, softer expression pulls it back
+  const moodIntensities = intensities[mood];
+  const averageIntensity = moodIntensities.reduce((sum, value) => sum + value, 0) / moodIntensities.length;
+  const direction = BASE_MOOD_SCORE[mood] >= 5.5 ? 1 : -1;
+  const shift = averageIntensity > 1.2 ? 1 : averageIntensity < 0.8 ? -1 : 0;
+  const moodScore = Math.min(10, Math.max(1, BASE_MOOD_SCORE[mood] + direction * shift));
+
+  const emotions = Array.from(new Set(matches.filter((match) => !match.negated).map((match) => match.term)));
+
+  return { mood, moodScore, scores, emotions, matches };
+}
+
+/**
+ * Analyzes text to detect mood and emotional state
+ */
+export async function analyzeMood(input: MoodAnalysisInput): Promise<MoodAnalysisOutput> {
+  const classification = classifyMoodText(input.text);
+  const bestMood = classification.mood;
+  const matchedTerms = classification.matches.filter((match) => match.mood === bestMood).length;
+  const detectedEmotions = new Set<string>([...(input.emotions || []), ...classification.emotions]);
+
   // Detect triggers
   const triggers: string[] = [];
   const triggerPatterns = [
-    { pattern: /work|job|boss|colleague/i, trigger: "work" },
-    { pattern: /family|parent|sibling|relative/i, trigger: "family" },
-    { pattern: /relationship|partner|spouse|dating/i, trigger: "relationships" },
-    { pattern: /money|financial|debt|bills/i, trigger: "finances" },
-    { pattern: /health|sick|pain|illness/i, trigger: "health" },
-    { pattern: /sleep|insomnia|rest/i, trigger: "sleep" },
-    { pattern: /friend|social|lonely|alone/i, trigger: "social" },
+    { pattern: /\b(?:work|job|boss|colleague)/i, trigger: "work" },
+    { pattern: /\b(?:family|parent|sibling|relative)/i, trigger: "family" },
+    { pattern: /\b(?:relationship|partner|spouse|dating)/i, trigger: "relationships" },
+    { pattern: /\b(?:money|financial|debt|bills)/i, trigger: "finances" },
+    { pattern: /\b(?:health|sick|pain|illness)/i, trigger: "health" },
+    { pattern: /\b(?:sleep|insomnia|rest)\b/i, trigger: "sleep" },
+    { pattern: /\b(?:friend|social|lonely|alone)/i, trigger: "social" },
   ];
 
   for (const { pattern, trigger } of triggerPatterns) {
@@ -79,7 +250,7 @@ export async function analyzeMood(input: MoodAnalysisInput): Promise<MoodAnalysi
 
   // Calculate confidence
   let confidence = 60;
-  if (maxMatches > 0) confidence += Math.min(20, maxMatches * 5);
+  if (matchedTerms > 0) confidence += Math.min(20, matchedTerms * 5);
   if (input.moodScore) confidence += 10;
   if (input.energyLevel) confidence += 5;
   if (input.context) confidence += 5;
@@ -107,6 +278,7 @@ export async function analyzeMood(input: MoodAnalysisInput): Promise<MoodAnalysi
     detectedMood: bestMood,
     confidence,
     emotions: Array.from(detectedEmotions).slice(0, 5),
+    moodScores: classification.scores,
     triggers,
     severity,
     analysis,
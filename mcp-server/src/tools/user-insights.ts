@@ -56,12 +56,13 @@ export type UserInsightsOutput = z.infer<typeof UserInsightsOutputSchema>;
  * Analyzes user's historical data to generate insights and patterns
  */
 export async function generateUserInsights(input: UserInsightsInput): Promise<UserInsightsOutput> {
-  const { moodHistory } = input;
-
-  if (moodHistory.length === 0) {
+  if (input.moodHistory.length === 0) {
     return getEmptyInsights();
   }
 
+  // Trend, swing and trigger detection compare consecutive entries, so analyze oldest first
+  const moodHistory = sortChronologically(input.moodHistory);
+
   // Calculate summary statistics
   const summary = calculateSummary(moodHistory);
 
@@ -86,7 +87,11 @@ export async function generateUserInsights(input: UserInsightsInput): Promise<Us
   };
 }
 
-function calculateSummary(moodHistory: UserInsightsInput["moodHistory"]) {
+export function sortChronologically(moodHistory: UserInsightsInput["moodHistory"]) {
+  return [...moodHistory].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
+
+export function calculateSummary(moodHistory: UserInsightsInput["moodHistory"]) {
   const moodScores = moodHistory.map((entry) => entry.moodScore);
   const energyLevels = moodHistory.map((entry) => entry.energyLevel);
 
@@ -127,7 +132,7 @@ function calculateSummary(moodHistory: UserInsightsInput["moodHistory"]) {
   };
 }
 
-function detectPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern[] {
+export function detectPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern[] {
   const patterns: Pattern[] = [];
 
   // Temporal patterns
@@ -149,7 +154,7 @@ function detectPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern[
   return patterns;
 }
 
-function detectTemporalPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
+export function detectTemporalPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
   // Group by day of week
   const dayOfWeekMoods: Record<string, number[]> = {
     Sun: [],
@@ -162,8 +167,9 @@ function detectTemporalPatterns(moodHistory: UserInsightsInput["moodHistory"]):
   };
 
   moodHistory.forEach((entry) => {
+    // Date-only strings parse as UTC midnight; reading the local day would shift them west of UTC
     const date = new Date(entry.date);
-    const dayName = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][date.getDay()];
+    const dayName = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][date.getUTCDay()];
     dayOfWeekMoods[dayName].push(entry.moodScore);
   });
 
@@ -194,7 +200,7 @@ function detectTemporalPatterns(moodHistory: UserInsightsInput["moodHistory"]):
   return null;
 }
 
-function detectMoodCycles(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
+export function detectMoodCycles(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
   if (moodHistory.length < 7) return null;
 
   // Check for mood swings (high variance in consecutive days)
@@ -244,7 +250,7 @@ function detectMoodCycles(moodHistory: UserInsightsInput["moodHistory"]): Patter
   return null;
 }
 
-function detectEnergyPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
+export function detectEnergyPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
   const avgEnergy =
     moodHistory.reduce((sum, entry) => sum + entry.energyLevel, 0) / moodHistory.length;
 
@@ -283,7 +289,7 @@ function detectEnergyPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pa
   return null;
 }
 
-function detectTriggerPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
+export function detectTriggerPatterns(moodHistory: UserInsightsInput["moodHistory"]): Pattern | null {
   const triggerCounts: Record<string, { count: number; avgMoodChange: number }> = {};
 
   moodHistory.forEach((entry, index) => {
@@ -331,7 +337,7 @@ function detectTriggerPatterns(moodHistory: UserInsightsInput["moodHistory"]): P
   return null;
 }
 
-function analyzeTriggers(moodHistory: UserInsightsInput["moodHistory"]) {
+export function analyzeTriggers(moodHistory: UserInsightsInput["moodHistory"]) {
   const triggerStats: Record<
     string,
     { count: number; totalMoodScore: number; avgMood: number }
@@ -469,7 +475,7 @@ function generateInsights(
   if (sortedByMood.length >= 2) {
     const bestDay = sortedByMood[0];
     insights.push(
-      `Your best day was ${new Date(bestDay.date).toLocaleDateString()} with a mood score of ${bestDay.moodScore}/10.`
+      `Your best day was ${new Date(bestDay.date).toLocaleDateString("en-US", { timeZone: "UTC" })} with a mood score of ${bestDay.moodScore}/10.`
     );
   }
 
@@ -324,6 +324,24 @@ function generateShortTermRecommendations(
     }
   }
 
+  // Triggers named in the check-in get a reflection aimed at them
+  if (input.triggers?.length && timeAvailable >= 10) {
+    recommendations.push({
+      type: "creative",
+      title: "Trigger Reflection",
+      description: `Look at what set today off (${input.triggers.slice(0, 3).join(", ")}) and what of it you control`,
+      duration: 10,
+      difficulty: "easy",
+      benefits: ["Separates facts from reactions", "Reduces rumination", "Turns worry into a next step"],
+      instructions: [
+        "Write down what happened with each trigger",
+        "Note the thoughts and feelings it brought up",
+        "Circle the parts that are within your control",
+        "Choose one small step for the next 24 hours",
+      ],
+    });
+  }
+
   return recommendations;
 }
 
@@ -332,6 +332,7 @@ ALTER TABLE profiles ADD COLUMN IF NOT EXISTS reminder_time TEXT DEFAULT '09:00'
 ALTER TABLE profiles ADD COLUMN IF NOT EXISTS theme_preference TEXT DEFAULT 'system';
 ALTER TABLE profiles ADD COLUMN IF NOT EXISTS sound_enabled BOOLEAN DEFAULT TRUE;
 ALTER TABLE profiles ADD COLUMN IF NOT EXISTS last_empathy_data JSONB;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS strict_redaction BOOLEAN DEFAULT FALSE;
 
 -- Add therapeutic questionnaire data columns to mood_entries
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS symptom_anxiety INTEGER CHECK (symptom_anxiety >= 0 AND symptom_anxiety <= 5);
@@ -345,6 +346,16 @@ ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS therapy_type TEXT;
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS therapeutic_relationship_importance INTEGER CHECK (therapeutic_relationship_importance >= 1 AND therapeutic_relationship_importance <= 5);
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS patient_readiness INTEGER CHECK (patient_readiness >= 1 AND patient_readiness <= 5);
 
+-- Valence/arousal emotion model; detected_mood keeps one of the six legacy labels
+ALTER TABLE empathy_feedback ADD COLUMN IF NOT EXISTS emotion_label TEXT;
+ALTER TABLE empathy_feedback ADD COLUMN IF NOT EXISTS valence NUMERIC CHECK (valence >= -1 AND valence <= 1);
+ALTER TABLE empathy_feedback ADD COLUMN IF NOT EXISTS arousal NUMERIC CHECK (arousal >= -1 AND arousal <= 1);
+
+-- Confidence calibration inputs: `confidence` is what the user saw, raw_confidence the heuristic
+-- score before calibration, source_mix the modalities that fed it (e.g. 'self-report+voice')
+ALTER TABLE empathy_feedback ADD COLUMN IF NOT EXISTS raw_confidence NUMERIC CHECK (raw_confidence >= 0 AND raw_confidence <= 100);
+ALTER TABLE empathy_feedback ADD COLUMN IF NOT EXISTS source_mix TEXT;
+
 -- Ensure unique onboarding steps per user
 DO $$
 BEGIN
@@ -355,6 +366,11 @@ EXCEPTION
 END;
 $$;
 
+-- Onboarding check-ins carry the id of the questionnaire attempt, so a retried final
+-- submission finds the mood entry it already created instead of adding a second one
+ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS submission_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mood_entries_submission ON mood_entries(user_id, submission_id);
+
 -- Ensure insights are unique per description per user
 CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_insights_user_description ON ai_insights(user_id, description);
 
@@ -382,14 +398,23 @@ FROM mood_entries
 WHERE array_length(coping_strategies, 1) IS NOT NULL
 GROUP BY user_id, strategy;
 
+-- Hours and dates on the user's own clock; a missing or unrecognised profile time zone falls back to UTC
 CREATE OR REPLACE VIEW public.user_energy_by_hour AS
 SELECT
-  user_id,
-  EXTRACT(HOUR FROM entry_timestamp AT TIME ZONE 'UTC')::SMALLINT AS entry_hour,
-  DATE(entry_timestamp) AS entry_date,
-  ROUND(AVG(energy_level)::NUMERIC, 2) AS avg_energy
-FROM mood_entries
-GROUP BY user_id, entry_date, EXTRACT(HOUR FROM entry_timestamp AT TIME ZONE 'UTC')::SMALLINT;
+  local_entries.user_id,
+  EXTRACT(HOUR FROM local_entries.local_timestamp)::SMALLINT AS entry_hour,
+  local_entries.local_timestamp::DATE AS entry_date,
+  ROUND(AVG(local_entries.energy_level)::NUMERIC, 2) AS avg_energy
+FROM (
+  SELECT
+    mood_entries.user_id,
+    mood_entries.energy_level,
+    mood_entries.entry_timestamp AT TIME ZONE COALESCE(zones.name, 'UTC') AS local_timestamp
+  FROM mood_entries
+  LEFT JOIN profiles ON profiles.id = mood_entries.user_id
+  LEFT JOIN pg_timezone_names zones ON zones.name = profiles.timezone
+) AS local_entries
+GROUP BY local_entries.user_id, entry_date, entry_hour;
 
 -- Process onboarding payload in a single transaction
 CREATE OR REPLACE FUNCTION public.process_onboarding_check_in(
@@ -412,6 +437,7 @@ DECLARE
   entry_photo TEXT;
   entry_date DATE;
   entry_timestamp TIMESTAMPTZ;
+  entry_submission_id TEXT;
 BEGIN
   IF p_user_id IS NULL THEN
     RAISE EXCEPTION 'User id is required';
@@ -421,6 +447,18 @@ BEGIN
     RAISE EXCEPTION 'Mood entry payload is required';
   END IF;
 
+  -- Idempotent per submission: a repeat returns the entry created the first time
+  entry_submission_id := NULLIF(p_mood_entry ->> 'submissionId', '');
+  IF entry_submission_id IS NOT NULL THEN
+    SELECT id INTO inserted_entry_id
+    FROM mood_entries
+    WHERE user_id = p_user_id AND submission_id = entry_submission_id;
+
+    IF inserted_entry_id IS NOT NULL THEN
+      RETURN inserted_entry_id;
+    END IF;
+  END IF;
+
   -- Upsert responses per (user, step)
   IF COALESCE(jsonb_array_length(p_responses), 0) > 0 THEN
     FOR resp IN SELECT * FROM jsonb_array_elements(p_responses)
@@ -472,7 +510,8 @@ BEGIN
     therapy_duration,
     therapy_type,
     therapeutic_relationship_importance,
-    patient_readiness
+    patient_readiness,
+    submission_id
   )
   VALUES (
     p_user_id,
@@ -535,10 +574,20 @@ BEGIN
          ELSE NULL END,
     CASE WHEN (p_mood_entry ->> 'patientReadiness')::INTEGER IS NOT NULL
          THEN GREATEST(1, LEAST(5, (p_mood_entry ->> 'patientReadiness')::INTEGER))
-         ELSE NULL END
+         ELSE NULL END,
+    entry_submission_id
   )
+  ON CONFLICT (user_id, submission_id) DO NOTHING
   RETURNING id INTO inserted_entry_id;
 
+  -- A concurrent request with the same submission id got there first
+  IF inserted_entry_id IS NULL THEN
+    SELECT id INTO inserted_entry_id
+    FROM mood_entries
+    WHERE user_id = p_user_id AND submission_id = entry_submission_id;
+    RETURN inserted_entry_id;
+  END IF;
+
   -- Insert AI insights if summary analysis is provided
   IF p_summary IS NOT NULL AND
      jsonb_typeof(p_summary -> 'analysisSummary') = 'string' AND
@@ -645,3 +694,889 @@ VALUES
     true
   )
 ON CONFLICT DO NOTHING;
+
+-- Scheduled notification deliveries (daily reminders, weekly summaries)
+-- One row per user, kind, channel and local period; the unique key is what
+-- stops a reminder from ever being sent twice, even if cron runs overlap.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('daily_reminder', 'weekly_summary')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push', 'sms')),
+  period_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  transport TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_unique
+  ON notification_deliveries(user_id, kind, channel, period_key);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the scheduler with the service role; users can only read their own history
+CREATE POLICY "Users can view own notification deliveries"
+  ON notification_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Pending account deletions. Requesting deletion starts a grace period during
+-- which the user can undo; once purge_after passes, the purge job removes their
+-- uploads and the auth user, and ON DELETE CASCADE clears every other table.
+CREATE TABLE IF NOT EXISTS account_deletions (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE PRIMARY KEY,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL,
+  purge_after TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_purge_after ON account_deletions(purge_after);
+
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own account deletion"
+  ON account_deletions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Fitted confidence calibration curves, refreshed by the calibration job from
+-- empathy_feedback. One row per segment: every mood ('*|*'), a mood ('sad|*'),
+-- or a mood and source mix ('sad|self-report+voice'). bins holds the
+-- reliability curve as [{ lower, upper, predicted, observed, count }].
+CREATE TABLE IF NOT EXISTS confidence_calibrations (
+  segment_key TEXT PRIMARY KEY,
+  detected_mood TEXT,
+  source_mix TEXT,
+  sample_size INTEGER NOT NULL,
+  bins JSONB NOT NULL DEFAULT '[]'::jsonb,
+  fitted_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+ALTER TABLE confidence_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- Aggregates only, written by the calibration job with the service role
+CREATE POLICY "Authenticated users can view confidence calibrations"
+  ON confidence_calibrations FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Per-item recommendation feedback used to personalize future recommendations.
+-- item_id is a stable slug such as 'book:feeling-good-the-new-mood-therapy';
+-- only the latest vote per user and item is kept.
+CREATE TABLE IF NOT EXISTS recommendation_feedback (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  item_id TEXT NOT NULL,
+  item_kind TEXT NOT NULL CHECK (item_kind IN ('exercise', 'quote', 'song', 'book', 'place')),
+  item_title TEXT NOT NULL,
+  action_type TEXT CHECK (action_type IN ('breathing', 'journal', 'timer', 'contact')),
+  detected_mood TEXT,
+  feedback TEXT NOT NULL CHECK (feedback IN ('helpful', 'not_helpful')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendation_feedback_unique ON recommendation_feedback(user_id, item_id);
+CREATE INDEX IF NOT EXISTS idx_recommendation_feedback_user_id ON recommendation_feedback(user_id, updated_at DESC);
+
+ALTER TABLE recommendation_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recommendation feedback"
+  ON recommendation_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recommendation feedback"
+  ON recommendation_feedback FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recommendation feedback"
+  ON recommendation_feedback FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Every recommended item delivered to a user, newest first. Rotation rules read the last
+-- week so the same item isn't repeated; payload keeps what was shown for the history view.
+CREATE TABLE IF NOT EXISTS recommendation_history (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  item_id TEXT NOT NULL,
+  item_kind TEXT NOT NULL CHECK (item_kind IN ('exercise', 'quote', 'song', 'book', 'place')),
+  item_title TEXT NOT NULL,
+  action_type TEXT CHECK (action_type IN ('breathing', 'journal', 'timer', 'contact')),
+  detected_mood TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  -- 'empathy' for check-in responses, otherwise the resource route ('music', 'quote', 'book', 'place')
+  source TEXT NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_recommendation_history_user_id ON recommendation_history(user_id, delivered_at DESC);
+
+ALTER TABLE recommendation_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recommendation history"
+  ON recommendation_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recommendation history"
+  ON recommendation_history FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- One row per administration of a validated instrument (PHQ-9, GAD-7, PSS-10, UCLA-3).
+-- answers keeps the raw item responses in item order, before any reverse scoring, so results
+-- can be rescored; total_score and severity are the official scoring at submission time.
+CREATE TABLE IF NOT EXISTS assessment_results (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  instrument TEXT NOT NULL CHECK (instrument IN ('phq9', 'gad7', 'pss10', 'ucla3')),
+  answers SMALLINT[] NOT NULL,
+  total_score SMALLINT NOT NULL CHECK (total_score >= 0),
+  severity TEXT NOT NULL,
+  administered_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_results_user_id ON assessment_results(user_id, instrument, administered_at DESC);
+
+ALTER TABLE assessment_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own assessment results"
+  ON assessment_results FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own assessment results"
+  ON assessment_results FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- One Stanley-Brown safety plan per user: warning signs, coping strategies, people and places
+-- for distraction, people to ask for help, professionals and crisis lines, and a safer environment.
+-- Contact lists hold {"name", "phone"} objects.
+CREATE TABLE IF NOT EXISTS safety_plans (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL UNIQUE,
+  warning_signs TEXT[] NOT NULL DEFAULT '{}',
+  coping_strategies TEXT[] NOT NULL DEFAULT '{}',
+  distractions JSONB NOT NULL DEFAULT '[]',
+  support_contacts JSONB NOT NULL DEFAULT '[]',
+  professional_contacts JSONB NOT NULL DEFAULT '[]',
+  environment_safety TEXT[] NOT NULL DEFAULT '{}',
+  reasons_for_living TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE TRIGGER update_safety_plans_updated_at BEFORE UPDATE ON safety_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE safety_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own safety plan"
+  ON safety_plans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own safety plan"
+  ON safety_plans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own safety plan"
+  ON safety_plans FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Curated recommendation content: interventions (exercise), quotes, songs, books and places.
+-- Recommendations read active rows and fall back to the copy bundled in lib/content-seed.ts while
+-- the table is empty. Ids match recommendation_feedback.item_id, e.g. 'song:marconi-union-weightless'.
+CREATE TABLE IF NOT EXISTS content_items (
+  id TEXT PRIMARY KEY CHECK (id LIKE type || ':%'),
+  type TEXT NOT NULL CHECK (type IN ('exercise', 'quote', 'song', 'book', 'place')),
+  title TEXT NOT NULL,
+  creator TEXT,
+  summary TEXT,
+  -- actionLabel/actionType for exercises; benefits/foursquareCategories for places
+  details JSONB NOT NULL DEFAULT '{}',
+  mood_tags TEXT[] NOT NULL DEFAULT '{}',
+  evidence TEXT,
+  locale TEXT NOT NULL DEFAULT 'en',
+  -- spotify, appleMusic, amazon, cover
+  links JSONB NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT true,
+  priority INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_items_type ON content_items(type) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_content_items_mood_tags ON content_items USING GIN(mood_tags);
+
+CREATE TRIGGER update_content_items_updated_at BEFORE UPDATE ON content_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE content_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active content items"
+  ON content_items FOR SELECT
+  USING (active = true);
+
+-- Seed data for content_items, generated from lib/content-seed.ts
+INSERT INTO content_items (id, type, title, creator, summary, details, mood_tags, evidence, locale, links, priority)
+VALUES
+  (
+    'exercise:diaphragmatic-breathing-evidence-based-anxiety-reduction',
+    'exercise',
+    'Diaphragmatic Breathing (Evidence-Based Anxiety Reduction)',
+    NULL,
+    'Practice diaphragmatic breathing: Inhale slowly for 4 counts, hold for 7, exhale for 8. Repeat for 5 minutes. This technique activates the parasympathetic nervous system and has been shown to reduce anxiety symptoms in clinical trials.',
+    '{"actionLabel": "Begin breathing exercise", "actionType": "breathing"}',
+    ARRAY['anxious'],
+    'Clinical trials of slow diaphragmatic breathing for anxiety',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:gratitude-practice-evidence-based',
+    'exercise',
+    'Gratitude Practice (Evidence-Based)',
+    NULL,
+    'Document 3 specific things you''re grateful for today. Research shows regular gratitude practice increases overall well-being and life satisfaction.',
+    '{"actionLabel": "Open journal", "actionType": "journal"}',
+    ARRAY['happy'],
+    'Gratitude intervention research on well-being and life satisfaction',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:behavioral-activation-depression-treatment',
+    'exercise',
+    'Behavioral Activation (Depression Treatment)',
+    NULL,
+    'Engage in one small, meaningful activity despite low motivation. Behavioral activation is an evidence-based treatment for depression that helps break the cycle of withdrawal and sadness.',
+    '{"actionLabel": "View suggested activities", "actionType": "contact"}',
+    ARRAY['sad'],
+    'Behavioral activation, an established treatment for depression',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:restorative-break-15-minutes',
+    'exercise',
+    'Restorative Break (15 minutes)',
+    NULL,
+    'Take a 15-minute intentional break: Step outside for fresh air, practice gentle stretching, or simply rest. Brief restorative breaks improve cognitive function and emotional regulation.',
+    '{"actionLabel": "Set timer for break", "actionType": "timer"}',
+    ARRAY['tired'],
+    'Research on brief restorative breaks and attention recovery',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:progressive-muscle-relaxation-pmr',
+    'exercise',
+    'Progressive Muscle Relaxation (PMR)',
+    NULL,
+    'Practice PMR: Systematically tense and release each muscle group for 5-7 seconds, progressing from feet to head. This evidence-based technique reduces physiological arousal.',
+    '{"actionLabel": "Begin PMR exercise", "actionType": "breathing"}',
+    ARRAY['stressed'],
+    'Progressive muscle relaxation (Jacobson); lowers physiological arousal',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:goal-setting-exercise',
+    'exercise',
+    'Goal Setting Exercise',
+    NULL,
+    'Channel this energy into planning toward a personal goal. Write specific action steps. Goal-directed behavior during positive mood states increases achievement.',
+    '{"actionLabel": "Start planning", "actionType": "journal"}',
+    ARRAY['excited'],
+    'Goal-setting research during positive mood states',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:pause-and-cool-down-stop-skill',
+    'exercise',
+    'Pause and Cool Down (STOP Skill)',
+    NULL,
+    'Stop, take a step back, observe what you''re feeling in your body, then proceed mindfully. A few slow exhales before responding lowers physiological arousal and reduces reactive decisions.',
+    '{"actionLabel": "Start a cool-down breath", "actionType": "breathing"}',
+    ARRAY['angry'],
+    'DBT distress tolerance (STOP skill)',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:anchor-the-calm-mindful-savoring',
+    'exercise',
+    'Anchor the Calm (Mindful Savoring)',
+    NULL,
+    'Spend two minutes noticing what is helping you feel calm: your surroundings, your breath, your body. Savoring positive states strengthens your ability to return to them.',
+    '{"actionLabel": "Note what helps", "actionType": "journal"}',
+    ARRAY['calm'],
+    'Savoring research from positive psychology',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:three-good-things',
+    'exercise',
+    'Three Good Things',
+    NULL,
+    'Write down three things that went well today and why. This exercise has been shown to sustain well-being and build resilience for harder days.',
+    '{"actionLabel": "Open journal", "actionType": "journal"}',
+    ARRAY['content'],
+    'Three Good Things (Seligman et al., 2005)',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:hope-map-goals-and-pathways',
+    'exercise',
+    'Hope Map (Goals and Pathways)',
+    NULL,
+    'Write one goal you feel hopeful about, two possible pathways toward it, and one obstacle you can plan for. Hope theory research links clear pathways with sustained motivation.',
+    '{"actionLabel": "Start a hope map", "actionType": "journal"}',
+    ARRAY['hopeful'],
+    'Snyder''s hope theory (goals, pathways, agency)',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:one-small-connection',
+    'exercise',
+    'One Small Connection',
+    NULL,
+    'Send a short message to one person you trust, or join a low-pressure group activity this week. Small, regular contact is one of the most effective ways to ease loneliness.',
+    '{"actionLabel": "Reach out to someone", "actionType": "contact"}',
+    ARRAY['lonely'],
+    'Social connection interventions for loneliness',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:make-space-for-grief',
+    'exercise',
+    'Make Space for Grief',
+    NULL,
+    'Set aside ten minutes to write to or about what you''ve lost. Expressive writing gives grief a place to go and is linked with gradual emotional processing.',
+    '{"actionLabel": "Open journal", "actionType": "journal"}',
+    ARRAY['grieving'],
+    'Expressive writing research (Pennebaker)',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'exercise:grounding-through-the-senses-5-4-3-2-1',
+    'exercise',
+    'Grounding Through the Senses (5-4-3-2-1)',
+    NULL,
+    'Name five things you see, four you can touch, three you hear, two you smell and one you taste. Sensory grounding gently reconnects you with the present when feelings are muted.',
+    '{"actionLabel": "Start grounding timer", "actionType": "timer"}',
+    ARRAY['numb'],
+    'Sensory grounding from trauma-informed care',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:viktor-e-frankl-between-stimulus-and-response-there-is-a-space-in-that-space-is',
+    'quote',
+    'Between stimulus and response there is a space. In that space is our power to choose our response.',
+    'Viktor E. Frankl',
+    NULL,
+    '{}',
+    ARRAY['anxious'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:jim-rohn-happiness-is-not-by-chance-but-by-choice',
+    'quote',
+    'Happiness is not by chance, but by choice.',
+    'Jim Rohn',
+    NULL,
+    '{}',
+    ARRAY['happy'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:robert-frost-the-only-way-out-is-through',
+    'quote',
+    'The only way out is through.',
+    'Robert Frost',
+    NULL,
+    '{}',
+    ARRAY['sad'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:anne-lamott-almost-everything-will-work-again-if-you-unplug-it-for-a-few-minutes',
+    'quote',
+    'Almost everything will work again if you unplug it for a few minutes, including you.',
+    'Anne Lamott',
+    NULL,
+    '{}',
+    ARRAY['tired'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:timber-hawkeye-you-can-t-calm-the-storm-so-stop-trying-what-you-can-do-is-calm-y',
+    'quote',
+    'You can''t calm the storm, so stop trying. What you can do is calm yourself.',
+    'Timber Hawkeye',
+    NULL,
+    '{}',
+    ARRAY['stressed'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:steve-jobs-the-only-way-to-do-great-work-is-to-love-what-you-do',
+    'quote',
+    'The only way to do great work is to love what you do.',
+    'Steve Jobs',
+    NULL,
+    '{}',
+    ARRAY['excited'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:ralph-waldo-emerson-for-every-minute-you-remain-angry-you-give-up-sixty-seconds',
+    'quote',
+    'For every minute you remain angry, you give up sixty seconds of peace of mind.',
+    'Ralph Waldo Emerson',
+    NULL,
+    '{}',
+    ARRAY['angry'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:hermann-hesse-within-you-there-is-a-stillness-and-a-sanctuary-to-which-you-can-r',
+    'quote',
+    'Within you, there is a stillness and a sanctuary to which you can retreat at any time.',
+    'Hermann Hesse',
+    NULL,
+    '{}',
+    ARRAY['calm'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:socrates-contentment-is-natural-wealth-luxury-is-artificial-poverty',
+    'quote',
+    'Contentment is natural wealth; luxury is artificial poverty.',
+    'Socrates',
+    NULL,
+    '{}',
+    ARRAY['content'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:emily-dickinson-hope-is-the-thing-with-feathers-that-perches-in-the-soul',
+    'quote',
+    'Hope is the thing with feathers that perches in the soul.',
+    'Emily Dickinson',
+    NULL,
+    '{}',
+    ARRAY['hopeful'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:ram-dass-we-re-all-just-walking-each-other-home',
+    'quote',
+    'We''re all just walking each other home.',
+    'Ram Dass',
+    NULL,
+    '{}',
+    ARRAY['lonely'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:jamie-anderson-grief-is-just-love-with-no-place-to-go',
+    'quote',
+    'Grief is just love with no place to go.',
+    'Jamie Anderson',
+    NULL,
+    '{}',
+    ARRAY['grieving'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:jonatan-martensson-feelings-are-much-like-waves-we-can-t-stop-them-from-coming-b',
+    'quote',
+    'Feelings are much like waves, we can''t stop them from coming but we can choose which one to surf.',
+    'Jonatan Mårtensson',
+    NULL,
+    '{}',
+    ARRAY['numb'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'quote:a-a-milne-you-are-braver-than-you-believe-stronger-than-you-seem-and-smarter-tha',
+    'quote',
+    'You are braver than you believe, stronger than you seem, and smarter than you think.',
+    'A.A. Milne',
+    NULL,
+    '{}',
+    ARRAY['anxious'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'quote:rumi-the-wound-is-the-place-where-the-light-enters-you',
+    'quote',
+    'The wound is the place where the light enters you.',
+    'Rumi',
+    NULL,
+    '{}',
+    ARRAY['sad'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'song:marconi-union-weightless',
+    'song',
+    'Weightless',
+    'Marconi Union',
+    'Clinical studies show this composition can reduce anxiety levels through carefully designed harmonies.',
+    '{}',
+    ARRAY['anxious'],
+    'Mindlab International relaxation study (2011)',
+    'en',
+    '{"spotify": "https://open.spotify.com/search/Weightless%20Marconi%20Union", "appleMusic": "https://music.apple.com/search?term=Weightless%20Marconi%20Union"}',
+    1
+  ),
+  (
+    'song:the-beatles-here-comes-the-sun',
+    'song',
+    'Here Comes the Sun',
+    'The Beatles',
+    'Uplifting melody that matches and amplifies positive energy.',
+    '{}',
+    ARRAY['happy'],
+    NULL,
+    'en',
+    '{"spotify": "https://open.spotify.com/search/Here%20Comes%20the%20Sun%20Beatles", "appleMusic": "https://music.apple.com/search?term=Here%20Comes%20the%20Sun%20Beatles"}',
+    1
+  ),
+  (
+    'song:lord-huron-the-night-we-met',
+    'song',
+    'The Night We Met',
+    'Lord Huron',
+    'Music therapy research suggests validating emotional experiences through music can provide cathartic release.',
+    '{}',
+    ARRAY['sad'],
+    'Music therapy research on emotional validation',
+    'en',
+    '{"spotify": "https://open.spotify.com/search/The%20Night%20We%20Met%20Lord%20Huron", "appleMusic": "https://music.apple.com/search?term=The%20Night%20We%20Met%20Lord%20Huron"}',
+    1
+  ),
+  (
+    'song:debussy-clair-de-lune',
+    'song',
+    'Clair de Lune',
+    'Debussy',
+    'Gentle, restorative classical piece that promotes relaxation.',
+    '{}',
+    ARRAY['tired'],
+    NULL,
+    'en',
+    '{"spotify": "https://open.spotify.com/search/Clair%20de%20Lune%20Debussy", "appleMusic": "https://music.apple.com/search?term=Clair%20de%20Lune%20Debussy"}',
+    1
+  ),
+  (
+    'song:sia-breathe-me',
+    'song',
+    'Breathe Me',
+    'Sia',
+    'Emotionally resonant music can facilitate emotional processing and self-compassion.',
+    '{}',
+    ARRAY['stressed'],
+    NULL,
+    'en',
+    '{"spotify": "https://open.spotify.com/search/Breathe%20Me%20Sia", "appleMusic": "https://music.apple.com/search?term=Breathe%20Me%20Sia"}',
+    1
+  ),
+  (
+    'song:onerepublic-good-life',
+    'song',
+    'Good Life',
+    'OneRepublic',
+    'Amplifies positive momentum and celebrates living fully.',
+    '{}',
+    ARRAY['excited'],
+    NULL,
+    'en',
+    '{"spotify": "https://open.spotify.com/search/Good%20Life%20OneRepublic", "appleMusic": "https://music.apple.com/search?term=Good%20Life%20OneRepublic"}',
+    1
+  ),
+  (
+    'book:the-anxiety-and-phobia-workbook',
+    'book',
+    'The Anxiety and Phobia Workbook',
+    'Edmund J. Bourne, PhD',
+    'Evidence-based CBT and mindfulness techniques for managing anxiety disorders.',
+    '{}',
+    ARRAY['anxious'],
+    'CBT and mindfulness workbook',
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=The+Anxiety+and+Phobia+Workbook"}',
+    1
+  ),
+  (
+    'book:the-book-of-joy',
+    'book',
+    'The Book of Joy',
+    'Dalai Lama & Desmond Tutu',
+    'Deepens appreciation for joy and teaches cultivating lasting happiness.',
+    '{}',
+    ARRAY['happy'],
+    NULL,
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=The+Book+of+Joy"}',
+    1
+  ),
+  (
+    'book:feeling-good-the-new-mood-therapy',
+    'book',
+    'Feeling Good: The New Mood Therapy',
+    'David D. Burns, MD',
+    'Evidence-based cognitive behavioral techniques for managing depression.',
+    '{}',
+    ARRAY['sad'],
+    'CBT self-help; bibliotherapy trials for depression',
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=Feeling+Good+David+Burns"}',
+    1
+  ),
+  (
+    'book:rest',
+    'book',
+    'Rest',
+    'Alex Soojung-Kim Pang',
+    'The science of productive rest and why downtime is essential.',
+    '{}',
+    ARRAY['tired'],
+    NULL,
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=Rest+Alex+Soojung-Kim+Pang"}',
+    1
+  ),
+  (
+    'book:the-relaxation-and-stress-reduction-workbook',
+    'book',
+    'The Relaxation and Stress Reduction Workbook',
+    'Martha Davis, PhD',
+    'Comprehensive evidence-based techniques for stress management.',
+    '{}',
+    ARRAY['stressed'],
+    'CBT and relaxation training workbook',
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=Relaxation+Stress+Reduction+Workbook"}',
+    1
+  ),
+  (
+    'book:flow',
+    'book',
+    'Flow',
+    'Mihaly Csikszentmihalyi',
+    'The psychology of optimal experience and peak performance.',
+    '{}',
+    ARRAY['excited'],
+    NULL,
+    'en',
+    '{"amazon": "https://www.amazon.com/s?k=Flow+Csikszentmihalyi"}',
+    1
+  ),
+  (
+    'place:a-quiet-natural-space-park-or-botanical-garden',
+    'place',
+    'A quiet natural space (park or botanical garden)',
+    NULL,
+    'Nature-based therapy has demonstrated efficacy in reducing cortisol and anxiety symptoms',
+    '{"benefits": "Natural environments support nervous system regulation.", "foursquareCategories": "16032"}',
+    ARRAY['anxious'],
+    'Nature exposure and cortisol research',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:a-hilltop-viewpoint',
+    'place',
+    'A hilltop viewpoint',
+    NULL,
+    'Expansive views amplify positive emotions',
+    '{"benefits": "Wide open spaces enhance feelings of possibility and freedom.", "foursquareCategories": "13035"}',
+    ARRAY['happy'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:a-well-lit-communal-space-cafe-or-library',
+    'place',
+    'A well-lit communal space (café or library)',
+    NULL,
+    'Gentle social exposure combats isolation, a key maintaining factor in depression',
+    '{"benefits": "Low-pressure environment that provides structure and human connection.", "foursquareCategories": "13035"}',
+    ARRAY['sad'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:a-quiet-park-bench-under-trees',
+    'place',
+    'A quiet park bench under trees',
+    NULL,
+    'Restorative environment with nature sounds',
+    '{"benefits": "Dappled sunlight and bird songs provide sensory restoration.", "foursquareCategories": "16032"}',
+    ARRAY['tired'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:a-natural-water-setting-lake-ocean-or-stream',
+    'place',
+    'A natural water setting (lake, ocean, or stream)',
+    NULL,
+    'Blue space exposure has been shown to reduce physiological markers of stress',
+    '{"benefits": "Rhythmic water sounds promote parasympathetic nervous system activation.", "foursquareCategories": "16021"}',
+    ARRAY['stressed'],
+    'Blue space research on physiological stress',
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:an-inspiring-creative-space-or-museum',
+    'place',
+    'An inspiring creative space or museum',
+    NULL,
+    'Novel environments stimulate dopamine and creative thinking',
+    '{"benefits": "New experiences channel excitement into growth and learning.", "foursquareCategories": "10027"}',
+    ARRAY['excited'],
+    NULL,
+    'en',
+    '{}',
+    1
+  ),
+  (
+    'place:a-botanical-garden',
+    'place',
+    'A botanical garden',
+    NULL,
+    'Nature exposure reduces cortisol by 21%',
+    '{"benefits": "Green spaces calm the nervous system and promote grounding", "foursquareCategories": "16032"}',
+    ARRAY['anxious'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'place:a-scenic-viewpoint',
+    'place',
+    'A scenic viewpoint',
+    NULL,
+    'Expansive views amplify positive emotions',
+    '{"benefits": "Height enhances feelings of possibility and freedom", "foursquareCategories": "13035"}',
+    ARRAY['happy'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'place:a-cozy-cafe-with-natural-light',
+    'place',
+    'A cozy café with natural light',
+    NULL,
+    'Gentle social exposure and warm atmosphere',
+    '{"benefits": "Soft ambient noise eases loneliness without pressure", "foursquareCategories": "13035"}',
+    ARRAY['sad'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'place:a-nearby-body-of-water',
+    'place',
+    'A nearby body of water',
+    NULL,
+    'Blue spaces calm the nervous system',
+    '{"benefits": "Water sounds lower blood pressure and reduce tension", "foursquareCategories": "16021"}',
+    ARRAY['stressed'],
+    NULL,
+    'en',
+    '{}',
+    0
+  ),
+  (
+    'place:an-art-museum-or-gallery',
+    'place',
+    'An art museum or gallery',
+    NULL,
+    'Channel energy into inspiration',
+    '{"benefits": "Visual engagement sustains positive momentum", "foursquareCategories": "10027"}',
+    ARRAY['excited'],
+    NULL,
+    'en',
+    '{}',
+    0
+  )
+ON CONFLICT (id) DO NOTHING;
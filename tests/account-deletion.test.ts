@@ -0,0 +1,105 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  computePurgeAfter,
+  deleteUserBlobs,
+  purgeDueAccountDeletions,
+  type BlobStore,
+} from "../lib/account-deletion"
+import { accountDeletionSchema } from "../lib/validations/account"
+
+function createBlobStore(urls: string[], pageSize = 2): BlobStore & { remaining: string[] } {
+  const store = {
+    remaining: [...urls],
+    async list({ prefix, cursor }: { prefix: string; cursor?: string }) {
+      const matching = store.remaining.filter((url) => new URL(url).pathname.slice(1).startsWith(prefix))
+      const offset = cursor ? Number(cursor) : 0
+      const blobs = matching.slice(offset, offset + pageSize).map((url) => ({ url }))
+      const hasMore = offset + pageSize < matching.length
+      return { blobs, hasMore, cursor: hasMore ? String(offset + pageSize) : undefined }
+    },
+    async del(toDelete: string[]) {
+      store.remaining = store.remaining.filter((url) => !toDelete.includes(url))
+    },
+  }
+  return store
+}
+
+function createSupabaseStub(dueUserIds: string[], failingUserIds: string[] = []) {
+  const deleted: string[] = []
+  const client = {
+    from: () => ({
+      select: () => ({
+        lte: async () => ({ data: dueUserIds.map((user_id) => ({ user_id })), error: null }),
+      }),
+    }),
+    auth: {
+      admin: {
+        deleteUser: async (userId: string) => {
+          if (failingUserIds.includes(userId)) {
+            return { error: new Error("auth unavailable") }
+          }
+          deleted.push(userId)
+          return { error: null }
+        },
+      },
+    },
+  }
+  return { client: client as unknown as SupabaseClient, deleted }
+}
+
+test("computePurgeAfter adds the grace period", () => {
+  const now = new Date("2024-11-04T10:00:00Z")
+  assert.equal(ACCOUNT_DELETION_GRACE_DAYS, 7)
+  assert.equal(computePurgeAfter(now).toISOString(), "2024-11-11T10:00:00.000Z")
+})
+
+test("accountDeletionSchema requires a password and the typed confirmation", () => {
+  assert.ok(accountDeletionSchema.safeParse({ password: "secret", confirmation: "DELETE" }).success)
+  assert.ok(!accountDeletionSchema.safeParse({ password: "secret", confirmation: "delete" }).success)
+  assert.ok(!accountDeletionSchema.safeParse({ password: "", confirmation: "DELETE" }).success)
+})
+
+test("deleteUserBlobs pages through the user's prefix only", async () => {
+  const store = createBlobStore([
+    "https://blob.example.com/user-1/1-a.webm",
+    "https://blob.example.com/user-1/2-b.jpg",
+    "https://blob.example.com/user-1/3-c.png",
+    "https://blob.example.com/user-10/1-x.png",
+    "https://blob.example.com/user-2/1-y.png",
+  ])
+
+  assert.equal(await deleteUserBlobs("user-1", store), 3)
+  assert.deepEqual(store.remaining, [
+    "https://blob.example.com/user-10/1-x.png",
+    "https://blob.example.com/user-2/1-y.png",
+  ])
+})
+
+test("purgeDueAccountDeletions removes blobs before the auth user and keeps failures for retry", async () => {
+  const store = createBlobStore([
+    "https://blob.example.com/user-1/1-a.webm",
+    "https://blob.example.com/user-2/1-b.jpg",
+  ])
+  const { client, deleted } = createSupabaseStub(["user-1", "user-2"], ["user-2"])
+
+  const originalError = console.error
+  console.error = () => {}
+  try {
+    const result = await purgeDueAccountDeletions(client, store)
+    assert.deepEqual(result, { due: 2, purged: 1, failed: 1, blobsDeleted: 2 })
+  } finally {
+    console.error = originalError
+  }
+
+  assert.deepEqual(deleted, ["user-1"])
+  assert.deepEqual(store.remaining, [])
+})
+
+test("purgeDueAccountDeletions works without a blob store", async () => {
+  const { client, deleted } = createSupabaseStub(["user-3"])
+  assert.deepEqual(await purgeDueAccountDeletions(client, null), { due: 1, purged: 1, failed: 0, blobsDeleted: 0 })
+  assert.deepEqual(deleted, ["user-3"])
+})
@@ -0,0 +1,40 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { parseGoalDraft, selectGoalToCelebrate } from "../lib/agent-commands"
+import { agentCommandSchema } from "../lib/validations/agent"
+import type { AgentGoal } from "../types/agent"
+
+const goals: AgentGoal[] = [
+  { id: "a", goal: "Meditate 10 minutes", target: 10, current: 4, unit: "minutes", progress: 40, isActive: true },
+  { id: "b", goal: "Walk outside", target: 5, current: 4, unit: "days", progress: 80, isActive: true },
+  { id: "c", goal: "Journal nightly", target: 7, current: 7, unit: "days", progress: 100, isActive: false },
+]
+
+test("parseGoalDraft extracts target and unit from free text", () => {
+  const draft = parseGoalDraft("  Meditate   10 Minutes a day ")
+  assert.equal(draft.goal, "Meditate 10 Minutes a day")
+  assert.equal(draft.targetValue, 10)
+  assert.equal(draft.unit, "minutes")
+})
+
+test("parseGoalDraft falls back to a week-long streak", () => {
+  const draft = parseGoalDraft("Drink more water")
+  assert.equal(draft.targetValue, 7)
+  assert.equal(draft.unit, "days")
+})
+
+test("selectGoalToCelebrate matches typed text before progress", () => {
+  assert.equal(selectGoalToCelebrate(goals, "meditate")?.id, "a")
+  assert.equal(selectGoalToCelebrate(goals)?.id, "b")
+  assert.equal(selectGoalToCelebrate(goals, undefined, "c")?.id, "c")
+  assert.equal(selectGoalToCelebrate([goals[2]]), null)
+})
+
+test("agentCommandSchema validates command arguments", () => {
+  const parsed = agentCommandSchema.parse({ command: "track_goals" })
+  assert.deepEqual(parsed, { command: "track_goals", args: {} })
+
+  assert.throws(() => agentCommandSchema.parse({ command: "analyze_mood", args: { text: "" } }))
+  assert.throws(() => agentCommandSchema.parse({ command: "fetch_resources", args: { resourceType: "film" } }))
+  assert.throws(() => agentCommandSchema.parse({ command: "delete_everything", args: {} }))
+})
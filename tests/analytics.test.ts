@@ -2,9 +2,11 @@ import test from "node:test"
 import assert from "node:assert/strict"
 import {
   aggregateEnergyByEntries,
+  computeStreak,
   normalizeCopingEffectiveness,
   normalizeTriggerFrequency,
 } from "../lib/analytics"
+import { getLocalTime } from "../lib/timezone"
 import type { MoodEntry } from "../types/wellness"
 
 const sampleEntries: MoodEntry[] = [
@@ -65,3 +67,57 @@ test("aggregateEnergyByEntries buckets by day and period", () => {
   assert.equal(lookup["Fri-14"], 8)
   assert.equal(lookup["Fri-20"], 4)
 })
+
+function energyAt(createdAt: string): MoodEntry {
+  return {
+    id: createdAt,
+    date: createdAt.slice(0, 10),
+    mood: 5,
+    energy: 5,
+    emotions: [],
+    triggers: [],
+    coping: [],
+    type: "text",
+    createdAt,
+  }
+}
+
+function bucketKeys(entries: MoodEntry[], timeZone?: string): string[] {
+  return aggregateEnergyByEntries(entries, timeZone).map((bucket) => `${bucket.day}-${bucket.hour}`)
+}
+
+test("aggregateEnergyByEntries buckets evening check-ins on the user's own day", () => {
+  // 21:30 on Friday in New York is already Saturday in UTC
+  const evening = [energyAt("2024-10-12T01:30:00Z")]
+  assert.deepEqual(bucketKeys(evening), ["Sat-20"])
+  assert.deepEqual(bucketKeys(evening, "America/New_York"), ["Fri-20"])
+  assert.deepEqual(bucketKeys(evening, "Not/AZone"), ["Sat-20"])
+})
+
+test("aggregateEnergyByEntries follows DST transitions rather than a fixed offset", () => {
+  // Spring forward (2024-03-10): 09:30 UTC is 05:30 EDT, a morning check-in; at UTC-5 it would be 04:30
+  assert.deepEqual(bucketKeys([energyAt("2024-03-10T09:30:00Z")], "America/New_York"), ["Sun-8"])
+  // Fall back (2024-11-03): 16:30 UTC is 11:30 EST; at UTC-4 it would be 12:30, the afternoon bucket
+  assert.deepEqual(bucketKeys([energyAt("2024-11-03T16:30:00Z")], "America/New_York"), ["Sun-8"])
+  // Sydney moved to UTC+11 on 2024-10-06, so 18:30 UTC the next day is 05:30 on Monday rather than 04:30
+  assert.deepEqual(bucketKeys([energyAt("2024-10-06T18:30:00Z")], "Australia/Sydney"), ["Mon-8"])
+})
+
+test("computeStreak counts local calendar days across DST changes", () => {
+  const days = (...dates: string[]) => dates.map((date) => ({ date }))
+
+  // Spring forward and fall back nights are 23 and 25 hours long
+  assert.equal(computeStreak(days("2024-03-11", "2024-03-10", "2024-03-09")), 3)
+  assert.equal(computeStreak(days("2024-11-04", "2024-11-03", "2024-11-02", "2024-11-02")), 3)
+  assert.equal(computeStreak(days("2024-11-04", "2024-11-02")), 1)
+})
+
+test("computeStreak ends once the user's local today has moved past yesterday", () => {
+  const entries = [{ date: "2024-11-03" }, { date: "2024-11-02" }]
+  // 03:00 UTC on Nov 4 is still the evening of Nov 3 in New York
+  const now = new Date("2024-11-04T03:00:00Z")
+
+  assert.equal(computeStreak(entries, getLocalTime(now, "America/New_York").date), 2)
+  assert.equal(computeStreak(entries, getLocalTime(now, "UTC").date), 2)
+  assert.equal(computeStreak(entries, "2024-11-05"), 0)
+})
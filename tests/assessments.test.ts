@@ -0,0 +1,185 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import {
+  describeAssessmentsForPrompt,
+  latestAssessmentScores,
+  mergeSymptomRatings,
+  scoreAssessment,
+  summarizeAssessmentTrends,
+  symptomRatingsFromAssessments,
+  type AssessmentResult,
+} from "../lib/assessments"
+import { detectMoodFromSymptoms, generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider, type ChatRequest } from "../lib/llm"
+
+const NOW = new Date("2025-03-10T12:00:00Z")
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function result(instrument: AssessmentResult["instrument"], answers: number[], days: number): AssessmentResult {
+  const score = scoreAssessment(instrument, answers)
+  return {
+    id: `${instrument}-${days}`,
+    instrument,
+    answers,
+    total: score.total,
+    severity: score.severity,
+    administeredAt: daysAgo(days),
+  }
+}
+
+test("PHQ-9 and GAD-7 totals fall into the published severity bands", () => {
+  const phq9 = (total: number) =>
+    scoreAssessment(
+      "phq9",
+      Array.from({ length: 9 }, (_, index) => Math.min(3, Math.max(0, total - index * 3))),
+    ).severity
+
+  assert.equal(phq9(4), "minimal")
+  assert.equal(phq9(5), "mild")
+  assert.equal(phq9(14), "moderate")
+  assert.equal(phq9(15), "moderately_severe")
+  assert.equal(phq9(27), "severe")
+
+  const gad7 = scoreAssessment("gad7", [3, 3, 3, 3, 3, 0, 0])
+  assert.equal(gad7.total, 15)
+  assert.equal(gad7.severity, "severe")
+  assert.equal(gad7.maxTotal, 21)
+})
+
+test("PSS-10 reverses the positively worded items", () => {
+  const score = scoreAssessment("pss10", [0, 0, 0, 4, 4, 0, 4, 4, 0, 0])
+  assert.equal(score.total, 0)
+  assert.deepEqual(score.itemScores, [0, 0, 0, 0, 0, 0, 0, 0, 0, 0])
+
+  const high = scoreAssessment("pss10", [4, 4, 4, 0, 0, 4, 0, 0, 4, 4])
+  assert.equal(high.total, 40)
+  assert.equal(high.severity, "high")
+})
+
+test("incomplete or out-of-range answers are rejected", () => {
+  assert.throws(() => scoreAssessment("gad7", [1, 1, 1]), RangeError)
+  assert.throws(() => scoreAssessment("ucla3", [0, 1, 1]), RangeError)
+  assert.throws(() => scoreAssessment("phq9", [0, 0, 0, 0, 0, 0, 0, 0, 1.5]), RangeError)
+
+  const lonely = scoreAssessment("ucla3", [2, 2, 2])
+  assert.equal(lonely.total, 6)
+  assert.equal(lonely.severity, "lonely")
+})
+
+test("trends report change, history and when each instrument is due again", () => {
+  const trends = summarizeAssessmentTrends(
+    [result("gad7", [1, 1, 1, 1, 1, 1, 0], 3), result("gad7", [2, 2, 2, 2, 1, 1, 0], 17)],
+    NOW,
+  )
+
+  const gad7 = trends.find((trend) => trend.instrument === "gad7")!
+  assert.equal(gad7.change, -4)
+  assert.equal(gad7.due, false)
+  assert.equal(gad7.nextDueAt, daysAgo(3 - 14))
+  assert.deepEqual(
+    gad7.history.map((point) => point.total),
+    [10, 6],
+  )
+
+  const phq9 = trends.find((trend) => trend.instrument === "phq9")!
+  assert.equal(phq9.latest, null)
+  assert.equal(phq9.due, true)
+  assert.equal(trends.length, 4)
+})
+
+test("standardized scores map onto symptom ratings, and PHQ-9 item 9 onto suicidal ideation", () => {
+  const scores = latestAssessmentScores(
+    [
+      result("phq9", [2, 2, 2, 2, 1, 1, 1, 1, 1], 2),
+      result("ucla3", [3, 3, 2], 5),
+      // Too old to describe the current period
+      result("pss10", [4, 4, 4, 0, 0, 4, 0, 0, 4, 4], 45),
+    ],
+    NOW,
+  )
+
+  assert.deepEqual(Object.keys(scores).sort(), ["phq9", "ucla3"])
+  assert.deepEqual(symptomRatingsFromAssessments(scores), { sadness: 3, loneliness: 3, suicideTrends: 2 })
+
+  // Standardized scores replace ad-hoc ratings; suicidal ideation stays the check-in's own rating
+  assert.deepEqual(mergeSymptomRatings({ sadness: 1, stress: 4, suicideTrends: 1 }, scores), {
+    sadness: 3,
+    stress: 4,
+    loneliness: 3,
+    suicideTrends: 1,
+  })
+  assert.deepEqual(mergeSymptomRatings({ sadness: 1 }, scores), { sadness: 3, loneliness: 3 })
+  assert.deepEqual(mergeSymptomRatings({ anxiety: 2 }, undefined), { anxiety: 2 })
+
+  assert.equal(detectMoodFromSymptoms({ sadness: 1, loneliness: 1 }), "tired")
+  assert.equal(detectMoodFromSymptoms({ sadness: 1, loneliness: 1 }, scores), "sad")
+})
+
+test("the empathy prompt reports standardized totals instead of the ratings they replace", async () => {
+  const prompts: string[] = []
+  const provider = createFixtureProvider({
+    responses: {
+      empathy: (request: ChatRequest) => {
+        prompts.push(request.prompt)
+        return "not json"
+      },
+    },
+  })
+  const scores = latestAssessmentScores([result("gad7", [2, 2, 2, 2, 1, 1, 1], 1)], NOW)
+
+  await generateEmpathyRecommendations(
+    {
+      moodScore: 4,
+      detectedMood: "anxious",
+      emotions: [],
+      energyLevel: 5,
+      symptomRatings: { anxiety: 1, stress: 3 },
+      assessments: scores,
+    },
+    { llm: provider },
+  )
+
+  assert.deepEqual(describeAssessmentsForPrompt(scores), ["Standardized measures: GAD-7 11/21 (moderate)"])
+  assert.match(prompts[0], /Standardized measures: GAD-7 11\/21 \(moderate\)/)
+  assert.match(prompts[0], /Symptom Severity \(past 2 weeks\): Stress: 3\/5$/m)
+})
+
+test("a stored PHQ-9 item 9 answer offers the safety plan without escalating later check-ins", async () => {
+  // Screened (and alerted on) when it was submitted, 20 days before this calm check-in
+  const scores = latestAssessmentScores([result("phq9", [1, 1, 1, 1, 0, 0, 0, 0, 2], 20)], NOW)
+  let crisisAlerts = 0
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 7, detectedMood: "calm", emotions: [], energyLevel: 6, assessments: scores },
+    {
+      llm: createFixtureProvider(),
+      onCrisis: () => {
+        crisisAlerts += 1
+      },
+    },
+  )
+
+  assert.equal(response.crisis, undefined)
+  assert.equal(crisisAlerts, 0)
+  assert.equal(response.safetyPlanSuggested, true)
+})
+
+test("the check-in's own suicideTrends rating still escalates alongside stored assessments", async () => {
+  const scores = latestAssessmentScores([result("phq9", [1, 1, 1, 1, 0, 0, 0, 0, 0], 1)], NOW)
+  const response = await generateEmpathyRecommendations(
+    {
+      moodScore: 5,
+      detectedMood: "tired",
+      emotions: [],
+      energyLevel: 5,
+      symptomRatings: { suicideTrends: 4 },
+      assessments: scores,
+    },
+    { llm: createFixtureProvider() },
+  )
+
+  assert.equal(response.crisis?.severity, "high")
+})
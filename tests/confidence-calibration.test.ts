@@ -0,0 +1,166 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import {
+  applyCalibration,
+  buildSourceMix,
+  fitCalibration,
+  MIN_SEGMENT_SAMPLES,
+  runCalibrationFit,
+  toCalibrationSample,
+  type CalibrationSample,
+} from "../lib/confidence-calibration"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+
+// `count` samples at one raw score, of which `helpful` were rated helpful
+function samplesAt(
+  rawConfidence: number,
+  count: number,
+  helpful: number,
+  mood = "sad",
+  sourceMix: string | null = "self-report",
+): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => ({ rawConfidence, mood, sourceMix, helpful: i < helpful }))
+}
+
+test("source mixes are order-independent", () => {
+  assert.equal(buildSourceMix(["voice", "self-report", "voice", "image"]), "image+self-report+voice")
+})
+
+test("too little feedback leaves confidence uncalibrated", () => {
+  const model = fitCalibration(samplesAt(80, MIN_SEGMENT_SAMPLES - 1, 5))
+  assert.deepEqual(model.segments, {})
+  assert.equal(applyCalibration(model, { rawConfidence: 80, mood: "sad", sourceMix: "self-report" }), 80)
+  assert.equal(applyCalibration(undefined, { rawConfidence: 62, mood: "sad", sourceMix: "self-report" }), 62)
+})
+
+test("overconfident scores are pulled down toward the observed helpful rate", () => {
+  const model = fitCalibration([...samplesAt(50, 40, 20), ...samplesAt(90, 40, 24)])
+  const global = model.segments["*|*"]
+
+  assert.equal(global.sampleSize, 80)
+  assert.deepEqual(
+    global.bins.map((bin) => [bin.lower, bin.predicted, bin.count]),
+    [
+      [45, 50, 40],
+      [85, 90, 40],
+    ],
+  )
+  // 24 of 40 helpful, smoothed with 10 pseudo-ratings at the overall 55% rate
+  assert.equal(global.bins[1].observed, 59)
+
+  // A mood without its own curve reads straight off the global one
+  const calibrated = applyCalibration(model, { rawConfidence: 90, mood: "calm", sourceMix: "text" })
+  assert.equal(calibrated, 59)
+  const midway = applyCalibration(model, { rawConfidence: 70, mood: "calm", sourceMix: "text" })
+  assert.ok(midway > 50 && midway < 59)
+})
+
+test("the fitted curve never decreases as raw confidence rises", () => {
+  const model = fitCalibration([...samplesAt(50, 40, 30), ...samplesAt(70, 40, 10), ...samplesAt(90, 40, 36)])
+  const observed = model.segments["*|*"].bins.map((bin) => bin.observed)
+
+  for (let i = 1; i < observed.length; i++) {
+    assert.ok(observed[i] >= observed[i - 1], `bin ${i} dropped: ${observed.join(", ")}`)
+  }
+})
+
+test("the most specific segment with enough feedback wins", () => {
+  const model = fitCalibration([
+    ...samplesAt(80, 40, 36, "anxious", "self-report+voice"),
+    ...samplesAt(80, 40, 8, "anxious", "image"),
+    ...samplesAt(80, 40, 20, "sad", "self-report"),
+    ...samplesAt(80, 10, 0, "lonely", "text"),
+  ])
+
+  assert.ok(model.segments["anxious|self-report+voice"])
+  assert.ok(model.segments["anxious|*"])
+  assert.equal(model.segments["lonely|*"], undefined)
+
+  const voice = applyCalibration(model, { rawConfidence: 80, mood: "anxious", sourceMix: "self-report+voice" })
+  const image = applyCalibration(model, { rawConfidence: 80, mood: "anxious", sourceMix: "image" })
+  const unseenMix = applyCalibration(model, { rawConfidence: 80, mood: "anxious", sourceMix: "text" })
+  const lonely = applyCalibration(model, { rawConfidence: 80, mood: "lonely", sourceMix: "text" })
+
+  assert.ok(voice > unseenMix && unseenMix > image)
+  assert.equal(lonely, Math.round(model.segments["*|*"].bins[0].observed))
+})
+
+test("feedback saved before calibration falls back to the shown confidence", () => {
+  assert.deepEqual(
+    toCalibrationSample({
+      raw_confidence: null,
+      confidence: "72",
+      detected_mood: "sad",
+      emotion_label: "lonely",
+      source_mix: null,
+      feedback: "helpful",
+    }),
+    { rawConfidence: 72, mood: "lonely", sourceMix: null, helpful: true },
+  )
+  assert.equal(
+    toCalibrationSample({
+      raw_confidence: null,
+      confidence: null,
+      detected_mood: "sad",
+      emotion_label: null,
+      source_mix: null,
+      feedback: "helpful",
+    }),
+    null,
+  )
+})
+
+test("runCalibrationFit upserts qualifying segments and prunes stale ones", async () => {
+  const rows = samplesAt(80, 40, 30).map((sample) => ({
+    raw_confidence: sample.rawConfidence,
+    confidence: 60,
+    detected_mood: sample.mood,
+    emotion_label: null,
+    source_mix: sample.sourceMix,
+    feedback: sample.helpful ? "helpful" : "not_helpful",
+  }))
+  const upserted: Array<{ segment_key: string }> = []
+  let prunedBefore: string | null = null
+
+  const client = {
+    from: (table: string) =>
+      table === "empathy_feedback"
+        ? { select: () => ({ order: () => ({ limit: async () => ({ data: rows, error: null }) }) }) }
+        : {
+            upsert: async (values: Array<{ segment_key: string }>) => {
+              upserted.push(...values)
+              return { error: null }
+            },
+            delete: () => ({
+              lt: async (_column: string, value: string) => {
+                prunedBefore = value
+                return { error: null }
+              },
+            }),
+          },
+  } as unknown as SupabaseClient
+
+  const now = new Date("2025-03-01T04:00:00Z")
+  const result = await runCalibrationFit(client, now)
+
+  assert.deepEqual(result, { samples: 40, segments: 3 })
+  assert.deepEqual(upserted.map((row) => row.segment_key).sort(), ["*|*", "sad|*", "sad|self-report"])
+  assert.equal(prunedBefore, now.toISOString())
+})
+
+test("empathy responses report the calibrated and raw confidence", async () => {
+  const input = { moodScore: 3, detectedMood: "sad" as const, emotions: ["sad"], energyLevel: 4 }
+  const provider = createFixtureProvider()
+
+  const uncalibrated = await generateEmpathyRecommendations(input, { llm: provider })
+  assert.equal(uncalibrated.confidence, uncalibrated.rawConfidence)
+  assert.equal(uncalibrated.sourceMix, "self-report")
+
+  const calibration = fitCalibration(samplesAt(uncalibrated.rawConfidence, 40, 10))
+  const calibrated = await generateEmpathyRecommendations(input, { llm: provider, calibration })
+  assert.equal(calibrated.rawConfidence, uncalibrated.rawConfidence)
+  assert.ok(calibrated.confidence < calibrated.rawConfidence)
+})
@@ -0,0 +1,164 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import {
+  findContent,
+  loadContentLibrary,
+  SEED_CONTENT_LIBRARY,
+  selectContent,
+  toContentItem,
+  toSong,
+  type ContentItem,
+  type ContentLibrary,
+} from "../lib/content-library"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+import { contentItemId } from "../lib/recommendation-personalization"
+
+function quoteItem(title: string, overrides: Partial<ContentItem> = {}): ContentItem {
+  return {
+    id: contentItemId("quote", title, "Anon"),
+    type: "quote",
+    title,
+    creator: "Anon",
+    moods: ["calm"],
+    locale: "en",
+    active: true,
+    priority: 0,
+    ...overrides,
+  }
+}
+
+function libraryOf(...items: ContentItem[]): ContentLibrary {
+  return { items, source: "database" }
+}
+
+test("the seed covers every type for each legacy mood with unique ids", () => {
+  const ids = SEED_CONTENT_LIBRARY.items.map((item) => item.id)
+  assert.equal(new Set(ids).size, ids.length)
+
+  for (const mood of ["anxious", "happy", "sad", "tired", "stressed", "excited"] as const) {
+    for (const type of ["exercise", "quote", "song", "book", "place"] as const) {
+      assert.ok(findContent(SEED_CONTENT_LIBRARY, type, mood).length > 0, `${type} for ${mood}`)
+    }
+  }
+  for (const item of SEED_CONTENT_LIBRARY.items) {
+    assert.ok(item.id.startsWith(`${item.type}:`))
+  }
+})
+
+test("extended labels without their own items borrow the legacy mood's", () => {
+  // grieving has its own exercise but shares sad's books
+  assert.equal(selectContent(SEED_CONTENT_LIBRARY, "exercise", "grieving").title, "Make Space for Grief")
+  assert.equal(selectContent(SEED_CONTENT_LIBRARY, "book", "grieving").title, "Feeling Good: The New Mood Therapy")
+})
+
+test("inactive items are skipped and priority, then the user's language, orders the rest", () => {
+  const library = libraryOf(
+    quoteItem("Low", { priority: 0 }),
+    quoteItem("High", { priority: 5 }),
+    quoteItem("Retired", { priority: 9, active: false }),
+    quoteItem("Hallo", { locale: "de", priority: 0 }),
+    quoteItem("Bonjour", { locale: "fr", priority: 9 }),
+  )
+
+  assert.deepEqual(
+    findContent(library, "quote", "calm").map((item) => item.title),
+    ["High", "Low"],
+  )
+  assert.deepEqual(
+    findContent(library, "quote", "calm", "de-DE,de;q=0.9").map((item) => item.title),
+    ["Hallo", "High", "Low"],
+  )
+})
+
+test("a catalogue missing a type falls back to the bundled seed", () => {
+  const library = libraryOf(quoteItem("Only quotes"))
+  assert.equal(selectContent(library, "song", "anxious").title, "Weightless")
+})
+
+test("rows map to items, dropping unknown types and mood tags", () => {
+  const row = {
+    id: "song:someone-new-song",
+    type: "song",
+    title: "New Song",
+    creator: "Someone",
+    summary: null,
+    details: null,
+    mood_tags: ["calm", "serene"],
+    evidence: null,
+    locale: null,
+    links: null,
+    active: true,
+    priority: null,
+  }
+
+  const item = toContentItem(row)
+  assert.deepEqual(item?.moods, ["calm"])
+  assert.equal(item?.locale, "en")
+  assert.equal(toSong(item!).spotifyUrl, "https://open.spotify.com/search/New%20Song%20Someone")
+  assert.equal(toContentItem({ ...row, type: "podcast" }), null)
+})
+
+test("the loader caches database rows and falls back to the seed", async () => {
+  let queries = 0
+  const rows = [
+    {
+      id: "quote:anon-stay",
+      type: "quote",
+      title: "Stay",
+      creator: "Anon",
+      summary: null,
+      details: null,
+      mood_tags: ["calm"],
+      evidence: "Test",
+      locale: "en",
+      links: null,
+      active: true,
+      priority: 1,
+    },
+  ]
+  const client = (result: { data: unknown; error: unknown }) =>
+    ({
+      from: () => ({
+        select: () => ({
+          eq: async () => {
+            queries += 1
+            return result
+          },
+        }),
+      }),
+    }) as unknown as SupabaseClient
+
+  assert.equal(await loadContentLibrary(null), SEED_CONTENT_LIBRARY)
+  assert.equal(await loadContentLibrary(client({ data: null, error: new Error("down") }), 0), SEED_CONTENT_LIBRARY)
+
+  const loaded = await loadContentLibrary(client({ data: rows, error: null }), 1_000)
+  assert.equal(loaded.source, "database")
+  assert.deepEqual(
+    loaded.items.map((item) => item.id),
+    ["quote:anon-stay"],
+  )
+
+  const cached = await loadContentLibrary(client({ data: [], error: null }), 60_000)
+  assert.equal(cached, loaded)
+  assert.equal(queries, 2)
+
+  const expired = await loadContentLibrary(client({ data: [], error: null }), 10 * 60_000)
+  assert.equal(expired, SEED_CONTENT_LIBRARY)
+})
+
+test("empathy responses draw from the catalogue they are given", async () => {
+  const content = libraryOf(quoteItem("Stay with what is here."))
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 7, detectedMood: "calm", emotions: ["calm"], energyLevel: 5 },
+    { llm: createFixtureProvider({ responses: { empathy: "not json" } }), content },
+  )
+
+  assert.equal(response.quote.text, "Stay with what is here.")
+  assert.equal(response.itemIds.quote, "quote:anon-stay-with-what-is-here")
+  // Types the catalogue lacks still come from the seed
+  assert.equal(response.itemIds.exercise, contentItemId("exercise", response.recommendation.title))
+  assert.ok(response.music?.title)
+})
@@ -0,0 +1,96 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { assessCrisisRisk, getCrisisSupport, resolveCrisisRegion } from "../lib/crisis-safety"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import type { CrisisAssessment } from "../lib/crisis-safety"
+
+test("assessCrisisRisk escalates any suicideTrends rating above zero", () => {
+  assert.equal(assessCrisisRisk({ suicideTrends: 0 }).isCrisis, false)
+
+  const elevated = assessCrisisRisk({ suicideTrends: 1 })
+  assert.equal(elevated.isCrisis, true)
+  assert.equal(elevated.severity, "elevated")
+
+  assert.equal(assessCrisisRisk({ suicideTrends: 4 }).severity, "high")
+})
+
+test("assessCrisisRisk detects risk phrases in text and voice on word boundaries", () => {
+  const voice = assessCrisisRisk({ voiceTranscript: "Honestly I don’t want to wake up tomorrow" })
+  assert.equal(voice.isCrisis, true)
+  assert.deepEqual(voice.signals.map((signal) => signal.source), ["voice"])
+
+  const intent = assessCrisisRisk({ texts: ["I keep thinking I should end my life"] })
+  assert.equal(intent.severity, "high")
+
+  const spanish = assessCrisisRisk({ texts: ["a veces quiero morir"] })
+  assert.equal(spanish.isCrisis, true)
+
+  assert.equal(assessCrisisRisk({ texts: ["This deadline is killing me, so tired"] }).isCrisis, false)
+  assert.equal(assessCrisisRisk({ texts: ["Watched a documentary on diehard fans"] }).isCrisis, false)
+})
+
+test("assessCrisisRisk signals never echo the user's words", () => {
+  const result = assessCrisisRisk({ texts: ["I want to die, my boss Maria is awful"] })
+  assert.ok(result.signals.every((signal) => !signal.detail.includes("Maria")))
+})
+
+test("resolveCrisisRegion reads locales and Accept-Language headers", () => {
+  assert.equal(resolveCrisisRegion("es-CO"), "CO")
+  assert.equal(resolveCrisisRegion("en_GB"), "GB")
+  assert.equal(resolveCrisisRegion("fr-FR,fr;q=0.9,en-AU;q=0.8"), "AU")
+  assert.equal(resolveCrisisRegion("es"), "INTL")
+  assert.equal(resolveCrisisRegion(undefined), "US")
+})
+
+test("getCrisisSupport always includes an international fallback", () => {
+  const assessment = assessCrisisRisk({ suicideTrends: 2 })
+  const intl = getCrisisSupport(assessment, "de-DE")
+  assert.equal(intl.region, "INTL")
+  assert.equal(intl.resources.length, 1)
+  assert.equal(intl.resources[0].url, "https://findahelpline.com")
+
+  const us = getCrisisSupport(assessment, "en-US")
+  assert.equal(us.resources[0].phone, "988")
+})
+
+test("generateEmpathyRecommendations returns a crisis response without calling OpenAI", async () => {
+  const originalFetch = globalThis.fetch
+  const originalKey = process.env.OPENAI_API_KEY
+  process.env.OPENAI_API_KEY = "test-key"
+  let fetchCalls = 0
+  globalThis.fetch = (async () => {
+    fetchCalls += 1
+    throw new Error("network disabled in tests")
+  }) as typeof fetch
+
+  const recorded: CrisisAssessment[] = []
+  try {
+    const response = await generateEmpathyRecommendations(
+      {
+        moodScore: 2,
+        detectedMood: "sad",
+        emotions: ["hopeless"],
+        energyLevel: 3,
+        context: "Feeling very low",
+        symptomRatings: { sadness: 5, suicideTrends: 2 },
+        locale: "en-GB",
+      },
+      { onCrisis: (assessment) => void recorded.push(assessment) },
+    )
+
+    assert.equal(fetchCalls, 0)
+    assert.equal(recorded.length, 1)
+    assert.equal(response.crisis?.region, "GB")
+    assert.equal(response.recommendation.actionType, "contact")
+    assert.equal(response.music, undefined)
+    assert.equal(response.book, undefined)
+    assert.equal(response.place, undefined)
+  } finally {
+    globalThis.fetch = originalFetch
+    if (originalKey === undefined) {
+      delete process.env.OPENAI_API_KEY
+    } else {
+      process.env.OPENAI_API_KEY = originalKey
+    }
+  }
+})
@@ -0,0 +1,117 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  CSV_EXPORTS,
+  EXPORT_TABLES,
+  EXPORT_VERSION,
+  buildExportArchive,
+  isCsvExportName,
+  loadUserTables,
+  toCsv,
+  type ExportTables,
+} from "../lib/data-export"
+
+function emptyTables(): ExportTables {
+  return Object.fromEntries(EXPORT_TABLES.map(({ table }) => [table, []])) as unknown as ExportTables
+}
+
+// Column names per table as declared in supabase/schema.sql, including later ADD COLUMN migrations
+function schemaColumns(): Map<string, Set<string>> {
+  const sql = readFileSync(join(process.cwd(), "supabase", "schema.sql"), "utf8")
+  const columns = new Map<string, Set<string>>()
+  const columnsOf = (table: string) => columns.get(table) ?? columns.set(table, new Set()).get(table)!
+
+  for (const [, table, body] of sql.matchAll(/CREATE TABLE IF NOT EXISTS (?:public\.)?(\w+) \(\n([\s\S]*?)\n\);/g)) {
+    for (const [, column] of body.matchAll(/^  (\w+) /gm)) {
+      columnsOf(table).add(column)
+    }
+  }
+  for (const [, table, column] of sql.matchAll(/ALTER TABLE (?:public\.)?(\w+) ADD COLUMN IF NOT EXISTS (\w+)/g)) {
+    columnsOf(table).add(column)
+  }
+  return columns
+}
+
+// Answers like PostgREST: filtering or ordering by a column the table doesn't have is an error
+function createSupabaseStub(columns: Map<string, Set<string>>) {
+  const queried: string[] = []
+  const client = {
+    from: (table: string) => {
+      const used: string[] = []
+      const query = {
+        select: () => query,
+        eq: (column: string) => (used.push(column), query),
+        order: (column: string) => (used.push(column), query),
+        range: async () => {
+          queried.push(table)
+          const missing = used.find((column) => !columns.get(table)?.has(column))
+          return missing
+            ? { data: null, error: { message: `column ${table}.${missing} does not exist` } }
+            : { data: [], error: null }
+        },
+      }
+      return query
+    },
+  }
+  return { client: client as unknown as SupabaseClient, queried }
+}
+
+test("toCsv quotes separators, joins arrays and neutralises formulas", () => {
+  const csv = toCsv(
+    [
+      { date: "2024-11-01", note: 'Said "hi", then left\nearly', emotions: ["calm", "tired"], mood_score: 6 },
+      { date: "2024-11-02", note: "=HYPERLINK(\"x\")", emotions: [], mood_score: null },
+    ],
+    ["date", "mood_score", "emotions", "note"],
+  )
+
+  assert.equal(
+    csv,
+    [
+      "date,mood_score,emotions,note",
+      '2024-11-01,6,calm; tired,"Said ""hi"", then left\nearly"',
+      `2024-11-02,,,"'=HYPERLINK(""x"")"`,
+      "",
+    ].join("\r\n"),
+  )
+})
+
+test("buildExportArchive is versioned and lists referenced uploads", () => {
+  const tables = emptyTables()
+  tables.profiles = [{ id: "user-1", avatar_url: "https://blob.example.com/user-1/avatar.png" }]
+  tables.mood_entries = [
+    { id: "m1", audio_url: "https://blob.example.com/user-1/a.webm", photo_url: null },
+    { id: "m2", audio_url: "", photo_url: "https://blob.example.com/user-1/p.jpg" },
+  ]
+
+  const archive = buildExportArchive("user-1", tables, new Date("2024-11-04T10:00:00Z"))
+
+  assert.equal(archive.version, EXPORT_VERSION)
+  assert.equal(archive.exportedAt, "2024-11-04T10:00:00.000Z")
+  assert.deepEqual(Object.keys(archive.tables).sort(), EXPORT_TABLES.map(({ table }) => table).sort())
+  assert.deepEqual(archive.uploads, [
+    { table: "profiles", id: "user-1", field: "avatar_url", url: "https://blob.example.com/user-1/avatar.png" },
+    { table: "mood_entries", id: "m1", field: "audio_url", url: "https://blob.example.com/user-1/a.webm" },
+    { table: "mood_entries", id: "m2", field: "photo_url", url: "https://blob.example.com/user-1/p.jpg" },
+  ])
+})
+
+test("CSV exports cover mood entries and journal only", () => {
+  assert.deepEqual(Object.keys(CSV_EXPORTS), ["mood_entries", "journal_entries"])
+  assert.ok(isCsvExportName("journal_entries"))
+  assert.ok(!isCsvExportName("profiles"))
+  assert.ok(!isCsvExportName("toString"))
+  assert.ok(!isCsvExportName(null))
+})
+
+test("loadUserTables only filters and orders by columns each exported table has", async () => {
+  const { client, queried } = createSupabaseStub(schemaColumns())
+
+  const tables = await loadUserTables(client, "user-1")
+
+  assert.deepEqual(queried.sort(), EXPORT_TABLES.map(({ table }) => table).sort())
+  assert.ok(Object.values(tables).every((rows) => rows?.length === 0))
+})
@@ -0,0 +1,79 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { detectMoodFromSymptoms, generateEmpathyRecommendations, inferMoodFromText } from "../lib/empathy-agent"
+import {
+  describeEmotion,
+  EMOTION_LABELS,
+  emotionFromCoordinates,
+  LEGACY_MOOD_LABELS,
+  normalizeEmotionLabel,
+  resolveEmotionLabel,
+  toLegacyMood,
+} from "../lib/emotion-model"
+import { createFixtureProvider } from "../lib/llm"
+
+test("every label maps back to one of the legacy six", () => {
+  for (const label of EMOTION_LABELS) {
+    assert.ok(LEGACY_MOOD_LABELS.includes(toLegacyMood(label)), label)
+  }
+  for (const label of LEGACY_MOOD_LABELS) {
+    assert.equal(toLegacyMood(label), label)
+  }
+  assert.equal(toLegacyMood("angry"), "stressed")
+  assert.equal(toLegacyMood("grieving"), "sad")
+  assert.equal(toLegacyMood("calm"), "happy")
+})
+
+test("labels and near-synonyms normalize; unknown words do not", () => {
+  assert.equal(normalizeEmotionLabel(" Angry "), "angry")
+  assert.equal(normalizeEmotionLabel("Burned-out"), "tired")
+  assert.equal(normalizeEmotionLabel("bereaved"), "grieving")
+  assert.equal(normalizeEmotionLabel("relaxed"), "calm")
+  assert.equal(normalizeEmotionLabel("purple"), null)
+  assert.equal(normalizeEmotionLabel(undefined), null)
+})
+
+test("unknown labels are placed from the ratings instead of defaulting to tired", () => {
+  assert.equal(resolveEmotionLabel("numb"), "numb")
+  assert.equal(resolveEmotionLabel("ecstatic-ish", 10, 10), "excited")
+  assert.equal(resolveEmotionLabel("ecstatic-ish", 9, 2), "calm")
+  assert.equal(resolveEmotionLabel("ecstatic-ish", 5, 6), "tired")
+  assert.equal(resolveEmotionLabel("ecstatic-ish"), "tired")
+})
+
+test("coordinates blend the label anchor with observed ratings", () => {
+  assert.deepEqual(describeEmotion("lonely"), { label: "lonely", valence: -0.6, arousal: -0.2, legacyMood: "sad" })
+
+  const blended = describeEmotion("angry", { valence: -1, arousal: 1 })
+  assert.equal(blended.valence, -0.85)
+  assert.equal(blended.arousal, 0.9)
+  assert.equal(emotionFromCoordinates(blended), "angry")
+})
+
+test("text inference refines the winning mood into a finer label", () => {
+  assert.equal(inferMoodFromText("I feel so lonely since the move.").mood, "lonely")
+  assert.equal(inferMoodFromText("Not sad, not anxious, just calm.").mood, "calm")
+  assert.equal(inferMoodFromText("Feeling grateful and calm after my walk.").mood, "happy")
+  assert.equal(inferMoodFromText("I'm not happy with how things are going.").mood, "sad")
+})
+
+test("loneliness ratings surface as lonely rather than tired", () => {
+  assert.equal(detectMoodFromSymptoms({ loneliness: 3, anxiety: 1, sadness: 1 }), "lonely")
+  assert.equal(detectMoodFromSymptoms({ loneliness: 3, sadness: 3 }), "sad")
+})
+
+test("extended moods keep their label, coordinates and dedicated fallback content", async () => {
+  const provider = createFixtureProvider({ responses: { empathy: "not json" } })
+
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 3, detectedMood: "grieving", emotions: ["grief"], energyLevel: 4 },
+    { llm: provider },
+  )
+
+  assert.equal(response.detectedMood, "grieving")
+  assert.equal(response.emotion.legacyMood, "sad")
+  assert.ok(response.emotion.valence < -0.5)
+  assert.equal(response.recommendation.title, "Make Space for Grief")
+  assert.equal(response.book?.title, "Feeling Good: The New Mood Therapy")
+})
@@ -0,0 +1,42 @@
+import type { MoodLabel } from "../../lib/mcp-tools"
+
+export interface LabeledMoodSample {
+  text: string
+  mood: MoodLabel
+  // What the sample exercises, shown in failure messages
+  note: string
+}
+
+// Hand-labeled check-in snippets. Add a sample here whenever a misclassification is reported.
+export const moodCorpus: LabeledMoodSample[] = [
+  { text: "I'm so happy today, everything went well.", mood: "happy", note: "plain positive" },
+  { text: "Feeling grateful and calm after my walk.", mood: "happy", note: "multiple positive terms" },
+  { text: "I'm not happy with how things are going.", mood: "sad", note: "negated positive flips" },
+  { text: "I don't feel good at all lately.", mood: "sad", note: "contraction negation" },
+  { text: "Never been this unhappy and lonely.", mood: "sad", note: "negator does not reach past scope" },
+  { text: "Said goodbye to my friends and came home.", mood: "tired", note: "goodbye is not good" },
+  { text: "Honestly I feel pretty down and empty.", mood: "sad", note: "sad terms" },
+  { text: "I'm heartbroken, I cried all night.", mood: "sad", note: "strong sad terms" },
+  { text: "Really anxious about the exam tomorrow, I keep worrying.", mood: "anxious", note: "anxious with intensifier" },
+  { text: "My heart is racing and I'm on edge, close to panic.", mood: "anxious", note: "multi-word anxious term" },
+  { text: "I'm not anxious anymore, just exhausted.", mood: "tired", note: "negated negative is dropped" },
+  { text: "Work has been stressful and I'm overwhelmed by deadlines.", mood: "stressed", note: "stress lexicon" },
+  { text: "So frustrated and fed up with my boss.", mood: "stressed", note: "multi-word stressed term" },
+  { text: "Completely burned out, I can barely keep my eyes open.", mood: "tired", note: "burned out phrase" },
+  { text: "Tired and sleepy, need a nap.", mood: "tired", note: "plain tired" },
+  { text: "Worn out after the move but proud of it.", mood: "tired", note: "contrast keeps first clause" },
+  { text: "Can't wait for the trip, I'm thrilled!", mood: "excited", note: "can't wait is not a negation" },
+  { text: "Motivated and energized to start the new project.", mood: "excited", note: "plain excited" },
+  { text: "I'm not excited about the weekend at all.", mood: "tired", note: "negated excited flips to low energy" },
+  { text: "A little worried, but mostly happy and grateful.", mood: "happy", note: "diminished worry loses to joy" },
+  { text: "Slightly tired but really excited for tonight.", mood: "excited", note: "intensifier outweighs diminisher" },
+  { text: "Not sad, not anxious, just calm.", mood: "happy", note: "negation scope ends at punctuation" },
+  { text: "Had lunch and answered emails.", mood: "tired", note: "no emotional terms falls back to neutral" },
+  { text: "The task was good enough I guess.", mood: "happy", note: "weak positive still counts" },
+  { text: "Feeling down, hopeless and alone.", mood: "sad", note: "several sad terms" },
+  { text: "I'm scared and afraid something bad will happen.", mood: "anxious", note: "fear terms" },
+  { text: "I wasn't stressed today, it felt peaceful.", mood: "happy", note: "negated stress, then positive" },
+  { text: "Irritated by traffic and rushed all morning.", mood: "stressed", note: "stressed adjectives" },
+  { text: "Incredibly inspired after the talk.", mood: "excited", note: "strong intensifier" },
+  { text: "Interesting restful weekend with no plans.", mood: "tired", note: "substrings like rest/interest don't match" },
+]
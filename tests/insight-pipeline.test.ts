@@ -0,0 +1,73 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { buildInsightRows } from "../lib/insight-pipeline"
+import type { Pattern, UserInsightsOutput } from "../lib/mcp-tools"
+
+const baseInsights: UserInsightsOutput = {
+  summary: {
+    averageMood: 4.2,
+    averageEnergy: 4.8,
+    mostCommonMood: "sad",
+    moodStability: 55,
+    improvementTrend: "stable",
+  },
+  patterns: [],
+  triggers: [],
+  recommendations: [],
+  insights: [],
+}
+
+test("buildInsightRows raises an alert for declining trends", () => {
+  const rows = buildInsightRows({
+    ...baseInsights,
+    summary: { ...baseInsights.summary, improvementTrend: "declining" },
+  })
+  assert.equal(rows.length, 1)
+  assert.equal(rows[0].insight_type, "alert")
+})
+
+test("buildInsightRows maps patterns and frequent negative triggers", () => {
+  const rows = buildInsightRows({
+    ...baseInsights,
+    patterns: [
+      {
+        type: "temporal",
+        description: "Your mood tends to be lower on Mon",
+        frequency: 14,
+        confidence: 75,
+        recommendation: "Plan lighter Mondays",
+      },
+    ],
+    triggers: [
+      { trigger: "work", frequency: 60, impact: "negative" },
+      { trigger: "exercise", frequency: 40, impact: "positive" },
+      { trigger: "traffic", frequency: 5, impact: "negative" },
+    ],
+  })
+
+  assert.deepEqual(
+    rows.map((row) => row.insight_type),
+    ["pattern", "recommendation"],
+  )
+  assert.equal(rows[0].title, "Weekly rhythm")
+  assert.equal(rows[0].action, "Plan lighter Mondays")
+  assert.match(rows[1].description, /"work"/)
+})
+
+test("buildInsightRows keeps descriptions stable and unique for dedupe", () => {
+  const pattern: Pattern = {
+    type: "energy",
+    description: "Your energy levels have been consistently low",
+    frequency: 100,
+    confidence: 90,
+    recommendation: "Rest",
+  }
+  const first = buildInsightRows({ ...baseInsights, patterns: [pattern, pattern] })
+  const second = buildInsightRows({
+    ...baseInsights,
+    summary: { ...baseInsights.summary, averageMood: 6.1 },
+    patterns: [pattern],
+  })
+  assert.equal(first.length, 1)
+  assert.deepEqual(first, second)
+})
@@ -0,0 +1,166 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { createFixtureProvider, createOpenAIProvider, getLLMProvider, LLMRequestError, type ChatRequest } from "../lib/llm"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+
+interface RecordedRequest {
+  url: string
+  init: RequestInit
+}
+
+function stubFetch(responses: Array<{ status?: number; body: unknown }>) {
+  const requests: RecordedRequest[] = []
+  const fetchImpl = (async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), init: init ?? {} })
+    const next = responses[Math.min(requests.length - 1, responses.length - 1)]
+    return new Response(JSON.stringify(next.body), { status: next.status ?? 200 })
+  }) as typeof fetch
+  return { fetchImpl, requests }
+}
+
+const completion = (content: string) => ({ choices: [{ message: { content } }] })
+
+test("openai provider posts chat completions to a custom base URL", async () => {
+  const { fetchImpl, requests } = stubFetch([{ body: completion("  Hello there  ") }])
+  const provider = createOpenAIProvider({
+    baseUrl: "http://localhost:11434/v1/",
+    models: { chat: "llama3.1" },
+    fetch: fetchImpl,
+  })
+
+  const message = await provider.chat({ task: "contact-message", system: "sys", prompt: "hi", maxTokens: 50 })
+
+  assert.equal(message, "Hello there")
+  assert.equal(requests[0].url, "http://localhost:11434/v1/chat/completions")
+  const headers = requests[0].init.headers as Record<string, string>
+  assert.equal(headers.Authorization, undefined)
+  const body = JSON.parse(String(requests[0].init.body))
+  assert.equal(body.model, "llama3.1")
+  assert.equal(body.max_tokens, 50)
+  assert.equal(body.response_format, undefined)
+  assert.deepEqual(body.messages, [
+    { role: "system", content: "sys" },
+    { role: "user", content: "hi" },
+  ])
+})
+
+test("openai provider requests JSON mode and parses the result", async () => {
+  const { fetchImpl, requests } = stubFetch([{ body: completion('{"moodLabel":"happy"}') }])
+  const provider = createOpenAIProvider({ apiKey: "sk-test", fetch: fetchImpl })
+
+  const result = await provider.chatJson({ task: "text-analysis", system: "sys", prompt: "hi", model: "gpt-test" })
+
+  assert.deepEqual(result, { moodLabel: "happy" })
+  assert.equal(requests[0].url, "https://api.openai.com/v1/chat/completions")
+  assert.equal((requests[0].init.headers as Record<string, string>).Authorization, "Bearer sk-test")
+  const body = JSON.parse(String(requests[0].init.body))
+  assert.equal(body.model, "gpt-test")
+  assert.deepEqual(body.response_format, { type: "json_object" })
+})
+
+test("openai provider sends the image alongside the prompt for vision", async () => {
+  const { fetchImpl, requests } = stubFetch([{ body: completion('{"moodLabel":"tired"}') }])
+  const provider = createOpenAIProvider({ apiKey: "sk-test", models: { vision: "vision-model" }, fetch: fetchImpl })
+
+  await provider.vision({ task: "image-analysis", system: "sys", prompt: "look", imageUrl: "https://example.com/a.png" })
+
+  const body = JSON.parse(String(requests[0].init.body))
+  assert.equal(body.model, "vision-model")
+  assert.deepEqual(body.messages[1].content, [
+    { type: "text", text: "look" },
+    { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+  ])
+})
+
+test("openai provider retries server errors but not client errors", async () => {
+  const retrying = stubFetch([{ status: 503, body: {} }, { body: completion("ok") }])
+  const provider = createOpenAIProvider({ apiKey: "sk-test", fetch: retrying.fetchImpl })
+  assert.equal(await provider.chat({ task: "contact-message", system: "s", prompt: "p", retries: 1 }), "ok")
+  assert.equal(retrying.requests.length, 2)
+
+  const rejected = stubFetch([{ status: 400, body: { error: { message: "Bad request" } } }])
+  const strict = createOpenAIProvider({ apiKey: "sk-test", fetch: rejected.fetchImpl })
+  await assert.rejects(strict.chat({ task: "contact-message", system: "s", prompt: "p", retries: 2 }), (error) => {
+    assert.ok(error instanceof LLMRequestError)
+    assert.equal(error.status, 400)
+    assert.equal(error.message, "Bad request")
+    return true
+  })
+  assert.equal(rejected.requests.length, 1)
+})
+
+test("openai provider rejects invalid JSON and empty completions", async () => {
+  const invalid = createOpenAIProvider({ apiKey: "k", fetch: stubFetch([{ body: completion("not json") }]).fetchImpl })
+  await assert.rejects(invalid.chatJson({ task: "empathy", system: "s", prompt: "p" }), /invalid JSON/)
+
+  const empty = createOpenAIProvider({ apiKey: "k", fetch: stubFetch([{ body: completion("   ") }]).fetchImpl })
+  await assert.rejects(empty.chat({ task: "empathy", system: "s", prompt: "p" }), /empty completion/)
+})
+
+test("openai provider uploads audio for transcription", async () => {
+  const { fetchImpl, requests } = stubFetch([{ body: { text: " hello world " } }])
+  const provider = createOpenAIProvider({ apiKey: "sk-test", fetch: fetchImpl })
+
+  const transcript = await provider.transcribe({ audio: new Blob(["abc"], { type: "audio/wav" }) })
+
+  assert.equal(transcript, "hello world")
+  assert.equal(requests[0].url, "https://api.openai.com/v1/audio/transcriptions")
+  const form = requests[0].init.body as FormData
+  assert.equal(form.get("model"), "gpt-4o-mini-transcribe")
+  assert.ok(form.get("file") instanceof Blob)
+})
+
+test("fixture provider is deterministic and records calls", async () => {
+  const provider = createFixtureProvider()
+
+  const first = (await provider.chatJson({ task: "text-analysis", system: "s", prompt: "a" })) as Record<string, unknown>
+  first.moodLabel = "mutated"
+  const second = (await provider.chatJson({ task: "text-analysis", system: "s", prompt: "b" })) as Record<string, unknown>
+
+  assert.equal(second.moodLabel, "tired")
+  assert.equal(typeof (await provider.chat({ task: "contact-message", system: "s", prompt: "p" })), "string")
+  assert.equal(typeof (await provider.transcribe({ audio: new Blob([]) })), "string")
+  assert.deepEqual(
+    provider.calls.map((call) => call.method),
+    ["chatJson", "chatJson", "chat", "transcribe"],
+  )
+})
+
+test("fixture provider accepts per-task overrides", async () => {
+  const provider = createFixtureProvider({
+    responses: { "voice-analysis": (request: ChatRequest) => ({ echoed: request.prompt }) },
+    transcript: "custom transcript",
+  })
+
+  assert.deepEqual(await provider.chatJson({ task: "voice-analysis", system: "s", prompt: "hey" }), { echoed: "hey" })
+  assert.equal(await provider.transcribe({ audio: new Blob([]) }), "custom transcript")
+})
+
+test("getLLMProvider selects providers by LLM_PROVIDER", () => {
+  const previous = process.env.LLM_PROVIDER
+  try {
+    process.env.LLM_PROVIDER = "fixture"
+    assert.equal(getLLMProvider().name, "fixture")
+    assert.throws(() => getLLMProvider("missing"), /Unknown LLM provider "missing"/)
+  } finally {
+    if (previous === undefined) {
+      delete process.env.LLM_PROVIDER
+    } else {
+      process.env.LLM_PROVIDER = previous
+    }
+  }
+})
+
+test("empathy recommendations use the injected provider", async () => {
+  const provider = createFixtureProvider()
+
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 4, detectedMood: "tired", emotions: ["tired"], energyLevel: 3, context: "Long week." },
+    { llm: provider },
+  )
+
+  assert.equal(response.recommendation.title, "Two-minute grounding pause")
+  assert.equal(response.warnings, undefined)
+  assert.deepEqual(provider.calls, [{ method: "chatJson", task: "empathy" }])
+})
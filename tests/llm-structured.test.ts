@@ -0,0 +1,274 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { completeStructured, createFixtureProvider, LLMRequestError, type ChatRequest } from "../lib/llm"
+import {
+  contactMessageLLMResponseSchema,
+  empathyLLMResponseSchema,
+  imageAnalysisLLMResponseSchema,
+  textAnalysisLLMResponseSchema,
+} from "../lib/validations/llm"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+
+const isRepair = (request: ChatRequest) => request.prompt.includes("did not match the required format")
+
+const validEmpathy = {
+  empathyMessage: "It makes sense to feel stretched thin after a week like this.",
+  recommendation: {
+    title: "Box breathing",
+    description: "Breathe in for four, hold for four, out for four. Slow breathing calms the stress response.",
+    actionLabel: "Start breathing",
+    actionType: "breathing",
+  },
+}
+
+const empathyFallback = {
+  empathyMessage: "Thank you for checking in.",
+  recommendation: {
+    title: "Journal for five minutes",
+    description: "Writing things down helps untangle them.",
+    actionLabel: "Open journal",
+    actionType: "journal" as const,
+  },
+}
+
+const empathyRequest = { task: "empathy" as const, system: "s", prompt: "Client profile" }
+
+test("valid output passes through without warnings", async () => {
+  const provider = createFixtureProvider({ responses: { empathy: validEmpathy } })
+  const warnings: string[] = []
+
+  const result = await completeStructured({
+    provider,
+    method: "chatJson",
+    request: empathyRequest,
+    schema: empathyLLMResponseSchema,
+    fallback: empathyFallback,
+    warnings,
+  })
+
+  assert.equal(result.source, "model")
+  assert.deepEqual(result.data, validEmpathy)
+  assert.deepEqual(warnings, [])
+  assert.equal(provider.calls.length, 1)
+})
+
+test("invented actionType triggers a repair prompt naming the field", async () => {
+  const prompts: string[] = []
+  const provider = createFixtureProvider({
+    responses: {
+      empathy: (request: ChatRequest) => {
+        prompts.push(request.prompt)
+        return isRepair(request)
+          ? validEmpathy
+          : { ...validEmpathy, recommendation: { ...validEmpathy.recommendation, actionType: "meditate" } }
+      },
+    },
+  })
+  const warnings: string[] = []
+
+  const result = await completeStructured({
+    provider,
+    method: "chatJson",
+    request: empathyRequest,
+    schema: empathyLLMResponseSchema,
+    fallback: empathyFallback,
+    warnings,
+  })
+
+  assert.equal(result.source, "repair")
+  assert.deepEqual(result.repairedFields, ["recommendation.actionType"])
+  assert.equal(result.data.recommendation.actionType, "breathing")
+  assert.deepEqual(warnings, ["Corrected AI response fields: recommendation.actionType."])
+  assert.ok(prompts[1].startsWith("Client profile"))
+  assert.match(prompts[1], /- recommendation\.actionType:/)
+  assert.match(prompts[1], /"meditate"/)
+})
+
+test("fields still invalid after repair fall back individually", async () => {
+  const malformed = { empathyMessage: "You're carrying a lot right now.", recommendation: { title: "Walk" } }
+  const provider = createFixtureProvider({ responses: { empathy: malformed } })
+  const warnings: string[] = []
+
+  const result = await completeStructured({
+    provider,
+    method: "chatJson",
+    request: empathyRequest,
+    schema: empathyLLMResponseSchema,
+    fallback: empathyFallback,
+    warnings,
+  })
+
+  assert.equal(result.source, "fallback")
+  assert.equal(provider.calls.length, 2)
+  assert.equal(result.data.empathyMessage, "You're carrying a lot right now.")
+  assert.equal(result.data.recommendation.title, "Walk")
+  assert.equal(result.data.recommendation.actionType, "journal")
+  assert.equal(result.data.recommendation.description, empathyFallback.recommendation.description)
+  assert.deepEqual(result.repairedFields, [
+    "recommendation.description",
+    "recommendation.actionLabel",
+    "recommendation.actionType",
+  ])
+  assert.equal(
+    warnings[0],
+    "Used default content for AI response fields: recommendation.description, recommendation.actionLabel, recommendation.actionType.",
+  )
+})
+
+const validText = {
+  moodLabel: "Happy",
+  moodScore: 8,
+  energyLevel: 7,
+  emotions: ["Grateful", "grateful", "light"],
+  summary: "Sounds like a bright day.",
+  confidence: 80,
+}
+
+const textFallback = {
+  moodLabel: "tired" as const,
+  moodScore: 5,
+  energyLevel: 5,
+  emotions: [],
+  summary: "Captured your note.",
+  confidence: 55,
+}
+
+test("unparseable JSON is repaired, and falls back entirely if it stays unreadable", async () => {
+  const repairable = createFixtureProvider({
+    responses: { "text-analysis": (request: ChatRequest) => (isRepair(request) ? validText : "{moodLabel: happy") },
+  })
+  const repaired = await completeStructured({
+    provider: repairable,
+    method: "chatJson",
+    request: { task: "text-analysis", system: "s", prompt: "p" },
+    schema: textAnalysisLLMResponseSchema,
+    fallback: textFallback,
+  })
+  assert.equal(repaired.source, "repair")
+  assert.deepEqual(repaired.repairedFields, ["response"])
+
+  const broken = createFixtureProvider({ responses: { "text-analysis": "not json at all" } })
+  const warnings: string[] = []
+  const result = await completeStructured({
+    provider: broken,
+    method: "chatJson",
+    request: { task: "text-analysis", system: "s", prompt: "p" },
+    schema: textAnalysisLLMResponseSchema,
+    fallback: textFallback,
+    warnings,
+  })
+  assert.deepEqual(result.data, textFallback)
+  assert.deepEqual(warnings, ["Used default content for AI response fields: response."])
+})
+
+test("text analysis schema normalises labels and emotions", () => {
+  const parsed = textAnalysisLLMResponseSchema.parse(validText)
+  assert.equal(parsed.moodLabel, "happy")
+  assert.deepEqual(parsed.emotions, ["grateful", "light"])
+})
+
+test("out-of-range scores and unknown moods are replaced from the fallback", async () => {
+  const provider = createFixtureProvider({
+    responses: { "text-analysis": { ...validText, moodLabel: "joyful", moodScore: 42, emotions: ["ok", 3] } },
+  })
+  const warnings: string[] = []
+
+  const result = await completeStructured({
+    provider,
+    method: "chatJson",
+    request: { task: "text-analysis", system: "s", prompt: "p" },
+    schema: textAnalysisLLMResponseSchema,
+    fallback: textFallback,
+    warnings,
+  })
+
+  assert.equal(result.data.moodLabel, "tired")
+  assert.equal(result.data.moodScore, 5)
+  assert.deepEqual(result.data.emotions, [])
+  assert.equal(result.data.energyLevel, 7)
+  assert.deepEqual(result.repairedFields, ["moodLabel", "moodScore", "emotions"])
+  assert.equal(warnings.length, 1)
+})
+
+test("vision output with a missing confidence is repaired through the vision call", async () => {
+  const provider = createFixtureProvider({
+    responses: {
+      "image-analysis": (request: ChatRequest) => ({
+        moodLabel: "calm",
+        emotions: ["calm"],
+        summary: "A quiet moment.",
+        ...(isRepair(request) ? { confidence: 70 } : {}),
+      }),
+    },
+  })
+
+  const result = await completeStructured({
+    provider,
+    method: "vision",
+    request: { task: "image-analysis", system: "s", prompt: "p", imageUrl: "https://example.com/a.png" },
+    schema: imageAnalysisLLMResponseSchema,
+    fallback: { moodLabel: "tired", confidence: 55, emotions: [], summary: "Image captured." },
+  })
+
+  assert.equal(result.source, "repair")
+  assert.equal(result.data.confidence, 70)
+  assert.deepEqual(
+    provider.calls.map((call) => call.method),
+    ["vision", "vision"],
+  )
+})
+
+test("contact messages that stay malformed use the fallback text", async () => {
+  const provider = createFixtureProvider({ responses: { "contact-message": "Subject: Hi" } })
+  const warnings: string[] = []
+
+  const result = await completeStructured({
+    provider,
+    method: "chat",
+    request: { task: "contact-message", system: "s", prompt: "p" },
+    schema: contactMessageLLMResponseSchema,
+    fallback: "I'd like to schedule an initial consultation. Could you share your availability?",
+    warnings,
+  })
+
+  assert.equal(result.data, "I'd like to schedule an initial consultation. Could you share your availability?")
+  assert.deepEqual(warnings, ["Used default content for AI response fields: response."])
+})
+
+test("transport errors are rethrown without a repair attempt", async () => {
+  const provider = createFixtureProvider({
+    responses: {
+      empathy: () => {
+        throw new LLMRequestError("Service unavailable", 503)
+      },
+    },
+  })
+
+  await assert.rejects(
+    completeStructured({
+      provider,
+      method: "chatJson",
+      request: empathyRequest,
+      schema: empathyLLMResponseSchema,
+      fallback: empathyFallback,
+    }),
+    /Service unavailable/,
+  )
+  assert.equal(provider.calls.length, 1)
+})
+
+test("empathy recommendations surface repaired fields as warnings", async () => {
+  const provider = createFixtureProvider({
+    responses: { empathy: { empathyMessage: "", recommendation: validEmpathy.recommendation } },
+  })
+
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 5, detectedMood: "stressed", emotions: ["stressed"], energyLevel: 4 },
+    { llm: provider },
+  )
+
+  assert.ok(response.empathyMessage.length > 0)
+  assert.equal(response.recommendation.title, "Box breathing")
+  assert.deepEqual(response.warnings, ["Used default content for AI response fields: empathyMessage."])
+})
@@ -0,0 +1,71 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { inferMoodFromText } from "../lib/empathy-agent"
+import * as webTools from "../lib/mcp-tools"
+import { analyzeMood, classifyMoodText, tokenizeMoodText } from "../mcp-server/src/tools/mood-analysis"
+import { moodCorpus } from "./fixtures/mood-corpus"
+
+test("labeled corpus is classified correctly", () => {
+  const failures = moodCorpus
+    .map((sample) => ({ sample, actual: classifyMoodText(sample.text).mood }))
+    .filter(({ sample, actual }) => actual !== sample.mood)
+    .map(({ sample, actual }) => `${sample.note}: "${sample.text}" -> ${actual}, expected ${sample.mood}`)
+
+  assert.deepEqual(failures, [])
+})
+
+test("tokenizer keeps contractions and punctuation as scope breakers", () => {
+  assert.deepEqual(tokenizeMoodText("I can’t sleep, it's late!"), ["i", "can't", "sleep", ",", "it's", "late", "!"])
+})
+
+test("negation redirects positive terms and drops negated negatives", () => {
+  const result = classifyMoodText("I'm not happy and not anxious.")
+
+  assert.equal(result.mood, "sad")
+  assert.equal(result.scores.anxious, 0)
+  assert.equal(result.scores.happy, 0)
+  assert.ok(result.scores.sad > 0)
+  assert.deepEqual(result.emotions, [])
+  assert.deepEqual(
+    result.matches.map((match) => [match.term, match.negated]),
+    [["happy", true]],
+  )
+})
+
+test("intensifiers and diminishers scale scores and the derived mood score", () => {
+  const plain = classifyMoodText("I feel sad.")
+  const strong = classifyMoodText("I feel extremely sad.")
+  const soft = classifyMoodText("I feel a little sad.")
+
+  assert.ok(strong.scores.sad > plain.scores.sad)
+  assert.ok(soft.scores.sad < plain.scores.sad)
+  assert.ok(strong.moodScore < plain.moodScore)
+  assert.ok(soft.moodScore > plain.moodScore)
+
+  assert.ok(classifyMoodText("Really happy!").moodScore > classifyMoodText("Happy.").moodScore)
+})
+
+test("modifiers only reach the next couple of words", () => {
+  const result = classifyMoodText("Very long day at the office, tired.")
+  assert.equal(result.scores.tired, classifyMoodText("tired").scores.tired)
+})
+
+test("inferMoodFromText and both analyzeMood surfaces share the classifier", async () => {
+  const text = "I'm not happy, work has me overwhelmed and stressed."
+  const classification = classifyMoodText(text)
+
+  assert.equal(webTools.analyzeMood, analyzeMood)
+  assert.equal(inferMoodFromText(text).mood, classification.mood)
+
+  const analysis = await webTools.analyzeMood({ text })
+  assert.equal(analysis.detectedMood, "stressed")
+  assert.deepEqual(analysis.moodScores, classification.scores)
+  assert.deepEqual(analysis.triggers, ["work"])
+  assert.ok(!analysis.emotions.includes("happy"))
+})
+
+test("trigger detection respects word starts", async () => {
+  const analysis = await analyzeMood({ text: "An interesting networking day, I feel calm." })
+  assert.deepEqual(analysis.triggers, [])
+})
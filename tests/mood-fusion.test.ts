@@ -0,0 +1,131 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+import { fuseMoodSignals, type MoodSignal } from "../lib/mood-fusion"
+
+const fallback: MoodSignal = { type: "self-report", label: "tired", confidence: 0.6 }
+
+test("agreeing labels in the same family keep the strongest label", () => {
+  const result = fuseMoodSignals(
+    [
+      { type: "self-report", label: "calm", confidence: 1 },
+      { type: "text", label: "happy", confidence: 0.8 },
+    ],
+    fallback,
+  )
+
+  assert.equal(result.mood, "calm")
+  assert.equal(result.agreement, 1)
+  assert.equal(result.disagreement, undefined)
+  assert.ok(result.contributions.every((source) => source.agrees))
+})
+
+test("a smiling photo loses to an anxious transcript and the conflict is flagged", () => {
+  const result = fuseMoodSignals(
+    [
+      { type: "voice", label: "anxious", confidence: 0.8 },
+      { type: "image", label: "happy", confidence: 0.9 },
+      { type: "text", label: "stressed", confidence: 0.3 },
+    ],
+    fallback,
+  )
+
+  assert.equal(result.mood, "anxious")
+  assert.deepEqual(result.disagreement?.sources, ["image"])
+  assert.match(result.disagreement?.message ?? "", /photo suggests happy.*voice note points to anxious/)
+
+  const image = result.contributions.find((source) => source.type === "image")
+  assert.equal(image?.agrees, false)
+  assert.equal(image?.confidence, 90)
+  // 0.4 * 0.9 of (0.6 * 0.8 + 0.4 * 0.9 + 0.7 * 0.3)
+  assert.equal(image?.weight, 34)
+  assert.ok(result.agreement < 0.5)
+})
+
+test("weak dissent is reported in contributions but not flagged", () => {
+  const result = fuseMoodSignals(
+    [
+      { type: "symptoms", label: "sad", confidence: 0.8 },
+      { type: "self-report", label: "lonely", confidence: 1 },
+      { type: "image", label: "happy", confidence: 0.3 },
+    ],
+    fallback,
+  )
+
+  assert.equal(result.mood, "lonely")
+  assert.equal(result.disagreement, undefined)
+  assert.equal(result.contributions.find((source) => source.type === "image")?.agrees, false)
+})
+
+test("the fallback stands in when no modality produced a label", () => {
+  const result = fuseMoodSignals([], fallback)
+  assert.equal(result.mood, "tired")
+  assert.deepEqual(
+    result.contributions.map((source) => [source.type, source.weight]),
+    [["self-report", 100]],
+  )
+})
+
+test("empathy responses report fused sources and lower confidence on conflict", async () => {
+  const provider = createFixtureProvider()
+  const base = { moodScore: 4, detectedMood: "tired" as const, emotions: [], energyLevel: 6, context: "Long day." }
+
+  const agreeing = await generateEmpathyRecommendations(
+    {
+      ...base,
+      signals: [
+        { type: "voice", label: "anxious", confidence: 0.8 },
+        { type: "text", label: "anxious", confidence: 0.7 },
+      ],
+    },
+    { llm: provider },
+  )
+  const conflicting = await generateEmpathyRecommendations(
+    {
+      ...base,
+      signals: [
+        { type: "voice", label: "anxious", confidence: 0.8 },
+        { type: "image", label: "happy", confidence: 0.9 },
+      ],
+    },
+    { llm: provider },
+  )
+
+  assert.equal(agreeing.detectedMood, "anxious")
+  assert.deepEqual(
+    agreeing.analysisSources.map((source) => source.type),
+    ["voice", "text"],
+  )
+  assert.equal(agreeing.disagreement, undefined)
+
+  assert.equal(conflicting.detectedMood, "anxious")
+  assert.ok(conflicting.disagreement)
+  assert.ok(conflicting.confidence < agreeing.confidence)
+})
+
+test("symptom ratings join the fusion instead of overriding it", async () => {
+  const response = await generateEmpathyRecommendations(
+    {
+      moodScore: 3,
+      detectedMood: "tired",
+      emotions: [],
+      energyLevel: 3,
+      symptomRatings: { sadness: 2, anxiety: 1, stress: 1, loneliness: 1 },
+      signals: [
+        { type: "self-report", label: "grieving", confidence: 1 },
+        { type: "text", label: "sad", confidence: 0.7 },
+      ],
+    },
+    { llm: createFixtureProvider() },
+  )
+
+  assert.equal(response.detectedMood, "grieving")
+  assert.deepEqual(
+    response.analysisSources.map((source) => source.type),
+    ["symptoms", "self-report", "text"],
+  )
+  assert.equal(response.analysisSources[0].mood, "stressed")
+  assert.equal(response.analysisSources[0].agrees, false)
+})
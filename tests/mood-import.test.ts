@@ -0,0 +1,202 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  insertImportedEntries,
+  loadExistingEntries,
+  mapImportRecords,
+  markDuplicates,
+  parseCsv,
+  parseImportContent,
+  parseImportDate,
+  parseImportTime,
+  suggestColumnMapping,
+  suggestScale,
+} from "../lib/mood-import"
+
+const DAYLIO_CSV = [
+  "full_date,date,weekday,time,mood,activities,note_title,note",
+  '2024-11-02,November 2,Saturday,8:15 pm,rad,friends | walk,,"Great day, long walk"',
+  "2024-11-01,November 1,Friday,09:00,meh,work,,",
+  "2024-10-31,October 31,Thursday,10:00,unknown,,,",
+].join("\n")
+
+test("parseCsv handles quotes, escaped quotes and CRLF", () => {
+  assert.deepEqual(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n1,"multi\nline"\n'), [
+    ["a", "b"],
+    ["x, y", 'say "hi"'],
+    ["1", "multi\nline"],
+  ])
+})
+
+test("Daylio exports map labels, activities and times onto check-in fields", () => {
+  const parsed = parseImportContent(DAYLIO_CSV, "csv")
+  assert.equal(parsed.source, "daylio")
+
+  const mapping = suggestColumnMapping(parsed.columns)
+  assert.equal(mapping.date, "full_date")
+  assert.equal(mapping.triggers, "activities")
+  assert.equal(suggestScale(parsed.records, mapping.mood), 5)
+
+  const [rad, meh, unknown] = mapImportRecords(parsed.records, mapping, { moodScale: 5 })
+  assert.equal(rad.entry?.moodScore, 10)
+  assert.equal(rad.entry?.energyLevel, 5)
+  assert.deepEqual(rad.entry?.triggers, ["friends", "walk"])
+  assert.equal(rad.entry?.note, "Great day, long walk")
+  assert.equal(rad.entry?.timestamp, "2024-11-02T20:15:00.000Z")
+  assert.deepEqual(rad.warnings, ["energy missing, defaulted to 5"])
+  assert.equal(meh.entry?.moodScore, 6)
+  assert.equal(unknown.entry, null)
+  assert.deepEqual(unknown.errors, ["mood is missing or not a number"])
+})
+
+test("Bearable exports are pivoted into one record per check-in", () => {
+  const csv = [
+    "date formatted,weekday,time of day,category,rating/amount,detail,notes",
+    "2024-11-01,Friday,pm,Mood,4,,",
+    "2024-11-01,Friday,pm,Energy,2,,",
+    "2024-11-01,Friday,pm,Symptoms,,Anxious,",
+    "2024-11-01,Friday,pm,Factors,,Work,Long meeting",
+  ].join("\n")
+
+  const parsed = parseImportContent(csv, "csv")
+  assert.equal(parsed.source, "bearable")
+  assert.equal(parsed.records.length, 1)
+
+  const [row] = mapImportRecords(parsed.records, suggestColumnMapping(parsed.columns), { moodScale: 5 })
+  assert.equal(row.entry?.moodScore, 8)
+  assert.equal(row.entry?.energyLevel, 3)
+  assert.deepEqual(row.entry?.emotions, ["Anxious"])
+  assert.deepEqual(row.entry?.triggers, ["Work"])
+  assert.equal(row.entry?.note, "Long meeting")
+  assert.deepEqual(row.warnings, ["time was not recognised and was ignored"])
+})
+
+test("JSON imports accept arrays and ISO timestamps on a 1-10 scale", () => {
+  const parsed = parseImportContent(
+    JSON.stringify({ entries: [{ date: "2024-11-01T07:30:00Z", mood: 7, energy: 9, emotions: ["calm", "focused"] }] }),
+    "json",
+  )
+  const mapping = suggestColumnMapping(parsed.columns)
+  assert.equal(suggestScale(parsed.records, mapping.mood), 10)
+
+  const [row] = mapImportRecords(parsed.records, mapping)
+  assert.equal(row.entry?.date, "2024-11-01")
+  assert.equal(row.entry?.timestamp, "2024-11-01T07:30:00.000Z")
+  assert.equal(row.entry?.moodScore, 7)
+  assert.deepEqual(row.entry?.emotions, ["calm", "focused"])
+
+  assert.throws(() => parseImportContent('{"rows": []}', "json"), /entries/)
+})
+
+test("out-of-range scores fail schema validation", () => {
+  const [row] = mapImportRecords([{ date: "2024-11-01", mood: "14" }], { date: "date", mood: "mood" })
+  assert.equal(row.entry, null)
+  assert.match(row.errors.join(), /moodScore/)
+})
+
+test("date and time parsing rejects impossible values", () => {
+  assert.equal(parseImportDate("11/3/2024"), "2024-11-03")
+  assert.equal(parseImportDate("2024-02-30"), null)
+  assert.equal(parseImportDate("yesterday"), null)
+  assert.equal(parseImportTime("12:05 am"), "00:05")
+  assert.equal(parseImportTime("25:00"), null)
+})
+
+test("markDuplicates dedupes by timestamp when present and by date otherwise", () => {
+  const rows = mapImportRecords(
+    [
+      { date: "2024-11-01", time: "09:00", mood: "6" },
+      { date: "2024-11-01", time: "21:00", mood: "7" },
+      { date: "2024-11-02", mood: "5" },
+      { date: "2024-11-03", mood: "5" },
+      { date: "2024-11-03", mood: "8" },
+    ],
+    { date: "date", time: "time", mood: "mood" },
+  )
+
+  const marked = markDuplicates(rows, [
+    { date: "2024-11-01", entry_timestamp: "2024-11-01T09:00:42.000Z" },
+    { date: "2024-11-02", entry_timestamp: "2024-11-02T18:00:00.000Z" },
+  ])
+
+  assert.deepEqual(
+    marked.map((row) => row.duplicate),
+    [true, false, true, false, true],
+  )
+})
+
+test("loadExistingEntries pages past the 1000-row response cap", async () => {
+  // Four check-ins a day from 2023-01-01, 1500 rows in all
+  const stored = Array.from({ length: 1500 }, (_, index) => {
+    const date = new Date(Date.UTC(2023, 0, 1 + Math.floor(index / 4))).toISOString().slice(0, 10)
+    return { date, entry_timestamp: `${date}T0${index % 4}:00:00.000Z` }
+  })
+  const ranges: Array<[number, number]> = []
+  const query = {
+    select: () => query,
+    eq: () => query,
+    gte: () => query,
+    lte: () => query,
+    order: () => query,
+    range: async (from: number, to: number) => {
+      ranges.push([from, to])
+      return { data: stored.slice(from, Math.min(to + 1, from + 1000)), error: null }
+    },
+  }
+  const supabase = { from: () => query } as unknown as SupabaseClient
+
+  const rows = mapImportRecords(
+    [
+      { date: "2023-01-01", mood: "6" },
+      { date: "2024-01-10", time: "03:00", mood: "7" },
+    ],
+    { date: "date", time: "time", mood: "mood" },
+  )
+  const existing = await loadExistingEntries(supabase, "user-1", rows)
+
+  assert.equal(existing.length, 1500)
+  assert.deepEqual(ranges, [
+    [0, 999],
+    [1000, 1999],
+  ])
+  assert.deepEqual(
+    markDuplicates(rows, existing).map((row) => row.duplicate),
+    [true, true],
+  )
+})
+
+test("wall-clock times are read in the profile time zone, and rows without one land at local noon", async () => {
+  const rows = mapImportRecords(
+    [
+      { date: "2024-11-02", time: "8:15 pm", mood: "7" },
+      { date: "2024-07-01", time: "23:30", mood: "6" },
+      { date: "2024-11-03", mood: "5" },
+    ],
+    { date: "date", time: "time", mood: "mood" },
+    { timeZone: "America/New_York" },
+  )
+
+  // EDT is UTC-4 until 3 November, so these fall on the next UTC day
+  assert.equal(rows[0].entry?.timestamp, "2024-11-03T00:15:00.000Z")
+  assert.equal(rows[1].entry?.timestamp, "2024-07-02T03:30:00.000Z")
+  assert.equal(rows[2].entry?.timestamp, undefined)
+
+  const inserted: Array<{ date: string; entry_timestamp: string }> = []
+  const supabase = {
+    from: () => ({
+      insert: async (batch: typeof inserted) => {
+        inserted.push(...batch)
+        return { error: null }
+      },
+    }),
+  } as unknown as SupabaseClient
+
+  const entries = rows.map((row) => row.entry!)
+  assert.equal(await insertImportedEntries(supabase, "user-1", entries, "America/New_York"), 3)
+  // 3 November is back on EST, UTC-5
+  assert.deepEqual(
+    inserted.map((row) => row.entry_timestamp),
+    ["2024-11-03T00:15:00.000Z", "2024-07-02T03:30:00.000Z", "2024-11-03T17:00:00.000Z"],
+  )
+})
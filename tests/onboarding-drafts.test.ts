@@ -0,0 +1,106 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { restoreOnboardingProgress, type OnboardingDraft } from "../lib/onboarding-drafts"
+import { ONBOARDING_QUESTIONNAIRE } from "../lib/onboarding-questionnaire"
+import type { QuestionAnswer } from "../lib/questionnaire"
+import { onboardingDraftSchema, onboardingRequestSchema } from "../lib/validations/onboarding"
+
+const questionIndex = (id: string) => ONBOARDING_QUESTIONNAIRE.questions.findIndex((question) => question.id === id)
+
+function draft(
+  questionId: string,
+  answer: QuestionAnswer,
+  { submissionId = "attempt-2", updatedAt = "2025-03-10T12:00:00Z", version = ONBOARDING_QUESTIONNAIRE.version } = {},
+): OnboardingDraft {
+  const index = questionIndex(questionId)
+  return {
+    step: index + 1,
+    stepTitle: ONBOARDING_QUESTIONNAIRE.questions[index].title,
+    response: JSON.stringify(answer),
+    metadata: { questionnaireId: "onboarding", questionnaireVersion: version, questionId, answer, submissionId },
+    updatedAt,
+  }
+}
+
+const presenting = draft("presenting-problem", { type: "free-text", value: "Trouble sleeping" })
+const symptoms = draft("symptoms", {
+  type: "assessment",
+  scores: {
+    phq9: { total: 6, severity: "mild" },
+    gad7: { total: 3, severity: "minimal" },
+    pss10: { total: 15, severity: "moderate" },
+    ucla3: { total: 4, severity: "not_lonely" },
+  },
+  symptomRatings: { sadness: 2, anxiety: 0, stress: 3, loneliness: 0 },
+})
+
+test("progress resumes at the first unanswered question of the latest attempt", () => {
+  const progress = restoreOnboardingProgress(ONBOARDING_QUESTIONNAIRE, [
+    presenting,
+    symptoms,
+    // An older attempt and an earlier questionnaire version are ignored
+    draft(
+      "therapy-history",
+      { type: "yes-no", value: false },
+      { submissionId: "attempt-1", updatedAt: "2025-03-01T00:00:00Z" },
+    ),
+    draft("therapy-history", { type: "yes-no", value: true }, { version: 1 }),
+  ])
+
+  assert.equal(progress.submissionId, "attempt-2")
+  assert.deepEqual(
+    progress.responses.map((response) => response.index),
+    [0, 1],
+  )
+  assert.deepEqual(Object.keys(progress.answers), ["presenting-problem", "symptoms"])
+  assert.equal(progress.nextIndex, questionIndex("therapy-history"))
+})
+
+test("answers are replayed through branching, skipping drafts for questions that no longer apply", () => {
+  const progress = restoreOnboardingProgress(ONBOARDING_QUESTIONNAIRE, [
+    presenting,
+    symptoms,
+    draft("therapy-history", { type: "yes-no", value: false }),
+    draft("relationship-importance", { type: "likert", value: 4 }),
+    // Readiness was changed to 4 after the low-readiness follow-up had been answered
+    draft("readiness", { type: "likert", value: 4 }),
+    draft("readiness-barriers", { type: "free-text", value: "Time" }),
+    draft("background", { type: "free-text", value: "Lives alone" }),
+  ])
+
+  // Everything is answered, so the final question is asked again to submit the check-in
+  assert.equal(progress.nextIndex, questionIndex("background"))
+  assert.ok(!progress.responses.some((response) => response.index === questionIndex("readiness-barriers")))
+  assert.equal(progress.answers["background"], undefined)
+  assert.deepEqual(progress.answers["readiness"], { type: "likert", value: 4 })
+})
+
+test("invalid or missing drafts mean starting over", () => {
+  assert.deepEqual(restoreOnboardingProgress(ONBOARDING_QUESTIONNAIRE, []), {
+    submissionId: null,
+    answers: {},
+    responses: [],
+    nextIndex: null,
+  })
+
+  const outOfRange = restoreOnboardingProgress(ONBOARDING_QUESTIONNAIRE, [
+    draft("presenting-problem", { type: "likert", value: 3 }),
+  ])
+  assert.equal(outOfRange.nextIndex, null)
+})
+
+test("drafts must name their question and attempt, and check-ins may carry a submission id", () => {
+  const { metadata, ...rest } = symptoms
+  assert.ok(onboardingDraftSchema.safeParse({ ...rest, metadata }).success)
+  assert.equal(
+    onboardingDraftSchema.safeParse({ ...rest, metadata: { ...metadata, submissionId: undefined } }).success,
+    false,
+  )
+
+  const parsed = onboardingRequestSchema.parse({
+    submissionId: "attempt-2",
+    moodEntry: { moodScore: 6, energyLevel: 5, emotions: [], triggers: [], coping: [], entryType: "text" },
+  })
+  assert.equal(parsed.submissionId, "attempt-2")
+})
@@ -0,0 +1,116 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider, type ChatRequest } from "../lib/llm"
+import { DEFAULT_FIXTURE_RESPONSES } from "../lib/llm/fixture"
+import { createRedactor } from "../lib/pii-redaction"
+
+test("redacts emails, phone numbers, addresses and dates", () => {
+  const redactor = createRedactor()
+  const text =
+    "Email me at jo.doe@example.com or call (555) 123-4567. I moved to 42 Maple Street, Apt 3B on 2024-03-05 and my birthday is March 3rd, 1990."
+
+  const redacted = redactor.redact(text)
+
+  assert.equal(
+    redacted,
+    "Email me at [EMAIL_1] or call [PHONE_1]. I moved to [ADDRESS_1] on [DATE_1] and my birthday is [DATE_2].",
+  )
+  assert.deepEqual(redactor.summary(), { email: 1, phone: 1, address: 1, date: 2 })
+})
+
+test("leaves scores, times and short numbers alone", () => {
+  const redactor = createRedactor()
+  const text = "Mood 4/10, slept 6 hours, woke at 07:30 and walked 2 km. Anxiety 3/5."
+
+  assert.equal(redactor.redact(text), text)
+  assert.deepEqual(redactor.summary(), {})
+})
+
+test("pseudonymizes names introduced by relationships and reuses the placeholder", () => {
+  const redactor = createRedactor()
+
+  const redacted = redactor.redact("My sister Anna and I argued. Later Anna apologised, and Dr. Patel suggested a walk.")
+
+  assert.equal(redacted, "My sister [NAME_2] and I argued. Later [NAME_2] apologised, and Dr. [NAME_1] suggested a walk.")
+  assert.deepEqual(redactor.summary(), { name: 2 })
+})
+
+test("always redacts known names but only counts them when they appear", () => {
+  const redactor = createRedactor({ knownNames: ["Will Turner"] })
+
+  assert.equal(redactor.redact("I will try again tomorrow."), "I will try again tomorrow.")
+  assert.deepEqual(redactor.summary(), {})
+
+  assert.equal(redactor.redact("Turner here, Will to friends."), "[NAME_2] here, [NAME_1] to friends.")
+  assert.deepEqual(redactor.summary(), { name: 2 })
+})
+
+test("placeholders stay consistent across fields and rehydrate nested output", () => {
+  const redactor = createRedactor()
+  const problem = redactor.redact("My partner Sam is moving out.")
+  const context = redactor.redact("Sam said we should talk on Friday.")
+
+  assert.equal(problem, "My partner [NAME_1] is moving out.")
+  assert.equal(context, "[NAME_1] said we should talk on Friday.")
+
+  const reply = redactor.rehydrate({
+    empathyMessage: "It sounds painful that [NAME_1] is moving out.",
+    recommendation: { title: "Plan the talk", steps: ["Write what you want [NAME_1] to hear", "[NAME_9] stays"] },
+    score: 4,
+  })
+
+  assert.deepEqual(reply, {
+    empathyMessage: "It sounds painful that Sam is moving out.",
+    recommendation: { title: "Plan the talk", steps: ["Write what you want Sam to hear", "[NAME_9] stays"] },
+    score: 4,
+  })
+})
+
+test("strict level also catches partial dates, bare streets, postcodes and capitalized names", () => {
+  const text = "Had coffee with Priya near Elm Road, 90210, on June 4th. Felt better."
+
+  assert.equal(createRedactor().redact(text), text)
+
+  const strict = createRedactor({ level: "strict" })
+  assert.equal(strict.redact(text), "Had coffee with [NAME_1] near [ADDRESS_1], [ADDRESS_2], on [DATE_1]. Felt better.")
+  assert.deepEqual(strict.summary(), { name: 1, address: 2, date: 1 })
+})
+
+test("strict level keeps weekdays, months and sentence starts", () => {
+  const strict = createRedactor({ level: "strict" })
+  const text = "Monday was rough. On Friday I felt calmer than in January."
+
+  assert.equal(strict.redact(text), text)
+})
+
+test("empathy prompts carry placeholders and replies are rehydrated", async () => {
+  const prompts: string[] = []
+  const provider = createFixtureProvider({
+    responses: {
+      empathy: (request: ChatRequest) => {
+        prompts.push(request.prompt)
+        const fixture = DEFAULT_FIXTURE_RESPONSES.empathy as { recommendation: unknown }
+        return { ...fixture, empathyMessage: "Missing [NAME_1] is hard, and it's okay to feel it." }
+      },
+    },
+  })
+
+  const response = await generateEmpathyRecommendations(
+    {
+      moodScore: 4,
+      detectedMood: "sad",
+      emotions: ["sad"],
+      energyLevel: 3,
+      presentingProblem: "My brother Tomas moved abroad; reach me at tomas.fan@example.com",
+      context: "Tomas left on 2024-09-01.",
+    },
+    { llm: provider, redaction: { level: "standard" } },
+  )
+
+  assert.equal(prompts.length, 1)
+  assert.doesNotMatch(prompts[0], /Tomas|example\.com|2024-09-01/)
+  assert.match(prompts[0], /\[NAME_1\].*\[EMAIL_1\]/)
+  assert.equal(response.empathyMessage, "Missing Tomas is hard, and it's okay to feel it.")
+})
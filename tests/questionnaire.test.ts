@@ -0,0 +1,133 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { ONBOARDING_QUESTIONNAIRE, therapeuticDataFromAnswers } from "../lib/onboarding-questionnaire"
+import {
+  findAnswerErrors,
+  findQuestion,
+  formatAnswer,
+  nextQuestionIndex,
+  validateAnswer,
+  visibleQuestions,
+  type Question,
+  type QuestionnaireAnswers,
+} from "../lib/questionnaire"
+import { onboardingRequestSchema } from "../lib/validations/onboarding"
+
+const question = (id: string): Question => findQuestion(ONBOARDING_QUESTIONNAIRE, id)!
+
+test("likert and multi-rating answers must be whole numbers within the scale", () => {
+  const readiness = question("readiness")
+  assert.equal(validateAnswer(readiness, { type: "likert", value: 4 }), null)
+  assert.equal(validateAnswer(readiness, { type: "likert", value: 6 }), "Choose a value from 1 to 5")
+  assert.equal(validateAnswer(readiness, { type: "likert", value: 2.5 }), "Choose a value from 1 to 5")
+  assert.equal(validateAnswer(readiness, { type: "free-text", value: "4" }), "This answer doesn't match the question")
+  assert.equal(validateAnswer(readiness, undefined), "Please answer this question")
+
+  const energy: Question = {
+    id: "energy",
+    type: "multi-rating",
+    title: "Energy",
+    prompt: "Rate your energy",
+    items: [
+      { id: "morning", label: "Morning" },
+      { id: "evening", label: "Evening" },
+    ],
+    min: 0,
+    max: 10,
+  }
+  assert.equal(validateAnswer(energy, { type: "multi-rating", values: { morning: 3 } }), "Rate Evening from 0 to 10")
+  const answer = { type: "multi-rating" as const, values: { morning: 3, evening: 7 } }
+  assert.equal(validateAnswer(energy, answer), null)
+  assert.equal(formatAnswer(energy, answer), "Morning: 3/10, Evening: 7/10")
+})
+
+test("yes/no follow-ups are only checked and shown for the matching answer", () => {
+  const history = question("therapy-history")
+  const yes = { type: "yes-no" as const, value: true, followUps: { duration: "6 months", type: "CBT" } }
+
+  assert.equal(validateAnswer(history, yes), null)
+  assert.equal(formatAnswer(history, yes), "Yes\nDuration: 6 months\nType: CBT")
+  assert.equal(formatAnswer(history, { type: "yes-no", value: false, followUps: { duration: "stale" } }), "No")
+  assert.equal(
+    validateAnswer(history, { type: "yes-no", value: true, followUps: { duration: "x".repeat(201) } }),
+    "Duration: please keep it under 200 characters",
+  )
+})
+
+test("a low readiness rating branches into the follow-up question", () => {
+  const answers: QuestionnaireAnswers = {
+    "presenting-problem": { type: "free-text", value: "Work stress" },
+    readiness: { type: "likert", value: 2 },
+  }
+  const readinessIndex = ONBOARDING_QUESTIONNAIRE.questions.findIndex((item) => item.id === "readiness")
+
+  const branched = nextQuestionIndex(ONBOARDING_QUESTIONNAIRE, answers, readinessIndex)
+  assert.equal(ONBOARDING_QUESTIONNAIRE.questions[branched!].id, "readiness-barriers")
+  assert.equal(visibleQuestions(ONBOARDING_QUESTIONNAIRE, answers).length, 7)
+
+  const ready = { ...answers, readiness: { type: "likert" as const, value: 4 } }
+  const skipped = nextQuestionIndex(ONBOARDING_QUESTIONNAIRE, ready, readinessIndex)
+  assert.equal(ONBOARDING_QUESTIONNAIRE.questions[skipped!].id, "background")
+  assert.equal(visibleQuestions(ONBOARDING_QUESTIONNAIRE, ready).length, 6)
+
+  assert.equal(nextQuestionIndex(ONBOARDING_QUESTIONNAIRE, ready, ONBOARDING_QUESTIONNAIRE.questions.length - 1), null)
+})
+
+test("therapeutic data is read from typed answers", () => {
+  const data = therapeuticDataFromAnswers({
+    symptoms: {
+      type: "assessment",
+      scores: { gad7: { total: 11, severity: "moderate" } },
+      symptomRatings: { anxiety: 3 },
+    },
+    "therapy-history": { type: "yes-no", value: true, followUps: { duration: " 1 year ", type: "" } },
+    "relationship-importance": { type: "likert", value: 5 },
+    readiness: { type: "likert", value: 3 },
+  })
+
+  assert.deepEqual(data, {
+    symptomRatings: { anxiety: 3 },
+    therapyHistory: { hasPreviousTherapy: true, duration: "1 year", type: undefined },
+    therapeuticRelationshipImportance: 5,
+    patientReadiness: 3,
+  })
+  assert.deepEqual(therapeuticDataFromAnswers({ "therapy-history": { type: "yes-no", value: false } }), {
+    therapyHistory: { hasPreviousTherapy: false },
+  })
+})
+
+test("submitted answers are stored typed and checked against their question", () => {
+  const parsed = onboardingRequestSchema.parse({
+    responses: [
+      {
+        step: 5,
+        stepTitle: "Patient Involvement",
+        response: "4/5",
+        metadata: { questionnaireId: "onboarding", questionId: "readiness", answer: { type: "likert", value: 4 } },
+      },
+    ],
+    moodEntry: { moodScore: 6, energyLevel: 5, emotions: [], triggers: [], coping: [], entryType: "text" },
+  })
+  assert.deepEqual(parsed.responses?.[0].metadata?.answer, { type: "likert", value: 4 })
+
+  assert.throws(() =>
+    onboardingRequestSchema.parse({
+      responses: [{ step: 5, stepTitle: "Patient Involvement", response: "4", metadata: { answer: { type: "likert" } } }],
+      moodEntry: { moodScore: 6, energyLevel: 5, emotions: [], triggers: [], coping: [], entryType: "text" },
+    }),
+  )
+
+  assert.deepEqual(
+    findAnswerErrors(ONBOARDING_QUESTIONNAIRE, [
+      { questionId: "readiness", answer: { type: "likert", value: 9 } },
+      { questionId: "missing", answer: { type: "free-text", value: "hi" } },
+      { questionId: "background", answer: { type: "free-text", value: "Lives with a partner" } },
+      { questionId: "background" },
+    ]),
+    [
+      { questionId: "readiness", message: "Choose a value from 1 to 5" },
+      { questionId: "missing", message: "Unknown question" },
+    ],
+  )
+})
@@ -0,0 +1,170 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+import {
+  buildRecommendationRotation,
+  describeRotationForPrompt,
+  empathyDeliveries,
+  summarizePastRecommendations,
+  type DeliveredRecommendation,
+} from "../lib/recommendation-history"
+import { contentItemId, rankCandidates } from "../lib/recommendation-personalization"
+
+const NOW = new Date("2025-03-10T12:00:00Z")
+
+function delivered(
+  itemId: string,
+  daysAgo: number,
+  actionType: DeliveredRecommendation["actionType"] = null,
+): DeliveredRecommendation {
+  const kind = itemId.split(":")[0] as DeliveredRecommendation["kind"]
+  return {
+    itemId,
+    kind,
+    title: itemId.split(":")[1],
+    actionType,
+    deliveredAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+  }
+}
+
+test("items delivered within the window are recent, fresher ones weigh more", () => {
+  const rotation = buildRecommendationRotation(
+    [delivered("song:a", 1), delivered("song:b", 5), delivered("song:c", 8), delivered("song:a", 6)],
+    NOW,
+  )
+
+  assert.deepEqual(Object.keys(rotation.recentItems).sort(), ["song:a", "song:b"])
+  assert.ok(rotation.recentItems["song:a"] > rotation.recentItems["song:b"])
+  assert.equal(rotation.recentItems["song:a"], 0.86)
+})
+
+test("two exercises in a row of one intervention type mark it overused", () => {
+  const repeated = buildRecommendationRotation(
+    [delivered("exercise:box", 1, "breathing"), delivered("exercise:478", 2, "breathing"), delivered("exercise:list", 3, "journal")],
+    NOW,
+  )
+  assert.deepEqual(repeated.overusedActionTypes, ["breathing"])
+  assert.deepEqual(repeated.recentExercises, ["box", "478", "list"])
+
+  const varied = buildRecommendationRotation(
+    [delivered("exercise:box", 1, "breathing"), delivered("exercise:list", 2, "journal")],
+    NOW,
+  )
+  assert.deepEqual(varied.overusedActionTypes, [])
+
+  assert.deepEqual(describeRotationForPrompt(repeated), [
+    "Recently suggested, avoid repeating: box; 478; list",
+    "Suggest a different intervention type than: breathing",
+  ])
+  assert.deepEqual(describeRotationForPrompt(undefined), [])
+})
+
+test("ranking passes over recent items, oldest repeat first", () => {
+  const candidates = [{ id: "song:a" }, { id: "song:b" }, { id: "song:c" }]
+
+  const rotation = buildRecommendationRotation([delivered("song:a", 1), delivered("song:b", 4)], NOW)
+  assert.deepEqual(
+    rankCandidates(candidates, undefined, rotation).map((candidate) => candidate.id),
+    ["song:c", "song:b", "song:a"],
+  )
+
+  const overused = buildRecommendationRotation(
+    [delivered("exercise:x", 1, "breathing"), delivered("exercise:y", 2, "breathing")],
+    NOW,
+  )
+  const exercises = [
+    { id: "exercise:box", actionType: "breathing" as const },
+    { id: "exercise:list", actionType: "journal" as const },
+  ]
+  assert.equal(rankCandidates(exercises, undefined, overused)[0].id, "exercise:list")
+})
+
+test("empathy responses rotate away from items delivered this week", async () => {
+  const provider = createFixtureProvider({ responses: { empathy: "not json" } })
+  const input = { moodScore: 3, detectedMood: "anxious" as const, emotions: ["anxious"], energyLevel: 6 }
+
+  const first = await generateEmpathyRecommendations(input, { llm: provider })
+  const rotation = buildRecommendationRotation(
+    empathyDeliveries(first).map((delivery) => ({
+      itemId: delivery.itemId,
+      kind: delivery.kind,
+      title: delivery.title,
+      actionType: delivery.actionType ?? null,
+      deliveredAt: NOW.toISOString(),
+    })),
+    NOW,
+  )
+  const second = await generateEmpathyRecommendations(input, { llm: provider, rotation })
+
+  for (const kind of ["exercise", "quote", "song", "book", "place"] as const) {
+    assert.notEqual(second.itemIds[kind], first.itemIds[kind], kind)
+  }
+  assert.equal(second.empathyMessage, first.empathyMessage)
+})
+
+test("an LLM exercise delivered this week is swapped for a fallback", async () => {
+  const repeated = {
+    title: "Box Breathing",
+    description: "Breathe in for four, hold for four, out for four.",
+    actionLabel: "Start",
+    actionType: "breathing",
+  }
+  const provider = createFixtureProvider({
+    responses: { empathy: JSON.stringify({ empathyMessage: "That sounds hard.", recommendation: repeated }) },
+  })
+  const rotation = buildRecommendationRotation([delivered(contentItemId("exercise", repeated.title), 2, "breathing")], NOW)
+
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 3, detectedMood: "anxious", emotions: [], energyLevel: 6 },
+    { llm: provider, rotation },
+  )
+
+  assert.notEqual(response.recommendation.title, repeated.title)
+})
+
+test("deliveries cover each item shown, and none for crisis responses", async () => {
+  const provider = createFixtureProvider({ responses: { empathy: "not json" } })
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 4, detectedMood: "tired", emotions: ["tired"], energyLevel: 2 },
+    { llm: provider },
+  )
+
+  const deliveries = empathyDeliveries(response)
+  assert.deepEqual(
+    deliveries.map((delivery) => delivery.kind),
+    ["exercise", "quote", "song", "book", "place"],
+  )
+  assert.ok(deliveries.every((delivery) => delivery.source === "empathy" && delivery.detectedMood === "tired"))
+  assert.deepEqual(empathyDeliveries({ ...response, itemIds: {} }), [])
+})
+
+test("past recommendations group deliveries per item with the current rating", () => {
+  const row = (itemId: string, deliveredAt: string, payload: Record<string, unknown>) => ({
+    item_id: itemId,
+    item_kind: "song" as const,
+    item_title: itemId,
+    payload,
+    detected_mood: "sad",
+    delivered_at: deliveredAt,
+  })
+
+  const items = summarizePastRecommendations(
+    [
+      row("song:a", "2025-03-09T00:00:00Z", { artist: "Latest" }),
+      row("song:b", "2025-03-08T00:00:00Z", {}),
+      row("song:a", "2025-03-01T00:00:00Z", { artist: "Older" }),
+    ],
+    { "song:a": "helpful" },
+  )
+
+  assert.deepEqual(
+    items.map((item) => [item.itemId, item.timesDelivered, item.lastDeliveredAt, item.feedback]),
+    [
+      ["song:a", 2, "2025-03-09T00:00:00Z", "helpful"],
+      ["song:b", 1, "2025-03-08T00:00:00Z", null],
+    ],
+  )
+  assert.deepEqual(items[0].payload, { artist: "Latest" })
+})
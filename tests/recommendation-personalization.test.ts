@@ -0,0 +1,130 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+import {
+  buildRecommendationPreferences,
+  describePreferencesForPrompt,
+  rankCandidates,
+  recommendationItemId,
+  type ItemFeedbackRecord,
+} from "../lib/recommendation-personalization"
+import { recommendationFeedbackSchema } from "../lib/validations/empathy"
+
+function vote(
+  itemId: string,
+  feedback: ItemFeedbackRecord["feedback"],
+  updatedAt = "2025-01-01T00:00:00Z",
+  actionType: ItemFeedbackRecord["actionType"] = null,
+): ItemFeedbackRecord {
+  const kind = itemId.split(":")[0] as ItemFeedbackRecord["kind"]
+  return { itemId, kind, title: itemId.split(":")[1], actionType, feedback, updatedAt }
+}
+
+test("item ids are stable slugs scoped by kind", () => {
+  assert.equal(recommendationItemId("book", "Feeling Good: The New Mood Therapy"), "book:feeling-good-the-new-mood-therapy")
+  assert.equal(recommendationItemId("song", "Sigur Rós Hoppípolla"), "song:sigur-ros-hoppipolla")
+})
+
+test("the latest vote per item wins and intervention types are scored", () => {
+  const preferences = buildRecommendationPreferences([
+    vote("quote:a", "not_helpful", "2025-01-01T00:00:00Z"),
+    vote("quote:a", "helpful", "2025-01-02T00:00:00Z"),
+    vote("exercise:box-breathing", "helpful", "2025-01-01T00:00:00Z", "breathing"),
+    vote("exercise:4-7-8", "helpful", "2025-01-01T00:00:00Z", "breathing"),
+    vote("exercise:gratitude-list", "not_helpful", "2025-01-01T00:00:00Z", "journal"),
+  ])
+
+  assert.deepEqual(preferences.helpfulItems.sort(), ["exercise:4-7-8", "exercise:box-breathing", "quote:a"])
+  assert.deepEqual(preferences.unhelpfulItems, ["exercise:gratitude-list"])
+  assert.deepEqual(preferences.unhelpfulExercises, ["gratitude-list"])
+  assert.equal(preferences.interventionScores.breathing, 0.5)
+  assert.equal(preferences.interventionScores.journal, -0.33)
+  assert.equal(preferences.interventionScores.timer, 0)
+})
+
+test("ranking keeps relevance order until feedback says otherwise", () => {
+  const candidates = [
+    { id: "exercise:journal-prompt", actionType: "journal" as const },
+    { id: "exercise:breathing", actionType: "breathing" as const },
+    { id: "exercise:timer", actionType: "timer" as const },
+  ]
+
+  assert.deepEqual(rankCandidates(candidates, undefined), candidates)
+  assert.deepEqual(rankCandidates(candidates, buildRecommendationPreferences([])), candidates)
+
+  const rejected = rankCandidates(candidates, buildRecommendationPreferences([vote("exercise:journal-prompt", "not_helpful")]))
+  assert.equal(rejected[0].id, "exercise:breathing")
+  assert.equal(rejected[rejected.length - 1].id, "exercise:journal-prompt")
+
+  const likesTimers = buildRecommendationPreferences([
+    vote("exercise:a", "helpful", undefined, "timer"),
+    vote("exercise:b", "helpful", undefined, "timer"),
+  ])
+  assert.equal(rankCandidates(candidates, likesTimers)[0].id, "exercise:timer")
+})
+
+test("prompt hints name preferred and rejected interventions", () => {
+  const preferences = buildRecommendationPreferences([
+    vote("exercise:box-breathing", "helpful", undefined, "breathing"),
+    vote("exercise:gratitude-list", "not_helpful", undefined, "journal"),
+  ])
+
+  assert.deepEqual(describePreferencesForPrompt(preferences), [
+    "Intervention types that helped before: breathing",
+    "Intervention types rated unhelpful: journal",
+    "Do not suggest again: gratitude-list",
+  ])
+  assert.deepEqual(describePreferencesForPrompt(undefined), [])
+})
+
+test("feedback payloads must name an item of the given kind", () => {
+  const base = { title: "Weightless", mood: "anxious", feedback: "helpful" }
+  assert.ok(recommendationFeedbackSchema.safeParse({ ...base, itemId: "song:marconi-union-weightless", kind: "song" }).success)
+  assert.ok(!recommendationFeedbackSchema.safeParse({ ...base, itemId: "book:weightless", kind: "song" }).success)
+  assert.ok(!recommendationFeedbackSchema.safeParse({ ...base, itemId: "song:x", kind: "podcast" }).success)
+})
+
+test("empathy responses skip items the user rejected and report item ids", async () => {
+  const provider = createFixtureProvider({ responses: { empathy: "not json" } })
+  const input = { moodScore: 3, detectedMood: "anxious" as const, emotions: ["anxious"], energyLevel: 6 }
+
+  const baseline = await generateEmpathyRecommendations(input, { llm: provider })
+  assert.equal(baseline.itemIds.book, "book:the-anxiety-and-phobia-workbook")
+  assert.equal(baseline.itemIds.exercise, recommendationItemId("exercise", baseline.recommendation.title))
+
+  const preferences = buildRecommendationPreferences([
+    vote(baseline.itemIds.book!, "not_helpful"),
+    vote(baseline.itemIds.exercise!, "not_helpful", undefined, "breathing"),
+  ])
+  const personalized = await generateEmpathyRecommendations(input, { llm: provider, preferences })
+
+  assert.notEqual(personalized.itemIds.book, baseline.itemIds.book)
+  assert.notEqual(personalized.itemIds.exercise, baseline.itemIds.exercise)
+  assert.equal(personalized.itemIds.song, baseline.itemIds.song)
+  assert.equal(personalized.empathyMessage, baseline.empathyMessage)
+})
+
+test("an LLM suggestion the user already rejected is swapped for a fallback", async () => {
+  const rejected = {
+    title: "Progressive Muscle Relaxation",
+    description: "Tense and release each muscle group.",
+    actionLabel: "Start",
+    actionType: "timer",
+  }
+  const provider = createFixtureProvider({
+    responses: { empathy: JSON.stringify({ empathyMessage: "That sounds hard.", recommendation: rejected }) },
+  })
+  const preferences = buildRecommendationPreferences([
+    vote(recommendationItemId("exercise", rejected.title), "not_helpful", undefined, "timer"),
+  ])
+
+  const response = await generateEmpathyRecommendations(
+    { moodScore: 3, detectedMood: "stressed", emotions: [], energyLevel: 6 },
+    { llm: provider, preferences },
+  )
+
+  assert.equal(response.empathyMessage, "That sounds hard.")
+  assert.notEqual(response.recommendation.title, rejected.title)
+})
@@ -0,0 +1,116 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { executeAgentCommand } from "../lib/agent-commands"
+import { recommendResource } from "../lib/resource-recommendations"
+import { agentCommandSchema } from "../lib/validations/agent"
+
+interface HistoryRow {
+  user_id: string
+  item_id: string
+  item_kind: string
+  item_title: string
+  action_type: string | null
+  source: string
+  delivered_at: string
+}
+
+// recommendation_history keeps what is inserted; content_items is unreadable, so the bundled seed is used
+function createSupabaseStub() {
+  const history: HistoryRow[] = []
+  const client = {
+    from: (table: string) => {
+      if (table === "recommendation_history") {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          order: () => query,
+          limit: async () => ({ data: [...history].reverse(), error: null }),
+          insert: async (rows: Omit<HistoryRow, "delivered_at">[]) => {
+            history.push(...rows.map((row) => ({ ...row, delivered_at: new Date().toISOString() })))
+            return { error: null }
+          },
+        }
+        return query
+      }
+      return {
+        select: () => ({ eq: async () => ({ data: null, error: { message: "unavailable" } }) }),
+      }
+    },
+  }
+  return { client: client as unknown as SupabaseClient, history }
+}
+
+// External APIs are down, so every pick comes from the catalogue
+async function withOfflineApis(run: () => Promise<void>) {
+  const originalFetch = globalThis.fetch
+  const requested: string[] = []
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    requested.push(String(input))
+    throw new Error("offline")
+  }) as typeof fetch
+  try {
+    await run()
+  } finally {
+    globalThis.fetch = originalFetch
+  }
+  return requested
+}
+
+test("recommendResource records each pick and rotates away from it next time", async () => {
+  const { client, history } = createSupabaseStub()
+
+  await withOfflineApis(async () => {
+    const first = await recommendResource("quote", { detectedMood: "sad" }, { supabase: client, userId: "user-1" })
+    const second = await recommendResource("quote", { detectedMood: "sad" }, { supabase: client, userId: "user-1" })
+
+    assert.notEqual(second.text, first.text)
+  })
+
+  assert.deepEqual(
+    history.map((row) => [row.user_id, row.item_kind, row.source]),
+    [
+      ["user-1", "quote", "quote"],
+      ["user-1", "quote", "quote"],
+    ],
+  )
+})
+
+test("recommendResource without a user reads the catalogue but records nothing", async () => {
+  const { client, history } = createSupabaseStub()
+
+  await withOfflineApis(async () => {
+    const book = await recommendResource("book", { detectedMood: "tired" }, { supabase: client })
+    assert.ok(book.title)
+  })
+
+  assert.equal(history.length, 0)
+})
+
+test("the palette's fetch_resources goes through the same rotation and history, not an HTTP round trip", async () => {
+  const { client, history } = createSupabaseStub()
+  const command = agentCommandSchema.parse({
+    command: "fetch_resources",
+    args: { resourceType: "place", mood: "stressed", latitude: 40.7, longitude: -74 },
+  })
+  const originalKey = process.env.FOURSQUARE_API_KEY
+  process.env.FOURSQUARE_API_KEY = "test-key"
+
+  const requested = await withOfflineApis(async () => {
+    const result = await executeAgentCommand(command, { supabase: client, userId: "user-1" })
+    assert.equal(result.kind, "resource")
+  }).finally(() => {
+    if (originalKey === undefined) {
+      delete process.env.FOURSQUARE_API_KEY
+    } else {
+      process.env.FOURSQUARE_API_KEY = originalKey
+    }
+  })
+
+  assert.equal(requested.length, 1)
+  assert.match(requested[0], /^https:\/\/api\.foursquare\.com\//)
+  assert.deepEqual(
+    history.map((row) => [row.user_id, row.item_kind, row.source]),
+    [["user-1", "place", "place"]],
+  )
+})
@@ -0,0 +1,78 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { assessCrisisRisk, getCrisisSupport } from "../lib/crisis-safety"
+import { generateEmpathyRecommendations } from "../lib/empathy-agent"
+import { createFixtureProvider } from "../lib/llm"
+import {
+  emptySafetyPlan,
+  formatSafetyPlanText,
+  isSafetyPlanEmpty,
+  normalizeSafetyPlan,
+  suggestsSafetyPlan,
+} from "../lib/safety-plan"
+import { safetyPlanSchema } from "../lib/validations/safety-plan"
+
+test("normalizeSafetyPlan trims entries and drops blanks left by the editor", () => {
+  const plan = normalizeSafetyPlan({
+    ...emptySafetyPlan(),
+    warningSigns: ["  Not sleeping ", "", "   "],
+    supportContacts: [{ name: " Sam ", phone: " 555 0100 " }, { name: "", phone: "555 0199" }, { name: "Alex", phone: "" }],
+  })
+
+  assert.deepEqual(plan.warningSigns, ["Not sleeping"])
+  assert.deepEqual(plan.supportContacts, [{ name: "Sam", phone: "555 0100" }, { name: "Alex" }])
+  assert.equal(isSafetyPlanEmpty(normalizeSafetyPlan({ ...emptySafetyPlan(), copingStrategies: [" "] })), true)
+  assert.equal(isSafetyPlanEmpty(plan), false)
+  assert.equal(isSafetyPlanEmpty(null), true)
+})
+
+test("suggestsSafetyPlan flags any suicideTrends rating or a symptom at the top of its scale", () => {
+  assert.equal(suggestsSafetyPlan(undefined), false)
+  assert.equal(suggestsSafetyPlan({ anxiety: 3, sadness: 3, suicideTrends: 0 }), false)
+  assert.equal(suggestsSafetyPlan({ suicideTrends: 1 }), true)
+  assert.equal(suggestsSafetyPlan({ loneliness: 4 }), true)
+})
+
+test("formatSafetyPlanText lists every step and appends regional crisis lines to step 5", () => {
+  const support = getCrisisSupport(assessCrisisRisk({}), "en-US")
+  const text = formatSafetyPlanText(
+    {
+      ...emptySafetyPlan(),
+      copingStrategies: ["Go for a walk"],
+      professionalContacts: [{ name: "Dr. Lee", phone: "555 0123" }],
+      updatedAt: "2025-03-10T12:00:00.000Z",
+    },
+    support,
+  )
+
+  assert.match(text, /^MY SAFETY PLAN\n/)
+  assert.match(text, /Step 1: Warning signs\n- \(not filled in yet\)/)
+  assert.match(text, /Step 2: Internal coping strategies\n- Go for a walk/)
+  assert.match(text, /Step 5: Professionals and crisis lines\n- Dr\. Lee - 555 0123\n- Emergency services - 911\n- .* - 988/)
+  assert.match(text, /Step 7: Reasons for living/)
+  assert.match(text, /Last updated 2025-03-10\n$/)
+})
+
+test("safetyPlanSchema defaults missing sections and rejects oversized entries", () => {
+  const parsed = safetyPlanSchema.parse({ warningSigns: ["Isolating"] })
+  assert.deepEqual(parsed.reasonsForLiving, [])
+  assert.deepEqual(parsed.supportContacts, [])
+
+  assert.equal(safetyPlanSchema.safeParse({ warningSigns: ["x".repeat(501)] }).success, false)
+  assert.equal(safetyPlanSchema.safeParse({ supportContacts: [{ phone: "555" }] }).success, false)
+})
+
+test("generateEmpathyRecommendations suggests a safety plan when distress is elevated", async () => {
+  const elevated = await generateEmpathyRecommendations(
+    { moodScore: 3, detectedMood: "sad", emotions: [], energyLevel: 4, symptomRatings: { sadness: 4 } },
+    { llm: createFixtureProvider() },
+  )
+  assert.equal(elevated.safetyPlanSuggested, true)
+  assert.equal(elevated.crisis, undefined)
+
+  const calm = await generateEmpathyRecommendations(
+    { moodScore: 7, detectedMood: "calm", emotions: [], energyLevel: 6, symptomRatings: { sadness: 1 } },
+    { llm: createFixtureProvider() },
+  )
+  assert.equal(calm.safetyPlanSuggested, undefined)
+})
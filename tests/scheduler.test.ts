@@ -0,0 +1,114 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import { createLogTransport, getDeliveryAdapter } from "../lib/delivery-adapters"
+import { buildDeliveryMessage, computeDueDeliveries, getLocalTime, type SchedulerProfile } from "../lib/scheduler"
+import { buildWeeklyReport } from "../lib/weekly-report"
+
+function profile(overrides: Partial<SchedulerProfile>): SchedulerProfile {
+  return {
+    id: "user-1",
+    email: "sam@example.com",
+    timezone: "UTC",
+    daily_reminder: true,
+    weekly_summary: true,
+    reminder_time: "09:00",
+    notify_email: true,
+    notify_push: false,
+    notify_sms: false,
+    ...overrides,
+  }
+}
+
+// Monday 2024-11-04 14:30 UTC
+const now = new Date("2024-11-04T14:30:00Z")
+
+test("getLocalTime reads wall-clock time per time zone", () => {
+  assert.deepEqual(getLocalTime(now, "America/New_York"), {
+    timeZone: "America/New_York",
+    date: "2024-11-04",
+    time: "09:30",
+    weekday: 1,
+  })
+  assert.equal(getLocalTime(now, "Asia/Tokyo").date, "2024-11-04")
+  assert.equal(getLocalTime(now, "Asia/Tokyo").time, "23:30")
+  assert.equal(getLocalTime(now, "Not/AZone").timeZone, "UTC")
+  assert.equal(getLocalTime(now, "").timeZone, "UTC")
+})
+
+test("computeDueDeliveries waits for each user's local reminder time", () => {
+  const due = computeDueDeliveries(
+    [
+      profile({ id: "ny", timezone: "America/New_York" }),
+      profile({ id: "la", timezone: "America/Los_Angeles" }),
+      profile({ id: "bogota-late", timezone: "America/Bogota", reminder_time: "20:00" }),
+    ],
+    now,
+  )
+  assert.deepEqual(
+    due.filter((item) => item.kind === "daily_reminder").map((item) => item.userId),
+    ["ny"],
+  )
+})
+
+test("computeDueDeliveries sends weekly summaries only on the local Monday", () => {
+  const monday = computeDueDeliveries([profile({ timezone: "America/New_York" })], now)
+  assert.deepEqual(
+    monday.map((item) => item.kind),
+    ["daily_reminder", "weekly_summary"],
+  )
+
+  // Already 03:30 on Tuesday in Auckland
+  const tuesday = computeDueDeliveries([profile({ timezone: "Pacific/Auckland", reminder_time: "03:00" })], now)
+  assert.deepEqual(
+    tuesday.map((item) => item.kind),
+    ["daily_reminder"],
+  )
+  assert.equal(tuesday[0].periodKey, "2024-11-05")
+})
+
+test("computeDueDeliveries respects preferences and channels", () => {
+  assert.equal(computeDueDeliveries([profile({ daily_reminder: false, weekly_summary: false })], now).length, 0)
+  assert.equal(computeDueDeliveries([profile({ notify_email: false })], now).length, 0)
+
+  const multiChannel = computeDueDeliveries([profile({ weekly_summary: false, notify_push: true, notify_sms: true })], now)
+  assert.deepEqual(
+    multiChannel.map((item) => item.channel),
+    ["email", "push", "sms"],
+  )
+  assert.ok(multiChannel.every((item) => item.periodKey === "2024-11-04"))
+})
+
+test("buildDeliveryMessage only addresses e-mail deliveries", () => {
+  const [email, push] = computeDueDeliveries([profile({ weekly_summary: false, notify_push: true })], now)
+  assert.equal(buildDeliveryMessage(email, "https://app.example.com/").to, "sam@example.com")
+  assert.equal(buildDeliveryMessage(push, "https://app.example.com").to, null)
+  assert.match(buildDeliveryMessage(email, "https://app.example.com/").text, /https:\/\/app\.example\.com\/onboarding/)
+})
+
+test("buildDeliveryMessage renders weekly summaries from the report", () => {
+  const [summary] = computeDueDeliveries([profile({ daily_reminder: false })], now)
+  const report = buildWeeklyReport({
+    entries: [{ date: "2024-11-03", mood: 7, energy: 6, emotions: [], triggers: [], coping: [], type: "text" }],
+    goals: [],
+    weekEnd: "2024-11-03",
+  })
+
+  const message = buildDeliveryMessage(summary, "https://app.example.com", report)
+  assert.equal(summary.kind, "weekly_summary")
+  assert.match(message.text, /Mood: 7\/10/)
+  assert.match(message.html ?? "", /Your week in review/)
+  assert.equal(buildDeliveryMessage(summary, "https://app.example.com").html, undefined)
+})
+
+test("log transport records metadata without recipients or bodies", async () => {
+  const logged: unknown[][] = []
+  const transport = createLogTransport({ info: (...args: unknown[]) => void logged.push(args) })
+  const [delivery] = computeDueDeliveries([profile({ weekly_summary: false })], now)
+
+  await transport.send(buildDeliveryMessage(delivery, "https://app.example.com"))
+
+  assert.equal(logged.length, 1)
+  assert.ok(!JSON.stringify(logged).includes("sam@example.com"))
+  assert.equal(getDeliveryAdapter("log").name, "log")
+  assert.throws(() => getDeliveryAdapter("carrier-pigeon"))
+})
@@ -0,0 +1,102 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import * as webTools from "../lib/mcp-tools"
+import {
+  analyzeTriggers,
+  calculateSummary,
+  detectEnergyPatterns,
+  detectMoodCycles,
+  detectTemporalPatterns,
+  detectTriggerPatterns,
+  generateUserInsights,
+} from "../mcp-server/src/tools/user-insights"
+import type { UserInsightsInput } from "../lib/mcp-tools"
+
+// West of UTC, reading the local weekday of a date-only string lands on the previous day
+process.env.TZ = "America/Los_Angeles"
+
+type History = UserInsightsInput["moodHistory"]
+
+function history(scores: number[], overrides: Partial<History[number]>[] = []): History {
+  return scores.map((moodScore, index) => ({
+    date: `2024-10-${String(index + 1).padStart(2, "0")}`,
+    mood: moodScore >= 6 ? "happy" : "sad",
+    moodScore,
+    energyLevel: 5,
+    ...overrides[index],
+  }))
+}
+
+test("web routes use the MCP server insights engine", () => {
+  assert.equal(webTools.generateUserInsights, generateUserInsights)
+})
+
+test("calculateSummary derives stability from variance and trend from halves", () => {
+  assert.equal(calculateSummary(history([5, 5, 5, 5])).moodStability, 100)
+  assert.equal(calculateSummary(history([1, 9, 1, 9])).moodStability, 0)
+  assert.equal(calculateSummary(history([3, 3, 7, 7])).improvementTrend, "improving")
+  assert.equal(calculateSummary(history([7, 7, 3, 3])).improvementTrend, "declining")
+})
+
+test("detectTemporalPatterns flags weekdays with lower mood", () => {
+  const pattern = detectTemporalPatterns([
+    { date: "2024-10-07", mood: "sad", moodScore: 2, energyLevel: 4 },
+    { date: "2024-10-08", mood: "happy", moodScore: 7, energyLevel: 6 },
+    { date: "2024-10-09", mood: "happy", moodScore: 7, energyLevel: 6 },
+    { date: "2024-10-10", mood: "happy", moodScore: 7, energyLevel: 6 },
+  ])
+  assert.equal(pattern?.type, "temporal")
+  assert.equal(pattern?.description, "Your mood tends to be lower on Mon")
+
+  assert.equal(detectTemporalPatterns(history([6, 6, 6, 6])), null)
+})
+
+test("detectMoodCycles finds swings and extended low periods", () => {
+  assert.equal(detectMoodCycles(history([2, 8, 2, 8, 2, 8, 2, 8]))?.description, "You experience frequent mood fluctuations")
+  assert.equal(
+    detectMoodCycles(history([6, 6, 3, 3, 3, 6, 6, 6]))?.description,
+    "You've experienced extended periods of low mood",
+  )
+  assert.equal(detectMoodCycles(history([2, 8, 2])), null)
+})
+
+test("detectEnergyPatterns reports low energy and mood-energy coupling", () => {
+  const lowEnergy = history([5, 5, 5], [{ energyLevel: 2 }, { energyLevel: 3 }, { energyLevel: 2 }])
+  assert.equal(detectEnergyPatterns(lowEnergy)?.description, "Your energy levels have been consistently low")
+
+  const coupled = history([4, 6, 8], [{ energyLevel: 4 }, { energyLevel: 6 }, { energyLevel: 8 }])
+  assert.equal(detectEnergyPatterns(coupled)?.description, "Your mood closely tracks your energy levels")
+
+  const decoupled = history([2, 9, 2], [{ energyLevel: 9 }, { energyLevel: 5 }, { energyLevel: 9 }])
+  assert.equal(detectEnergyPatterns(decoupled), null)
+})
+
+test("detectTriggerPatterns surfaces recurring triggers with mood impact", () => {
+  const entries = history([7, 3, 7, 3], [{}, { triggers: ["work"] }, {}, { triggers: ["work"] }])
+  assert.equal(detectTriggerPatterns(entries)?.description, '"work" appears as a recurring trigger')
+
+  const oneOff = history([7, 3, 7], [{}, { triggers: ["work"] }, {}])
+  assert.equal(detectTriggerPatterns(oneOff), null)
+})
+
+test("analyzeTriggers classifies trigger impact by average mood", () => {
+  const entries = history(
+    [8, 3, 5, 8],
+    [{ triggers: ["exercise"] }, { triggers: ["work"] }, { triggers: ["commute"] }, { triggers: ["exercise"] }],
+  )
+  const triggers = analyzeTriggers(entries)
+  assert.deepEqual(triggers, [
+    { trigger: "exercise", frequency: 50, impact: "positive" },
+    { trigger: "work", frequency: 25, impact: "negative" },
+    { trigger: "commute", frequency: 25, impact: "neutral" },
+  ])
+})
+
+test("generateUserInsights analyzes history oldest first regardless of input order", async () => {
+  const entries = history([3, 3, 3, 7, 7, 7])
+  const ascending = await generateUserInsights({ userId: "user-1", moodHistory: entries })
+  const descending = await generateUserInsights({ userId: "user-1", moodHistory: [...entries].reverse() })
+
+  assert.equal(ascending.summary.improvementTrend, "improving")
+  assert.deepEqual(descending, ascending)
+})
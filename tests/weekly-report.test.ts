@@ -0,0 +1,103 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import {
+  buildWeeklyReport,
+  getReportWeek,
+  renderWeeklyReportHtml,
+  renderWeeklyReportText,
+} from "../lib/weekly-report"
+import type { MoodEntry } from "../types/wellness"
+
+function entry(date: string, mood: number, energy: number, extra: Partial<MoodEntry> = {}): MoodEntry {
+  return { date, mood, energy, emotions: [], triggers: [], coping: [], type: "text", ...extra }
+}
+
+// Report week: Mon 2024-10-28 .. Sun 2024-11-03; previous week: 2024-10-21 .. 2024-10-27
+const entries: MoodEntry[] = [
+  entry("2024-11-05", 1, 1),
+  entry("2024-11-03", 8, 7, { triggers: ["work"], coping: ["walk"] }),
+  entry("2024-11-02", 6, 5),
+  entry("2024-11-01", 4, 3, { triggers: ["work", "sleep"] }),
+  entry("2024-11-01", 6, 5),
+  entry("2024-10-25", 5, 4),
+  entry("2024-10-22", 3, 2),
+]
+
+const goals = [{ id: "g1", goal: "Meditate", target: 7, current: 3, unit: "sessions", progress: 43 }]
+
+test("getReportWeek spans seven days and the seven before them", () => {
+  assert.deepEqual(getReportWeek("2024-11-03"), {
+    start: "2024-10-28",
+    end: "2024-11-03",
+    previousStart: "2024-10-21",
+    previousEnd: "2024-10-27",
+  })
+})
+
+test("buildWeeklyReport computes week-over-week deltas and best/worst days", () => {
+  const report = buildWeeklyReport({ entries, goals, weekEnd: "2024-11-03" })
+
+  assert.equal(report.checkIns, 4)
+  assert.deepEqual(report.mood, { average: 6, previousAverage: 4, delta: 2 })
+  assert.deepEqual(report.energy, { average: 5, previousAverage: 3, delta: 2 })
+  assert.deepEqual(report.bestDay, { date: "2024-11-03", weekday: "Sun", mood: 8 })
+  assert.deepEqual(report.worstDay, { date: "2024-11-01", weekday: "Fri", mood: 5 })
+  assert.equal(report.streak, 3)
+  assert.deepEqual(report.goals, goals)
+})
+
+test("buildWeeklyReport prefers analytics view data and falls back to entries", () => {
+  const fromEntries = buildWeeklyReport({ entries, goals: [], weekEnd: "2024-11-03" })
+  assert.deepEqual(fromEntries.topTriggers[0], { trigger: "work", occurrences: 2 })
+  assert.deepEqual(fromEntries.topCoping, [{ strategy: "walk", averageMood: 8 }])
+
+  const fromViews = buildWeeklyReport({
+    entries,
+    goals: [],
+    weekEnd: "2024-11-03",
+    triggerFrequency: { deadlines: 9, family: 4, sleep: 2, noise: 1 },
+    copingEffectiveness: { yoga: 7.5, music: 8.2 },
+  })
+  assert.deepEqual(
+    fromViews.topTriggers.map((item) => item.trigger),
+    ["deadlines", "family", "sleep"],
+  )
+  assert.deepEqual(fromViews.topCoping[0], { strategy: "music", averageMood: 8.2 })
+})
+
+test("buildWeeklyReport only counts a streak still running at the end of the report week", () => {
+  const lapsed = [entry("2024-10-29", 6, 5), entry("2024-10-30", 7, 6), entry("2024-10-31", 5, 5)]
+  assert.equal(buildWeeklyReport({ entries: lapsed, goals: [], weekEnd: "2024-11-03" }).streak, 0)
+
+  // A check-in on the last day of the week or the day before keeps it going
+  assert.equal(buildWeeklyReport({ entries: lapsed, goals: [], weekEnd: "2024-11-01" }).streak, 3)
+  assert.equal(buildWeeklyReport({ entries: lapsed, goals: [], weekEnd: "2024-10-31" }).streak, 3)
+})
+
+test("buildWeeklyReport handles an empty week", () => {
+  const report = buildWeeklyReport({ entries: [], goals: [], weekEnd: "2024-11-03" })
+  assert.equal(report.checkIns, 0)
+  assert.deepEqual(report.mood, { average: null, previousAverage: null, delta: null })
+  assert.equal(report.bestDay, null)
+  assert.equal(report.worstDay, null)
+  assert.equal(report.streak, 0)
+  assert.match(renderWeeklyReportText(report, "https://app.example.com"), /Mood: no check-ins/)
+})
+
+test("renderers share the report and escape user-provided text", () => {
+  const report = buildWeeklyReport({
+    entries: [...entries, entry("2024-11-02", 6, 5, { triggers: ["<script>alert(1)</script>"] })],
+    goals,
+    weekEnd: "2024-11-03",
+  })
+
+  const html = renderWeeklyReportHtml(report, "https://app.example.com/")
+  assert.ok(!html.includes("<script>"))
+  assert.match(html, /&lt;script&gt;/)
+  assert.match(html, /href="https:\/\/app\.example\.com\/this-week"/)
+  assert.match(html, /\+2\.0 vs last week/)
+
+  const text = renderWeeklyReportText(report, "https://app.example.com")
+  assert.match(text, /Goal "Meditate": 3\/7 sessions \(43%\)/)
+  assert.match(text, /https:\/\/app\.example\.com\/this-week/)
+})
@@ -0,0 +1,79 @@
+import test from "node:test"
+import assert from "node:assert/strict"
+import * as webTools from "../lib/mcp-tools"
+import * as serverTools from "../mcp-server/src/tools/wellness-recommendations"
+import type { WellnessRecommendationsInput } from "../lib/mcp-tools"
+
+const fixtures: WellnessRecommendationsInput[] = [
+  { mood: "anxious", moodScore: 4, energyLevel: 6 },
+  { mood: "sad", moodScore: 3, energyLevel: 3, triggers: ["loneliness"] },
+  { mood: "tired", moodScore: 5, energyLevel: 2, preferences: { timeAvailable: 10, environment: "work" } },
+  { mood: "stressed", moodScore: 4, energyLevel: 7, triggers: ["work"], preferences: { activityLevel: "high" } },
+  { mood: "happy", moodScore: 8, energyLevel: 8, preferences: { environment: "outdoor", timeAvailable: 45 } },
+  { mood: "excited", moodScore: 9, energyLevel: 9, preferences: { activityLevel: "low", environment: "home" } },
+]
+
+function titles(items: Array<{ title: string }>): string[] {
+  return items.map((item) => item.title)
+}
+
+async function recommend(input: WellnessRecommendationsInput) {
+  const result = await webTools.generateWellnessRecommendations(input)
+  assert.doesNotThrow(() => serverTools.WellnessRecommendationsOutputSchema.parse(result))
+  return result
+}
+
+test("web routes and the MCP server share one recommendation engine", () => {
+  assert.equal(webTools.generateWellnessRecommendations, serverTools.generateWellnessRecommendations)
+  assert.equal(webTools.WellnessRecommendationsInputSchema, serverTools.WellnessRecommendationsInputSchema)
+})
+
+test("recommendation output matches across surfaces and validates against the schema", async () => {
+  for (const input of fixtures) {
+    const web = await webTools.generateWellnessRecommendations(webTools.WellnessRecommendationsInputSchema.parse(input))
+    const server = await serverTools.generateWellnessRecommendations(
+      serverTools.WellnessRecommendationsInputSchema.parse(input),
+    )
+    assert.deepEqual(web, server)
+    assert.doesNotThrow(() => serverTools.WellnessRecommendationsOutputSchema.parse(web))
+    const total = web.immediate.length + web.shortTerm.length + web.longTerm.length
+    assert.ok(total > 0, `expected recommendations for ${input.mood}`)
+  }
+})
+
+test("triggers named in the check-in add a reflection on them", async () => {
+  const base: WellnessRecommendationsInput = { mood: "sad", moodScore: 3, energyLevel: 4 }
+
+  const without = await recommend(base)
+  const withTriggers = await recommend({ ...base, triggers: ["work", "loneliness"] })
+
+  assert.deepEqual(titles(without.shortTerm), ["Expressive Journaling", "Meaningful Connection"])
+  assert.deepEqual(titles(withTriggers.shortTerm), [
+    "Expressive Journaling",
+    "Meaningful Connection",
+    "Trigger Reflection",
+  ])
+  assert.match(withTriggers.shortTerm[2].description, /work, loneliness/)
+  assert.deepEqual(withTriggers.immediate, without.immediate)
+})
+
+test("preferences.timeAvailable decides whether longer practices are offered", async () => {
+  const base: WellnessRecommendationsInput = { mood: "tired", moodScore: 5, energyLevel: 2, triggers: ["sleep"] }
+
+  const plentyOfTime = await recommend({ ...base, preferences: { timeAvailable: 45 } })
+  const fewMinutes = await recommend({ ...base, preferences: { timeAvailable: 5 } })
+
+  assert.deepEqual(titles(plentyOfTime.shortTerm), ["Power Nap", "Energizing Snack Break", "Trigger Reflection"])
+  assert.deepEqual(titles(fewMinutes.shortTerm), ["Energizing Snack Break"])
+})
+
+test("preferences.environment keeps the outdoor walk away from work check-ins", async () => {
+  const base: WellnessRecommendationsInput = { mood: "anxious", moodScore: 4, energyLevel: 6 }
+
+  const outdoor = await recommend({ ...base, preferences: { environment: "outdoor" } })
+  const atWork = await recommend({ ...base, preferences: { environment: "work" } })
+
+  assert.ok(titles(outdoor.shortTerm).includes("Gentle Walk in Nature"))
+  assert.ok(!titles(atWork.shortTerm).includes("Gentle Walk in Nature"))
+  assert.deepEqual(titles(atWork.shortTerm), ["Guided Body Scan Meditation"])
+})
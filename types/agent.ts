@@ -0,0 +1,45 @@
+import type { MoodAnalysisOutput, UserInsightsOutput } from "@/lib/mcp-tools"
+
+export type AgentResourceType = "music" | "book" | "place" | "quote"
+
+export interface AgentGoal {
+  id: string
+  goal: string
+  target: number
+  current: number
+  unit: string
+  progress: number
+  isActive: boolean
+}
+
+export interface AgentResource {
+  title: string
+  subtitle?: string
+  description?: string
+  url?: string
+}
+
+export type AgentCommandResult =
+  | { kind: "goal_created"; message: string; goal: AgentGoal }
+  | {
+      kind: "goal_progress"
+      message: string
+      goals: AgentGoal[]
+      averageProgress: number
+    }
+  | { kind: "goal_completed"; message: string; goal: AgentGoal }
+  | {
+      kind: "resource"
+      message: string
+      resourceType: AgentResourceType
+      mood: string
+      resource: AgentResource
+    }
+  | { kind: "mood_analysis"; message: string; analysis: MoodAnalysisOutput }
+  | { kind: "insights"; message: string; insights: UserInsightsOutput }
+
+export interface AgentCommandResponse {
+  success: true
+  command: string
+  data: AgentCommandResult
+}
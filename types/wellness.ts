@@ -48,4 +48,32 @@ export interface WellnessSnapshot {
   wellnessGoals: WellnessGoal[]
   aiInsights: AIInsight[]
   energyBuckets: EnergyBucket[]
+  // IANA zone the dates and buckets were computed in (profile time zone, or UTC)
+  timeZone?: string
+}
+
+export interface WeeklyMetric {
+  average: number | null
+  previousAverage: number | null
+  delta: number | null
+}
+
+export interface WeeklyDay {
+  date: string
+  weekday: string
+  mood: number
+}
+
+export interface WeeklyReport {
+  weekStart: string
+  weekEnd: string
+  checkIns: number
+  mood: WeeklyMetric
+  energy: WeeklyMetric
+  bestDay: WeeklyDay | null
+  worstDay: WeeklyDay | null
+  topTriggers: Array<{ trigger: string; occurrences: number }>
+  topCoping: Array<{ strategy: string; averageMood: number }>
+  goals: WellnessGoal[]
+  streak: number
 }